@@ -0,0 +1,81 @@
+// expo-sqlite backed by sql.js, so tests run real SQL without a device.
+// Databases live in memory for the life of the module registry. The asm.js
+// build is used because the wasm one fails to open databases under jest-expo.
+import type { Database, SqlValue } from 'sql.js';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const initSqlJs: typeof import('sql.js').default = require('sql.js/dist/sql-asm.js');
+
+export type SQLiteBindValue = string | number | null | boolean | Uint8Array;
+
+const sqlJs = initSqlJs();
+const files = new Map<string, Database>();
+
+const bind = (params: SQLiteBindValue[] = []): SqlValue[] =>
+  params.map(p => (typeof p === 'boolean' ? (p ? 1 : 0) : p));
+
+export class SQLiteDatabase {
+  constructor(readonly databasePath: string, private readonly db: Database) {}
+
+  async execAsync(source: string): Promise<void> {
+    this.db.exec(source);
+  }
+
+  async runAsync(source: string, params?: SQLiteBindValue[]) {
+    this.db.run(source, bind(params));
+    return { lastInsertRowId: 0, changes: this.db.getRowsModified() };
+  }
+
+  async getAllAsync<T>(source: string, params?: SQLiteBindValue[]): Promise<T[]> {
+    const statement = this.db.prepare(source);
+    try {
+      statement.bind(bind(params));
+      const rows: T[] = [];
+      while (statement.step()) rows.push(statement.getAsObject() as T);
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async getFirstAsync<T>(source: string, params?: SQLiteBindValue[]): Promise<T | null> {
+    return (await this.getAllAsync<T>(source, params))[0] ?? null;
+  }
+
+  async prepareAsync(source: string) {
+    const statement = this.db.prepare(source);
+    return {
+      executeAsync: async (params?: SQLiteBindValue[]) => {
+        statement.run(bind(params));
+        return { lastInsertRowId: 0, changes: this.db.getRowsModified() };
+      },
+      finalizeAsync: async () => {
+        statement.free();
+      },
+    };
+  }
+
+  async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+    this.db.exec('BEGIN');
+    try {
+      await task();
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  async closeAsync(): Promise<void> {}
+}
+
+export async function openDatabaseAsync(name: string): Promise<SQLiteDatabase> {
+  const SQL = await sqlJs;
+  if (!files.has(name)) files.set(name, new SQL.Database());
+  return new SQLiteDatabase(name, files.get(name)!);
+}
+
+export async function deleteDatabaseAsync(name: string): Promise<void> {
+  files.get(name)?.close();
+  files.delete(name);
+}
@@ -17,19 +17,11 @@ import Animated, { FadeInDown } from 'react-native-reanimated';
 import { useShop } from '@/lib/shop-context';
 import { useThemeColors } from '@/constants/colors';
 import { formatCurrency } from '@/lib/format';
+import { productLabel } from '@/lib/variants';
 import { useToast } from '@/lib/toast-context';
 import dayjs from 'dayjs';
 import { AIChatModal } from '@/components/AIChatModal';
-
-function formatRelativeTime(date: Date): string {
-  const diffMs = Date.now() - date.getTime();
-  const diffMins = Math.floor(diffMs / 60000);
-  if (diffMins < 1) return 'Just now';
-  if (diffMins < 60) return `${diffMins}m ago`;
-  const diffHours = Math.floor(diffMins / 60);
-  if (diffHours < 24) return `${diffHours}h ago`;
-  return `${Math.floor(diffHours / 24)}d ago`;
-}
+import { SyncStatusIndicator } from '@/components/SyncStatusIndicator';
 
 function SectionHeader({
   title,
@@ -94,7 +86,7 @@ export default function HomeScreen() {
   const colorScheme = useColorScheme();
   const colors = useThemeColors(colorScheme);
   const insets = useSafeAreaInsets();
-  const { todaySales, todayRevenue, todayItemsSold, lowStockProducts, products, sales, shopProfile, isLoading, syncNow, isSyncing, lastSyncAt } = useShop();
+  const { todaySales, todayRevenue, todayItemsSold, lowStockProducts, products, sales, shopProfile, isLoading } = useShop();
   const toast = useToast();
   const alertedRef = useRef(false);
   const [showChat, setShowChat] = useState(false);
@@ -108,7 +100,7 @@ export default function HomeScreen() {
     if (outOfStock.length > 0) {
       toast.error(
         outOfStock.length === 1
-          ? `${outOfStock[0].name} is out of stock`
+          ? `${productLabel(outOfStock[0])} is out of stock`
           : `${outOfStock.length} products are out of stock`,
         'Out of Stock',
       );
@@ -116,7 +108,7 @@ export default function HomeScreen() {
     if (lowStock.length > 0) {
       toast.warning(
         lowStock.length === 1
-          ? `${lowStock[0].name} is running low (${lowStock[0].stock} left)`
+          ? `${productLabel(lowStock[0])} is running low (${lowStock[0].stock} left)`
           : `${lowStock.length} products are running low on stock`,
         'Low Stock',
       );
@@ -152,26 +144,9 @@ export default function HomeScreen() {
             <Text style={[styles.title, { color: colors.text }]}>ShopTally</Text>
             <Text style={[styles.dateText, { color: colors.textMuted }]}>{dayjs().format('dddd, MMMM D, YYYY')}</Text>
           </View>
-          <Pressable
-            style={({ pressed }) => [
-              styles.syncBtn,
-              { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: pressed ? 0.85 : 1 },
-            ]}
-            onPress={() => {
-              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-              syncNow();
-            }}
-            disabled={isSyncing}
-          >
-            {isSyncing ? (
-              <ActivityIndicator size="small" color={colors.primary} />
-            ) : (
-              <Ionicons name="cloud-upload-outline" size={20} color={colors.primary} />
-            )}
-            <Text style={[styles.syncBtnLabel, { color: colors.textMuted }]}>
-              {lastSyncAt ? formatRelativeTime(lastSyncAt) : 'Sync'}
-            </Text>
-          </Pressable>
+          <View style={styles.syncIndicator}>
+            <SyncStatusIndicator />
+          </View>
         </Animated.View>
 
         {/* Revenue card */}
@@ -314,7 +289,7 @@ export default function HomeScreen() {
                   <Ionicons name="warning" size={18} color={colors.danger} />
                 </View>
                 <View style={styles.alertContent}>
-                  <Text style={[styles.alertName, { color: colors.text }]}>{product.name}</Text>
+                  <Text style={[styles.alertName, { color: colors.text }]}>{productLabel(product)}</Text>
                   <Text style={[styles.alertStock, { color: colors.danger }]}>
                     {product.stock === 0 ? 'Out of stock' : `${product.stock} left`}
                   </Text>
@@ -440,17 +415,7 @@ const styles = StyleSheet.create({
   greeting: { fontFamily: 'Poppins_400Regular', fontSize: 14, marginBottom: 2 },
   title: { fontFamily: 'Poppins_700Bold', fontSize: 30, marginBottom: 2 },
   dateText: { fontFamily: 'Poppins_400Regular', fontSize: 13, marginBottom: 20 },
-  syncBtn: {
-    alignItems: 'center',
-    justifyContent: 'center',
-    paddingHorizontal: 12,
-    paddingVertical: 8,
-    borderRadius: 12,
-    borderWidth: 1,
-    gap: 4,
-    marginTop: 4,
-  },
-  syncBtnLabel: { fontFamily: 'Poppins_400Regular', fontSize: 10 },
+  syncIndicator: { marginTop: 4 },
 
   // Revenue card
   revenueCard: {
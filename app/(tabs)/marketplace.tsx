@@ -22,6 +22,7 @@ import { useTranslation } from 'react-i18next';
 import { useShop } from '@/lib/shop-context';
 import { useThemeColors } from '@/constants/colors';
 import { formatCurrency } from '@/lib/format';
+import { groupStock, topLevelProducts } from '@/lib/variants';
 import { Product, MarketplaceListing } from '@/lib/types';
 import { generateProductDescription } from '@/lib/ai';
 
@@ -182,7 +183,14 @@ export default function MarketplaceScreen() {
 
   const topInset = Platform.OS === 'web' ? 67 : insets.top;
 
-  const listedCount = useMemo(() => products.filter(p => p.isMarketplace).length, [products]);
+  // Variants are listed through their parent, never on their own
+  const listed = useMemo(() => topLevelProducts(products), [products]);
+  const listedCount = useMemo(() => listed.filter(p => p.isMarketplace).length, [listed]);
+  const variantCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const p of products) if (p.parentId) counts.set(p.parentId, (counts.get(p.parentId) ?? 0) + 1);
+    return counts;
+  }, [products]);
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -190,7 +198,7 @@ export default function MarketplaceScreen() {
         <View>
           <Text style={[styles.title, { color: colors.text }]}>{t('marketplace')}</Text>
           <Text style={[styles.subtitle, { color: colors.textMuted }]}>
-            {listedCount} listed · {products.length} total
+            {listedCount} listed · {listed.length} total
           </Text>
         </View>
         {listedCount > 0 && (
@@ -202,11 +210,11 @@ export default function MarketplaceScreen() {
       </View>
 
       <FlatList
-        data={products}
+        data={listed}
         keyExtractor={item => item.id}
         contentContainerStyle={[styles.listContent, { paddingBottom: 100 }]}
         showsVerticalScrollIndicator={false}
-        scrollEnabled={!!products.length}
+        scrollEnabled={!!listed.length}
         renderItem={({ item, index }) => (
           <Animated.View entering={FadeInDown.delay(Math.min(index * 40, 400)).duration(300).springify()}>
             <View style={[
@@ -228,7 +236,10 @@ export default function MarketplaceScreen() {
                 <View style={styles.productInfo}>
                   <Text style={[styles.productName, { color: colors.text }]} numberOfLines={1}>{item.name}</Text>
                   <Text style={[styles.productPrice, { color: colors.primary }]}>{formatCurrency(item.price)}</Text>
-                  <Text style={[styles.productStock, { color: colors.textMuted }]}>{item.stock} {t('inStock')}</Text>
+                  <Text style={[styles.productStock, { color: colors.textMuted }]}>
+                    {groupStock(item, products)} {t('inStock')}
+                    {variantCounts.has(item.id) ? ` · ${t('variantsCount', { count: variantCounts.get(item.id) })}` : ''}
+                  </Text>
                 </View>
                 <Switch
                   value={item.isMarketplace}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -21,11 +21,15 @@ import Animated, { FadeInDown } from 'react-native-reanimated';
 import { useTranslation } from 'react-i18next';
 import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
 import { KeyboardAwareScrollViewCompat } from '@/components/KeyboardAwareScrollViewCompat';
+import { SyncStatusIndicator } from '@/components/SyncStatusIndicator';
+import { ShopSwitcher } from '@/components/ShopSwitcher';
 import { useShop } from '@/lib/shop-context';
 import { useAuth } from '@/lib/auth-context';
 import { useToast } from '@/lib/toast-context';
 import { useThemeColors } from '@/constants/colors';
 import i18n from '@/lib/i18n';
+import { isPromoCodeCurrent } from '@/lib/pricing';
+import { formatCurrency } from '@/lib/format';
 
 function formatRelativeTime(date: Date): string {
   const diffMs = Date.now() - date.getTime();
@@ -91,7 +95,7 @@ export default function MyShopScreen() {
   const colorScheme = useColorScheme();
   const colors = useThemeColors(colorScheme);
   const insets = useSafeAreaInsets();
-  const { shopProfile, updateShopProfile, products, staff, syncNow, isSyncing, lastSyncAt } = useShop();
+  const { shopProfile, updateShopProfile, products, staff, customers, creditAccounts, syncNow, isSyncing, lastSyncAt, syncDeadLetters, isLoading } = useShop();
   const { user } = useAuth();
   const toast = useToast();
   const { t } = useTranslation();
@@ -107,6 +111,25 @@ export default function MyShopScreen() {
   const [hours, setHours] = useState(shopProfile.openingHours);
   const [language, setLanguage] = useState(shopProfile.language);
 
+  // Refill the form once a shop's data has loaded, e.g. after switching shops
+  useEffect(() => {
+    if (isLoading) return;
+    setName(shopProfile.name);
+    setBio(shopProfile.bio);
+    setPhone(shopProfile.phone);
+    setAddress(shopProfile.address);
+    setSlug(shopProfile.slug);
+    setDeliveryRadius(shopProfile.deliveryRadius.toString());
+    setLogoUri(shopProfile.logoUri);
+    setBannerUri(shopProfile.bannerUri);
+    setHours(shopProfile.openingHours);
+    setLanguage(shopProfile.language);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading]);
+
+  const activePromoCodes = (shopProfile.promoCodes ?? []).filter(p => isPromoCodeCurrent(p)).length;
+  const creditOutstanding = creditAccounts.reduce((sum, a) => sum + Math.max(0, a.balance), 0);
+
   const tabBarHeight = useBottomTabBarHeight();
   const topInset = Platform.OS === 'web' ? 67 : insets.top;
   const bottomInset = Platform.OS === 'web' ? 34 : tabBarHeight;
@@ -157,8 +180,12 @@ export default function MyShopScreen() {
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       {/* Header */}
       <View style={[styles.header, { paddingTop: topInset + 12 }]}>
-        <Text style={[styles.title, { color: colors.text }]}>{t('myShop')}</Text>
+        <View style={{ flexShrink: 1 }}>
+          <Text style={[styles.title, { color: colors.text }]}>{t('myShop')}</Text>
+          <ShopSwitcher />
+        </View>
         <View style={styles.headerActions}>
+          <SyncStatusIndicator />
           <Pressable
             onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); router.push('/staff-management'); }}
             style={({ pressed }) => [styles.iconBtn, { backgroundColor: colors.surfaceElevated, borderColor: colors.border, opacity: pressed ? 0.9 : 1 }]}
@@ -170,6 +197,11 @@ export default function MyShopScreen() {
             style={({ pressed }) => [styles.iconBtn, { backgroundColor: colors.surfaceElevated, borderColor: colors.border, opacity: pressed ? 0.9 : 1 }]}
           >
             <Ionicons name="settings-outline" size={20} color={colors.textSecondary} />
+            {user?.role === 'owner' && syncDeadLetters.length > 0 && (
+              <View style={[styles.iconBadge, { backgroundColor: colors.danger, borderColor: colors.surfaceElevated }]}>
+                <Text style={styles.iconBadgeText}>{syncDeadLetters.length}</Text>
+              </View>
+            )}
           </Pressable>
         </View>
       </View>
@@ -403,6 +435,172 @@ export default function MyShopScreen() {
           </Pressable>
         </Animated.View>
 
+        {/* Promo Codes */}
+        <Animated.View entering={FadeInDown.delay(345).duration(400).springify()}>
+          <Pressable
+            style={[styles.paymentRow, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              if (user?.role !== 'owner') {
+                toast.warning(t('ownerOnlyFeature'), t('ownerOnlyTitle'));
+                return;
+              }
+              router.push('/promo-codes');
+            }}
+          >
+            <View style={styles.paymentLeft}>
+              <View style={[styles.paymentIcon, { backgroundColor: colors.primary + '18' }]}>
+                <Ionicons name="pricetags-outline" size={20} color={colors.primary} />
+              </View>
+              <View>
+                <Text style={[styles.paymentLabel, { color: colors.text }]}>{t('promoCodes')}</Text>
+                <Text style={[styles.paymentSub, { color: colors.textMuted }]}>
+                  {activePromoCodes > 0 ? t('promoCodesCount', { count: activePromoCodes }) : t('promoCodesSub')}
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+        </Animated.View>
+
+        {/* Tax */}
+        <Animated.View entering={FadeInDown.delay(355).duration(400).springify()}>
+          <Pressable
+            style={[styles.paymentRow, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              if (user?.role !== 'owner') {
+                toast.warning(t('ownerOnlyFeature'), t('ownerOnlyTitle'));
+                return;
+              }
+              router.push('/tax-settings');
+            }}
+          >
+            <View style={styles.paymentLeft}>
+              <View style={[styles.paymentIcon, { backgroundColor: colors.primary + '18' }]}>
+                <Ionicons name="receipt-outline" size={20} color={colors.primary} />
+              </View>
+              <View>
+                <Text style={[styles.paymentLabel, { color: colors.text }]}>{t('taxSettings')}</Text>
+                <Text style={[styles.paymentSub, { color: colors.textMuted }]}>
+                  {shopProfile.taxSettings.enabled
+                    ? t('taxSettingsActive', { name: shopProfile.taxSettings.name, rate: shopProfile.taxSettings.rate })
+                    : t('taxSettingsSub')}
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+        </Animated.View>
+
+        {/* Loyalty */}
+        <Animated.View entering={FadeInDown.delay(357).duration(400).springify()}>
+          <Pressable
+            style={[styles.paymentRow, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              if (user?.role !== 'owner') {
+                toast.warning(t('ownerOnlyFeature'), t('ownerOnlyTitle'));
+                return;
+              }
+              router.push('/loyalty-settings');
+            }}
+          >
+            <View style={styles.paymentLeft}>
+              <View style={[styles.paymentIcon, { backgroundColor: colors.primary + '18' }]}>
+                <Ionicons name="star-outline" size={20} color={colors.primary} />
+              </View>
+              <View>
+                <Text style={[styles.paymentLabel, { color: colors.text }]}>{t('loyaltySettings')}</Text>
+                <Text style={[styles.paymentSub, { color: colors.textMuted }]}>
+                  {shopProfile.loyaltySettings.enabled
+                    ? t('loyaltySettingsActive', { spend: formatCurrency(shopProfile.loyaltySettings.spendPerPoint) })
+                    : t('loyaltySettingsSub')}
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+        </Animated.View>
+
+        {/* Approval PIN */}
+        <Animated.View entering={FadeInDown.delay(360).duration(400).springify()}>
+          <Pressable
+            style={[styles.paymentRow, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              if (user?.role !== 'owner') {
+                toast.warning(t('ownerOnlyFeature'), t('ownerOnlyTitle'));
+                return;
+              }
+              router.push('/approval-pin');
+            }}
+          >
+            <View style={styles.paymentLeft}>
+              <View style={[styles.paymentIcon, { backgroundColor: colors.primary + '18' }]}>
+                <Ionicons name="key-outline" size={20} color={colors.primary} />
+              </View>
+              <View>
+                <Text style={[styles.paymentLabel, { color: colors.text }]}>{t('approvalPin')}</Text>
+                <Text style={[styles.paymentSub, { color: colors.textMuted }]}>
+                  {staff.some(s => s.role === 'owner' && s.isActive && s.hasPin) ? t('approvalPinSet') : t('approvalPinSub')}
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+        </Animated.View>
+
+        {/* Customers */}
+        <Animated.View entering={FadeInDown.delay(361).duration(400).springify()}>
+          <Pressable
+            style={[styles.paymentRow, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push('/customers');
+            }}
+          >
+            <View style={styles.paymentLeft}>
+              <View style={[styles.paymentIcon, { backgroundColor: colors.primary + '18' }]}>
+                <Ionicons name="people-outline" size={20} color={colors.primary} />
+              </View>
+              <View>
+                <Text style={[styles.paymentLabel, { color: colors.text }]}>{t('customers')}</Text>
+                <Text style={[styles.paymentSub, { color: colors.textMuted }]}>
+                  {customers.length > 0 ? t('customersCount', { count: customers.length }) : t('customersSub')}
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+        </Animated.View>
+
+        {/* Credit accounts */}
+        <Animated.View entering={FadeInDown.delay(362).duration(400).springify()}>
+          <Pressable
+            style={[styles.paymentRow, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push('/credit-accounts');
+            }}
+          >
+            <View style={styles.paymentLeft}>
+              <View style={[styles.paymentIcon, { backgroundColor: colors.primary + '18' }]}>
+                <Ionicons name="book-outline" size={20} color={colors.primary} />
+              </View>
+              <View>
+                <Text style={[styles.paymentLabel, { color: colors.text }]}>{t('creditAccounts')}</Text>
+                <Text style={[styles.paymentSub, { color: colors.textMuted }]}>
+                  {creditOutstanding > 0
+                    ? t('creditAccountsOwed', { amount: formatCurrency(creditOutstanding) })
+                    : t('creditAccountsSub')}
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+        </Animated.View>
+
         {/* Sync */}
         <Animated.View entering={FadeInDown.delay(365).duration(400).springify()}>
           <Pressable
@@ -487,6 +685,12 @@ const styles = StyleSheet.create({
     width: 40, height: 40, borderRadius: 12, borderWidth: 1,
     alignItems: 'center', justifyContent: 'center',
   },
+  iconBadge: {
+    position: 'absolute', top: -6, right: -6,
+    minWidth: 18, height: 18, borderRadius: 9, borderWidth: 2, paddingHorizontal: 4,
+    alignItems: 'center', justifyContent: 'center',
+  },
+  iconBadgeText: { fontFamily: 'Poppins_600SemiBold', fontSize: 10, color: '#fff' },
   form: { paddingHorizontal: 16 },
 
   // Banner
@@ -15,12 +15,15 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 import dayjs from 'dayjs';
 import { useTranslation } from 'react-i18next';
 import { useShop } from '@/lib/shop-context';
 import { useThemeColors } from '@/constants/colors';
 import { formatCurrency } from '@/lib/format';
+import { whatsappNumber } from '@/lib/credit';
+import { normalizeCustomerName, normalizePhone } from '@/lib/customers';
 import { Order, OrderStatus } from '@/lib/types';
 
 const STATUS_FLOW: OrderStatus[] = ['new', 'accepted', 'preparing', 'ready', 'delivered'];
@@ -70,9 +73,18 @@ function AddOrderModal({
   visible: boolean;
   colors: ReturnType<typeof useThemeColors>;
   onClose: () => void;
-  onSave: (order: { customerName: string; customerPhone: string; deliveryAddress: string; notes: string; total: number }) => void;
+  onSave: (order: {
+    customerName: string;
+    customerPhone: string;
+    customerId: string | null;
+    deliveryAddress: string;
+    notes: string;
+    total: number;
+  }) => void;
 }) {
   const { t } = useTranslation();
+  const { customers } = useShop();
+  const [customerId, setCustomerId] = useState<string | null>(null);
   const [name, setName] = useState('');
   const [phone, setPhone] = useState('');
   const [address, setAddress] = useState('');
@@ -81,6 +93,27 @@ function AddOrderModal({
   const insets = useSafeAreaInsets();
   const topInset = Platform.OS === 'web' ? 67 : insets.top;
 
+  // Saved customers matching the name or number typed so far
+  const suggestions = useMemo(() => {
+    if (customerId) return [];
+    const q = normalizeCustomerName(name);
+    const digits = normalizePhone(phone);
+    if (!q && !digits) return [];
+    return customers
+      .filter(c => (!!q && normalizeCustomerName(c.name).includes(q)) || (!!digits && normalizePhone(c.phone).includes(digits)))
+      .slice(0, 4);
+  }, [customers, customerId, name, phone]);
+
+  const handlePick = (id: string) => {
+    const customer = customers.find(c => c.id === id);
+    if (!customer) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setCustomerId(customer.id);
+    setName(customer.name);
+    setPhone(customer.phone);
+    if (customer.address) setAddress(customer.address);
+  };
+
   const handleSave = () => {
     if (!name.trim()) { Alert.alert('Missing', 'Customer name is required'); return; }
     if (!total || parseFloat(total) <= 0) { Alert.alert('Missing', 'Order total is required'); return; }
@@ -88,11 +121,12 @@ function AddOrderModal({
     onSave({
       customerName: name.trim(),
       customerPhone: phone.trim(),
+      customerId,
       deliveryAddress: address.trim(),
       notes: notes.trim(),
       total: parseFloat(total),
     });
-    setName(''); setPhone(''); setAddress(''); setNotes(''); setTotal('');
+    setCustomerId(null); setName(''); setPhone(''); setAddress(''); setNotes(''); setTotal('');
   };
 
   return (
@@ -111,13 +145,27 @@ function AddOrderModal({
           <Text style={[modalStyles.label, { color: colors.textSecondary }]}>{t('customerName')}</Text>
           <TextInput
             style={[modalStyles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
-            value={name} onChangeText={setName}
+            value={name} onChangeText={v => { setName(v); setCustomerId(null); }}
             placeholder="e.g. Aisha Ibrahim" placeholderTextColor={colors.textMuted}
           />
+          {suggestions.length > 0 && (
+            <View style={modalStyles.chips}>
+              {suggestions.map(c => (
+                <Pressable
+                  key={c.id}
+                  style={[modalStyles.chip, { backgroundColor: colors.surfaceElevated, borderColor: colors.border }]}
+                  onPress={() => handlePick(c.id)}
+                >
+                  <Text style={[modalStyles.chipText, { color: colors.text }]}>{c.name}</Text>
+                  {!!c.phone && <Text style={[modalStyles.chipSub, { color: colors.textMuted }]}>{c.phone}</Text>}
+                </Pressable>
+              ))}
+            </View>
+          )}
           <Text style={[modalStyles.label, { color: colors.textSecondary }]}>{t('phone')}</Text>
           <TextInput
             style={[modalStyles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
-            value={phone} onChangeText={setPhone}
+            value={phone} onChangeText={v => { setPhone(v); setCustomerId(null); }}
             placeholder="e.g. 08012345678" placeholderTextColor={colors.textMuted}
             keyboardType="phone-pad"
           />
@@ -165,6 +213,10 @@ const modalStyles = StyleSheet.create({
   label: { fontFamily: 'Poppins_500Medium', fontSize: 12, marginBottom: 6, marginTop: 12, textTransform: 'uppercase', letterSpacing: 0.5 },
   input: { fontFamily: 'Poppins_400Regular', fontSize: 15, height: 50, borderRadius: 14, borderWidth: 1, paddingHorizontal: 16 },
   textArea: { height: 90, paddingTop: 14, textAlignVertical: 'top' },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 10, borderWidth: 1 },
+  chipText: { fontFamily: 'Poppins_500Medium', fontSize: 13 },
+  chipSub: { fontFamily: 'Poppins_400Regular', fontSize: 11 },
   saveBtn: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', paddingVertical: 16, borderRadius: 16, marginTop: 24, gap: 8 },
   saveBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 16, color: '#fff' },
 });
@@ -201,9 +253,7 @@ export default function OrdersScreen() {
   }, [updateOrderStatus]);
 
   const openWhatsApp = useCallback((phone: string) => {
-    const cleaned = phone.replace(/\D/g, '');
-    const url = `https://wa.me/${cleaned.startsWith('0') ? '234' + cleaned.slice(1) : cleaned}`;
-    Linking.openURL(url);
+    Linking.openURL(`https://wa.me/${whatsappNumber(phone)}`);
   }, []);
 
   const tabs: { key: OrderStatus | 'all'; label: string }[] = [
@@ -300,7 +350,12 @@ export default function OrdersScreen() {
                   </View>
 
                   <View style={styles.orderInfo}>
-                    <Text style={[styles.orderCustomer, { color: colors.text }]}>{item.customerName}</Text>
+                    <Pressable
+                      disabled={!item.customerId}
+                      onPress={() => router.push({ pathname: '/customer-detail', params: { customerId: item.customerId ?? '' } })}
+                    >
+                      <Text style={[styles.orderCustomer, { color: colors.text }]}>{item.customerName}</Text>
+                    </Pressable>
                     <Text style={[styles.orderTotal, { color: colors.primary }]}>{formatCurrency(item.total)}</Text>
                   </View>
 
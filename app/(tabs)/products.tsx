@@ -22,6 +22,10 @@ import dayjs from 'dayjs';
 import { useShop } from '@/lib/shop-context';
 import { useThemeColors } from '@/constants/colors';
 import { formatCurrency } from '@/lib/format';
+import { findByBarcode } from '@/lib/units';
+import { isBundle } from '@/lib/bundles';
+import { groupStock, productLabel, stockedProducts, topLevelProducts, variantsOf } from '@/lib/variants';
+import type { Product } from '@/lib/types';
 import { useToast } from '@/lib/toast-context';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { AIStockModal } from '@/components/AIStockModal';
@@ -40,15 +44,18 @@ export default function ProductsScreen() {
 
   const topInset = Platform.OS === 'web' ? 67 : insets.top;
 
+  // Variants are listed under their parent, which matches when any of them does
+  const listed = useMemo(() => topLevelProducts(products), [products]);
   const filtered = useMemo(() => {
-    if (!search.trim()) return products;
+    if (!search.trim()) return listed;
     const q = search.toLowerCase();
-    return products.filter(p =>
+    const matches = (p: Product) =>
       p.name.toLowerCase().includes(q) ||
       p.category.toLowerCase().includes(q) ||
-      (p.barcode && p.barcode.toLowerCase().includes(q))
-    );
-  }, [products, search]);
+      !!p.variantName?.toLowerCase().includes(q) ||
+      !!p.barcode?.toLowerCase().includes(q);
+    return listed.filter(p => matches(p) || variantsOf(products, p.id).some(matches));
+  }, [products, listed, search]);
 
   const handleExport = useCallback(async () => {
     if (products.length === 0) {
@@ -59,8 +66,8 @@ export default function ProductsScreen() {
     try {
       const escape = (s: string) => `"${String(s).replace(/"/g, '""')}"`;
       const header = 'Name,Price (₦),Stock,Category,Low Stock Alert,Created\n';
-      const rows = products.map(p =>
-        [escape(p.name), p.price, p.stock, escape(p.category), p.lowStockThreshold, dayjs(p.createdAt).format('YYYY-MM-DD')].join(',')
+      const rows = stockedProducts(products).map(p =>
+        [escape(productLabel(p)), p.price, p.stock, escape(p.category), p.lowStockThreshold, dayjs(p.createdAt).format('YYYY-MM-DD')].join(',')
       ).join('\n');
       const csv = header + rows;
       const fileName = `stock-${dayjs().format('YYYY-MM-DD')}.csv`;
@@ -89,7 +96,7 @@ export default function ProductsScreen() {
     ]);
   };
 
-  const lowStockCount = products.filter(p => p.stock <= p.lowStockThreshold).length;
+  const lowStockCount = stockedProducts(products).filter(p => p.stock <= p.lowStockThreshold).length;
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -97,7 +104,7 @@ export default function ProductsScreen() {
         <View>
           <Text style={[styles.title, { color: colors.text }]}>Products</Text>
           <Text style={[styles.subtitle, { color: colors.textMuted }]}>
-            {search ? `${filtered.length} of ${products.length}` : `${products.length} item${products.length !== 1 ? 's' : ''}`}
+            {search ? `${filtered.length} of ${listed.length}` : `${listed.length} item${listed.length !== 1 ? 's' : ''}`}
             {!search && lowStockCount > 0 ? ` · ${lowStockCount} low` : ''}
           </Text>
         </View>
@@ -165,8 +172,12 @@ export default function ProductsScreen() {
         showsVerticalScrollIndicator={false}
         scrollEnabled={!!filtered.length}
         renderItem={({ item, index }) => {
-          const isLow = item.stock <= item.lowStockThreshold;
-          const isOut = item.stock === 0;
+          const variants = variantsOf(products, item.id);
+          const stock = groupStock(item, products);
+          const isLow = variants.length > 0
+            ? variants.some(v => v.stock <= v.lowStockThreshold)
+            : stock <= item.lowStockThreshold;
+          const isOut = stock === 0;
           const accentColor = isOut ? colors.danger : isLow ? '#D97706' : colors.success;
           return (
             <Animated.View entering={FadeInDown.delay(index * 50).duration(300).springify()}>
@@ -197,9 +208,12 @@ export default function ProductsScreen() {
                   </Text>
                   <Text style={[styles.productCategory, { color: colors.textMuted }]}>
                     {item.category || 'General'}
+                    {variants.length > 0 ? ` · ${variants.length} variants` : isBundle(item) ? ' · bundle' : ''}
                   </Text>
                   <Text style={[styles.productPrice, { color: colors.primary }]}>
-                    {formatCurrency(item.price)}
+                    {variants.length > 0
+                      ? `from ${formatCurrency(Math.min(...variants.map(v => v.price)))}`
+                      : formatCurrency(item.price)}
                   </Text>
                 </View>
                 <View style={styles.productRight}>
@@ -221,7 +235,7 @@ export default function ProductsScreen() {
                         { color: isOut ? colors.danger : isLow ? '#D97706' : colors.success },
                       ]}
                     >
-                      {item.stock}
+                      {stock}
                     </Text>
                     <Text
                       style={[
@@ -268,9 +282,9 @@ export default function ProductsScreen() {
         onScan={(code) => {
           setShowScanner(false);
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-          const match = products.find(p => p.barcode === code);
+          const match = findByBarcode(products, code);
           if (match) {
-            router.push({ pathname: '/edit-product', params: { productId: match.id } });
+            router.push({ pathname: '/edit-product', params: { productId: match.product.id } });
           } else {
             setSearch(code);
           }
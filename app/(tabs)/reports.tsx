@@ -17,7 +17,11 @@ import { router } from 'expo-router';
 import { useShop } from '@/lib/shop-context';
 import { useThemeColors } from '@/constants/colors';
 import { formatCurrency } from '@/lib/format';
+import { saleGrossTotal, saleDiscountTotal, saleReturnValue } from '@/lib/pricing';
+import { totalAgeing } from '@/lib/credit';
+import { lineKey } from '@/lib/units';
 import { AIInsightsCard } from '@/components/AIInsightsCard';
+import type { Sale } from '@/lib/types';
 
 type Period = 'week' | 'month';
 
@@ -59,7 +63,7 @@ export default function ReportsScreen() {
   const colorScheme = useColorScheme();
   const colors = useThemeColors(colorScheme);
   const insets = useSafeAreaInsets();
-  const { sales, products, expenses } = useShop();
+  const { sales, saleReturns, products, expenses, shopProfile, creditAccounts, creditPayments } = useShop();
   const [period, setPeriod] = useState<Period>('week');
 
   const topInset = Platform.OS === 'web' ? 67 : insets.top;
@@ -70,7 +74,7 @@ export default function ReportsScreen() {
       for (let i = 6; i >= 0; i--) {
         const date = dayjs().subtract(i, 'day');
         const dayTotal = sales
-          .filter(s => dayjs(s.createdAt).isSame(date, 'day'))
+          .filter(s => !s.voidedAt && dayjs(s.createdAt).isSame(date, 'day'))
           .reduce((sum, s) => sum + s.total, 0);
         days.push({ label: date.format('ddd'), value: dayTotal });
       }
@@ -83,7 +87,7 @@ export default function ReportsScreen() {
         const weekTotal = sales
           .filter(s => {
             const d = dayjs(s.createdAt);
-            return d.isAfter(weekStart.subtract(1, 'day')) && d.isBefore(weekEnd);
+            return !s.voidedAt && d.isAfter(weekStart.subtract(1, 'day')) && d.isBefore(weekEnd);
           })
           .reduce((sum, s) => sum + s.total, 0);
         weeks.push({
@@ -98,31 +102,83 @@ export default function ReportsScreen() {
   const periodSales = useMemo(() => {
     const now = dayjs();
     const days = period === 'week' ? 7 : 30;
-    return sales.filter(s => dayjs(s.createdAt).isAfter(now.subtract(days, 'day')));
+    return sales.filter(s => !s.voidedAt && dayjs(s.createdAt).isAfter(now.subtract(days, 'day')));
   }, [sales, period]);
 
-  const totalRevenue = useMemo(() => periodSales.reduce((sum, s) => sum + s.total, 0), [periodSales]);
+  // Returns land in the period they were refunded, not the period of the original sale
+  const periodReturns = useMemo(() => {
+    const now = dayjs();
+    const days = period === 'week' ? 7 : 30;
+    return saleReturns.filter(r => dayjs(r.createdAt).isAfter(now.subtract(days, 'day')));
+  }, [saleReturns, period]);
+
+  const salesRevenue = useMemo(() => periodSales.reduce((sum, s) => sum + s.total, 0), [periodSales]);
+  const totalRefunds = useMemo(() => periodReturns.reduce((sum, r) => sum + saleReturnValue(r), 0), [periodReturns]);
+  const totalRevenue = salesRevenue - totalRefunds;
+  // Discounts are money given away on purpose, so they show as their own line
+  // between gross sales and revenue rather than disappearing from the totals
+  const grossSales = useMemo(() => periodSales.reduce((sum, s) => sum + saleGrossTotal(s), 0), [periodSales]);
+  const totalDiscounts = useMemo(() => periodSales.reduce((sum, s) => sum + saleDiscountTotal(s), 0), [periodSales]);
+  // Tax is collected for the government, not earned, so profit is worked out without it
+  const taxedSales = useMemo(() => periodSales.filter(s => (s.tax ?? 0) > 0), [periodSales]);
+  const returnedTax = useMemo(() => periodReturns.reduce((sum, r) => sum + r.tax, 0), [periodReturns]);
+  const totalTax = useMemo(
+    () => taxedSales.reduce((sum, s) => sum + s.tax, 0) - returnedTax,
+    [taxedSales, returnedTax]
+  );
+  const taxableSales = useMemo(
+    () => taxedSales.reduce((sum, s) => sum + s.total - s.tax, 0)
+      - periodReturns.filter(r => r.tax > 0).reduce((sum, r) => sum + saleReturnValue(r) - r.tax, 0),
+    [taxedSales, periodReturns]
+  );
+  const taxName = shopProfile.taxSettings.name;
   const totalItems = useMemo(
-    () => periodSales.reduce((sum, s) => sum + s.items.reduce((iSum, item) => iSum + item.quantity, 0), 0),
+    () => periodSales.reduce((sum, s) => sum + s.items.reduce((iSum, item) => iSum + item.quantity * (item.unitFactor ?? 1), 0), 0),
     [periodSales]
   );
   const avgSale = periodSales.length > 0 ? totalRevenue / periodSales.length : 0;
 
+  // What customers still owe across all time, and what they paid back this period
+  const creditAgeing = useMemo(() => totalAgeing(creditAccounts), [creditAccounts]);
+  const creditOutstanding = creditAgeing.current + creditAgeing.days31to60 + creditAgeing.over60;
+  const creditCollected = useMemo(() => {
+    const now = dayjs();
+    const days = period === 'week' ? 7 : 30;
+    return creditPayments
+      .filter(p => dayjs(p.createdAt).isAfter(now.subtract(days, 'day')))
+      .reduce((sum, p) => sum + p.amount, 0);
+  }, [creditPayments, period]);
+
   const periodExpenses = useMemo(() => {
     const now = dayjs();
     const days = period === 'week' ? 7 : 30;
     return expenses.filter(e => dayjs(e.date).isAfter(now.subtract(days, 'day').subtract(1, 'ms')));
   }, [expenses, period]);
 
+  // Goods put back on the shelf were never really sold, so their cost comes back
+  // out of COGS; items returned damaged stay a cost to the shop
+  const restockedCost = useMemo(() => {
+    const saleById = new Map(sales.map(s => [s.id, s]));
+    return periodReturns.reduce((sum, r) => {
+      const sale = saleById.get(r.saleId);
+      if (!sale) return sum;
+      return sum + r.items.reduce((iSum, item) => {
+        if (!item.restock) return iSum;
+        const line = sale.items.find(i => lineKey(i.productId, i.unitId) === lineKey(item.productId, item.unitId));
+        return iSum + (line?.costPrice ?? 0) * item.quantity;
+      }, 0);
+    }, 0);
+  }, [sales, periodReturns]);
+
   const totalCOGS = useMemo(() =>
     periodSales.reduce((sum, s) =>
-      sum + s.items.reduce((iSum, item) => iSum + (item.costPrice ?? 0) * item.quantity, 0), 0),
-  [periodSales]);
+      sum + s.items.reduce((iSum, item) => iSum + (item.costPrice ?? 0) * item.quantity, 0), 0) - restockedCost,
+  [periodSales, restockedCost]);
 
-  const grossProfit = totalRevenue - totalCOGS;
+  const grossProfit = totalRevenue - totalTax - totalCOGS;
   const totalExpenses = useMemo(() => periodExpenses.reduce((sum, e) => sum + e.amount, 0), [periodExpenses]);
   const netProfit = grossProfit - totalExpenses;
-  const profitMargin = totalRevenue > 0 ? Math.round((netProfit / totalRevenue) * 100) : 0;
+  const profitMargin = totalRevenue - totalTax > 0 ? Math.round((netProfit / (totalRevenue - totalTax)) * 100) : 0;
   const hasCostData = periodSales.some(s => s.items.some(i => i.costPrice !== undefined));
 
   const expenseBreakdown = useMemo(() => {
@@ -153,34 +209,43 @@ export default function ReportsScreen() {
 
   const paymentBreakdown = useMemo(() => {
     const paid = periodSales.filter(s => !s.isCredit);
-    const cash = paid.filter(s => (s.paymentMethod ?? 'cash') === 'cash').reduce((sum, s) => sum + s.total, 0);
-    const transfer = paid.filter(s => s.paymentMethod === 'transfer').reduce((sum, s) => sum + s.total, 0);
-    const split = paid.filter(s => s.paymentMethod === 'split').reduce((sum, s) => sum + s.total, 0);
+    // The part of a sale paid with loyalty points is shown on its own
+    const tendered = (s: Sale) => s.total - s.loyaltyAmount;
+    const cash = paid.filter(s => (s.paymentMethod ?? 'cash') === 'cash').reduce((sum, s) => sum + tendered(s), 0);
+    const transfer = paid.filter(s => s.paymentMethod === 'transfer').reduce((sum, s) => sum + tendered(s), 0);
+    const split = paid.filter(s => s.paymentMethod === 'split').reduce((sum, s) => sum + tendered(s), 0);
+    const points = paid.reduce((sum, s) => sum + s.loyaltyAmount, 0);
     const credit = periodSales.filter(s => s.isCredit).reduce((sum, s) => sum + s.total, 0);
-    const total = cash + transfer + split + credit || 1;
+    const total = cash + transfer + split + points + credit || 1;
     return [
       { label: 'Cash', value: cash, color: '#166534', pct: Math.round((cash / total) * 100) },
       { label: 'Transfer', value: transfer, color: '#1D4ED8', pct: Math.round((transfer / total) * 100) },
       { label: 'Split', value: split, color: '#D97706', pct: Math.round((split / total) * 100) },
       { label: 'Credit', value: credit, color: '#DC2626', pct: Math.round((credit / total) * 100) },
+      ...(points > 0 ? [{ label: 'Points', value: points, color: '#7C3AED', pct: Math.round((points / total) * 100) }] : []),
     ];
   }, [periodSales]);
 
+  // Variants count towards their parent, so a shirt in five sizes is one entry
   const topProducts = useMemo(() => {
-    const productMap: Record<string, { name: string; quantity: number; revenue: number }> = {};
+    const productMap: Record<string, { name: string; quantity: number; revenue: number; variants: Set<string> }> = {};
     periodSales.forEach(s => {
       s.items.forEach(item => {
-        if (!productMap[item.productId]) {
-          productMap[item.productId] = { name: item.productName, quantity: 0, revenue: 0 };
+        const key = item.parentId ?? item.productId;
+        if (!productMap[key]) {
+          const parent = item.parentId ? products.find(p => p.id === item.parentId) : undefined;
+          productMap[key] = { name: parent?.name ?? item.productName, quantity: 0, revenue: 0, variants: new Set() };
         }
-        productMap[item.productId].quantity += item.quantity;
-        productMap[item.productId].revenue += item.subtotal;
+        if (item.parentId) productMap[key].variants.add(item.productId);
+        productMap[key].quantity += item.quantity * (item.unitFactor ?? 1);
+        productMap[key].revenue += item.subtotal;
       });
     });
     return Object.values(productMap)
       .sort((a, b) => b.revenue - a.revenue)
-      .slice(0, 5);
-  }, [periodSales]);
+      .slice(0, 5)
+      .map(({ variants, ...p }) => ({ ...p, variantCount: variants.size }));
+  }, [periodSales, products]);
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -249,10 +314,42 @@ export default function ReportsScreen() {
                 </Text>
               </View>
             )}
+            {totalDiscounts > 0 && (
+              <>
+                <View style={styles.plRow}>
+                  <Text style={[styles.plLabel, { color: colors.textSecondary }]}>Gross Sales</Text>
+                  <Text style={[styles.plValue, { color: colors.text }]}>+{formatCurrency(grossSales)}</Text>
+                </View>
+                <View style={styles.plRow}>
+                  <Text style={[styles.plLabel, { color: colors.textSecondary }]}>Discounts</Text>
+                  <Text style={[styles.plValue, { color: colors.danger }]}>−{formatCurrency(totalDiscounts)}</Text>
+                </View>
+              </>
+            )}
+            {totalRefunds > 0 && (
+              <>
+                {totalDiscounts === 0 && (
+                  <View style={styles.plRow}>
+                    <Text style={[styles.plLabel, { color: colors.textSecondary }]}>Sales</Text>
+                    <Text style={[styles.plValue, { color: colors.text }]}>+{formatCurrency(salesRevenue)}</Text>
+                  </View>
+                )}
+                <View style={styles.plRow}>
+                  <Text style={[styles.plLabel, { color: colors.textSecondary }]}>Returns ({periodReturns.length})</Text>
+                  <Text style={[styles.plValue, { color: colors.danger }]}>−{formatCurrency(totalRefunds)}</Text>
+                </View>
+              </>
+            )}
             <View style={styles.plRow}>
               <Text style={[styles.plLabel, { color: colors.textSecondary }]}>Revenue</Text>
               <Text style={[styles.plValue, { color: colors.text }]}>+{formatCurrency(totalRevenue)}</Text>
             </View>
+            {totalTax > 0 && (
+              <View style={styles.plRow}>
+                <Text style={[styles.plLabel, { color: colors.textSecondary }]}>{taxName}</Text>
+                <Text style={[styles.plValue, { color: colors.danger }]}>−{formatCurrency(totalTax)}</Text>
+              </View>
+            )}
             <View style={styles.plRow}>
               <Text style={[styles.plLabel, { color: colors.textSecondary }]}>Cost of Goods</Text>
               <Text style={[styles.plValue, { color: colors.danger }]}>−{formatCurrency(totalCOGS)}</Text>
@@ -285,6 +382,33 @@ export default function ReportsScreen() {
           </View>
         </Animated.View>
 
+        {totalTax > 0 && (
+          <Animated.View entering={FadeInDown.delay(175).duration(400).springify()}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>{taxName} to Remit</Text>
+            <View style={[styles.financeCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <View style={styles.plRow}>
+                <Text style={[styles.plLabel, { color: colors.textSecondary }]}>Taxed Sales</Text>
+                <Text style={[styles.plValue, { color: colors.text }]}>{taxedSales.length}</Text>
+              </View>
+              <View style={styles.plRow}>
+                <Text style={[styles.plLabel, { color: colors.textSecondary }]}>Sales excl. {taxName}</Text>
+                <Text style={[styles.plValue, { color: colors.text }]}>{formatCurrency(taxableSales)}</Text>
+              </View>
+              {returnedTax > 0 && (
+                <View style={styles.plRow}>
+                  <Text style={[styles.plLabel, { color: colors.textSecondary }]}>{taxName} Refunded</Text>
+                  <Text style={[styles.plValue, { color: colors.danger }]}>−{formatCurrency(returnedTax)}</Text>
+                </View>
+              )}
+              <View style={[styles.plDivider, { backgroundColor: colors.border }]} />
+              <View style={styles.plRow}>
+                <Text style={[styles.plLabelBold, { color: colors.text }]}>{taxName} Collected</Text>
+                <Text style={[styles.plValueBold, { color: colors.text }]}>{formatCurrency(totalTax)}</Text>
+              </View>
+            </View>
+          </Animated.View>
+        )}
+
         <Animated.View entering={FadeInDown.delay(200).duration(400).springify()}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Sales Trend</Text>
           <View style={[styles.chartCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
@@ -338,6 +462,45 @@ export default function ReportsScreen() {
           </View>
         </Animated.View>
 
+        {(creditOutstanding > 0 || creditCollected > 0) && (
+          <Animated.View entering={FadeInDown.delay(325).duration(400).springify()}>
+            <View style={[styles.sectionHeader, { marginBottom: 12 }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text, marginBottom: 0 }]}>Outstanding Credit</Text>
+              <Pressable
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  router.push('/credit-accounts');
+                }}
+              >
+                <Text style={[styles.plLabelBold, { color: colors.primary, fontSize: 13 }]}>View accounts</Text>
+              </Pressable>
+            </View>
+            <View style={[styles.financeCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <View style={styles.plRow}>
+                <Text style={[styles.plLabel, { color: colors.textSecondary }]}>0–30 days</Text>
+                <Text style={[styles.plValue, { color: colors.text }]}>{formatCurrency(creditAgeing.current)}</Text>
+              </View>
+              <View style={styles.plRow}>
+                <Text style={[styles.plLabel, { color: colors.textSecondary }]}>31–60 days</Text>
+                <Text style={[styles.plValue, { color: colors.gold }]}>{formatCurrency(creditAgeing.days31to60)}</Text>
+              </View>
+              <View style={styles.plRow}>
+                <Text style={[styles.plLabel, { color: colors.textSecondary }]}>Over 60 days</Text>
+                <Text style={[styles.plValue, { color: colors.danger }]}>{formatCurrency(creditAgeing.over60)}</Text>
+              </View>
+              <View style={[styles.plDivider, { backgroundColor: colors.border }]} />
+              <View style={styles.plRow}>
+                <Text style={[styles.plLabelBold, { color: colors.text }]}>Total Owed</Text>
+                <Text style={[styles.plValueBold, { color: colors.danger }]}>{formatCurrency(creditOutstanding)}</Text>
+              </View>
+              <View style={styles.plRow}>
+                <Text style={[styles.plLabel, { color: colors.textSecondary }]}>Repaid this {period}</Text>
+                <Text style={[styles.plValue, { color: colors.success }]}>{formatCurrency(creditCollected)}</Text>
+              </View>
+            </View>
+          </Animated.View>
+        )}
+
         <Animated.View entering={FadeInDown.delay(350).duration(400).springify()}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Payment Methods</Text>
           <View style={[styles.financeCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
@@ -375,7 +538,9 @@ export default function ReportsScreen() {
                 </View>
                 <View style={styles.topProductInfo}>
                   <Text style={[styles.topProductName, { color: colors.text }]}>{p.name}</Text>
-                  <Text style={[styles.topProductQty, { color: colors.textMuted }]}>{p.quantity} sold</Text>
+                  <Text style={[styles.topProductQty, { color: colors.textMuted }]}>
+                    {p.quantity} sold{p.variantCount > 0 ? ` · ${p.variantCount} variant${p.variantCount !== 1 ? 's' : ''}` : ''}
+                  </Text>
                 </View>
                 <Text style={[styles.topProductRevenue, { color: colors.primary }]}>{formatCurrency(p.revenue)}</Text>
               </View>
@@ -34,7 +34,7 @@ export default function SalesScreen() {
   const colorScheme = useColorScheme();
   const colors = useThemeColors(colorScheme);
   const insets = useSafeAreaInsets();
-  const { sales } = useShop();
+  const { sales, saleReturns } = useShop();
   const [filter, setFilter] = useState<Filter>('today');
   const [methodFilter, setMethodFilter] = useState<MethodFilter>('all');
 
@@ -64,7 +64,23 @@ export default function SalesScreen() {
     return result;
   }, [sales, filter, methodFilter]);
 
-  const totalRevenue = useMemo(() => filtered.reduce((sum, s) => sum + s.total, 0), [filtered]);
+  // Refunds count against the sale they came from, so a returned sale nets to what was kept
+  const refundedBySale = useMemo(() => {
+    const totals = new Map<string, number>();
+    for (const r of saleReturns) totals.set(r.saleId, (totals.get(r.saleId) ?? 0) + r.amount);
+    return totals;
+  }, [saleReturns]);
+
+  // Voided sales stay in the list but drop out of the totals
+  const counted = useMemo(() => filtered.filter(s => !s.voidedAt), [filtered]);
+  const totalRefunded = useMemo(
+    () => counted.reduce((sum, s) => sum + (refundedBySale.get(s.id) ?? 0), 0),
+    [counted, refundedBySale]
+  );
+  const totalRevenue = useMemo(
+    () => counted.reduce((sum, s) => sum + s.total, 0) - totalRefunded,
+    [counted, totalRefunded]
+  );
 
   const filters: { key: Filter; label: string }[] = [
     { key: 'today', label: 'Today' },
@@ -145,9 +161,14 @@ export default function SalesScreen() {
         <View>
           <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>Total Revenue</Text>
           <Text style={[styles.summaryValue, { color: colors.primary }]}>{formatCurrency(totalRevenue)}</Text>
+          {totalRefunded > 0 && (
+            <Text style={[styles.summaryLabel, { color: colors.danger }]}>
+              after {formatCurrency(totalRefunded)} refunded
+            </Text>
+          )}
         </View>
         <View style={styles.summaryRight}>
-          <Text style={[styles.summaryCount, { color: colors.text }]}>{filtered.length}</Text>
+          <Text style={[styles.summaryCount, { color: colors.text }]}>{counted.length}</Text>
           <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>Sales</Text>
         </View>
       </View>
@@ -158,7 +179,9 @@ export default function SalesScreen() {
         contentContainerStyle={[styles.listContent, { paddingBottom: 100 }]}
         showsVerticalScrollIndicator={false}
         scrollEnabled={!!filtered.length}
-        renderItem={({ item, index }) => (
+        renderItem={({ item, index }) => {
+          const refunded = refundedBySale.get(item.id) ?? 0;
+          return (
           <Animated.View entering={FadeInDown.delay(Math.min(index * 40, 400)).duration(300).springify()}>
             <Pressable
               style={({ pressed }) => [
@@ -198,6 +221,20 @@ export default function SalesScreen() {
                       </View>
                     );
                   })()}
+                  {item.voidedAt && (
+                    <View style={[styles.badge, { backgroundColor: colors.dangerLight }]}>
+                      <Ionicons name="ban-outline" size={10} color={colors.danger} />
+                      <Text style={[styles.badgeText, { color: colors.danger }]}>Voided</Text>
+                    </View>
+                  )}
+                  {refunded > 0 && (
+                    <View style={[styles.badge, { backgroundColor: colors.dangerLight }]}>
+                      <Ionicons name="arrow-undo-outline" size={10} color={colors.danger} />
+                      <Text style={[styles.badgeText, { color: colors.danger }]}>
+                        {refunded >= item.total ? 'Returned' : 'Part returned'}
+                      </Text>
+                    </View>
+                  )}
                   {item.staffName ? (
                     <View style={[styles.badge, { backgroundColor: colors.surfaceElevated }]}>
                       <Ionicons name="person-outline" size={10} color={colors.textSecondary} />
@@ -211,10 +248,23 @@ export default function SalesScreen() {
                   </Text>
                 )}
               </View>
-              <Text style={[styles.saleTotal, { color: colors.primary }]}>{formatCurrency(item.total)}</Text>
+              <View style={styles.saleAmounts}>
+                <Text
+                  style={[
+                    styles.saleTotal,
+                    item.voidedAt ? [styles.saleVoided, { color: colors.textMuted }] : { color: colors.primary },
+                  ]}
+                >
+                  {formatCurrency(item.voidedAt ? item.total : item.total - refunded)}
+                </Text>
+                {refunded > 0 && (
+                  <Text style={[styles.saleGross, { color: colors.textMuted }]}>{formatCurrency(item.total)}</Text>
+                )}
+              </View>
             </Pressable>
           </Animated.View>
-        )}
+          );
+        }}
         ListEmptyComponent={
           <View style={styles.emptyState}>
             <Ionicons name="receipt-outline" size={48} color={colors.textMuted} />
@@ -271,7 +321,10 @@ const styles = StyleSheet.create({
   badge: { flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: 7, paddingVertical: 3, borderRadius: 6 },
   badgeText: { fontFamily: 'Poppins_500Medium', fontSize: 10 },
   splitLine: { fontFamily: 'Poppins_400Regular', fontSize: 11, marginTop: 3 },
+  saleAmounts: { alignItems: 'flex-end' },
   saleTotal: { fontFamily: 'Poppins_600SemiBold', fontSize: 16 },
+  saleVoided: { textDecorationLine: 'line-through' },
+  saleGross: { fontFamily: 'Poppins_400Regular', fontSize: 12, textDecorationLine: 'line-through' },
   emptyState: { alignItems: 'center', paddingVertical: 60 },
   emptyTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 18, marginTop: 16 },
   emptyText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center', marginTop: 8 },
@@ -8,34 +8,46 @@ import {
   Platform,
   TextInput,
   Alert,
+  Switch,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { Image } from 'expo-image';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import * as Haptics from 'expo-haptics';
 import * as ImagePicker from 'expo-image-picker';
 import { KeyboardAwareScrollViewCompat } from '@/components/KeyboardAwareScrollViewCompat';
 import { BarcodeScanner } from '@/components/BarcodeScanner';
+import { ProductUnitsEditor, UnitDraft, parseUnitDrafts } from '@/components/ProductUnitsEditor';
+import { BundleComponentsEditor } from '@/components/BundleComponentsEditor';
 import { useShop } from '@/lib/shop-context';
 import { useThemeColors } from '@/constants/colors';
+import type { BundleComponent } from '@/lib/types';
 
 export default function AddProductScreen() {
   const colorScheme = useColorScheme();
   const colors = useThemeColors(colorScheme);
   const insets = useSafeAreaInsets();
-  const { addProduct } = useShop();
+  const { parentId } = useLocalSearchParams<{ parentId?: string }>();
+  const { products, addProduct, shopProfile } = useShop();
+  const taxSettings = shopProfile.taxSettings;
+
+  // A variant starts from its parent's details and keeps its name and category
+  const parent = parentId ? products.find(p => p.id === parentId) : undefined;
 
   const [name, setName] = useState('');
-  const [price, setPrice] = useState('');
-  const [costPrice, setCostPrice] = useState('');
-  const [unit, setUnit] = useState('');
+  const [price, setPrice] = useState(parent?.price.toString() ?? '');
+  const [costPrice, setCostPrice] = useState(parent?.costPrice?.toString() ?? '');
+  const [unit, setUnit] = useState(parent?.unit ?? '');
   const [stock, setStock] = useState('');
-  const [lowStock, setLowStock] = useState('5');
-  const [category, setCategory] = useState('');
+  const [lowStock, setLowStock] = useState(parent?.lowStockThreshold.toString() ?? '5');
+  const [category, setCategory] = useState(parent?.category ?? '');
   const [barcode, setBarcode] = useState('');
   const [showScanner, setShowScanner] = useState(false);
-  const [imageUri, setImageUri] = useState<string | null>(null);
+  const [imageUri, setImageUri] = useState<string | null>(parent?.imageUri ?? null);
+  const [units, setUnits] = useState<UnitDraft[]>([]);
+  const [components, setComponents] = useState<BundleComponent[]>([]);
+  const [taxExempt, setTaxExempt] = useState(parent?.taxExempt ?? false);
 
   const topInset = Platform.OS === 'web' ? 67 : insets.top;
   const bottomInset = Platform.OS === 'web' ? 34 : insets.bottom;
@@ -75,24 +87,34 @@ export default function AddProductScreen() {
 
   const handleSave = async () => {
     if (!name.trim()) {
-      Alert.alert('Missing Name', 'Please enter a product name.');
+      Alert.alert('Missing Name', parent ? 'Please name the variant, e.g. Red / L.' : 'Please enter a product name.');
       return;
     }
     if (!price || parseFloat(price) <= 0) {
       Alert.alert('Invalid Price', 'Please enter a valid price.');
       return;
     }
+    const parsed = parseUnitDrafts(units);
+    if ('error' in parsed) {
+      Alert.alert('Selling Units', parsed.error);
+      return;
+    }
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     await addProduct({
-      name: name.trim(),
+      name: parent ? parent.name : name.trim(),
+      variantName: parent ? name.trim() : null,
+      parentId: parent?.id ?? null,
       price: parseFloat(price),
       costPrice: costPrice ? parseFloat(costPrice) : null,
       unit: unit.trim() || null,
-      stock: parseInt(stock) || 0,
+      stock: components.length > 0 ? 0 : parseInt(stock) || 0,
       lowStockThreshold: parseInt(lowStock) || 5,
       imageUri,
-      category: category.trim() || 'General',
+      category: parent ? parent.category : category.trim() || 'General',
       barcode: barcode.trim() || null,
+      taxExempt,
+      units: parsed.units,
+      components,
     });
     router.back();
   };
@@ -103,7 +125,7 @@ export default function AddProductScreen() {
         <Pressable onPress={() => router.back()}>
           <Ionicons name="close" size={28} color={colors.text} />
         </Pressable>
-        <Text style={[styles.topBarTitle, { color: colors.text }]}>Add Product</Text>
+        <Text style={[styles.topBarTitle, { color: colors.text }]}>{parent ? 'Add Variant' : 'Add Product'}</Text>
         <Pressable onPress={handleSave}>
           <Ionicons name="checkmark" size={28} color={colors.primary} />
         </Pressable>
@@ -125,10 +147,13 @@ export default function AddProductScreen() {
           )}
         </Pressable>
 
-        <Text style={[styles.label, { color: colors.text }]}>Product Name</Text>
+        {parent && (
+          <Text style={[styles.parentNote, { color: colors.textSecondary }]}>Variant of {parent.name}</Text>
+        )}
+        <Text style={[styles.label, { color: colors.text }]}>{parent ? 'Variant' : 'Product Name'}</Text>
         <TextInput
           style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
-          placeholder="e.g. Rice (50kg bag)"
+          placeholder={parent ? 'e.g. Red / L, 50cl, Chocolate' : 'e.g. Rice (50kg bag)'}
           placeholderTextColor={colors.textMuted}
           value={name}
           onChangeText={setName}
@@ -168,39 +193,46 @@ export default function AddProductScreen() {
           </View>
         </View>
 
-        <View style={styles.row}>
-          <View style={{ flex: 1 }}>
-            <Text style={[styles.label, { color: colors.text }]}>Stock</Text>
-            <TextInput
-              style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
-              placeholder="0"
-              placeholderTextColor={colors.textMuted}
-              value={stock}
-              onChangeText={setStock}
-              keyboardType="numeric"
-            />
+        {/* A bundle's stock comes from its contents */}
+        {components.length === 0 && (
+          <View style={styles.row}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.label, { color: colors.text }]}>Stock</Text>
+              <TextInput
+                style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+                placeholder="0"
+                placeholderTextColor={colors.textMuted}
+                value={stock}
+                onChangeText={setStock}
+                keyboardType="numeric"
+              />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.label, { color: colors.text }]}>Low Stock Alert</Text>
+              <TextInput
+                style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+                placeholder="5"
+                placeholderTextColor={colors.textMuted}
+                value={lowStock}
+                onChangeText={setLowStock}
+                keyboardType="numeric"
+              />
+            </View>
           </View>
-          <View style={{ flex: 1 }}>
-            <Text style={[styles.label, { color: colors.text }]}>Low Stock Alert</Text>
+        )}
+
+        {!parent && (
+          <>
+            <Text style={[styles.label, { color: colors.text }]}>Category</Text>
             <TextInput
               style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
-              placeholder="5"
+              placeholder="e.g. Food, Electronics, Drinks"
               placeholderTextColor={colors.textMuted}
-              value={lowStock}
-              onChangeText={setLowStock}
-              keyboardType="numeric"
+              value={category}
+              onChangeText={setCategory}
             />
-          </View>
-        </View>
-
-        <Text style={[styles.label, { color: colors.text }]}>Category</Text>
-        <TextInput
-          style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
-          placeholder="e.g. Food, Electronics, Drinks"
-          placeholderTextColor={colors.textMuted}
-          value={category}
-          onChangeText={setCategory}
-        />
+          </>
+        )}
 
         <Text style={[styles.label, { color: colors.text }]}>Barcode</Text>
         <View style={[styles.barcodeRow, { backgroundColor: colors.surface, borderColor: colors.border }]}>
@@ -220,6 +252,25 @@ export default function AddProductScreen() {
           </Pressable>
         </View>
 
+        {!parent && <BundleComponentsEditor components={components} onChange={setComponents} products={products} />}
+
+        <ProductUnitsEditor units={units} onChange={setUnits} baseUnit={unit} />
+
+        {taxSettings.enabled && (
+          <View style={[styles.toggleRow, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.toggleTitle, { color: colors.text }]}>{taxSettings.name} exempt</Text>
+              <Text style={[styles.toggleSub, { color: colors.textMuted }]}>No {taxSettings.name} is charged on this product</Text>
+            </View>
+            <Switch
+              value={taxExempt}
+              onValueChange={setTaxExempt}
+              trackColor={{ true: colors.primary, false: colors.border }}
+              thumbColor="#fff"
+            />
+          </View>
+        )}
+
         <Pressable
           style={({ pressed }) => [styles.saveBtn, { backgroundColor: colors.primary, opacity: pressed ? 0.9 : 1 }]}
           onPress={handleSave}
@@ -267,6 +318,7 @@ const styles = StyleSheet.create({
   imagePreview: { width: '100%', height: '100%' },
   imagePlaceholder: { flex: 1, justifyContent: 'center', alignItems: 'center', gap: 4 },
   imagePlaceholderText: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
+  parentNote: { fontFamily: 'Poppins_400Regular', fontSize: 13, marginBottom: 12 },
   label: { fontFamily: 'Poppins_500Medium', fontSize: 14, marginBottom: 6 },
   input: {
     fontFamily: 'Poppins_400Regular',
@@ -299,6 +351,18 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  toggleTitle: { fontFamily: 'Poppins_500Medium', fontSize: 14 },
+  toggleSub: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
   saveBtn: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  ScrollView,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/lib/toast-context';
+import { useThemeColors } from '@/constants/colors';
+import { PIN_PATTERN } from '@/lib/pin';
+
+export default function ApprovalPinScreen() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { setApprovalPin } = useShop();
+  const { user } = useAuth();
+  const toast = useToast();
+  const { t } = useTranslation();
+
+  const [pin, setPin] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const bottomInset = Platform.OS === 'web' ? 20 : insets.bottom;
+
+  if (user?.role !== 'owner') {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+          <Pressable onPress={() => router.back()} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+            <Ionicons name="chevron-back" size={24} color={colors.text} />
+          </Pressable>
+          <Text style={[styles.title, { color: colors.text }]}>{t('approvalPin')}</Text>
+          <View style={{ width: 40 }} />
+        </View>
+        <View style={styles.lockedWrap}>
+          <View style={[styles.lockedIconBox, { backgroundColor: colors.sandLight }]}>
+            <Ionicons name="lock-closed-outline" size={40} color={colors.textMuted} />
+          </View>
+          <Text style={[styles.lockedTitle, { color: colors.text }]}>{t('ownerOnlyTitle')}</Text>
+          <Text style={[styles.lockedText, { color: colors.textSecondary }]}>{t('ownerOnlyFeature')}</Text>
+          <Pressable
+            onPress={() => router.back()}
+            style={({ pressed }) => [styles.lockedBackBtn, { backgroundColor: colors.primary, opacity: pressed ? 0.85 : 1 }]}
+          >
+            <Text style={styles.lockedBackBtnText}>{t('back')}</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  const handleSave = async () => {
+    if (!PIN_PATTERN.test(pin)) { setError(t('pinInvalidFormat')); return; }
+    if (pin !== confirm) { setError(t('pinMismatch')); return; }
+
+    setSaving(true);
+    try {
+      await setApprovalPin(pin);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      toast.success(t('approvalPinSaved'));
+      router.back();
+    } catch (err) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(err instanceof Error ? err.message : t('approvalPinNotSaved'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </Pressable>
+        <Text style={[styles.title, { color: colors.text }]}>{t('approvalPin')}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={[styles.content, { paddingBottom: bottomInset + 24 }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Animated.View entering={FadeInDown.duration(350).springify()}>
+          <View style={[styles.hintCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+            <Ionicons name="key-outline" size={20} color={colors.primary} />
+            <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('approvalPinHint')}</Text>
+          </View>
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(60).duration(350).springify()}>
+          <Text style={[styles.label, { color: colors.text }]}>{t('newPin')}</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+            value={pin}
+            onChangeText={v => { setPin(v.replace(/\D/g, '')); setError(''); }}
+            placeholder="••••"
+            placeholderTextColor={colors.textMuted}
+            keyboardType="number-pad"
+            maxLength={6}
+            secureTextEntry
+          />
+          <Text style={[styles.label, { color: colors.text }]}>{t('confirmPin')}</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+            value={confirm}
+            onChangeText={v => { setConfirm(v.replace(/\D/g, '')); setError(''); }}
+            placeholder="••••"
+            placeholderTextColor={colors.textMuted}
+            keyboardType="number-pad"
+            maxLength={6}
+            secureTextEntry
+          />
+        </Animated.View>
+
+        {!!error && <Text style={[styles.error, { color: colors.danger }]}>{error}</Text>}
+      </ScrollView>
+
+      <View style={[styles.footer, { backgroundColor: colors.surface, borderTopColor: colors.border, paddingBottom: bottomInset + 8 }]}>
+        <Pressable
+          style={({ pressed }) => [styles.saveBtn, { backgroundColor: colors.primary, opacity: pressed || saving ? 0.85 : 1 }]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          <Ionicons name="checkmark-circle" size={22} color="#fff" />
+          <Text style={styles.saveBtnText}>{saving ? 'Saving…' : t('save')}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  lockedWrap: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 40,
+    gap: 12,
+  },
+  lockedIconBox: {
+    width: 80,
+    height: 80,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  lockedTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 18, textAlign: 'center' },
+  lockedText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center', lineHeight: 22 },
+  lockedBackBtn: {
+    marginTop: 12,
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  lockedBackBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 14, color: '#fff' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backBtn: { width: 40, height: 40, justifyContent: 'center' },
+  title: { fontFamily: 'Poppins_600SemiBold', fontSize: 18 },
+  content: { paddingHorizontal: 20, paddingTop: 20 },
+  hintCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginBottom: 20,
+  },
+  hint: { flex: 1, fontFamily: 'Poppins_400Regular', fontSize: 13, lineHeight: 20 },
+  label: { fontFamily: 'Poppins_500Medium', fontSize: 14, marginBottom: 6, marginTop: 4 },
+  input: {
+    fontFamily: 'Poppins_400Regular',
+    fontSize: 18,
+    letterSpacing: 6,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    marginBottom: 14,
+  },
+  error: { fontFamily: 'Poppins_500Medium', fontSize: 13, marginTop: 4 },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+  },
+  saveBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderRadius: 14,
+    gap: 8,
+  },
+  saveBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 16, color: '#fff' },
+});
@@ -0,0 +1,419 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/lib/toast-context';
+import { useThemeColors } from '@/constants/colors';
+import {
+  shareBackup,
+  parseBackup,
+  openBackup,
+  summarizeBackup,
+  restoreBackup,
+  type BackupData,
+  type BackupSummary,
+  type PendingBackup,
+} from '@/lib/backup';
+
+export default function BackupScreen() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { reloadData } = useShop();
+  const { user } = useAuth();
+  const toast = useToast();
+  const { t } = useTranslation();
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [exportError, setExportError] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const [pending, setPending] = useState<PendingBackup | null>(null);
+  const [unlockPassword, setUnlockPassword] = useState('');
+  const [opened, setOpened] = useState<{ data: BackupData; summary: BackupSummary } | null>(null);
+  const [restoreError, setRestoreError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  // Deriving a password key is slow, so lock the whole screen until it's done
+  const working = isExporting || isBusy;
+  const bottomInset = Platform.OS === 'web' ? 20 : insets.bottom;
+
+  const handleExport = async () => {
+    setExportError('');
+    if (password && password.length < 6) { setExportError(t('passwordTooShort')); return; }
+    if (password !== confirmPassword) { setExportError(t('passwordsDoNotMatch')); return; }
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setIsExporting(true);
+    try {
+      await shareBackup(password || undefined);
+      setPassword('');
+      setConfirmPassword('');
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : t('somethingWentWrong'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleOpened = async (backup: PendingBackup, pass?: string) => {
+    const data = await openBackup(backup, pass);
+    setOpened({ data, summary: summarizeBackup(backup.createdAt, data) });
+  };
+
+  const handlePickFile = async () => {
+    setRestoreError('');
+    setPending(null);
+    setOpened(null);
+    setUnlockPassword('');
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', 'text/plain', '*/*'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return;
+
+    setIsBusy(true);
+    try {
+      const contents = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+      const backup = parseBackup(contents);
+      setPending(backup);
+      if (!backup.encrypted) await handleOpened(backup);
+    } catch (err) {
+      setRestoreError(err instanceof Error ? err.message : t('somethingWentWrong'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!pending) return;
+    setRestoreError('');
+    setIsBusy(true);
+    try {
+      await handleOpened(pending, unlockPassword);
+    } catch (err) {
+      setRestoreError(err instanceof Error ? err.message : t('somethingWentWrong'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!opened) return;
+    Alert.alert(t('restoreBackup'), t('restoreBackupConfirm'), [
+      { text: t('cancel'), style: 'cancel' },
+      {
+        text: t('restoreBackup'),
+        style: 'destructive',
+        onPress: async () => {
+          setIsBusy(true);
+          try {
+            await restoreBackup(opened.data);
+            await reloadData();
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            toast.success(t('backupRestored'));
+            router.back();
+          } catch (err) {
+            setRestoreError(err instanceof Error ? err.message : t('somethingWentWrong'));
+          } finally {
+            setIsBusy(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const header = (
+    <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+      <Pressable onPress={() => router.back()} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+        <Ionicons name="chevron-back" size={24} color={colors.text} />
+      </Pressable>
+      <Text style={[styles.title, { color: colors.text }]}>{t('backupRestore')}</Text>
+      <View style={{ width: 40 }} />
+    </View>
+  );
+
+  // Restoring replaces the whole shop on this phone, so staff can't do it.
+  // Offline-only shops have no signed-in user and are run by the owner.
+  if (user && user.role !== 'owner') {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        {header}
+        <View style={styles.centerWrap}>
+          <View style={[styles.iconBox, { backgroundColor: colors.sandLight }]}>
+            <Ionicons name="lock-closed-outline" size={40} color={colors.textMuted} />
+          </View>
+          <Text style={[styles.centerTitle, { color: colors.text }]}>{t('ownerOnlyTitle')}</Text>
+          <Text style={[styles.centerText, { color: colors.textSecondary }]}>{t('ownerOnlyFeature')}</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const summaryRows = opened
+    ? [
+        { label: t('products'), value: opened.summary.products },
+        { label: t('sales'), value: opened.summary.sales },
+        { label: t('returns'), value: opened.summary.saleReturns },
+        { label: t('creditAccounts'), value: opened.summary.customers },
+        { label: t('orders'), value: opened.summary.orders },
+        { label: t('staffManagement'), value: opened.summary.staff },
+        { label: t('expenses'), value: opened.summary.expenses },
+        { label: t('backupPendingSync'), value: opened.summary.pendingSync },
+      ]
+    : [];
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {header}
+
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={[styles.content, { paddingBottom: bottomInset + 24 }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Create */}
+        <Animated.View entering={FadeInDown.duration(300)}>
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="archive-outline" size={20} color={colors.primary} />
+              <Text style={[styles.cardTitle, { color: colors.text }]}>{t('createBackup')}</Text>
+            </View>
+            <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('createBackupHint')}</Text>
+
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              value={password}
+              onChangeText={v => { setPassword(v); setExportError(''); }}
+              placeholder={t('backupPasswordOptional')}
+              placeholderTextColor={colors.textMuted}
+              secureTextEntry
+              autoCapitalize="none"
+              editable={!working}
+            />
+            {password.length > 0 && (
+              <TextInput
+                style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+                value={confirmPassword}
+                onChangeText={v => { setConfirmPassword(v); setExportError(''); }}
+                placeholder={t('confirmPassword')}
+                placeholderTextColor={colors.textMuted}
+                secureTextEntry
+                autoCapitalize="none"
+                editable={!working}
+              />
+            )}
+            {exportError ? <Text style={[styles.errorText, { color: colors.danger }]}>{exportError}</Text> : null}
+
+            <Pressable
+              style={({ pressed }) => [styles.primaryBtn, { backgroundColor: colors.primary, opacity: pressed || isExporting ? 0.85 : 1 }]}
+              onPress={handleExport}
+              disabled={working}
+            >
+              {isExporting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <>
+                  <Ionicons name="share-outline" size={18} color="#fff" />
+                  <Text style={styles.primaryBtnText}>{t('createBackupShare')}</Text>
+                </>
+              )}
+            </Pressable>
+            {isExporting && password.length > 0 && (
+              <Text style={[styles.workingText, { color: colors.textMuted }]}>{t('backupPasswordWorking')}</Text>
+            )}
+          </View>
+        </Animated.View>
+
+        {/* Restore */}
+        <Animated.View entering={FadeInDown.delay(60).duration(300)}>
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="refresh-circle-outline" size={20} color={colors.primary} />
+              <Text style={[styles.cardTitle, { color: colors.text }]}>{t('restoreBackup')}</Text>
+            </View>
+            <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('restoreBackupHint')}</Text>
+
+            <Pressable
+              style={({ pressed }) => [styles.outlineBtn, { borderColor: colors.border, opacity: pressed || working ? 0.6 : 1 }]}
+              onPress={handlePickFile}
+              disabled={working}
+            >
+              <Ionicons name="folder-open-outline" size={18} color={colors.textSecondary} />
+              <Text style={[styles.outlineBtnText, { color: colors.textSecondary }]}>{t('chooseBackupFile')}</Text>
+            </Pressable>
+
+            {pending?.encrypted && !opened && (
+              <>
+                <TextInput
+                  style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+                  value={unlockPassword}
+                  onChangeText={v => { setUnlockPassword(v); setRestoreError(''); }}
+                  placeholder={t('backupPassword')}
+                  placeholderTextColor={colors.textMuted}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  editable={!working}
+                />
+                <Pressable
+                  style={({ pressed }) => [styles.primaryBtn, { backgroundColor: colors.primary, opacity: pressed || isBusy ? 0.85 : 1 }]}
+                  onPress={handleUnlock}
+                  disabled={working || unlockPassword.length === 0}
+                >
+                  {isBusy ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <>
+                      <Ionicons name="lock-open-outline" size={18} color="#fff" />
+                      <Text style={styles.primaryBtnText}>{t('unlockBackup')}</Text>
+                    </>
+                  )}
+                </Pressable>
+                {isBusy && (
+                  <Text style={[styles.workingText, { color: colors.textMuted }]}>{t('backupPasswordWorking')}</Text>
+                )}
+              </>
+            )}
+
+            {opened && (
+              <>
+                <View style={[styles.summary, { borderTopColor: colors.borderLight }]}>
+                  <Text style={[styles.summaryTitle, { color: colors.text }]}>
+                    {opened.summary.shopName ?? t('myShop')}
+                  </Text>
+                  <Text style={[styles.summarySub, { color: colors.textMuted }]}>
+                    {t('backupCreatedAt', { date: dayjs(opened.summary.createdAt).format('DD MMM YYYY, h:mm A') })}
+                  </Text>
+                  {summaryRows.map(row => (
+                    <View key={row.label} style={styles.summaryRow}>
+                      <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>{row.label}</Text>
+                      <Text style={[styles.summaryValue, { color: colors.text }]}>{row.value}</Text>
+                    </View>
+                  ))}
+                </View>
+                <Pressable
+                  style={({ pressed }) => [styles.primaryBtn, { backgroundColor: colors.danger, opacity: pressed || isBusy ? 0.85 : 1 }]}
+                  onPress={handleRestore}
+                  disabled={working}
+                >
+                  {isBusy ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.primaryBtnText}>{t('restoreBackup')}</Text>
+                  )}
+                </Pressable>
+              </>
+            )}
+
+            {isBusy && !pending && <ActivityIndicator size="small" color={colors.primary} style={{ marginTop: 12 }} />}
+            {restoreError ? <Text style={[styles.errorText, { color: colors.danger }]}>{restoreError}</Text> : null}
+          </View>
+        </Animated.View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backBtn: { width: 40, height: 40, justifyContent: 'center' },
+  title: { fontFamily: 'Poppins_600SemiBold', fontSize: 18 },
+  centerWrap: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 40,
+    gap: 12,
+  },
+  iconBox: {
+    width: 80,
+    height: 80,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  centerTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 18, textAlign: 'center' },
+  centerText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center', lineHeight: 22 },
+  content: { paddingHorizontal: 16, paddingTop: 16 },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 12,
+  },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 6 },
+  cardTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 15 },
+  hint: { fontFamily: 'Poppins_400Regular', fontSize: 13, lineHeight: 20, marginBottom: 12 },
+  workingText: { fontFamily: 'Poppins_400Regular', fontSize: 12, textAlign: 'center', marginTop: 8 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontFamily: 'Poppins_400Regular',
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  errorText: { fontFamily: 'Poppins_400Regular', fontSize: 12, marginBottom: 8 },
+  primaryBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    height: 44,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  primaryBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 14, color: '#fff' },
+  outlineBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  outlineBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 14 },
+  summary: { borderTopWidth: 1, paddingTop: 12, marginBottom: 8 },
+  summaryTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 15 },
+  summarySub: { fontFamily: 'Poppins_400Regular', fontSize: 12, marginBottom: 8 },
+  summaryRow: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 4 },
+  summaryLabel: { fontFamily: 'Poppins_400Regular', fontSize: 13 },
+  summaryValue: { fontFamily: 'Poppins_600SemiBold', fontSize: 13 },
+});
@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useThemeColors } from '@/constants/colors';
+import { formatCurrency } from '@/lib/format';
+import { totalAgeing } from '@/lib/credit';
+
+export default function CreditAccountsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { creditAccounts } = useShop();
+  const [showSettled, setShowSettled] = useState(false);
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const bottomInset = Platform.OS === 'web' ? 20 : insets.bottom;
+
+  // Largest debts first; settled accounts only when asked for
+  const accounts = useMemo(() => (
+    creditAccounts
+      .filter(a => a.entries.length > 0 && (showSettled || a.balance > 0))
+      .sort((a, b) => b.balance - a.balance || a.customer.name.localeCompare(b.customer.name))
+  ), [creditAccounts, showSettled]);
+
+  const ageing = useMemo(() => totalAgeing(creditAccounts), [creditAccounts]);
+  const outstanding = ageing.current + ageing.days31to60 + ageing.over60;
+
+  const buckets = [
+    { label: t('ageingCurrent'), amount: ageing.current, color: colors.green },
+    { label: t('ageing31to60'), amount: ageing.days31to60, color: colors.gold },
+    { label: t('ageingOver60'), amount: ageing.over60, color: colors.danger },
+  ];
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+        <Pressable onPress={() => router.back()} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </Pressable>
+        <Text style={[styles.title, { color: colors.text }]}>{t('creditAccounts')}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={[styles.content, { paddingBottom: bottomInset + 24 }]}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={[styles.summaryCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+          <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>{t('creditOutstanding')}</Text>
+          <Text style={[styles.summaryValue, { color: colors.danger }]}>{formatCurrency(outstanding)}</Text>
+          <View style={styles.bucketRow}>
+            {buckets.map(b => (
+              <View key={b.label} style={[styles.bucket, { backgroundColor: b.color + '14' }]}>
+                <Text style={[styles.bucketLabel, { color: colors.textSecondary }]}>{b.label}</Text>
+                <Text style={[styles.bucketValue, { color: b.color }]}>{formatCurrency(b.amount)}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.listHeader}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('customers')}</Text>
+          <Pressable onPress={() => setShowSettled(v => !v)}>
+            <Text style={[styles.toggle, { color: colors.primary }]}>
+              {showSettled ? t('hideSettled') : t('showSettled')}
+            </Text>
+          </Pressable>
+        </View>
+
+        {accounts.length === 0 ? (
+          <View style={styles.emptyWrap}>
+            <Ionicons name="checkmark-done-circle-outline" size={40} color={colors.textMuted} />
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t('noCreditOutstanding')}</Text>
+          </View>
+        ) : accounts.map(account => (
+          <Pressable
+            key={account.customer.id || account.customer.name}
+            style={({ pressed }) => [
+              styles.accountRow,
+              { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: pressed ? 0.9 : 1 },
+            ]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push({
+                pathname: '/customer-account',
+                params: { customerId: account.customer.id, name: account.customer.name },
+              });
+            }}
+          >
+            <View style={[styles.avatar, { backgroundColor: colors.primary + '18' }]}>
+              <Text style={[styles.avatarText, { color: colors.primary }]}>
+                {account.customer.name.charAt(0).toUpperCase()}
+              </Text>
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.accountName, { color: colors.text }]} numberOfLines={1}>{account.customer.name}</Text>
+              <Text style={[styles.accountSub, { color: colors.textMuted }]}>
+                {account.oldestUnpaidAt
+                  ? t('owingSince', { date: dayjs(account.oldestUnpaidAt).format('MMM D, YYYY') })
+                  : t('accountSettled')}
+              </Text>
+            </View>
+            <Text style={[styles.accountBalance, { color: account.balance > 0 ? colors.danger : colors.green }]}>
+              {formatCurrency(Math.max(0, account.balance))}
+            </Text>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backBtn: { width: 40, height: 40, justifyContent: 'center' },
+  title: { fontFamily: 'Poppins_600SemiBold', fontSize: 18 },
+  content: { paddingHorizontal: 20, paddingTop: 16 },
+  summaryCard: { borderRadius: 16, borderWidth: 1, padding: 16, marginBottom: 20 },
+  summaryLabel: { fontFamily: 'Poppins_500Medium', fontSize: 13 },
+  summaryValue: { fontFamily: 'Poppins_700Bold', fontSize: 26, marginBottom: 12 },
+  bucketRow: { flexDirection: 'row', gap: 8 },
+  bucket: { flex: 1, borderRadius: 10, padding: 10 },
+  bucketLabel: { fontFamily: 'Poppins_400Regular', fontSize: 11 },
+  bucketValue: { fontFamily: 'Poppins_600SemiBold', fontSize: 13 },
+  listHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 10 },
+  sectionTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 16 },
+  toggle: { fontFamily: 'Poppins_500Medium', fontSize: 13 },
+  emptyWrap: { alignItems: 'center', gap: 8, paddingVertical: 40 },
+  emptyText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center' },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  avatar: { width: 40, height: 40, borderRadius: 20, alignItems: 'center', justifyContent: 'center' },
+  avatarText: { fontFamily: 'Poppins_600SemiBold', fontSize: 16 },
+  accountName: { fontFamily: 'Poppins_600SemiBold', fontSize: 14 },
+  accountSub: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
+  accountBalance: { fontFamily: 'Poppins_600SemiBold', fontSize: 14 },
+});
@@ -0,0 +1,327 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  ScrollView,
+  Linking,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useToast } from '@/lib/toast-context';
+import { useThemeColors } from '@/constants/colors';
+import { formatCurrency } from '@/lib/format';
+import { whatsappNumber, LedgerEntry } from '@/lib/credit';
+import { normalizeCustomerName } from '@/lib/customers';
+import type { CreditPaymentMethod } from '@/lib/types';
+
+const METHOD_LABEL_KEYS: Record<CreditPaymentMethod, string> = {
+  cash: 'refundCash',
+  transfer: 'refundTransfer',
+};
+
+const ENTRY_LABEL_KEYS: Record<LedgerEntry['kind'], string> = {
+  sale: 'ledgerSale',
+  return: 'ledgerReturn',
+  payment: 'ledgerPayment',
+};
+
+export default function CustomerAccountScreen() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const toast = useToast();
+  const { customerId, name } = useLocalSearchParams<{ customerId?: string; name?: string }>();
+  const { creditAccounts, shopProfile, findOrCreateCustomer, updateCustomer, recordCreditPayment } = useShop();
+
+  // Accounts from before customers were saved have no id yet, so fall back to the name
+  const account = useMemo(() => (
+    creditAccounts.find(a => !!customerId && a.customer.id === customerId)
+    ?? creditAccounts.find(a => normalizeCustomerName(a.customer.name) === normalizeCustomerName(name ?? ''))
+  ), [creditAccounts, customerId, name]);
+
+  const [amountInput, setAmountInput] = useState('');
+  const [method, setMethod] = useState<CreditPaymentMethod>('cash');
+  const [note, setNote] = useState('');
+  const [phoneInput, setPhoneInput] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const bottomInset = Platform.OS === 'web' ? 20 : insets.bottom;
+
+  const header = (
+    <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+      <Pressable onPress={() => router.back()} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+        <Ionicons name="chevron-back" size={24} color={colors.text} />
+      </Pressable>
+      <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>{account?.customer.name ?? name}</Text>
+      <View style={{ width: 40 }} />
+    </View>
+  );
+
+  if (!account) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        {header}
+        <View style={styles.emptyWrap}>
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t('customerNotFound')}</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const { customer, balance, ageing } = account;
+  const phone = phoneInput ?? customer.phone;
+  const amount = parseFloat(amountInput) || 0;
+  const entries = [...account.entries].reverse();
+
+  const handleSavePhone = async () => {
+    if (phoneInput === null || phoneInput.trim() === customer.phone) return;
+    if (customer.id) {
+      await updateCustomer(customer.id, { phone: phoneInput.trim() });
+    } else {
+      await findOrCreateCustomer(customer.name, { phone: phoneInput });
+    }
+    setPhoneInput(null);
+    toast.success(t('customerPhoneSaved'));
+  };
+
+  const handleRemind = () => {
+    if (!phone.trim()) {
+      toast.warning(t('customerPhoneRequired'));
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const message = t('creditReminderMessage', {
+      name: customer.name,
+      amount: formatCurrency(balance),
+      shop: shopProfile.name,
+    });
+    Linking.openURL(`https://wa.me/${whatsappNumber(phone)}?text=${encodeURIComponent(message)}`);
+  };
+
+  const handleRecord = async () => {
+    setSaving(true);
+    try {
+      const payment = await recordCreditPayment(customer, amount, method, note);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      toast.success(t('repaymentRecorded', { amount: formatCurrency(payment.amount) }));
+      setAmountInput('');
+      setNote('');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('somethingWentWrong'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {header}
+
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={[styles.content, { paddingBottom: bottomInset + 24 }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={[styles.balanceCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+          <Text style={[styles.balanceLabel, { color: colors.textSecondary }]}>{t('balanceOwed')}</Text>
+          <Text style={[styles.balanceValue, { color: balance > 0 ? colors.danger : colors.green }]}>
+            {formatCurrency(Math.max(0, balance))}
+          </Text>
+          {balance > 0 && (
+            <Text style={[styles.balanceSub, { color: colors.textMuted }]}>
+              {t('ageingCurrent')} {formatCurrency(ageing.current)} · {t('ageing31to60')} {formatCurrency(ageing.days31to60)} · {t('ageingOver60')} {formatCurrency(ageing.over60)}
+            </Text>
+          )}
+
+          <View style={styles.phoneRow}>
+            <TextInput
+              style={[styles.phoneInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              value={phone}
+              onChangeText={setPhoneInput}
+              onBlur={handleSavePhone}
+              placeholder={t('phone')}
+              placeholderTextColor={colors.textMuted}
+              keyboardType="phone-pad"
+            />
+            <Pressable
+              style={({ pressed }) => [
+                styles.remindBtn,
+                { backgroundColor: '#25D366', opacity: pressed || balance <= 0 ? 0.6 : 1 },
+              ]}
+              onPress={handleRemind}
+              disabled={balance <= 0}
+            >
+              <Ionicons name="logo-whatsapp" size={18} color="#fff" />
+              <Text style={styles.remindBtnText}>{t('sendReminder')}</Text>
+            </Pressable>
+          </View>
+        </View>
+
+        {balance > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('recordRepayment')}</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              value={amountInput}
+              onChangeText={v => setAmountInput(v.replace(/[^0-9.]/g, ''))}
+              placeholder={t('repaymentAmount')}
+              placeholderTextColor={colors.textMuted}
+              keyboardType="decimal-pad"
+            />
+            <View style={styles.pillRow}>
+              {(['cash', 'transfer'] as CreditPaymentMethod[]).map(m => (
+                <Pressable
+                  key={m}
+                  style={[
+                    styles.pill,
+                    {
+                      backgroundColor: method === m ? colors.primary : colors.surface,
+                      borderColor: method === m ? colors.primary : colors.border,
+                    },
+                  ]}
+                  onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setMethod(m); }}
+                >
+                  <Text style={[styles.pillText, { color: method === m ? '#fff' : colors.textSecondary }]}>
+                    {t(METHOD_LABEL_KEYS[m])}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              value={note}
+              onChangeText={setNote}
+              placeholder={t('repaymentNote')}
+              placeholderTextColor={colors.textMuted}
+            />
+            <Pressable
+              style={({ pressed }) => [
+                styles.saveBtn,
+                { backgroundColor: colors.green, opacity: pressed || saving || amount <= 0 ? 0.7 : 1 },
+              ]}
+              onPress={handleRecord}
+              disabled={saving || amount <= 0}
+            >
+              <Ionicons name="checkmark-circle" size={20} color="#fff" />
+              <Text style={styles.saveBtnText}>{t('recordRepayment')}</Text>
+            </Pressable>
+          </>
+        )}
+
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('accountHistory')}</Text>
+        {entries.map(entry => (
+          <View key={`${entry.kind}-${entry.id}`} style={[styles.entryRow, { borderBottomColor: colors.border }]}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.entryLabel, { color: colors.text }]}>
+                {t(ENTRY_LABEL_KEYS[entry.kind])}
+                {entry.kind === 'payment' ? ` · ${t(METHOD_LABEL_KEYS[entry.method])}` : ''}
+              </Text>
+              <Text style={[styles.entrySub, { color: colors.textMuted }]} numberOfLines={1}>
+                {dayjs(entry.date).format('MMM D, YYYY h:mm A')}
+                {entry.kind === 'payment' && entry.note ? ` · ${entry.note}` : ''}
+              </Text>
+            </View>
+            <View style={{ alignItems: 'flex-end' }}>
+              <Text style={[styles.entryAmount, { color: entry.amount > 0 ? colors.danger : colors.green }]}>
+                {entry.amount > 0 ? '+' : '−'}{formatCurrency(Math.abs(entry.amount))}
+              </Text>
+              <Text style={[styles.entrySub, { color: colors.textMuted }]}>{formatCurrency(entry.balance)}</Text>
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backBtn: { width: 40, height: 40, justifyContent: 'center' },
+  title: { flex: 1, fontFamily: 'Poppins_600SemiBold', fontSize: 18, textAlign: 'center' },
+  content: { paddingHorizontal: 20, paddingTop: 16 },
+  emptyWrap: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 40 },
+  emptyText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center' },
+  balanceCard: { borderRadius: 16, borderWidth: 1, padding: 16, marginBottom: 20 },
+  balanceLabel: { fontFamily: 'Poppins_500Medium', fontSize: 13 },
+  balanceValue: { fontFamily: 'Poppins_700Bold', fontSize: 26 },
+  balanceSub: { fontFamily: 'Poppins_400Regular', fontSize: 11, marginTop: 2 },
+  phoneRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 14 },
+  phoneInput: {
+    flex: 1,
+    fontFamily: 'Poppins_400Regular',
+    fontSize: 14,
+    height: 42,
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+  },
+  remindBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    height: 42,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+  },
+  remindBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 13, color: '#fff' },
+  sectionTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 16, marginBottom: 10, marginTop: 4 },
+  input: {
+    fontFamily: 'Poppins_400Regular',
+    fontSize: 15,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    marginBottom: 10,
+  },
+  pillRow: { flexDirection: 'row', gap: 8, marginBottom: 10 },
+  pill: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  pillText: { fontFamily: 'Poppins_500Medium', fontSize: 13 },
+  saveBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 14,
+    gap: 8,
+    marginBottom: 24,
+  },
+  saveBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 15, color: '#fff' },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  entryLabel: { fontFamily: 'Poppins_500Medium', fontSize: 14 },
+  entrySub: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
+  entryAmount: { fontFamily: 'Poppins_600SemiBold', fontSize: 14 },
+});
@@ -0,0 +1,349 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  ScrollView,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useToast } from '@/lib/toast-context';
+import { useThemeColors } from '@/constants/colors';
+import { formatCurrency } from '@/lib/format';
+import { customerOrders, customerSales, summarizeCustomer } from '@/lib/customers';
+import { redemptionValue } from '@/lib/loyalty';
+
+// Opened without a customerId it adds a new customer instead
+export default function CustomerDetailScreen() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const toast = useToast();
+  const { customerId } = useLocalSearchParams<{ customerId?: string }>();
+  const {
+    customers, sales, saleReturns, orders, creditAccounts, loyaltyEntries, loyaltyBalances, shopProfile,
+    addCustomer, updateCustomer,
+  } = useShop();
+
+  const customer = customers.find(c => c.id === customerId);
+  const isNew = !customerId;
+
+  const [name, setName] = useState(customer?.name ?? '');
+  const [phone, setPhone] = useState(customer?.phone ?? '');
+  const [address, setAddress] = useState(customer?.address ?? '');
+  const [notes, setNotes] = useState(customer?.notes ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const purchases = useMemo(() => (customer ? customerSales(customer, sales) : []), [customer, sales]);
+  const summary = useMemo(() => summarizeCustomer(purchases, saleReturns), [purchases, saleReturns]);
+  const history = useMemo(() => [...purchases].reverse(), [purchases]);
+  const customerOrderList = useMemo(() => (customer ? customerOrders(customer, orders) : []), [customer, orders]);
+  const account = creditAccounts.find(a => a.customer.id === customerId);
+  const points = customer ? loyaltyBalances[customer.id] ?? 0 : 0;
+  const pointsHistory = useMemo(
+    () => (customer ? loyaltyEntries.filter(e => e.customerId === customer.id) : []),
+    [customer, loyaltyEntries],
+  );
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const bottomInset = Platform.OS === 'web' ? 20 : insets.bottom;
+
+  const header = (
+    <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+      <Pressable onPress={() => router.back()} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+        <Ionicons name="chevron-back" size={24} color={colors.text} />
+      </Pressable>
+      <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+        {isNew ? t('addCustomer') : customer?.name}
+      </Text>
+      <View style={{ width: 40 }} />
+    </View>
+  );
+
+  if (!isNew && !customer) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        {header}
+        <View style={styles.emptyWrap}>
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t('customerNotFound')}</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const isDirty = !customer
+    || name.trim() !== customer.name
+    || phone.trim() !== customer.phone
+    || address.trim() !== customer.address
+    || notes.trim() !== customer.notes;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (customer) {
+        if (!name.trim()) throw new Error(t('customerNameRequired'));
+        await updateCustomer(customer.id, {
+          name: name.trim(),
+          phone: phone.trim(),
+          address: address.trim(),
+          notes: notes.trim(),
+        });
+        toast.success(t('customerSaved'));
+      } else {
+        const created = await addCustomer({ name, phone, address, notes });
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        toast.success(t('customerSaved'));
+        router.replace({ pathname: '/customer-detail', params: { customerId: created.id } });
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('somethingWentWrong'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fields = [
+    { label: t('customerName'), value: name, onChange: setName, keyboardType: 'default' as const },
+    { label: t('phone'), value: phone, onChange: setPhone, keyboardType: 'phone-pad' as const },
+    { label: t('address'), value: address, onChange: setAddress, keyboardType: 'default' as const },
+  ];
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {header}
+
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={[styles.content, { paddingBottom: bottomInset + 24 }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {customer && (
+          <View style={styles.statRow}>
+            <View style={[styles.statCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{t('totalSpend')}</Text>
+              <Text style={[styles.statValue, { color: colors.primary }]}>{formatCurrency(summary.totalSpend)}</Text>
+            </View>
+            <View style={[styles.statCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{t('visits')}</Text>
+              <Text style={[styles.statValue, { color: colors.text }]}>{summary.visits}</Text>
+            </View>
+            <View style={[styles.statCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{t('lastVisit')}</Text>
+              <Text style={[styles.statValue, { color: colors.text }]}>
+                {summary.lastVisitAt ? dayjs(summary.lastVisitAt).format('MMM D') : '—'}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {account && account.entries.length > 0 && (
+          <Pressable
+            style={({ pressed }) => [
+              styles.creditRow,
+              { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: pressed ? 0.9 : 1 },
+            ]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push({ pathname: '/customer-account', params: { customerId: account.customer.id } });
+            }}
+          >
+            <Ionicons name="book-outline" size={20} color={colors.primary} />
+            <Text style={[styles.creditLabel, { color: colors.text }]}>{t('balanceOwed')}</Text>
+            <Text style={[styles.creditValue, { color: account.balance > 0 ? colors.danger : colors.green }]}>
+              {formatCurrency(Math.max(0, account.balance))}
+            </Text>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+        )}
+
+        {customer && (shopProfile.loyaltySettings.enabled || pointsHistory.length > 0) && (
+          <View style={[styles.creditRow, { backgroundColor: colors.card, borderColor: colors.cardBorder, marginTop: 8 }]}>
+            <Ionicons name="star-outline" size={20} color={colors.gold} />
+            <Text style={[styles.creditLabel, { color: colors.text }]}>{t('loyaltyPoints')}</Text>
+            <Text style={[styles.creditValue, { color: colors.text }]}>
+              {t('loyaltyPointsWorth', {
+                points,
+                amount: formatCurrency(redemptionValue(points, shopProfile.loyaltySettings)),
+              })}
+            </Text>
+          </View>
+        )}
+
+        {fields.map(f => (
+          <View key={f.label}>
+            <Text style={[styles.label, { color: colors.text }]}>{f.label}</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              value={f.value}
+              onChangeText={f.onChange}
+              placeholderTextColor={colors.textMuted}
+              keyboardType={f.keyboardType}
+            />
+          </View>
+        ))}
+        <Text style={[styles.label, { color: colors.text }]}>{t('customerNotes')}</Text>
+        <TextInput
+          style={[styles.input, styles.textArea, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder={t('customerNotesPlaceholder')}
+          placeholderTextColor={colors.textMuted}
+          multiline
+        />
+
+        {isDirty && (
+          <Pressable
+            style={({ pressed }) => [styles.saveBtn, { backgroundColor: colors.primary, opacity: pressed || saving ? 0.85 : 1 }]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            <Ionicons name="checkmark-circle" size={20} color="#fff" />
+            <Text style={styles.saveBtnText}>{t('save')}</Text>
+          </Pressable>
+        )}
+
+        {customer && (
+          <>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('purchaseHistory')}</Text>
+            {history.length === 0 ? (
+              <Text style={[styles.emptyText, { color: colors.textMuted }]}>{t('noVisitsYet')}</Text>
+            ) : history.map(sale => (
+              <Pressable
+                key={sale.id}
+                style={[styles.historyRow, { borderBottomColor: colors.border }]}
+                onPress={() => router.push({ pathname: '/sale-receipt', params: { saleId: sale.id } })}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.historyTitle, { color: colors.text }]} numberOfLines={1}>
+                    {sale.items.map(i => `${i.quantity}× ${i.productName}`).join(', ')}
+                  </Text>
+                  <Text style={[styles.historySub, { color: colors.textMuted }]}>
+                    {dayjs(sale.createdAt).format('MMM D, YYYY h:mm A')}
+                    {sale.isCredit ? ` · ${t('ledgerSale')}` : ''}
+                  </Text>
+                </View>
+                <Text style={[styles.historyAmount, { color: colors.text }]}>{formatCurrency(sale.total)}</Text>
+              </Pressable>
+            ))}
+
+            {customerOrderList.length > 0 && (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('orders')}</Text>
+                {customerOrderList.map(order => (
+                  <View key={order.id} style={[styles.historyRow, { borderBottomColor: colors.border }]}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={[styles.historyTitle, { color: colors.text }]}>
+                        {t(order.status === 'new' ? 'newOrders' : order.status)}
+                      </Text>
+                      <Text style={[styles.historySub, { color: colors.textMuted }]}>
+                        {dayjs(order.createdAt).format('MMM D, YYYY h:mm A')}
+                      </Text>
+                    </View>
+                    <Text style={[styles.historyAmount, { color: colors.text }]}>{formatCurrency(order.total)}</Text>
+                  </View>
+                ))}
+              </>
+            )}
+
+            {pointsHistory.length > 0 && (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('loyaltyHistory')}</Text>
+                {pointsHistory.map(entry => (
+                  <Pressable
+                    key={entry.id}
+                    style={[styles.historyRow, { borderBottomColor: colors.border }]}
+                    onPress={() => router.push({ pathname: '/sale-receipt', params: { saleId: entry.saleId } })}
+                  >
+                    <View style={{ flex: 1 }}>
+                      <Text style={[styles.historyTitle, { color: colors.text }]}>{t(`loyaltyEntry_${entry.kind}`)}</Text>
+                      <Text style={[styles.historySub, { color: colors.textMuted }]}>
+                        {dayjs(entry.createdAt).format('MMM D, YYYY h:mm A')}
+                      </Text>
+                    </View>
+                    <Text style={[styles.historyAmount, { color: entry.points > 0 ? colors.green : colors.danger }]}>
+                      {entry.points > 0 ? `+${entry.points}` : entry.points}
+                    </Text>
+                  </Pressable>
+                ))}
+              </>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backBtn: { width: 40, height: 40, justifyContent: 'center' },
+  title: { flex: 1, fontFamily: 'Poppins_600SemiBold', fontSize: 18, textAlign: 'center' },
+  content: { paddingHorizontal: 20, paddingTop: 16 },
+  emptyWrap: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 40 },
+  emptyText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center', paddingVertical: 12 },
+  statRow: { flexDirection: 'row', gap: 8, marginBottom: 12 },
+  statCard: { flex: 1, borderRadius: 14, borderWidth: 1, padding: 12 },
+  statLabel: { fontFamily: 'Poppins_400Regular', fontSize: 11 },
+  statValue: { fontFamily: 'Poppins_700Bold', fontSize: 15 },
+  creditRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginBottom: 4,
+  },
+  creditLabel: { flex: 1, fontFamily: 'Poppins_500Medium', fontSize: 14 },
+  creditValue: { fontFamily: 'Poppins_600SemiBold', fontSize: 14 },
+  label: { fontFamily: 'Poppins_500Medium', fontSize: 14, marginBottom: 6, marginTop: 12 },
+  input: {
+    fontFamily: 'Poppins_400Regular',
+    fontSize: 15,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+  },
+  textArea: { height: 90, paddingTop: 12, textAlignVertical: 'top' },
+  saveBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 14,
+    gap: 8,
+    marginTop: 16,
+  },
+  saveBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 15, color: '#fff' },
+  sectionTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 16, marginTop: 24, marginBottom: 4 },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  historyTitle: { fontFamily: 'Poppins_500Medium', fontSize: 14 },
+  historySub: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
+  historyAmount: { fontFamily: 'Poppins_600SemiBold', fontSize: 14 },
+});
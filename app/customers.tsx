@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  FlatList,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useThemeColors } from '@/constants/colors';
+import { formatCurrency } from '@/lib/format';
+import { customerSales, normalizeCustomerName, normalizePhone, summarizeCustomer } from '@/lib/customers';
+
+export default function CustomersScreen() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { customers, sales, saleReturns } = useShop();
+  const [search, setSearch] = useState('');
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const bottomInset = Platform.OS === 'web' ? 20 : insets.bottom;
+
+  // Most recent visitors first; customers who have never bought go last, by name
+  const rows = useMemo(() => {
+    const q = normalizeCustomerName(search);
+    const digits = normalizePhone(search);
+    return customers
+      .filter(c => !q
+        || normalizeCustomerName(c.name).includes(q)
+        || (!!digits && normalizePhone(c.phone).includes(digits)))
+      .map(c => ({ customer: c, summary: summarizeCustomer(customerSales(c, sales), saleReturns) }))
+      .sort((a, b) => (b.summary.lastVisitAt ?? '').localeCompare(a.summary.lastVisitAt ?? '')
+        || a.customer.name.localeCompare(b.customer.name));
+  }, [customers, sales, saleReturns, search]);
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+        <Pressable onPress={() => router.back()} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </Pressable>
+        <Text style={[styles.title, { color: colors.text }]}>{t('customers')}</Text>
+        <Pressable
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.push('/customer-detail');
+          }}
+          style={({ pressed }) => [styles.addBtn, { opacity: pressed ? 0.7 : 1 }]}
+        >
+          <Ionicons name="person-add-outline" size={22} color={colors.primary} />
+        </Pressable>
+      </View>
+
+      <View style={styles.searchWrap}>
+        <View style={[styles.searchBox, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <Ionicons name="search" size={18} color={colors.textMuted} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.text }]}
+            value={search}
+            onChangeText={setSearch}
+            placeholder={t('searchCustomers')}
+            placeholderTextColor={colors.textMuted}
+          />
+        </View>
+      </View>
+
+      <FlatList
+        data={rows}
+        keyExtractor={row => row.customer.id}
+        contentContainerStyle={[styles.list, { paddingBottom: bottomInset + 24 }]}
+        keyboardShouldPersistTaps="handled"
+        renderItem={({ item: { customer, summary } }) => (
+          <Pressable
+            style={({ pressed }) => [
+              styles.row,
+              { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: pressed ? 0.9 : 1 },
+            ]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push({ pathname: '/customer-detail', params: { customerId: customer.id } });
+            }}
+          >
+            <View style={[styles.avatar, { backgroundColor: colors.primary + '18' }]}>
+              <Text style={[styles.avatarText, { color: colors.primary }]}>{customer.name.charAt(0).toUpperCase()}</Text>
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>{customer.name}</Text>
+              <Text style={[styles.sub, { color: colors.textMuted }]} numberOfLines={1}>
+                {[
+                  customer.phone,
+                  summary.lastVisitAt
+                    ? t('lastVisitOn', { date: dayjs(summary.lastVisitAt).format('MMM D, YYYY') })
+                    : t('noVisitsYet'),
+                ].filter(Boolean).join(' · ')}
+              </Text>
+            </View>
+            <Text style={[styles.spend, { color: colors.text }]}>{formatCurrency(summary.totalSpend)}</Text>
+          </Pressable>
+        )}
+        ListEmptyComponent={
+          <View style={styles.emptyWrap}>
+            <Ionicons name="people-outline" size={40} color={colors.textMuted} />
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+              {search.trim() ? t('noCustomersMatch') : t('noCustomersYet')}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backBtn: { width: 40, height: 40, justifyContent: 'center' },
+  addBtn: { width: 40, height: 40, alignItems: 'flex-end', justifyContent: 'center' },
+  title: { fontFamily: 'Poppins_600SemiBold', fontSize: 18 },
+  searchWrap: { paddingHorizontal: 20, paddingTop: 12 },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+  },
+  searchInput: { flex: 1, fontFamily: 'Poppins_400Regular', fontSize: 14 },
+  list: { paddingHorizontal: 20, paddingTop: 12 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  avatar: { width: 40, height: 40, borderRadius: 20, alignItems: 'center', justifyContent: 'center' },
+  avatarText: { fontFamily: 'Poppins_600SemiBold', fontSize: 16 },
+  name: { fontFamily: 'Poppins_600SemiBold', fontSize: 14 },
+  sub: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
+  spend: { fontFamily: 'Poppins_600SemiBold', fontSize: 14 },
+  emptyWrap: { alignItems: 'center', gap: 8, paddingVertical: 60 },
+  emptyText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center' },
+});
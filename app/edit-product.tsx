@@ -8,6 +8,7 @@ import {
   Platform,
   TextInput,
   Alert,
+  Switch,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -17,19 +18,29 @@ import * as Haptics from 'expo-haptics';
 import * as ImagePicker from 'expo-image-picker';
 import { KeyboardAwareScrollViewCompat } from '@/components/KeyboardAwareScrollViewCompat';
 import { BarcodeScanner } from '@/components/BarcodeScanner';
+import { ProductUnitsEditor, UnitDraft, parseUnitDrafts, toUnitDrafts } from '@/components/ProductUnitsEditor';
+import { BundleComponentsEditor } from '@/components/BundleComponentsEditor';
 import { useShop } from '@/lib/shop-context';
 import { useThemeColors } from '@/constants/colors';
+import { formatCurrency } from '@/lib/format';
+import { variantsOf } from '@/lib/variants';
+import { bundleStock } from '@/lib/bundles';
+import type { BundleComponent } from '@/lib/types';
 
 export default function EditProductScreen() {
   const colorScheme = useColorScheme();
   const colors = useThemeColors(colorScheme);
   const insets = useSafeAreaInsets();
   const { productId } = useLocalSearchParams<{ productId: string }>();
-  const { products, updateProduct, adjustStock, deleteProduct } = useShop();
+  const { products, updateProduct, adjustStock, deleteProduct, shopProfile } = useShop();
+  const taxSettings = shopProfile.taxSettings;
 
   const product = useMemo(() => products.find(p => p.id === productId), [products, productId]);
+  const variants = useMemo(() => (productId ? variantsOf(products, productId) : []), [products, productId]);
+  const isVariant = !!product?.parentId;
 
-  const [name, setName] = useState(product?.name || '');
+  // A variant edits its own label; the product name comes from its parent
+  const [name, setName] = useState((isVariant ? product?.variantName : product?.name) || '');
   const [price, setPrice] = useState(product?.price.toString() || '');
   const [costPrice, setCostPrice] = useState(product?.costPrice?.toString() ?? '');
   const [unit, setUnit] = useState(product?.unit ?? '');
@@ -39,6 +50,9 @@ export default function EditProductScreen() {
   const [barcode, setBarcode] = useState(product?.barcode || '');
   const [showScanner, setShowScanner] = useState(false);
   const [imageUri, setImageUri] = useState<string | null>(product?.imageUri || null);
+  const [units, setUnits] = useState<UnitDraft[]>(toUnitDrafts(product?.units ?? []));
+  const [components, setComponents] = useState<BundleComponent[]>(product?.components ?? []);
+  const [taxExempt, setTaxExempt] = useState(product?.taxExempt ?? false);
 
   const topInset = Platform.OS === 'web' ? 67 : insets.top;
   const bottomInset = Platform.OS === 'web' ? 34 : insets.bottom;
@@ -89,26 +103,37 @@ export default function EditProductScreen() {
 
   const handleSave = async () => {
     if (!name.trim()) {
-      Alert.alert('Missing Name', 'Please enter a product name.');
+      Alert.alert('Missing Name', isVariant ? 'Please name the variant, e.g. Red / L.' : 'Please enter a product name.');
+      return;
+    }
+    const parsed = parseUnitDrafts(units);
+    if ('error' in parsed) {
+      Alert.alert('Selling Units', parsed.error);
       return;
     }
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     await updateProduct(product.id, {
-      name: name.trim(),
+      ...(isVariant ? { variantName: name.trim() } : { name: name.trim() }),
       price: parseFloat(price) || 0,
       costPrice: costPrice ? parseFloat(costPrice) : null,
       unit: unit.trim() || null,
-      stock: parseInt(stock) || 0,
+      stock: components.length > 0 ? 0 : parseInt(stock) || 0,
       lowStockThreshold: parseInt(lowStock) || 5,
-      category: category.trim() || 'General',
+      category: isVariant ? product.category : category.trim() || 'General',
       imageUri,
       barcode: barcode.trim() || null,
+      taxExempt,
+      units: parsed.units,
+      components,
     });
     router.back();
   };
 
   const handleDelete = () => {
-    Alert.alert('Delete Product', `Are you sure you want to delete "${product.name}"?`, [
+    const message = variants.length > 0
+      ? `Are you sure you want to delete "${product.name}" and its ${variants.length} variants?`
+      : `Are you sure you want to delete "${isVariant ? product.variantName : product.name}"?`;
+    Alert.alert(isVariant ? 'Delete Variant' : 'Delete Product', message, [
       { text: 'Cancel', style: 'cancel' },
       {
         text: 'Delete',
@@ -134,7 +159,7 @@ export default function EditProductScreen() {
         <Pressable onPress={() => router.back()}>
           <Ionicons name="close" size={28} color={colors.text} />
         </Pressable>
-        <Text style={[styles.topBarTitle, { color: colors.text }]}>Edit Product</Text>
+        <Text style={[styles.topBarTitle, { color: colors.text }]}>{isVariant ? 'Edit Variant' : 'Edit Product'}</Text>
         <Pressable onPress={handleSave}>
           <Ionicons name="checkmark" size={28} color={colors.primary} />
         </Pressable>
@@ -156,7 +181,10 @@ export default function EditProductScreen() {
           )}
         </Pressable>
 
-        <Text style={[styles.label, { color: colors.text }]}>Product Name</Text>
+        {isVariant && (
+          <Text style={[styles.parentNote, { color: colors.textSecondary }]}>Variant of {product.name}</Text>
+        )}
+        <Text style={[styles.label, { color: colors.text }]}>{isVariant ? 'Variant' : 'Product Name'}</Text>
         <TextInput
           style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
           value={name}
@@ -195,54 +223,108 @@ export default function EditProductScreen() {
           </View>
         </View>
 
-        <Text style={[styles.label, { color: colors.text }]}>Stock</Text>
-        <View style={styles.stockRow}>
-          <Pressable
-            style={[styles.stockAdjustBtn, { backgroundColor: colors.danger }]}
-            onPress={() => handleQuickAdjust(-1)}
-          >
-            <Ionicons name="remove" size={22} color="#fff" />
-          </Pressable>
-          <TextInput
-            style={[styles.stockInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
-            value={stock}
-            onChangeText={setStock}
-            keyboardType="numeric"
-            textAlign="center"
-          />
-          <Pressable
-            style={[styles.stockAdjustBtn, { backgroundColor: colors.green }]}
-            onPress={() => handleQuickAdjust(1)}
-          >
-            <Ionicons name="add" size={22} color="#fff" />
-          </Pressable>
-        </View>
-        <View style={styles.quickStockRow}>
-          {[5, 10, 20, 50].map(amt => (
+        {/* Stock is kept on each variant once there are any, and a bundle's comes from its contents */}
+        {components.length > 0 && (
+          <Text style={[styles.hint, { color: colors.textMuted }]}>
+            {bundleStock({ ...product, components }, products)} can be made up from stock on hand
+          </Text>
+        )}
+        {variants.length === 0 && components.length === 0 && (
+          <>
+            <Text style={[styles.label, { color: colors.text }]}>Stock</Text>
+            <View style={styles.stockRow}>
+              <Pressable
+                style={[styles.stockAdjustBtn, { backgroundColor: colors.danger }]}
+                onPress={() => handleQuickAdjust(-1)}
+              >
+                <Ionicons name="remove" size={22} color="#fff" />
+              </Pressable>
+              <TextInput
+                style={[styles.stockInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+                value={stock}
+                onChangeText={setStock}
+                keyboardType="numeric"
+                textAlign="center"
+              />
+              <Pressable
+                style={[styles.stockAdjustBtn, { backgroundColor: colors.green }]}
+                onPress={() => handleQuickAdjust(1)}
+              >
+                <Ionicons name="add" size={22} color="#fff" />
+              </Pressable>
+            </View>
+            <View style={styles.quickStockRow}>
+              {[5, 10, 20, 50].map(amt => (
+                <Pressable
+                  key={amt}
+                  style={[styles.quickStockBtn, { backgroundColor: colors.surfaceElevated, borderColor: colors.border }]}
+                  onPress={() => handleQuickAdjust(amt)}
+                >
+                  <Text style={[styles.quickStockText, { color: colors.green }]}>+{amt}</Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <Text style={[styles.label, { color: colors.text }]}>Low Stock Alert</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              value={lowStock}
+              onChangeText={setLowStock}
+              keyboardType="numeric"
+            />
+          </>
+        )}
+
+        {!isVariant && (
+          <>
+            <Text style={[styles.label, { color: colors.text }]}>Category</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              value={category}
+              onChangeText={setCategory}
+            />
+          </>
+        )}
+
+        {!isVariant && components.length === 0 && (
+          <>
+            <Text style={[styles.label, { color: colors.text }]}>Variants</Text>
+            <Text style={[styles.hint, { color: colors.textMuted }]}>
+              Sizes, colours or flavours with their own price, stock and barcode.
+            </Text>
+            {variants.map(v => (
+              <Pressable
+                key={v.id}
+                style={({ pressed }) => [
+                  styles.variantRow,
+                  { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: pressed ? 0.9 : 1 },
+                ]}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  router.push({ pathname: '/edit-product', params: { productId: v.id } });
+                }}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.variantName, { color: colors.text }]} numberOfLines={1}>{v.variantName}</Text>
+                  <Text style={[styles.variantMeta, { color: colors.textMuted }]}>
+                    {formatCurrency(v.price)} · {v.stock} in stock
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+              </Pressable>
+            ))}
             <Pressable
-              key={amt}
-              style={[styles.quickStockBtn, { backgroundColor: colors.surfaceElevated, borderColor: colors.border }]}
-              onPress={() => handleQuickAdjust(amt)}
+              style={({ pressed }) => [styles.addVariantBtn, { borderColor: colors.primary, opacity: pressed ? 0.8 : 1 }]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push({ pathname: '/add-product', params: { parentId: product.id } });
+              }}
             >
-              <Text style={[styles.quickStockText, { color: colors.green }]}>+{amt}</Text>
+              <Ionicons name="add" size={18} color={colors.primary} />
+              <Text style={[styles.addVariantText, { color: colors.primary }]}>Add variant</Text>
             </Pressable>
-          ))}
-        </View>
-
-        <Text style={[styles.label, { color: colors.text }]}>Low Stock Alert</Text>
-        <TextInput
-          style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
-          value={lowStock}
-          onChangeText={setLowStock}
-          keyboardType="numeric"
-        />
-
-        <Text style={[styles.label, { color: colors.text }]}>Category</Text>
-        <TextInput
-          style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
-          value={category}
-          onChangeText={setCategory}
-        />
+          </>
+        )}
 
         <Text style={[styles.label, { color: colors.text }]}>Barcode</Text>
         <View style={[styles.barcodeRow, { backgroundColor: colors.surface, borderColor: colors.border }]}>
@@ -262,6 +344,27 @@ export default function EditProductScreen() {
           </Pressable>
         </View>
 
+        {!isVariant && variants.length === 0 && (
+          <BundleComponentsEditor components={components} onChange={setComponents} products={products} bundleId={product.id} />
+        )}
+
+        <ProductUnitsEditor units={units} onChange={setUnits} baseUnit={unit} />
+
+        {taxSettings.enabled && (
+          <View style={[styles.toggleRow, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.toggleTitle, { color: colors.text }]}>{taxSettings.name} exempt</Text>
+              <Text style={[styles.toggleSub, { color: colors.textMuted }]}>No {taxSettings.name} is charged on this product</Text>
+            </View>
+            <Switch
+              value={taxExempt}
+              onValueChange={setTaxExempt}
+              trackColor={{ true: colors.primary, false: colors.border }}
+              thumbColor="#fff"
+            />
+          </View>
+        )}
+
         <Pressable
           style={({ pressed }) => [styles.saveBtn, { backgroundColor: colors.primary, opacity: pressed ? 0.9 : 1 }]}
           onPress={handleSave}
@@ -317,7 +420,33 @@ const styles = StyleSheet.create({
   imagePreview: { width: '100%', height: '100%' },
   imagePlaceholder: { flex: 1, justifyContent: 'center', alignItems: 'center', gap: 4 },
   imagePlaceholderText: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
+  parentNote: { fontFamily: 'Poppins_400Regular', fontSize: 13, marginBottom: 12 },
   label: { fontFamily: 'Poppins_500Medium', fontSize: 14, marginBottom: 6 },
+  hint: { fontFamily: 'Poppins_400Regular', fontSize: 12, marginTop: -2, marginBottom: 10 },
+  variantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  variantName: { fontFamily: 'Poppins_500Medium', fontSize: 14 },
+  variantMeta: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
+  addVariantBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    marginBottom: 16,
+  },
+  addVariantText: { fontFamily: 'Poppins_500Medium', fontSize: 14 },
   input: {
     fontFamily: 'Poppins_400Regular',
     fontSize: 16,
@@ -362,6 +491,18 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  toggleTitle: { fontFamily: 'Poppins_500Medium', fontSize: 14 },
+  toggleSub: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
   saveBtn: {
     flexDirection: 'row',
     alignItems: 'center',
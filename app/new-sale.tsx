@@ -10,21 +10,391 @@ import {
   Platform,
   TextInput,
   Alert,
+  Modal,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import * as Haptics from 'expo-haptics';
 import Animated, { FadeInDown, FadeIn } from 'react-native-reanimated';
+import dayjs from 'dayjs';
 import { useShop } from '@/lib/shop-context';
 import { useThemeColors } from '@/constants/colors';
 import { formatCurrency } from '@/lib/format';
-import { Product, PaymentMethod } from '@/lib/types';
+import { calculateCartTotals, discountAmount } from '@/lib/pricing';
+import { matchCustomer, normalizeCustomerName, normalizePhone } from '@/lib/customers';
+import { pointsEarned, pointsToCover, redemptionValue } from '@/lib/loyalty';
+import { cartItemPrice, describeStock, findByBarcode, lineKey, unitFactor } from '@/lib/units';
+import { groupStock, productLabel, topLevelProducts, variantsOf } from '@/lib/variants';
+import { availableStock, isBundle, stockNeeds } from '@/lib/bundles';
+import { Product, PaymentMethod, HeldCart, CartItem, Discount, DiscountType, TaxSettings } from '@/lib/types';
 import { BarcodeScanner } from '@/components/BarcodeScanner';
 import { VirtualAccountQR } from '@/components/VirtualAccountQR';
 
 type Step = 'products' | 'cart' | 'payment';
 
+function heldCartTotal(cart: HeldCart, tax: TaxSettings): number {
+  return calculateCartTotals(cart.items, cart.discount ?? null, tax).total;
+}
+
+function describeDiscount(discount: Discount): string {
+  const amount = discount.type === 'percent' ? `${discount.value}%` : formatCurrency(discount.value);
+  return discount.promoCode ? `${discount.promoCode} · ${amount} off` : `${amount} off`;
+}
+
+// Percent or naira off one line, or off the whole cart. Only the cart-level
+// sheet takes promo codes.
+function DiscountModal({
+  visible,
+  colors,
+  title,
+  base,
+  discount,
+  onClose,
+  onApply,
+  onApplyPromoCode,
+}: {
+  visible: boolean;
+  colors: ReturnType<typeof useThemeColors>;
+  title: string;
+  base: number;
+  discount: Discount | null;
+  onClose: () => void;
+  onApply: (discount: Discount | null) => void;
+  onApplyPromoCode?: (code: string) => void;
+}) {
+  const [type, setType] = useState<DiscountType>('percent');
+  const [value, setValue] = useState('');
+  const [promoCode, setPromoCode] = useState('');
+  const insets = useSafeAreaInsets();
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+
+  const handleShow = () => {
+    setType(discount?.type ?? 'percent');
+    setValue(discount && !discount.promoCode ? String(discount.value) : '');
+    setPromoCode('');
+  };
+
+  const amount = parseFloat(value) || 0;
+  const preview = discountAmount(base, { type, value: amount });
+  const isValid = amount > 0 && (type === 'fixed' || amount <= 100);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onShow={handleShow}
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.topBar, { paddingTop: topInset + 8, backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+          <Pressable onPress={onClose}>
+            <Ionicons name="close" size={28} color={colors.text} />
+          </Pressable>
+          <Text style={[styles.topBarTitle, { color: colors.text }]} numberOfLines={1}>{title}</Text>
+          <View style={{ width: 28 }} />
+        </View>
+        <ScrollView contentContainerStyle={styles.modalBody} keyboardShouldPersistTaps="handled">
+          {onApplyPromoCode && (
+            <>
+              <Text style={[styles.paymentLabel, { color: colors.text }]}>Promo Code</Text>
+              <View style={styles.promoRow}>
+                <TextInput
+                  style={[styles.customerInput, styles.promoInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+                  placeholder="e.g. SALLAH10"
+                  placeholderTextColor={colors.textMuted}
+                  value={promoCode}
+                  onChangeText={v => setPromoCode(v.toUpperCase())}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+                <Pressable
+                  style={({ pressed }) => [styles.promoBtn, { backgroundColor: colors.primary, opacity: !promoCode.trim() ? 0.5 : pressed ? 0.9 : 1 }]}
+                  onPress={() => onApplyPromoCode(promoCode)}
+                  disabled={!promoCode.trim()}
+                >
+                  <Text style={styles.resumeBtnText}>Apply</Text>
+                </Pressable>
+              </View>
+              <Text style={[styles.modalHint, { color: colors.textSecondary }]}>Or give a discount by hand:</Text>
+            </>
+          )}
+
+          <View style={styles.methodRow}>
+            {(['percent', 'fixed'] as DiscountType[]).map(option => (
+              <Pressable
+                key={option}
+                style={[styles.methodPill, {
+                  backgroundColor: type === option ? colors.primary : colors.surface,
+                  borderColor: type === option ? colors.primary : colors.border,
+                }]}
+                onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setType(option); }}
+              >
+                <Text style={[styles.methodPillText, { color: type === option ? '#fff' : colors.textSecondary }]}>
+                  {option === 'percent' ? 'Percent (%)' : 'Amount (₦)'}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <TextInput
+            style={[styles.customerInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+            placeholder={type === 'percent' ? '10' : '500'}
+            placeholderTextColor={colors.textMuted}
+            value={value}
+            onChangeText={setValue}
+            keyboardType="decimal-pad"
+          />
+          <Text style={[styles.modalHint, { color: colors.textSecondary }]}>
+            {formatCurrency(preview)} off {formatCurrency(base)}
+          </Text>
+
+          <Pressable
+            style={({ pressed }) => [styles.nextBtn, styles.modalBtn, { backgroundColor: colors.primary, opacity: !isValid ? 0.5 : pressed ? 0.9 : 1 }]}
+            onPress={() => onApply({ type, value: amount })}
+            disabled={!isValid}
+          >
+            <Ionicons name="pricetag" size={18} color="#fff" />
+            <Text style={styles.nextBtnText}>Apply Discount</Text>
+          </Pressable>
+          {discount && (
+            <Pressable
+              style={({ pressed }) => [styles.nextBtn, styles.modalBtn, styles.removeDiscountBtn, { borderColor: colors.border, opacity: pressed ? 0.9 : 1 }]}
+              onPress={() => onApply(null)}
+            >
+              <Text style={[styles.nextBtnText, { color: colors.danger }]}>Remove Discount</Text>
+            </Pressable>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+// Name the cart being parked, e.g. after the customer who is fetching money
+function ParkCartModal({
+  visible,
+  colors,
+  onClose,
+  onPark,
+}: {
+  visible: boolean;
+  colors: ReturnType<typeof useThemeColors>;
+  onClose: () => void;
+  onPark: (name: string) => Promise<void>;
+}) {
+  const [name, setName] = useState('');
+  const insets = useSafeAreaInsets();
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+
+  const handlePark = async () => {
+    await onPark(name);
+    setName('');
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.topBar, { paddingTop: topInset + 8, backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+          <Pressable onPress={onClose}>
+            <Ionicons name="close" size={28} color={colors.text} />
+          </Pressable>
+          <Text style={[styles.topBarTitle, { color: colors.text }]}>Hold Cart</Text>
+          <View style={{ width: 28 }} />
+        </View>
+        <View style={styles.modalBody}>
+          <Text style={[styles.modalHint, { color: colors.textSecondary }]}>
+            Put this cart aside and serve the next customer. It stays on this phone until you resume or discard it.
+          </Text>
+          <TextInput
+            style={[styles.customerInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+            placeholder="Name (e.g. Musa, blue shirt)"
+            placeholderTextColor={colors.textMuted}
+            value={name}
+            onChangeText={setName}
+            autoFocus
+          />
+          <Pressable
+            style={({ pressed }) => [styles.nextBtn, styles.modalBtn, { backgroundColor: colors.primary, opacity: pressed ? 0.9 : 1 }]}
+            onPress={handlePark}
+          >
+            <Ionicons name="pause" size={20} color="#fff" />
+            <Text style={styles.nextBtnText}>Hold Cart</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function HeldCartsModal({
+  visible,
+  colors,
+  heldCarts,
+  taxSettings,
+  onClose,
+  onResume,
+  onDiscard,
+}: {
+  visible: boolean;
+  colors: ReturnType<typeof useThemeColors>;
+  heldCarts: HeldCart[];
+  taxSettings: TaxSettings;
+  onClose: () => void;
+  onResume: (cart: HeldCart) => void;
+  onDiscard: (cart: HeldCart) => void;
+}) {
+  const insets = useSafeAreaInsets();
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.topBar, { paddingTop: topInset + 8, backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+          <Pressable onPress={onClose}>
+            <Ionicons name="close" size={28} color={colors.text} />
+          </Pressable>
+          <Text style={[styles.topBarTitle, { color: colors.text }]}>Held Carts</Text>
+          <View style={{ width: 28 }} />
+        </View>
+        <FlatList
+          data={heldCarts}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.cartList}
+          renderItem={({ item }) => (
+            <View style={[styles.cartItem, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+              <View style={styles.cartItemInfo}>
+                <Text style={[styles.cartItemName, { color: colors.text }]} numberOfLines={1}>{item.name}</Text>
+                <Text style={[styles.cartItemPrice, { color: colors.textSecondary }]}>
+                  {item.items.reduce((sum, i) => sum + i.quantity, 0)} items · {formatCurrency(heldCartTotal(item, taxSettings))}
+                </Text>
+                <Text style={[styles.productRowStock, { color: colors.textMuted }]}>
+                  Held {dayjs(item.heldAt).format('h:mm A')}
+                </Text>
+              </View>
+              <View style={styles.qtyControls}>
+                <Pressable
+                  style={[styles.qtyBtn, { backgroundColor: colors.border }]}
+                  onPress={() => onDiscard(item)}
+                >
+                  <Ionicons name="trash-outline" size={16} color={colors.danger} />
+                </Pressable>
+                <Pressable
+                  style={({ pressed }) => [styles.resumeBtn, { backgroundColor: colors.primary, opacity: pressed ? 0.9 : 1 }]}
+                  onPress={() => onResume(item)}
+                >
+                  <Ionicons name="play" size={14} color="#fff" />
+                  <Text style={styles.resumeBtnText}>Resume</Text>
+                </Pressable>
+              </View>
+            </View>
+          )}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="albums-outline" size={40} color={colors.textMuted} />
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No carts on hold</Text>
+            </View>
+          }
+        />
+      </View>
+    </Modal>
+  );
+}
+
+// Pick which size, colour or flavour of a product goes in the cart
+function VariantPickerModal({
+  parent,
+  variants,
+  colors,
+  getQuantity,
+  onAdd,
+  onSetQuantity,
+  onClose,
+}: {
+  parent: Product | null;
+  variants: Product[];
+  colors: ReturnType<typeof useThemeColors>;
+  getQuantity: (productId: string) => number;
+  onAdd: (variant: Product) => void;
+  onSetQuantity: (variant: Product, quantity: number) => void;
+  onClose: () => void;
+}) {
+  const insets = useSafeAreaInsets();
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const bottomInset = Platform.OS === 'web' ? 34 : insets.bottom;
+
+  return (
+    <Modal visible={parent !== null} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.topBar, { paddingTop: topInset + 8, backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+          <Pressable onPress={onClose}>
+            <Ionicons name="close" size={28} color={colors.text} />
+          </Pressable>
+          <Text style={[styles.topBarTitle, { color: colors.text }]} numberOfLines={1}>{parent?.name}</Text>
+          <View style={{ width: 28 }} />
+        </View>
+        <FlatList
+          data={variants}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.productList}
+          renderItem={({ item }) => {
+            const qty = getQuantity(item.id);
+            return (
+              <Pressable
+                style={({ pressed }) => [
+                  styles.productRow,
+                  {
+                    backgroundColor: colors.card,
+                    borderColor: qty > 0 ? colors.primary + '40' : colors.cardBorder,
+                    opacity: pressed ? 0.95 : item.stock > 0 ? 1 : 0.6,
+                  },
+                ]}
+                onPress={() => onAdd(item)}
+              >
+                <View style={styles.productRowLeft}>
+                  <Text style={[styles.productRowName, { color: colors.text }]} numberOfLines={1}>{item.variantName}</Text>
+                  <Text style={[styles.productRowPrice, { color: colors.primary }]}>{formatCurrency(item.price)}</Text>
+                  <Text style={[styles.productRowStock, { color: colors.textMuted }]}>{describeStock(item)} in stock</Text>
+                </View>
+                {qty > 0 ? (
+                  <View style={styles.qtyControls}>
+                    <Pressable
+                      style={[styles.qtyBtn, { backgroundColor: colors.border }]}
+                      onPress={() => onSetQuantity(item, qty - 1)}
+                    >
+                      <Ionicons name="remove" size={18} color={colors.text} />
+                    </Pressable>
+                    <Text style={[styles.qtyText, { color: colors.primary }]}>{qty}</Text>
+                    <Pressable
+                      style={[styles.qtyBtn, { backgroundColor: colors.primary }]}
+                      onPress={() => onAdd(item)}
+                    >
+                      <Ionicons name="add" size={18} color="#fff" />
+                    </Pressable>
+                  </View>
+                ) : (
+                  <View style={[styles.addBtnSmall, { backgroundColor: colors.primary }]}>
+                    <Ionicons name="add" size={22} color="#fff" />
+                  </View>
+                )}
+              </Pressable>
+            );
+          }}
+        />
+        <View style={[styles.modalBody, { paddingBottom: bottomInset + 12 }]}>
+          <Pressable
+            style={({ pressed }) => [styles.nextBtn, styles.modalBtn, { backgroundColor: colors.primary, opacity: pressed ? 0.9 : 1 }]}
+            onPress={onClose}
+          >
+            <Ionicons name="checkmark" size={20} color="#fff" />
+            <Text style={styles.nextBtnText}>Done</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
 export default function NewSaleScreen() {
   const colorScheme = useColorScheme();
   const colors = useThemeColors(colorScheme);
@@ -40,6 +410,21 @@ export default function NewSaleScreen() {
     cartItemCount,
     completeSale,
     shopProfile,
+    cartSubtotal,
+    cartDiscountTotal,
+    cartTax,
+    cartDiscount,
+    setCartItemDiscount,
+    setCartItemUnit,
+    setCartDiscount,
+    applyPromoCode,
+    heldCarts,
+    parkCart,
+    resumeHeldCart,
+    discardHeldCart,
+    creditAccounts,
+    customers,
+    loyaltyBalances,
   } = useShop();
 
   const virtualAccount = shopProfile.virtualAccount;
@@ -58,30 +443,64 @@ export default function NewSaleScreen() {
   const [splitTransferInput, setSplitTransferInput] = useState('');
   const [isCredit, setIsCredit] = useState(false);
   const [customerName, setCustomerName] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [usePoints, setUsePoints] = useState(false);
+  const [showPark, setShowPark] = useState(false);
+  const [showHeld, setShowHeld] = useState(false);
+  const [variantParent, setVariantParent] = useState<Product | null>(null);
+  // Which discount sheet is open: a cart line key, the whole cart, or none
+  const [discountTarget, setDiscountTarget] = useState<string | 'cart' | null>(null);
 
   const topInset = Platform.OS === 'web' ? 67 : insets.top;
   const bottomInset = Platform.OS === 'web' ? 34 : insets.bottom;
 
+  // Saved customers matching the name or number typed so far
+  const customerSuggestions = useMemo(() => {
+    const q = normalizeCustomerName(customerName);
+    const digits = normalizePhone(customerPhone);
+    if (!q && !digits) return [];
+    return creditAccounts
+      .filter(a => {
+        const name = normalizeCustomerName(a.customer.name);
+        if (name === q) return false;
+        return (!!q && name.includes(q)) || (!!digits && normalizePhone(a.customer.phone).includes(digits));
+      })
+      .slice(0, 4);
+  }, [creditAccounts, customerName, customerPhone]);
+
+  // Variants are picked from their parent's row, which matches when any of them does
   const filtered = useMemo(() => {
-    if (!search.trim()) return products;
+    const listed = topLevelProducts(products);
+    if (!search.trim()) return listed;
     const q = search.toLowerCase();
-    return products.filter(p =>
+    const matches = (p: Product) =>
       p.name.toLowerCase().includes(q) ||
       p.category.toLowerCase().includes(q) ||
-      (p.barcode && p.barcode.toLowerCase().includes(q))
-    );
+      !!p.variantName?.toLowerCase().includes(q) ||
+      !!p.barcode?.toLowerCase().includes(q);
+    return listed.filter(p => matches(p) || variantsOf(products, p.id).some(matches));
   }, [products, search]);
 
+  // Loyalty points belong to a saved customer and are never spent on credit
+  const { loyaltySettings } = shopProfile;
+  const loyaltyCustomer = customerName.trim() ? matchCustomer(customers, customerName, customerPhone) : undefined;
+  const pointsBalance = loyaltyCustomer ? loyaltyBalances[loyaltyCustomer.id] ?? 0 : 0;
+  const coverPoints = isCredit ? 0 : pointsToCover(cartTotal, pointsBalance, loyaltySettings);
+  const redeemPoints = usePoints ? coverPoints : 0;
+  const loyaltyAmount = redemptionValue(redeemPoints, loyaltySettings, cartTotal);
+  const amountDue = Math.round((cartTotal - loyaltyAmount) * 100) / 100;
+  const pointsToEarn = !isCredit && customerName.trim() ? pointsEarned(amountDue, loyaltySettings) : 0;
+
   // Derived payment values
   const cashPaid = parseFloat(cashInput) || 0;
-  const transferPaid = parseFloat(transferInput) || cartTotal;
+  const transferPaid = parseFloat(transferInput) || amountDue;
   const splitCash = parseFloat(splitCashInput) || 0;
   const splitTransfer = parseFloat(splitTransferInput) || 0;
 
   const amountPaid = isCredit ? 0
     : paymentMethod === 'cash' ? cashPaid
-    : paymentMethod === 'transfer' ? cartTotal
-    : paymentMethod === 'gateway' ? cartTotal
+    : paymentMethod === 'transfer' ? amountDue
+    : paymentMethod === 'gateway' ? amountDue
     : splitCash + splitTransfer;
 
   const cashAmount = isCredit ? 0
@@ -90,28 +509,40 @@ export default function NewSaleScreen() {
     : 0;
 
   const transferAmount = isCredit ? 0
-    : paymentMethod === 'transfer' ? cartTotal
-    : paymentMethod === 'gateway' ? cartTotal
+    : paymentMethod === 'transfer' ? amountDue
+    : paymentMethod === 'gateway' ? amountDue
     : paymentMethod === 'split' ? splitTransfer
     : 0;
 
-  const change = paymentMethod === 'cash' ? Math.max(0, cashPaid - cartTotal) : 0;
-  const splitRemaining = Math.max(0, cartTotal - splitCash - splitTransfer);
-  const isPaymentValid = isCredit || (
-    paymentMethod === 'cash' ? cashPaid >= cartTotal
+  const change = paymentMethod === 'cash' ? Math.max(0, cashPaid - amountDue) : 0;
+  const { taxSettings } = shopProfile;
+  const taxNote = taxSettings.pricesIncludeTax
+    ? `Includes ${formatCurrency(cartTax)} ${taxSettings.name}`
+    : `+ ${formatCurrency(cartTax)} ${taxSettings.name} (${taxSettings.rate}%)`;
+  const splitRemaining = Math.max(0, amountDue - splitCash - splitTransfer);
+  const isPaymentValid = isCredit ? !!customerName.trim() : (
+    paymentMethod === 'cash' ? cashPaid >= amountDue
     : paymentMethod === 'transfer' ? true
     : paymentMethod === 'gateway' ? true
-    : splitCash + splitTransfer >= cartTotal
+    : splitCash + splitTransfer >= amountDue
   );
 
   const handleAddProduct = useCallback((product: Product) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (variantsOf(products, product.id).length > 0) {
+      setVariantParent(product);
+      return;
+    }
     addToCart(product, 1);
-  }, [addToCart]);
+  }, [addToCart, products]);
 
   const handleComplete = useCallback(async () => {
     if (!isPaymentValid) {
-      Alert.alert('Insufficient Payment', 'The amount paid is less than the total.');
+      if (isCredit) {
+        Alert.alert('Customer Required', 'Enter the customer\'s name so the credit goes on their account.');
+      } else {
+        Alert.alert('Insufficient Payment', 'The amount paid is less than the total.');
+      }
       return;
     }
     try {
@@ -125,12 +556,15 @@ export default function NewSaleScreen() {
         transferAmount,
         null,
         paymentMethod === 'gateway' ? (virtualAccount?.provider ?? null) : null,
+        customerPhone || null,
+        redeemPoints,
       );
       router.replace({ pathname: '/sale-receipt', params: { saleId: sale.id } });
-    } catch {
-      Alert.alert('Error', 'Could not complete sale');
+    } catch (e) {
+      Alert.alert('Error', redeemPoints > 0 && e instanceof Error ? e.message : 'Could not complete sale');
     }
-  }, [isPaymentValid, amountPaid, isCredit, customerName, paymentMethod, cashAmount, transferAmount, completeSale]);
+  }, [isPaymentValid, amountPaid, isCredit, customerName, customerPhone, paymentMethod, cashAmount, transferAmount, redeemPoints,
+    completeSale]);
 
   const handleKeypad = useCallback((key: string, setter: (fn: (prev: string) => string) => void) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -145,12 +579,77 @@ export default function NewSaleScreen() {
   }, []);
 
   const quickAmounts = useMemo(() => {
-    const rounded = Math.ceil(cartTotal / 100) * 100;
+    const rounded = Math.ceil(amountDue / 100) * 100;
     return [rounded, rounded + 500, rounded + 1000].filter(a => a > 0);
-  }, [cartTotal]);
+  }, [amountDue]);
+
+  const discountItem: CartItem | undefined = cart.find(item => lineKey(item.product.id, item.unitId) === discountTarget);
+
+  const handleApplyDiscount = useCallback((discount: Discount | null) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (discountTarget === 'cart') setCartDiscount(discount);
+    else if (discountItem) setCartItemDiscount(discountItem.product.id, discount, discountItem.unitId ?? null);
+    setDiscountTarget(null);
+  }, [discountTarget, discountItem, setCartDiscount, setCartItemDiscount]);
+
+  const handleApplyPromoCode = useCallback((code: string) => {
+    try {
+      applyPromoCode(code);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setDiscountTarget(null);
+    } catch (err) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Promo Code', err instanceof Error ? err.message : 'Could not apply promo code');
+    }
+  }, [applyPromoCode]);
+
+  const handlePark = useCallback(async (name: string) => {
+    await parkCart(name);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setShowPark(false);
+    setStep('products');
+    setCustomerName('');
+  }, [parkCart]);
+
+  const doResume = useCallback(async (held: HeldCart) => {
+    if (cart.length > 0) await parkCart('');
+    const adjustments = await resumeHeldCart(held.id);
+    setShowHeld(false);
+    setStep('cart');
+    if (adjustments.length > 0) {
+      Alert.alert(
+        'Stock Changed',
+        adjustments
+          .map(a => a.available > 0
+            ? `${a.productName}: only ${a.available} left (was ${a.requested})`
+            : `${a.productName}: out of stock, removed`)
+          .join('\n'),
+      );
+    }
+  }, [cart.length, parkCart, resumeHeldCart]);
+
+  const handleResume = useCallback((held: HeldCart) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (cart.length === 0) {
+      doResume(held);
+      return;
+    }
+    Alert.alert('Resume Cart', 'The current cart will be put on hold first.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Resume', onPress: () => doResume(held) },
+    ]);
+  }, [cart.length, doResume]);
 
+  const handleDiscardHeld = useCallback((held: HeldCart) => {
+    Alert.alert('Discard Cart', `Discard the cart held for "${held.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => discardHeldCart(held.id) },
+    ]);
+  }, [discardHeldCart]);
+
+  // The product list adds and removes the base unit; packs are picked in the cart
   const getCartQuantity = useCallback((productId: string) => {
-    const item = cart.find(c => c.product.id === productId);
+    const item = cart.find(c => c.product.id === productId && !c.unitId);
     return item ? item.quantity : 0;
   }, [cart]);
 
@@ -163,7 +662,14 @@ export default function NewSaleScreen() {
         <Text style={[styles.topBarTitle, { color: colors.text }]}>
           {step === 'products' ? 'Select Items' : step === 'cart' ? 'Review Cart' : 'Payment'}
         </Text>
-        <View style={{ width: 28 }} />
+        <Pressable onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setShowHeld(true); }}>
+          <Ionicons name="albums-outline" size={26} color={heldCarts.length > 0 ? colors.primary : colors.textMuted} />
+          {heldCarts.length > 0 && (
+            <View style={[styles.heldBadge, { backgroundColor: colors.primary, borderColor: colors.surface }]}>
+              <Text style={styles.heldBadgeText}>{heldCarts.length}</Text>
+            </View>
+          )}
+        </Pressable>
       </View>
 
       {step === 'products' && (
@@ -195,7 +701,10 @@ export default function NewSaleScreen() {
             showsVerticalScrollIndicator={false}
             scrollEnabled={!!filtered.length}
             renderItem={({ item }) => {
-              const qty = getCartQuantity(item.id);
+              const variants = variantsOf(products, item.id);
+              const qty = variants.length > 0
+                ? variants.reduce((sum, v) => sum + getCartQuantity(v.id), 0)
+                : getCartQuantity(item.id);
               return (
                 <Pressable
                   style={({ pressed }) => [
@@ -210,10 +719,27 @@ export default function NewSaleScreen() {
                 >
                   <View style={styles.productRowLeft}>
                     <Text style={[styles.productRowName, { color: colors.text }]} numberOfLines={1}>{item.name}</Text>
-                    <Text style={[styles.productRowPrice, { color: colors.primary }]}>{formatCurrency(item.price)}</Text>
-                    <Text style={[styles.productRowStock, { color: colors.textMuted }]}>{item.stock} in stock</Text>
+                    <Text style={[styles.productRowPrice, { color: colors.primary }]}>
+                      {variants.length > 0
+                        ? `from ${formatCurrency(Math.min(...variants.map(v => v.price)))}`
+                        : formatCurrency(item.price)}
+                    </Text>
+                    <Text style={[styles.productRowStock, { color: colors.textMuted }]}>
+                      {variants.length > 0
+                        ? `${variants.length} variants · ${groupStock(item, products)} in stock`
+                        : isBundle(item)
+                          ? `Bundle · ${availableStock(item, products)} in stock`
+                          : `${describeStock(item)} in stock`}
+                    </Text>
                   </View>
-                  {qty > 0 ? (
+                  {variants.length > 0 ? (
+                    <View style={styles.qtyControls}>
+                      {qty > 0 && <Text style={[styles.qtyText, { color: colors.primary }]}>{qty}</Text>}
+                      <View style={[styles.addBtnSmall, { backgroundColor: colors.primary }]}>
+                        <Ionicons name="chevron-down" size={22} color="#fff" />
+                      </View>
+                    </View>
+                  ) : qty > 0 ? (
                     <View style={styles.qtyControls}>
                       <Pressable
                         style={[styles.qtyBtn, { backgroundColor: colors.border }]}
@@ -275,28 +801,69 @@ export default function NewSaleScreen() {
         <View style={{ flex: 1 }}>
           <FlatList
             data={cart}
-            keyExtractor={item => item.product.id}
+            keyExtractor={item => lineKey(item.product.id, item.unitId)}
             contentContainerStyle={styles.cartList}
             showsVerticalScrollIndicator={false}
             scrollEnabled={!!cart.length}
             renderItem={({ item }) => (
               <View style={[styles.cartItem, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
                 <View style={styles.cartItemInfo}>
-                  <Text style={[styles.cartItemName, { color: colors.text }]}>{item.product.name}</Text>
+                  <Text style={[styles.cartItemName, { color: colors.text }]}>{productLabel(item.product)}</Text>
                   <Text style={[styles.cartItemPrice, { color: colors.textSecondary }]}>
-                    {formatCurrency(item.product.price)} x {item.quantity}
+                    {formatCurrency(cartItemPrice(item))} x {item.quantity}
                   </Text>
+                  {item.discount && (
+                    <Text style={[styles.discountText, { color: colors.green }]}>
+                      −{formatCurrency(discountAmount(cartItemPrice(item) * item.quantity, item.discount))} ({describeDiscount(item.discount)})
+                    </Text>
+                  )}
+                  {item.product.units.length > 0 && (
+                    <View style={styles.unitPills}>
+                      {[{ id: null, name: item.product.unit || 'Single' }, ...item.product.units].map(u => {
+                        const selected = (item.unitId ?? null) === u.id;
+                        return (
+                          <Pressable
+                            key={u.id ?? 'base'}
+                            style={[
+                              styles.unitPill,
+                              {
+                                backgroundColor: selected ? colors.primary : colors.surface,
+                                borderColor: selected ? colors.primary : colors.border,
+                              },
+                            ]}
+                            onPress={() => {
+                              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                              setCartItemUnit(item.product.id, item.unitId ?? null, u.id);
+                            }}
+                          >
+                            <Text style={[styles.unitPillText, { color: selected ? '#fff' : colors.textSecondary }]}>
+                              {u.id ? `${u.name} (${unitFactor(item.product, u.id)})` : u.name}
+                            </Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                  )}
                 </View>
                 <View style={styles.cartItemRight}>
                   <Text style={[styles.cartItemSubtotal, { color: colors.primary }]}>
-                    {formatCurrency(item.product.price * item.quantity)}
+                    {formatCurrency(cartItemPrice(item) * item.quantity - discountAmount(cartItemPrice(item) * item.quantity, item.discount))}
                   </Text>
                   <View style={styles.qtyControls}>
+                    <Pressable
+                      style={[styles.qtyBtn, { backgroundColor: item.discount ? colors.green + '20' : colors.border }]}
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        setDiscountTarget(lineKey(item.product.id, item.unitId));
+                      }}
+                    >
+                      <Ionicons name="pricetag-outline" size={16} color={item.discount ? colors.green : colors.text} />
+                    </Pressable>
                     <Pressable
                       style={[styles.qtyBtn, { backgroundColor: colors.border }]}
                       onPress={() => {
                         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                        updateCartQuantity(item.product.id, item.quantity - 1);
+                        updateCartQuantity(item.product.id, item.quantity - 1, item.unitId ?? null);
                         if (item.quantity <= 1 && cart.length <= 1) setStep('products');
                       }}
                     >
@@ -307,7 +874,7 @@ export default function NewSaleScreen() {
                       style={[styles.qtyBtn, { backgroundColor: colors.primary }]}
                       onPress={() => {
                         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                        updateCartQuantity(item.product.id, item.quantity + 1);
+                        updateCartQuantity(item.product.id, item.quantity + 1, item.unitId ?? null);
                       }}
                     >
                       <Ionicons name="add" size={16} color="#fff" />
@@ -316,10 +883,31 @@ export default function NewSaleScreen() {
                 </View>
               </View>
             )}
+            ListFooterComponent={
+              cart.length > 0 ? (
+                <Pressable
+                  style={({ pressed }) => [styles.cartDiscountRow, { borderColor: cartDiscount ? colors.green : colors.border, opacity: pressed ? 0.9 : 1 }]}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    setDiscountTarget('cart');
+                  }}
+                >
+                  <Ionicons name="pricetags-outline" size={18} color={cartDiscount ? colors.green : colors.textSecondary} />
+                  <Text style={[styles.cartDiscountText, { color: cartDiscount ? colors.green : colors.textSecondary }]}>
+                    {cartDiscount ? `Cart discount: ${describeDiscount(cartDiscount)}` : 'Add discount or promo code'}
+                  </Text>
+                  <Ionicons name="chevron-forward" size={16} color={colors.textMuted} />
+                </Pressable>
+              ) : null
+            }
           />
           <View style={[styles.bottomBar, { paddingBottom: bottomInset + 12, backgroundColor: colors.surface, borderTopColor: colors.border }]}>
             <View>
-              <Text style={[styles.cartSummary, { color: colors.textSecondary }]}>Total</Text>
+              <Text style={[styles.cartSummary, { color: colors.textSecondary }]}>
+                {['Total', cartDiscountTotal > 0 && `${formatCurrency(cartDiscountTotal)} off`, cartTax > 0 && taxNote]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </Text>
               <Text style={[styles.cartTotal, { color: colors.text }]}>{formatCurrency(cartTotal)}</Text>
             </View>
             <View style={{ flexDirection: 'row', gap: 10 }}>
@@ -329,6 +917,12 @@ export default function NewSaleScreen() {
               >
                 <Ionicons name="arrow-back" size={20} color={colors.text} />
               </Pressable>
+              <Pressable
+                style={({ pressed }) => [styles.backBtn, { borderColor: colors.border, opacity: pressed ? 0.9 : 1 }]}
+                onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setShowPark(true); }}
+              >
+                <Ionicons name="pause" size={20} color={colors.text} />
+              </Pressable>
               <Pressable
                 style={({ pressed }) => [styles.nextBtn, { backgroundColor: colors.primary, opacity: pressed ? 0.9 : 1 }]}
                 onPress={() => {
@@ -354,7 +948,20 @@ export default function NewSaleScreen() {
           >
             <View style={[styles.totalDisplay, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
               <Text style={[styles.totalLabel, { color: colors.textSecondary }]}>Amount Due</Text>
-              <Text style={[styles.totalAmount, { color: colors.primary }]}>{formatCurrency(cartTotal)}</Text>
+              <Text style={[styles.totalAmount, { color: colors.primary }]}>{formatCurrency(amountDue)}</Text>
+              {loyaltyAmount > 0 && (
+                <Text style={[styles.discountText, { color: colors.green }]}>
+                  {formatCurrency(cartTotal)} less {formatCurrency(loyaltyAmount)} in points
+                </Text>
+              )}
+              {cartDiscountTotal > 0 && (
+                <Text style={[styles.discountText, { color: colors.green }]}>
+                  {formatCurrency(cartSubtotal)} less {formatCurrency(cartDiscountTotal)} discount
+                </Text>
+              )}
+              {cartTax > 0 && (
+                <Text style={[styles.discountText, { color: colors.textSecondary }]}>{taxNote}</Text>
+              )}
             </View>
 
             {/* Credit toggle */}
@@ -366,14 +973,69 @@ export default function NewSaleScreen() {
               <Text style={[styles.creditToggleText, { color: isCredit ? colors.danger : colors.textSecondary }]}>Credit Sale</Text>
             </Pressable>
 
-            {isCredit && (
-              <TextInput
-                style={[styles.customerInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
-                placeholder="Customer name (optional)"
-                placeholderTextColor={colors.textMuted}
-                value={customerName}
-                onChangeText={setCustomerName}
-              />
+            {/* Customer */}
+            <TextInput
+              style={[styles.customerInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              placeholder={isCredit ? 'Customer name' : 'Customer name (optional)'}
+              placeholderTextColor={colors.textMuted}
+              value={customerName}
+              onChangeText={setCustomerName}
+            />
+            {customerSuggestions.length > 0 && (
+              <View style={styles.customerChips}>
+                {customerSuggestions.map(a => (
+                  <Pressable
+                    key={a.customer.id || a.customer.name}
+                    style={[styles.customerChip, { backgroundColor: colors.surfaceElevated, borderColor: colors.border }]}
+                    onPress={() => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      setCustomerName(a.customer.name);
+                      if (a.customer.phone) setCustomerPhone(a.customer.phone);
+                    }}
+                  >
+                    <Text style={[styles.customerChipText, { color: colors.text }]}>{a.customer.name}</Text>
+                    {a.balance > 0 ? (
+                      <Text style={[styles.customerChipBalance, { color: colors.danger }]}>owes {formatCurrency(a.balance)}</Text>
+                    ) : !!a.customer.phone && (
+                      <Text style={[styles.customerChipBalance, { color: colors.textMuted }]}>{a.customer.phone}</Text>
+                    )}
+                  </Pressable>
+                ))}
+              </View>
+            )}
+            <TextInput
+              style={[styles.customerInput, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              placeholder="Phone number (optional)"
+              placeholderTextColor={colors.textMuted}
+              value={customerPhone}
+              onChangeText={setCustomerPhone}
+              keyboardType="phone-pad"
+            />
+
+            {/* Loyalty points */}
+            {loyaltySettings.enabled && !isCredit && !!customerName.trim() && (
+              <View style={[styles.pointsBox, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                <View style={styles.pointsRow}>
+                  <Ionicons name="star" size={16} color={colors.gold} />
+                  <Text style={[styles.pointsText, { color: colors.text }]}>
+                    {loyaltyCustomer ? `${pointsBalance} points` : 'New customer'}
+                  </Text>
+                  {pointsToEarn > 0 && (
+                    <Text style={[styles.pointsEarnText, { color: colors.green }]}>+{pointsToEarn} on this sale</Text>
+                  )}
+                </View>
+                {coverPoints > 0 && (
+                  <Pressable
+                    style={styles.pointsRow}
+                    onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setUsePoints(!usePoints); }}
+                  >
+                    <Ionicons name={usePoints ? 'checkbox' : 'square-outline'} size={22} color={usePoints ? colors.primary : colors.textMuted} />
+                    <Text style={[styles.pointsText, { color: usePoints ? colors.primary : colors.textSecondary }]}>
+                      Use {coverPoints} points ({formatCurrency(redemptionValue(coverPoints, loyaltySettings, cartTotal))})
+                    </Text>
+                  </Pressable>
+                )}
+              </View>
             )}
 
             {!isCredit && (
@@ -425,7 +1087,7 @@ export default function NewSaleScreen() {
                         </Pressable>
                       ))}
                     </View>
-                    {cashPaid >= cartTotal && cashPaid > 0 && (
+                    {cashPaid >= amountDue && cashPaid > 0 && (
                       <View style={[styles.changeDisplay, { backgroundColor: colors.successLight }]}>
                         <Text style={[styles.changeLabel, { color: colors.success }]}>Change</Text>
                         <Text style={[styles.changeValue, { color: colors.success }]}>{formatCurrency(change)}</Text>
@@ -448,7 +1110,7 @@ export default function NewSaleScreen() {
                   <View style={[styles.transferBox, { backgroundColor: colors.surface, borderColor: colors.border }]}>
                     <Ionicons name="phone-portrait-outline" size={28} color={colors.primary} />
                     <Text style={[styles.transferLabel, { color: colors.textSecondary }]}>Full payment via bank transfer</Text>
-                    <Text style={[styles.transferAmount, { color: colors.primary }]}>{formatCurrency(cartTotal)}</Text>
+                    <Text style={[styles.transferAmount, { color: colors.primary }]}>{formatCurrency(amountDue)}</Text>
                     <Text style={[styles.transferHint, { color: colors.textMuted }]}>Confirm transfer then complete sale</Text>
                   </View>
                 )}
@@ -498,9 +1160,9 @@ export default function NewSaleScreen() {
                 {paymentMethod === 'gateway' && virtualAccount && (
                   <View style={[styles.gatewayBox, { backgroundColor: colors.surface, borderColor: colors.border }]}>
                     <Text style={[styles.transferLabel, { color: colors.textSecondary }]}>Scan to Pay</Text>
-                    <VirtualAccountQR account={virtualAccount} amount={cartTotal} size={220} />
+                    <VirtualAccountQR account={virtualAccount} amount={amountDue} size={220} />
                     <Text style={[styles.transferHint, { color: colors.textMuted }]}>
-                      Ask customer to scan QR or transfer {formatCurrency(cartTotal)} to {virtualAccount.accountNumber}
+                      Ask customer to scan QR or transfer {formatCurrency(amountDue)} to {virtualAccount.accountNumber}
                     </Text>
                   </View>
                 )}
@@ -534,14 +1196,16 @@ export default function NewSaleScreen() {
         visible={showScanner}
         onScan={(code) => {
           setShowScanner(false);
-          const match = products.find(p => p.barcode === code);
+          const match = findByBarcode(products, code);
           if (match) {
-            if (match.stock <= 0) {
-              Alert.alert('Out of Stock', `"${match.name}" has no stock left.`);
+            const inStock = stockNeeds(match.product, match.unitId)
+              .every(n => (products.find(p => p.id === n.productId)?.stock ?? 0) >= n.quantity);
+            if (!inStock) {
+              Alert.alert('Out of Stock', `"${productLabel(match.product)}" has no stock left.`);
               return;
             }
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-            addToCart(match, 1);
+            addToCart(match.product, 1, match.unitId);
           } else {
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
             Alert.alert('Not Found', 'No product with that barcode. Add the barcode in the Products screen first.');
@@ -549,6 +1213,52 @@ export default function NewSaleScreen() {
         }}
         onClose={() => setShowScanner(false)}
       />
+
+      <DiscountModal
+        visible={discountTarget !== null}
+        colors={colors}
+        title={discountTarget === 'cart' ? 'Cart Discount' : discountItem ? productLabel(discountItem.product) : 'Discount'}
+        base={discountTarget === 'cart'
+          ? calculateCartTotals(cart, null).total
+          : discountItem ? cartItemPrice(discountItem) * discountItem.quantity : 0}
+        discount={discountTarget === 'cart' ? cartDiscount : discountItem?.discount ?? null}
+        onClose={() => setDiscountTarget(null)}
+        onApply={handleApplyDiscount}
+        onApplyPromoCode={discountTarget === 'cart' ? handleApplyPromoCode : undefined}
+      />
+
+      <ParkCartModal
+        visible={showPark}
+        colors={colors}
+        onClose={() => setShowPark(false)}
+        onPark={handlePark}
+      />
+
+      <VariantPickerModal
+        parent={variantParent}
+        variants={variantParent ? variantsOf(products, variantParent.id) : []}
+        colors={colors}
+        getQuantity={getCartQuantity}
+        onAdd={variant => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          addToCart(variant, 1);
+        }}
+        onSetQuantity={(variant, quantity) => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          updateCartQuantity(variant.id, quantity);
+        }}
+        onClose={() => setVariantParent(null)}
+      />
+
+      <HeldCartsModal
+        visible={showHeld}
+        colors={colors}
+        heldCarts={heldCarts}
+        taxSettings={taxSettings}
+        onClose={() => setShowHeld(false)}
+        onResume={handleResume}
+        onDiscard={handleDiscardHeld}
+      />
     </View>
   );
 }
@@ -632,6 +1342,9 @@ const styles = StyleSheet.create({
   cartItemInfo: { flex: 1 },
   cartItemName: { fontFamily: 'Poppins_500Medium', fontSize: 15 },
   cartItemPrice: { fontFamily: 'Poppins_400Regular', fontSize: 13, marginTop: 2 },
+  unitPills: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 6 },
+  unitPill: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 8, borderWidth: 1 },
+  unitPillText: { fontFamily: 'Poppins_500Medium', fontSize: 12 },
   cartItemRight: { alignItems: 'flex-end', gap: 8 },
   cartItemSubtotal: { fontFamily: 'Poppins_600SemiBold', fontSize: 15 },
   paymentContent: { paddingHorizontal: 20, paddingTop: 16, paddingBottom: 24 },
@@ -657,6 +1370,14 @@ const styles = StyleSheet.create({
     paddingHorizontal: 14,
     marginBottom: 12,
   },
+  customerChips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: -4, marginBottom: 12 },
+  customerChip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 10, borderWidth: 1 },
+  customerChipText: { fontFamily: 'Poppins_500Medium', fontSize: 13 },
+  customerChipBalance: { fontFamily: 'Poppins_400Regular', fontSize: 11 },
+  pointsBox: { padding: 14, borderRadius: 12, borderWidth: 1, gap: 10, marginBottom: 12 },
+  pointsRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  pointsText: { fontFamily: 'Poppins_500Medium', fontSize: 14, flexShrink: 1 },
+  pointsEarnText: { fontFamily: 'Poppins_500Medium', fontSize: 12, marginLeft: 'auto' },
   paymentLabel: { fontFamily: 'Poppins_500Medium', fontSize: 14, marginBottom: 8 },
   paymentDisplay: {
     flexDirection: 'row',
@@ -724,6 +1445,30 @@ const styles = StyleSheet.create({
   },
   splitSummaryLabel: { fontFamily: 'Poppins_600SemiBold', fontSize: 14 },
   splitSummaryTotal: { fontFamily: 'Poppins_400Regular', fontSize: 13 },
+  heldBadge: {
+    position: 'absolute', top: -6, right: -8,
+    minWidth: 18, height: 18, borderRadius: 9, borderWidth: 2, paddingHorizontal: 4,
+    alignItems: 'center', justifyContent: 'center',
+  },
+  heldBadgeText: { fontFamily: 'Poppins_600SemiBold', fontSize: 10, color: '#fff' },
+  modalBody: { padding: 20 },
+  modalHint: { fontFamily: 'Poppins_400Regular', fontSize: 14, lineHeight: 22, marginBottom: 16 },
+  modalBtn: { justifyContent: 'center', marginTop: 8 },
+  resumeBtn: {
+    flexDirection: 'row', alignItems: 'center', gap: 4,
+    paddingHorizontal: 12, height: 32, borderRadius: 8,
+  },
+  resumeBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 13, color: '#fff' },
+  discountText: { fontFamily: 'Poppins_500Medium', fontSize: 12, marginTop: 2 },
+  cartDiscountRow: {
+    flexDirection: 'row', alignItems: 'center', gap: 10,
+    padding: 14, borderRadius: 14, borderWidth: 1, borderStyle: 'dashed', marginTop: 4,
+  },
+  cartDiscountText: { flex: 1, fontFamily: 'Poppins_500Medium', fontSize: 14 },
+  promoRow: { flexDirection: 'row', gap: 8 },
+  promoInput: { flex: 1 },
+  promoBtn: { height: 48, paddingHorizontal: 18, borderRadius: 12, justifyContent: 'center', alignItems: 'center' },
+  removeDiscountBtn: { backgroundColor: 'transparent', borderWidth: 1 },
   gatewayBox: {
     alignItems: 'center', gap: 16, padding: 24,
     borderRadius: 16, borderWidth: 1, marginTop: 4,
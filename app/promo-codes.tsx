@@ -0,0 +1,426 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Switch,
+  Modal,
+  Alert,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import * as Crypto from 'expo-crypto';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/lib/toast-context';
+import { useThemeColors } from '@/constants/colors';
+import { formatCurrency } from '@/lib/format';
+import { normalizePromoCode } from '@/lib/pricing';
+import type { DiscountType, PromoCode } from '@/lib/types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function describeDiscount(promo: Pick<PromoCode, 'type' | 'value'>): string {
+  return promo.type === 'percent' ? `${promo.value}%` : formatCurrency(promo.value);
+}
+
+function PromoCodeEditor({
+  visible,
+  promo,
+  existingCodes,
+  colors,
+  onClose,
+  onSave,
+}: {
+  visible: boolean;
+  promo: PromoCode | null;
+  existingCodes: PromoCode[];
+  colors: ReturnType<typeof useThemeColors>;
+  onClose: () => void;
+  onSave: (promo: PromoCode) => Promise<void>;
+}) {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const [code, setCode] = useState('');
+  const [type, setType] = useState<DiscountType>('percent');
+  const [value, setValue] = useState('');
+  const [startsOn, setStartsOn] = useState('');
+  const [endsOn, setEndsOn] = useState('');
+  const [error, setError] = useState('');
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+
+  // Refill the form each time the sheet opens
+  const handleShow = () => {
+    setCode(promo?.code ?? '');
+    setType(promo?.type ?? 'percent');
+    setValue(promo ? String(promo.value) : '');
+    setStartsOn(promo?.startsOn ?? '');
+    setEndsOn(promo?.endsOn ?? '');
+    setError('');
+  };
+
+  const handleSave = async () => {
+    const normalized = normalizePromoCode(code);
+    const amount = parseFloat(value) || 0;
+    if (!normalized || amount <= 0) { setError(t('promoCodeRequired')); return; }
+    if (type === 'percent' && amount > 100) { setError(t('promoCodePercentTooHigh')); return; }
+    if ((startsOn && !DATE_PATTERN.test(startsOn)) || (endsOn && !DATE_PATTERN.test(endsOn))) {
+      setError(t('promoCodeBadDate'));
+      return;
+    }
+    if (startsOn && endsOn && endsOn < startsOn) { setError(t('promoCodeDateOrder')); return; }
+    if (existingCodes.some(p => p.code === normalized && p.id !== promo?.id)) {
+      setError(t('promoCodeDuplicate', { code: normalized }));
+      return;
+    }
+
+    await onSave({
+      id: promo?.id ?? Crypto.randomUUID(),
+      code: normalized,
+      type,
+      value: amount,
+      startsOn: startsOn || null,
+      endsOn: endsOn || null,
+      isActive: promo?.isActive ?? true,
+      createdAt: promo?.createdAt ?? new Date().toISOString(),
+    });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onShow={handleShow}
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+          <Pressable onPress={onClose} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+            <Ionicons name="close" size={24} color={colors.text} />
+          </Pressable>
+          <Text style={[styles.title, { color: colors.text }]}>{promo ? t('editPromoCode') : t('addPromoCode')}</Text>
+          <View style={{ width: 40 }} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.label, { color: colors.textSecondary }]}>{t('promoCode')}</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+            value={code}
+            onChangeText={v => { setCode(v.toUpperCase()); setError(''); }}
+            placeholder="SALLAH10"
+            placeholderTextColor={colors.textMuted}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+
+          <Text style={[styles.label, { color: colors.textSecondary }]}>{t('discountValue')}</Text>
+          <View style={styles.typeRow}>
+            {(['percent', 'fixed'] as DiscountType[]).map(option => (
+              <Pressable
+                key={option}
+                style={[
+                  styles.typeBtn,
+                  {
+                    backgroundColor: type === option ? colors.primary : colors.surface,
+                    borderColor: type === option ? colors.primary : colors.border,
+                  },
+                ]}
+                onPress={() => { setType(option); setError(''); }}
+              >
+                <Text style={[styles.typeBtnText, { color: type === option ? '#fff' : colors.textSecondary }]}>
+                  {option === 'percent' ? t('discountPercent') : t('discountFixed')}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <TextInput
+            style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+            value={value}
+            onChangeText={v => { setValue(v); setError(''); }}
+            placeholder={type === 'percent' ? '10' : '500'}
+            placeholderTextColor={colors.textMuted}
+            keyboardType="decimal-pad"
+          />
+
+          <Text style={[styles.label, { color: colors.textSecondary }]}>{t('promoCodeStartsOn')}</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+            value={startsOn}
+            onChangeText={v => { setStartsOn(v.trim()); setError(''); }}
+            placeholder={dayjs().format('YYYY-MM-DD')}
+            placeholderTextColor={colors.textMuted}
+            autoCapitalize="none"
+          />
+          <Text style={[styles.label, { color: colors.textSecondary }]}>{t('promoCodeEndsOn')}</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+            value={endsOn}
+            onChangeText={v => { setEndsOn(v.trim()); setError(''); }}
+            placeholder={dayjs().add(1, 'month').format('YYYY-MM-DD')}
+            placeholderTextColor={colors.textMuted}
+            autoCapitalize="none"
+          />
+          <Text style={[styles.hint, { color: colors.textMuted }]}>{t('promoCodeDatesHint')}</Text>
+
+          {error ? <Text style={[styles.errorText, { color: colors.danger }]}>{error}</Text> : null}
+
+          <Pressable
+            style={({ pressed }) => [styles.primaryBtn, { backgroundColor: colors.primary, opacity: pressed ? 0.85 : 1 }]}
+            onPress={handleSave}
+          >
+            <Text style={styles.primaryBtnText}>{t('save')}</Text>
+          </Pressable>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+export default function PromoCodesScreen() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { shopProfile, updateShopProfile } = useShop();
+  const { user } = useAuth();
+  const toast = useToast();
+  const { t } = useTranslation();
+
+  const [editing, setEditing] = useState<PromoCode | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const bottomInset = Platform.OS === 'web' ? 20 : insets.bottom;
+  const promoCodes = shopProfile.promoCodes ?? [];
+  const today = dayjs().format('YYYY-MM-DD');
+
+  const header = (
+    <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+      <Pressable onPress={() => router.back()} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+        <Ionicons name="chevron-back" size={24} color={colors.text} />
+      </Pressable>
+      <Text style={[styles.title, { color: colors.text }]}>{t('promoCodes')}</Text>
+      <View style={{ width: 40 }} />
+    </View>
+  );
+
+  if (user && user.role !== 'owner') {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        {header}
+        <View style={styles.centerWrap}>
+          <View style={[styles.iconBox, { backgroundColor: colors.sandLight }]}>
+            <Ionicons name="lock-closed-outline" size={40} color={colors.textMuted} />
+          </View>
+          <Text style={[styles.centerTitle, { color: colors.text }]}>{t('ownerOnlyTitle')}</Text>
+          <Text style={[styles.centerText, { color: colors.textSecondary }]}>{t('ownerOnlyFeature')}</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const openEditor = (promo: PromoCode | null) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditing(promo);
+    setShowEditor(true);
+  };
+
+  const handleSave = async (promo: PromoCode) => {
+    const exists = promoCodes.some(p => p.id === promo.id);
+    await updateShopProfile({
+      promoCodes: exists ? promoCodes.map(p => (p.id === promo.id ? promo : p)) : [promo, ...promoCodes],
+    });
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    toast.success(t('promoCodeSaved'));
+    setShowEditor(false);
+  };
+
+  const handleToggle = (promo: PromoCode) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    updateShopProfile({
+      promoCodes: promoCodes.map(p => (p.id === promo.id ? { ...p, isActive: !p.isActive } : p)),
+    });
+  };
+
+  const handleDelete = (promo: PromoCode) => {
+    Alert.alert(t('delete'), t('deletePromoCodeConfirm', { code: promo.code }), [
+      { text: t('cancel'), style: 'cancel' },
+      {
+        text: t('delete'),
+        style: 'destructive',
+        onPress: async () => {
+          await updateShopProfile({ promoCodes: promoCodes.filter(p => p.id !== promo.id) });
+          toast.info(t('promoCodeDeleted'));
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {header}
+
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={[styles.content, { paddingBottom: bottomInset + 24 }]}
+        showsVerticalScrollIndicator={false}
+      >
+        <Pressable
+          style={({ pressed }) => [styles.primaryBtn, { backgroundColor: colors.primary, opacity: pressed ? 0.85 : 1, marginBottom: 16 }]}
+          onPress={() => openEditor(null)}
+        >
+          <Ionicons name="add" size={18} color="#fff" />
+          <Text style={styles.primaryBtnText}>{t('addPromoCode')}</Text>
+        </Pressable>
+
+        {promoCodes.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="pricetags-outline" size={40} color={colors.textMuted} />
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t('noPromoCodes')}</Text>
+          </View>
+        ) : (
+          promoCodes.map((promo, i) => {
+            const status = promo.endsOn && today > promo.endsOn ? t('promoCodeStatusExpired')
+              : promo.startsOn && today < promo.startsOn ? t('promoCodeStatusScheduled')
+              : null;
+            return (
+              <Animated.View key={promo.id} entering={FadeInDown.delay(i * 40).duration(300)}>
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.card,
+                    { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: pressed ? 0.9 : 1 },
+                  ]}
+                  onPress={() => openEditor(promo)}
+                >
+                  <View style={{ flex: 1 }}>
+                    <View style={styles.codeRow}>
+                      <Text style={[styles.code, { color: promo.isActive ? colors.text : colors.textMuted }]}>{promo.code}</Text>
+                      {status && (
+                        <View style={[styles.statusBadge, { backgroundColor: colors.dangerLight }]}>
+                          <Text style={[styles.statusText, { color: colors.danger }]}>{status}</Text>
+                        </View>
+                      )}
+                    </View>
+                    <Text style={[styles.cardSub, { color: colors.primary }]}>−{describeDiscount(promo)}</Text>
+                    {(promo.startsOn || promo.endsOn) && (
+                      <Text style={[styles.cardDates, { color: colors.textMuted }]}>
+                        {promo.startsOn ? dayjs(promo.startsOn).format('D MMM YYYY') : '…'}
+                        {' – '}
+                        {promo.endsOn ? dayjs(promo.endsOn).format('D MMM YYYY') : '…'}
+                      </Text>
+                    )}
+                  </View>
+                  <Switch
+                    value={promo.isActive}
+                    onValueChange={() => handleToggle(promo)}
+                    trackColor={{ false: colors.border, true: colors.primary }}
+                    thumbColor="#fff"
+                  />
+                  <Pressable onPress={() => handleDelete(promo)} hitSlop={8} style={styles.deleteBtn}>
+                    <Ionicons name="trash-outline" size={18} color={colors.danger} />
+                  </Pressable>
+                </Pressable>
+              </Animated.View>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <PromoCodeEditor
+        visible={showEditor}
+        promo={editing}
+        existingCodes={promoCodes}
+        colors={colors}
+        onClose={() => setShowEditor(false)}
+        onSave={handleSave}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backBtn: { width: 40, height: 40, justifyContent: 'center' },
+  title: { fontFamily: 'Poppins_600SemiBold', fontSize: 18 },
+  centerWrap: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 40,
+    gap: 12,
+  },
+  iconBox: {
+    width: 80,
+    height: 80,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  centerTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 18, textAlign: 'center' },
+  centerText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center', lineHeight: 22 },
+  content: { paddingHorizontal: 16, paddingTop: 16 },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 10,
+  },
+  codeRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  code: { fontFamily: 'Poppins_700Bold', fontSize: 16, letterSpacing: 0.5 },
+  statusBadge: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8 },
+  statusText: { fontFamily: 'Poppins_500Medium', fontSize: 11 },
+  cardSub: { fontFamily: 'Poppins_600SemiBold', fontSize: 14, marginTop: 2 },
+  cardDates: { fontFamily: 'Poppins_400Regular', fontSize: 12, marginTop: 2 },
+  deleteBtn: { padding: 4 },
+  label: { fontFamily: 'Poppins_500Medium', fontSize: 13, marginBottom: 6 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontFamily: 'Poppins_400Regular',
+    fontSize: 14,
+    marginBottom: 14,
+  },
+  typeRow: { flexDirection: 'row', gap: 8, marginBottom: 10 },
+  typeBtn: { flex: 1, paddingVertical: 10, borderRadius: 10, borderWidth: 1, alignItems: 'center' },
+  typeBtnText: { fontFamily: 'Poppins_500Medium', fontSize: 13 },
+  hint: { fontFamily: 'Poppins_400Regular', fontSize: 12, marginTop: -8, marginBottom: 14 },
+  errorText: { fontFamily: 'Poppins_400Regular', fontSize: 12, marginBottom: 8 },
+  primaryBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    height: 44,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  primaryBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 14, color: '#fff' },
+  emptyState: { alignItems: 'center', paddingVertical: 48, gap: 8 },
+  emptyText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center' },
+});
@@ -10,6 +10,7 @@ import {
   Platform,
   ActivityIndicator,
   Alert,
+  TextInput,
 } from 'react-native';
 import { captureRef } from 'react-native-view-shot';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -23,6 +24,8 @@ import dayjs from 'dayjs';
 import { useShop } from '@/lib/shop-context';
 import { useThemeColors } from '@/constants/colors';
 import { formatCurrency } from '@/lib/format';
+import { saleGrossTotal, saleDiscountTotal } from '@/lib/pricing';
+import { loyaltyBalance } from '@/lib/loyalty';
 import type { Sale, Product, ShopProfile } from '@/lib/types';
 
 // ─── HTML Receipt Generator ───────────────────────────────────────────────────
@@ -31,6 +34,7 @@ function buildReceiptHTML(
   sale: Sale,
   products: Product[],
   shopProfile: ShopProfile,
+  pointsBalance: number | null = null,
 ): string {
   const date = dayjs(sale.createdAt).format('MMM D, YYYY h:mm A');
   const txId = sale.id.slice(0, 8).toUpperCase();
@@ -43,7 +47,8 @@ function buildReceiptHTML(
         <td style="padding:6px 0;vertical-align:top;">
           <div style="font-weight:600;font-size:13px;">${item.productName}</div>
           ${barcode ? `<div style="font-size:10px;color:#888;margin-top:1px;">Barcode: ${barcode}</div>` : ''}
-          <div style="font-size:11px;color:#888;margin-top:2px;">${item.quantity} × ${formatCurrency(item.price)}</div>
+          <div style="font-size:11px;color:#888;margin-top:2px;">${item.quantity}${item.unitId ? ` ${item.unitName}` : ''} × ${formatCurrency(item.price)}</div>
+          ${item.discount ? `<div style="font-size:11px;color:#166534;margin-top:1px;">Discount −${formatCurrency(item.discount)}</div>` : ''}
         </td>
         <td style="padding:6px 0;text-align:right;vertical-align:top;font-weight:600;font-size:13px;">
           ${formatCurrency(item.subtotal)}
@@ -85,6 +90,35 @@ function buildReceiptHTML(
       </tr>`;
   }
 
+  const discountTotal = saleDiscountTotal(sale);
+  const addedTax = sale.tax > 0 && !sale.taxInclusive;
+  const taxLabel = `${shopProfile.taxSettings.name} (${sale.taxRate}%)`;
+  const subtotalHtml = discountTotal > 0 || addedTax
+    ? `<tr>
+        <td style="font-size:13px;color:#666;padding:3px 0;">Subtotal</td>
+        <td style="text-align:right;font-size:13px;padding:3px 0;">${formatCurrency(saleGrossTotal(sale))}</td>
+      </tr>`
+    : '';
+  const discountHtml = discountTotal > 0
+    ? `<tr>
+        <td style="font-size:13px;color:#166534;padding:3px 0;">Discount${sale.promoCode ? ` (${sale.promoCode})` : ''}</td>
+        <td style="text-align:right;font-size:13px;color:#166534;padding:3px 0;">−${formatCurrency(discountTotal)}</td>
+      </tr>`
+    : '';
+  const taxHtml = sale.tax > 0
+    ? `<tr>
+        <td style="font-size:12px;color:#888;padding:3px 0;">${sale.taxInclusive ? `Includes ${taxLabel}` : taxLabel}</td>
+        <td style="text-align:right;font-size:12px;color:#555;padding:3px 0;">${formatCurrency(sale.tax)}</td>
+      </tr>`
+    : '';
+
+  const pointsPaidHtml = sale.loyaltyAmount > 0
+    ? `<tr>
+        <td style="font-size:13px;color:#666;padding:3px 0;">Points (${sale.loyaltyPointsRedeemed})</td>
+        <td style="text-align:right;font-size:13px;padding:3px 0;">${formatCurrency(sale.loyaltyAmount)}</td>
+      </tr>`
+    : '';
+
   const changeHtml = (!sale.isCredit && sale.change > 0)
     ? `<tr>
         <td style="font-size:13px;color:#166534;font-weight:600;padding:3px 0;">Change</td>
@@ -106,6 +140,17 @@ function buildReceiptHTML(
       </tr>`
     : '';
 
+  const pointsHtml = pointsBalance !== null
+    ? `${sale.loyaltyPointsEarned > 0 ? `<tr>
+        <td style="font-size:12px;color:#888;padding:2px 0;">Points earned</td>
+        <td style="text-align:right;font-size:12px;color:#166534;padding:2px 0;font-weight:600;">+${sale.loyaltyPointsEarned}</td>
+      </tr>` : ''}
+      <tr>
+        <td style="font-size:12px;color:#888;padding:2px 0;">Points balance</td>
+        <td style="text-align:right;font-size:12px;color:#555;padding:2px 0;">${pointsBalance}</td>
+      </tr>`
+    : '';
+
   return `<!DOCTYPE html>
 <html>
 <head>
@@ -121,6 +166,7 @@ function buildReceiptHTML(
       <div style="font-size:22px;font-weight:800;color:#fff;letter-spacing:0.5px;">${shopProfile.name || 'ShopTally'}</div>
       ${shopProfile.address ? `<div style="font-size:12px;color:rgba(255,255,255,0.8);margin-top:4px;">${shopProfile.address}</div>` : ''}
       ${shopProfile.phone ? `<div style="font-size:12px;color:rgba(255,255,255,0.8);margin-top:2px;">${shopProfile.phone}</div>` : ''}
+      ${shopProfile.taxSettings.taxId ? `<div style="font-size:12px;color:rgba(255,255,255,0.8);margin-top:2px;">TIN: ${shopProfile.taxSettings.taxId}</div>` : ''}
     </div>
 
     <!-- Receipt info -->
@@ -128,6 +174,10 @@ function buildReceiptHTML(
       <div style="font-size:12px;color:#888;">${date}</div>
       <div style="font-size:11px;color:#aaa;margin-top:2px;">TX# ${txId}</div>
     </div>
+    ${sale.voidedAt ? `
+    <div style="background:#FEE2E2;color:#DC2626;padding:10px 20px;text-align:center;font-size:13px;font-weight:700;letter-spacing:1px;">
+      VOID — ${sale.voidReason}
+    </div>` : ''}
 
     <!-- Items -->
     <div style="padding:16px 20px;">
@@ -148,10 +198,15 @@ function buildReceiptHTML(
     <div style="padding:0 20px 16px;">
       <div style="border-top:1px dashed #ddd;padding-top:12px;">
         <table style="width:100%;border-collapse:collapse;">
+          ${subtotalHtml}
+          ${discountHtml}
+          ${addedTax ? taxHtml : ''}
           <tr>
             <td style="font-size:15px;font-weight:700;padding:4px 0;">Total</td>
             <td style="text-align:right;font-size:18px;font-weight:800;color:#C2410C;padding:4px 0;">${formatCurrency(sale.total)}</td>
           </tr>
+          ${sale.taxInclusive ? taxHtml : ''}
+          ${pointsPaidHtml}
           ${paymentHtml}
           ${changeHtml}
         </table>
@@ -164,6 +219,7 @@ function buildReceiptHTML(
         <table style="width:100%;border-collapse:collapse;">
           ${staffHtml}
           ${customerHtml}
+          ${pointsHtml}
           <tr>
             <td style="font-size:11px;color:#bbb;padding:2px 0;">Transaction ID</td>
             <td style="text-align:right;font-size:11px;color:#bbb;padding:2px 0;">#${txId}</td>
@@ -191,7 +247,7 @@ export default function SaleReceiptScreen() {
   const insets = useSafeAreaInsets();
   const { saleId, source } = useLocalSearchParams<{ saleId: string; source?: string }>();
   const fromHistory = source === 'history';
-  const { sales, products, shopProfile } = useShop();
+  const { sales, saleReturns, loyaltyEntries, products, shopProfile, voidSale } = useShop();
 
   const topInset = Platform.OS === 'web' ? 67 : insets.top;
   const bottomInset = Platform.OS === 'web' ? 34 : insets.bottom;
@@ -200,14 +256,31 @@ export default function SaleReceiptScreen() {
   const [isSharing, setIsSharing] = useState(false);
   const [isPrinting, setIsPrinting] = useState(false);
   const [showSharePicker, setShowSharePicker] = useState(false);
+  const [showVoidSheet, setShowVoidSheet] = useState(false);
+  const [voidReason, setVoidReason] = useState('');
+  const [ownerPin, setOwnerPin] = useState('');
+  const [voidError, setVoidError] = useState('');
+  const [isVoiding, setIsVoiding] = useState(false);
 
   const sale = useMemo(() => sales.find(s => s.id === saleId), [sales, saleId]);
+  const returns = useMemo(() => saleReturns.filter(r => r.saleId === saleId), [saleReturns, saleId]);
+  const returnedUnits = returns.reduce((sum, r) => sum + r.items.reduce((iSum, i) => iSum + i.quantity, 0), 0);
+  const canReturn = !!sale && fromHistory && !sale.voidedAt
+    && returnedUnits < sale.items.reduce((sum, i) => sum + i.quantity, 0);
+  const canVoid = !!sale && fromHistory && !sale.voidedAt && returns.length === 0;
+  const discountTotal = sale ? saleDiscountTotal(sale) : 0;
+  const addedTax = !!sale && sale.tax > 0 && !sale.taxInclusive;
+  const taxLabel = sale ? `${shopProfile.taxSettings.name} (${sale.taxRate}%)` : '';
+  // Points as they stood straight after this sale, only for sales that moved them
+  const pointsBalance = sale?.customerId && (sale.loyaltyPointsEarned > 0 || sale.loyaltyPointsRedeemed > 0)
+    ? loyaltyBalance(loyaltyEntries, sale.customerId, sale.createdAt)
+    : null;
 
   const shareAsPDF = async () => {
     if (!sale) return;
     setIsSharing(true);
     try {
-      const html = buildReceiptHTML(sale, products, shopProfile);
+      const html = buildReceiptHTML(sale, products, shopProfile, pointsBalance);
       const { uri } = await Print.printToFileAsync({ html, base64: false });
       await Sharing.shareAsync(uri, {
         mimeType: 'application/pdf',
@@ -248,7 +321,7 @@ export default function SaleReceiptScreen() {
     setIsPrinting(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     try {
-      const html = buildReceiptHTML(sale, products, shopProfile);
+      const html = buildReceiptHTML(sale, products, shopProfile, pointsBalance);
       await Print.printAsync({ html });
     } catch (err: any) {
       Alert.alert('Print Failed', err?.message || 'Could not print receipt.');
@@ -257,6 +330,28 @@ export default function SaleReceiptScreen() {
     }
   };
 
+  const closeVoidSheet = () => {
+    setShowVoidSheet(false);
+    setVoidReason('');
+    setOwnerPin('');
+    setVoidError('');
+  };
+
+  const handleVoid = async () => {
+    if (!sale) return;
+    setIsVoiding(true);
+    try {
+      await voidSale(sale.id, voidReason, ownerPin);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      closeVoidSheet();
+    } catch (err) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setVoidError(err instanceof Error ? err.message : 'Could not void this sale.');
+    } finally {
+      setIsVoiding(false);
+    }
+  };
+
   if (!sale) {
     return (
       <View style={[styles.container, { backgroundColor: colors.background, justifyContent: 'center', alignItems: 'center' }]}>
@@ -329,6 +424,9 @@ export default function SaleReceiptScreen() {
             {!!shopProfile.phone && (
               <Text style={styles.receiptShopSub}>{shopProfile.phone}</Text>
             )}
+            {!!shopProfile.taxSettings.taxId && (
+              <Text style={styles.receiptShopSub}>TIN: {shopProfile.taxSettings.taxId}</Text>
+            )}
           </View>
 
           <View style={styles.receiptBody}>
@@ -342,6 +440,18 @@ export default function SaleReceiptScreen() {
               </Text>
             </View>
 
+            {sale.voidedAt && (
+              <View style={[styles.creditBanner, styles.voidBanner, { backgroundColor: colors.dangerLight }]}>
+                <Ionicons name="ban-outline" size={18} color={colors.danger} />
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.creditBannerText, { color: colors.danger }]}>Voided — {sale.voidReason}</Text>
+                  <Text style={[styles.receiptItemQty, { color: colors.danger }]}>
+                    {dayjs(sale.voidedAt).format('MMM D, h:mm A')}{sale.voidedBy ? ` · approved by ${sale.voidedBy}` : ''}
+                  </Text>
+                </View>
+              </View>
+            )}
+
             <View style={[styles.divider, { borderColor: colors.border }]} />
 
             {/* Items */}
@@ -353,8 +463,13 @@ export default function SaleReceiptScreen() {
                   <View style={styles.receiptItemLeft}>
                     <Text style={[styles.receiptItemName, { color: colors.text }]}>{item.productName}</Text>
                     <Text style={[styles.receiptItemQty, { color: colors.textMuted }]}>
-                      {item.quantity} × {formatCurrency(item.price)}
+                      {item.quantity}{item.unitId ? ` ${item.unitName}` : ''} × {formatCurrency(item.price)}
                     </Text>
+                    {item.discount ? (
+                      <Text style={[styles.receiptItemQty, { color: colors.success }]}>
+                        Discount −{formatCurrency(item.discount)}
+                      </Text>
+                    ) : null}
                     {barcode ? (
                       <Text style={[styles.receiptBarcode, { color: colors.textMuted }]}>
                         {barcode}
@@ -369,10 +484,38 @@ export default function SaleReceiptScreen() {
             <View style={[styles.divider, { borderColor: colors.border }]} />
 
             {/* Totals */}
+            {(discountTotal > 0 || addedTax) && (
+              <View style={styles.receiptRow}>
+                <Text style={[styles.receiptLabel, { color: colors.textSecondary }]}>Subtotal</Text>
+                <Text style={[styles.receiptValue, { color: colors.text }]}>{formatCurrency(saleGrossTotal(sale))}</Text>
+              </View>
+            )}
+            {discountTotal > 0 && (
+              <View style={styles.receiptRow}>
+                <Text style={[styles.receiptLabel, { color: colors.success }]}>
+                  Discount{sale.promoCode ? ` (${sale.promoCode})` : ''}
+                </Text>
+                <Text style={[styles.receiptValue, { color: colors.success }]}>−{formatCurrency(discountTotal)}</Text>
+              </View>
+            )}
+            {addedTax && (
+              <View style={styles.receiptRow}>
+                <Text style={[styles.receiptLabel, { color: colors.textSecondary }]}>{taxLabel}</Text>
+                <Text style={[styles.receiptValue, { color: colors.text }]}>{formatCurrency(sale.tax)}</Text>
+              </View>
+            )}
             <View style={styles.receiptRow}>
-              <Text style={[styles.receiptLabel, { color: colors.textSecondary }]}>Subtotal</Text>
+              <Text style={[styles.receiptLabel, { color: colors.textSecondary }]}>
+                {discountTotal > 0 || addedTax ? 'Total' : 'Subtotal'}
+              </Text>
               <Text style={[styles.receiptValue, { color: colors.text }]}>{formatCurrency(sale.total)}</Text>
             </View>
+            {sale.tax > 0 && sale.taxInclusive && (
+              <View style={styles.receiptRow}>
+                <Text style={[styles.receiptLabel, { color: colors.textMuted }]}>Includes {taxLabel}</Text>
+                <Text style={[styles.receiptValue, { color: colors.textMuted }]}>{formatCurrency(sale.tax)}</Text>
+              </View>
+            )}
 
             {sale.isCredit ? (
               <View style={[styles.creditBanner, { backgroundColor: colors.dangerLight }]}>
@@ -383,6 +526,12 @@ export default function SaleReceiptScreen() {
               </View>
             ) : (
               <>
+                {sale.loyaltyAmount > 0 && (
+                  <View style={styles.receiptRow}>
+                    <Text style={[styles.receiptLabel, { color: colors.textSecondary }]}>Points ({sale.loyaltyPointsRedeemed})</Text>
+                    <Text style={[styles.receiptValue, { color: colors.text }]}>{formatCurrency(sale.loyaltyAmount)}</Text>
+                  </View>
+                )}
                 {sale.paymentMethod === 'split' ? (
                   <>
                     <View style={styles.receiptRow}>
@@ -431,6 +580,21 @@ export default function SaleReceiptScreen() {
               </View>
             ) : null}
 
+            {pointsBalance !== null && (
+              <>
+                {sale.loyaltyPointsEarned > 0 && (
+                  <View style={styles.receiptRow}>
+                    <Text style={[styles.receiptLabel, { color: colors.textSecondary }]}>Points earned</Text>
+                    <Text style={[styles.receiptValue, { color: colors.success }]}>+{sale.loyaltyPointsEarned}</Text>
+                  </View>
+                )}
+                <View style={styles.receiptRow}>
+                  <Text style={[styles.receiptLabel, { color: colors.textSecondary }]}>Points balance</Text>
+                  <Text style={[styles.receiptValue, { color: colors.text }]}>{pointsBalance}</Text>
+                </View>
+              </>
+            )}
+
             <View style={styles.receiptRow}>
               <Text style={[styles.receiptLabel, { color: colors.textMuted }]}>Transaction ID</Text>
               <Text style={[styles.receiptId, { color: colors.textMuted }]}>#{sale.id.slice(0, 8).toUpperCase()}</Text>
@@ -444,6 +608,30 @@ export default function SaleReceiptScreen() {
           </View>
         </Animated.View>
 
+        {/* Returns made against this sale */}
+        {returns.length > 0 && (
+          <Animated.View
+            entering={FadeInDown.delay(400).duration(400).springify()}
+            style={[styles.returnsCard, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+          >
+            <Text style={[styles.returnsTitle, { color: colors.text }]}>Returns</Text>
+            {returns.map(r => (
+              <View key={r.id} style={styles.returnRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.receiptItemName, { color: colors.text }]}>
+                    {r.items.map(i => `${i.quantity} × ${i.productName}`).join(', ')}
+                  </Text>
+                  <Text style={[styles.receiptItemQty, { color: colors.textMuted }]}>
+                    {dayjs(r.createdAt).format('MMM D, h:mm A')} · {r.refundMethod === 'credit' ? 'Off credit' : r.refundMethod === 'transfer' ? 'Transfer' : 'Cash'}
+                    {r.reason ? ` · ${r.reason}` : ''}
+                  </Text>
+                </View>
+                <Text style={[styles.receiptItemTotal, { color: colors.danger }]}>−{formatCurrency(r.amount)}</Text>
+              </View>
+            ))}
+          </Animated.View>
+        )}
+
         {/* Action buttons */}
         <Animated.View entering={FadeInDown.delay(450).duration(400).springify()} style={styles.actionRow}>
           <Pressable
@@ -467,8 +655,36 @@ export default function SaleReceiptScreen() {
               : <Ionicons name="logo-whatsapp" size={22} color="#25D366" />}
             <Text style={[styles.actionBtnText, { color: colors.text }]}>Share</Text>
           </Pressable>
+
+          {canReturn && (
+            <Pressable
+              style={({ pressed }) => [styles.actionBtn, { backgroundColor: colors.surface, borderColor: colors.border, opacity: pressed ? 0.8 : 1 }]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push({ pathname: '/sale-return', params: { saleId: sale.id } });
+              }}
+            >
+              <Ionicons name="arrow-undo-outline" size={22} color={colors.danger} />
+              <Text style={[styles.actionBtnText, { color: colors.text }]}>Return</Text>
+            </Pressable>
+          )}
         </Animated.View>
 
+        {canVoid && (
+          <Animated.View entering={FadeInDown.delay(500).duration(400).springify()}>
+            <Pressable
+              style={({ pressed }) => [styles.voidBtn, { borderColor: colors.danger, opacity: pressed ? 0.8 : 1 }]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setShowVoidSheet(true);
+              }}
+            >
+              <Ionicons name="ban-outline" size={20} color={colors.danger} />
+              <Text style={[styles.actionBtnText, { color: colors.danger }]}>Void Sale</Text>
+            </Pressable>
+          </Animated.View>
+        )}
+
         <Animated.View entering={FadeInDown.delay(550).duration(400).springify()}>
           <Pressable
             style={({ pressed }) => [styles.doneBtn, { backgroundColor: colors.primary, opacity: pressed ? 0.9 : 1 }]}
@@ -532,6 +748,61 @@ export default function SaleReceiptScreen() {
           </Pressable>
         </Pressable>
       </Modal>
+
+      {/* Void approval — the owner keys in their PIN on this device */}
+      <Modal
+        visible={showVoidSheet}
+        transparent
+        animationType="slide"
+        onRequestClose={closeVoidSheet}
+      >
+        <Pressable style={styles.pickerBackdrop} onPress={closeVoidSheet}>
+          <Pressable style={[styles.pickerSheet, { backgroundColor: colors.surface }]} onPress={() => {}}>
+            <View style={[styles.pickerHandle, { backgroundColor: colors.border }]} />
+            <Text style={[styles.pickerTitle, { color: colors.text }]}>Void {formatCurrency(sale.total)} Sale</Text>
+            <Text style={[styles.pickerOptionSub, styles.voidHint, { color: colors.textSecondary }]}>
+              The sale stays on record as voided and its items go back into stock. An owner has to approve it with their PIN.
+            </Text>
+
+            <Text style={[styles.voidLabel, { color: colors.text }]}>Reason</Text>
+            <TextInput
+              style={[styles.voidInput, { backgroundColor: colors.surfaceElevated, borderColor: colors.border, color: colors.text }]}
+              value={voidReason}
+              onChangeText={v => { setVoidReason(v); setVoidError(''); }}
+              placeholder="e.g. wrong items rung up"
+              placeholderTextColor={colors.textMuted}
+            />
+            <Text style={[styles.voidLabel, { color: colors.text }]}>Owner PIN</Text>
+            <TextInput
+              style={[styles.voidInput, { backgroundColor: colors.surfaceElevated, borderColor: colors.border, color: colors.text }]}
+              value={ownerPin}
+              onChangeText={v => { setOwnerPin(v.replace(/\D/g, '')); setVoidError(''); }}
+              placeholder="••••"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="number-pad"
+              maxLength={6}
+              secureTextEntry
+            />
+            {!!voidError && <Text style={[styles.voidError, { color: colors.danger }]}>{voidError}</Text>}
+
+            <Pressable
+              style={({ pressed }) => [styles.doneBtn, { backgroundColor: colors.danger, opacity: pressed || isVoiding ? 0.85 : 1 }]}
+              onPress={handleVoid}
+              disabled={isVoiding}
+            >
+              {isVoiding
+                ? <ActivityIndicator size="small" color="#fff" />
+                : <Text style={styles.doneBtnText}>Approve Void</Text>}
+            </Pressable>
+            <Pressable
+              style={[styles.pickerCancel, { backgroundColor: colors.surfaceElevated }]}
+              onPress={closeVoidSheet}
+            >
+              <Text style={[styles.pickerCancelText, { color: colors.textSecondary }]}>Cancel</Text>
+            </Pressable>
+          </Pressable>
+        </Pressable>
+      </Modal>
     </View>
   );
 }
@@ -613,6 +884,7 @@ const styles = StyleSheet.create({
     marginTop: 8,
   },
   creditBannerText: { fontFamily: 'Poppins_500Medium', fontSize: 13 },
+  voidBanner: { marginTop: 0, marginBottom: 4 },
   receiptFooter: {
     padding: 14,
     alignItems: 'center',
@@ -620,6 +892,9 @@ const styles = StyleSheet.create({
   },
   receiptFooterText: { fontFamily: 'Poppins_600SemiBold', fontSize: 13 },
   receiptFooterSub: { fontFamily: 'Poppins_400Regular', fontSize: 11, marginTop: 2 },
+  returnsCard: { borderRadius: 16, borderWidth: 1, padding: 16, marginBottom: 16 },
+  returnsTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 15, marginBottom: 10 },
+  returnRow: { flexDirection: 'row', alignItems: 'flex-start', gap: 8, marginBottom: 8 },
   actionRow: {
     flexDirection: 'row',
     gap: 12,
@@ -643,6 +918,29 @@ const styles = StyleSheet.create({
     marginBottom: 4,
   },
   doneBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 16, color: '#fff' },
+  voidBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    gap: 8,
+    marginBottom: 12,
+  },
+  // Void sheet
+  voidHint: { textAlign: 'center', marginTop: -8, marginBottom: 16 },
+  voidLabel: { fontFamily: 'Poppins_500Medium', fontSize: 14, marginBottom: 6 },
+  voidInput: {
+    fontFamily: 'Poppins_400Regular',
+    fontSize: 15,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    marginBottom: 12,
+  },
+  voidError: { fontFamily: 'Poppins_500Medium', fontSize: 13, marginBottom: 12 },
   // Share picker
   pickerBackdrop: {
     flex: 1,
@@ -0,0 +1,332 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  Switch,
+  ScrollView,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useToast } from '@/lib/toast-context';
+import { useThemeColors } from '@/constants/colors';
+import { formatCurrency } from '@/lib/format';
+import { saleLineRefund } from '@/lib/pricing';
+import { lineKey } from '@/lib/units';
+import type { RefundMethod } from '@/lib/types';
+
+const REFUND_LABEL_KEYS: Record<RefundMethod, string> = {
+  cash: 'refundCash',
+  transfer: 'refundTransfer',
+  credit: 'refundCredit',
+};
+
+export default function SaleReturnScreen() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const toast = useToast();
+  const { saleId } = useLocalSearchParams<{ saleId: string }>();
+  const { sales, saleReturns, recordSaleReturn } = useShop();
+
+  const sale = useMemo(() => sales.find(s => s.id === saleId), [sales, saleId]);
+
+  // Quantity of each sale line already brought back on earlier returns
+  const returned = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const r of saleReturns) {
+      if (r.saleId !== saleId) continue;
+      for (const item of r.items) {
+        const key = lineKey(item.productId, item.unitId);
+        counts.set(key, (counts.get(key) ?? 0) + item.quantity);
+      }
+    }
+    return counts;
+  }, [saleReturns, saleId]);
+
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [restock, setRestock] = useState<Record<string, boolean>>({});
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>(sale?.isCredit ? 'credit' : 'cash');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const bottomInset = Platform.OS === 'web' ? 20 : insets.bottom;
+
+  const header = (
+    <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+      <Pressable onPress={() => router.back()} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+        <Ionicons name="chevron-back" size={24} color={colors.text} />
+      </Pressable>
+      <Text style={[styles.title, { color: colors.text }]}>{t('returnItems')}</Text>
+      <View style={{ width: 40 }} />
+    </View>
+  );
+
+  if (!sale) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        {header}
+        <View style={styles.emptyWrap}>
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t('returnSaleNotFound')}</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const lines = sale.items.map(item => {
+    const key = lineKey(item.productId, item.unitId);
+    const returnable = item.quantity - (returned.get(key) ?? 0);
+    const quantity = Math.min(quantities[key] ?? 0, returnable);
+    const { amount, loyaltyAmount } = saleLineRefund(sale, item, quantity);
+    return { key, item, returnable, quantity, refund: amount, pointsBack: loyaltyAmount };
+  });
+  const refundTotal = lines.reduce((sum, l) => sum + l.refund, 0);
+  const pointsBackTotal = lines.reduce((sum, l) => sum + l.pointsBack, 0);
+  const anySelected = lines.some(l => l.quantity > 0);
+  const nothingLeft = lines.every(l => l.returnable <= 0);
+  const methods: RefundMethod[] = sale.isCredit ? ['credit', 'cash', 'transfer'] : ['cash', 'transfer'];
+
+  const setQuantity = (key: string, quantity: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setQuantities(prev => ({ ...prev, [key]: quantity }));
+  };
+
+  const handleReturnAll = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setQuantities(Object.fromEntries(lines.map(l => [l.key, l.returnable])));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saleReturn = await recordSaleReturn(
+        sale.id,
+        lines.map(l => ({
+          productId: l.item.productId,
+          unitId: l.item.unitId ?? null,
+          quantity: l.quantity,
+          restock: restock[l.key] ?? true,
+        })),
+        refundMethod,
+        reason,
+      );
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      toast.success(t('returnRecorded', { amount: formatCurrency(saleReturn.amount) }));
+      router.back();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('somethingWentWrong'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {header}
+
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={[styles.content, { paddingBottom: bottomInset + 24 }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.saleHeader}>
+          <Text style={[styles.saleDate, { color: colors.textSecondary }]}>
+            {dayjs(sale.createdAt).format('MMM D, YYYY h:mm A')} · {formatCurrency(sale.total)}
+          </Text>
+          {!nothingLeft && (
+            <Pressable onPress={handleReturnAll}>
+              <Text style={[styles.returnAll, { color: colors.primary }]}>{t('returnAll')}</Text>
+            </Pressable>
+          )}
+        </View>
+
+        {nothingLeft && (
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t('returnNothingLeft')}</Text>
+        )}
+
+        {lines.map(({ key, item, returnable, quantity, refund }) => (
+          <View
+            key={key}
+            style={[styles.itemCard, { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: returnable > 0 ? 1 : 0.5 }]}
+          >
+            <View style={styles.itemTop}>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.itemName, { color: colors.text }]} numberOfLines={1}>
+                  {item.productName}{item.unitId ? ` (${item.unitName})` : ''}
+                </Text>
+                <Text style={[styles.itemSub, { color: colors.textMuted }]}>
+                  {t('returnableCount', { count: returnable, sold: item.quantity })}
+                </Text>
+              </View>
+              <View style={styles.qtyRow}>
+                <Pressable
+                  style={[styles.qtyBtn, { borderColor: colors.border }]}
+                  onPress={() => setQuantity(key, Math.max(0, quantity - 1))}
+                  disabled={quantity <= 0}
+                >
+                  <Ionicons name="remove" size={18} color={colors.text} />
+                </Pressable>
+                <Text style={[styles.qtyText, { color: colors.text }]}>{quantity}</Text>
+                <Pressable
+                  style={[styles.qtyBtn, { borderColor: colors.border }]}
+                  onPress={() => setQuantity(key, Math.min(returnable, quantity + 1))}
+                  disabled={quantity >= returnable}
+                >
+                  <Ionicons name="add" size={18} color={colors.text} />
+                </Pressable>
+              </View>
+            </View>
+            {quantity > 0 && (
+              <View style={[styles.itemBottom, { borderTopColor: colors.border }]}>
+                <Text style={[styles.itemSub, { color: colors.textSecondary, flex: 1 }]}>{t('returnRestock')}</Text>
+                <Switch
+                  value={restock[key] ?? true}
+                  onValueChange={v => setRestock(prev => ({ ...prev, [key]: v }))}
+                  trackColor={{ false: colors.border, true: colors.primary + '60' }}
+                  thumbColor={(restock[key] ?? true) ? colors.primary : colors.textMuted}
+                />
+                <Text style={[styles.itemRefund, { color: colors.text }]}>{formatCurrency(refund)}</Text>
+              </View>
+            )}
+          </View>
+        ))}
+
+        {!nothingLeft && (
+          <>
+            <Text style={[styles.label, { color: colors.text }]}>{t('refundMethod')}</Text>
+            <View style={styles.pillRow}>
+              {methods.map(method => (
+                <Pressable
+                  key={method}
+                  style={[
+                    styles.pill,
+                    {
+                      backgroundColor: refundMethod === method ? colors.primary : colors.surface,
+                      borderColor: refundMethod === method ? colors.primary : colors.border,
+                    },
+                  ]}
+                  onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setRefundMethod(method); }}
+                >
+                  <Text style={[styles.pillText, { color: refundMethod === method ? '#fff' : colors.textSecondary }]}>
+                    {t(REFUND_LABEL_KEYS[method])}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <Text style={[styles.label, { color: colors.text }]}>{t('returnReason')}</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              value={reason}
+              onChangeText={setReason}
+              placeholder={t('returnReasonPlaceholder')}
+              placeholderTextColor={colors.textMuted}
+            />
+          </>
+        )}
+      </ScrollView>
+
+      {!nothingLeft && (
+        <View style={[styles.footer, { backgroundColor: colors.surface, borderTopColor: colors.border, paddingBottom: bottomInset + 8 }]}>
+          {pointsBackTotal > 0 && (
+            <Text style={[styles.pointsBack, { color: colors.textSecondary }]}>
+              {t('returnPointsBack', { amount: formatCurrency(pointsBackTotal) })}
+            </Text>
+          )}
+          <Pressable
+            style={({ pressed }) => [
+              styles.saveBtn,
+              { backgroundColor: colors.danger, opacity: pressed || saving || !anySelected ? 0.7 : 1 },
+            ]}
+            onPress={handleSave}
+            disabled={saving || !anySelected}
+          >
+            <Ionicons name="arrow-undo" size={20} color="#fff" />
+            <Text style={styles.saveBtnText}>{t('refundAmount', { amount: formatCurrency(refundTotal) })}</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backBtn: { width: 40, height: 40, justifyContent: 'center' },
+  title: { fontFamily: 'Poppins_600SemiBold', fontSize: 18 },
+  content: { paddingHorizontal: 20, paddingTop: 16 },
+  emptyWrap: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 40 },
+  emptyText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center', marginBottom: 16 },
+  saleHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 12 },
+  saleDate: { fontFamily: 'Poppins_400Regular', fontSize: 13 },
+  returnAll: { fontFamily: 'Poppins_600SemiBold', fontSize: 13 },
+  itemCard: { borderRadius: 14, borderWidth: 1, padding: 14, marginBottom: 10 },
+  itemTop: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  itemName: { fontFamily: 'Poppins_600SemiBold', fontSize: 14 },
+  itemSub: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
+  qtyRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  qtyBtn: { width: 32, height: 32, borderRadius: 8, borderWidth: 1, alignItems: 'center', justifyContent: 'center' },
+  qtyText: { fontFamily: 'Poppins_600SemiBold', fontSize: 15, minWidth: 20, textAlign: 'center' },
+  itemBottom: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+  },
+  itemRefund: { fontFamily: 'Poppins_600SemiBold', fontSize: 14, minWidth: 72, textAlign: 'right' },
+  label: { fontFamily: 'Poppins_500Medium', fontSize: 14, marginBottom: 6, marginTop: 10 },
+  pillRow: { flexDirection: 'row', gap: 8, marginBottom: 12 },
+  pill: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  pillText: { fontFamily: 'Poppins_500Medium', fontSize: 13 },
+  input: {
+    fontFamily: 'Poppins_400Regular',
+    fontSize: 15,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+  },
+  saveBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderRadius: 14,
+    gap: 8,
+  },
+  saveBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 16, color: '#fff' },
+  pointsBack: { fontFamily: 'Poppins_400Regular', fontSize: 13, textAlign: 'center', marginBottom: 8 },
+});
@@ -24,6 +24,7 @@ import { useThemeColors } from '@/constants/colors';
 import { useAuth } from '@/lib/auth-context';
 import { useShop } from '@/lib/shop-context';
 import i18n from '@/lib/i18n';
+import { saleDiscountTotal } from '@/lib/pricing';
 
 type ThemeOption = 'light' | 'dark' | 'system';
 
@@ -52,7 +53,7 @@ export default function SettingsScreen() {
     updatePassword,
     deleteAccount,
   } = useAuth();
-  const { products, sales, shopProfile, updateShopProfile, syncNow, isSyncing, lastSyncAt } = useShop();
+  const { products, sales, shopProfile, updateShopProfile, syncNow, isSyncing, lastSyncAt, syncConflicts, syncDeadLetters } = useShop();
 
   const [showChangePassword, setShowChangePassword] = useState(false);
   const [newPassword, setNewPassword] = useState('');
@@ -104,10 +105,10 @@ export default function SettingsScreen() {
         .join('\n');
 
       // Sales CSV
-      const salesHeader = 'ID,Total,Amount Paid,Change,Type,Customer,Date\n';
+      const salesHeader = 'ID,Total,Discount,Tax,Amount Paid,Change,Type,Customer,Date,Voided,Void Reason\n';
       const salesRows = sales
         .map(s =>
-          `"${s.id}",${s.total},${s.amountPaid},${s.change},"${s.isCredit ? 'Credit' : 'Cash'}","${s.customerName ?? ''}","${s.createdAt}"`
+          `"${s.id}",${s.total},${saleDiscountTotal(s)},${s.tax ?? 0},${s.amountPaid},${s.change},"${s.isCredit ? 'Credit' : 'Cash'}","${s.customerName ?? ''}","${s.createdAt}","${s.voidedAt ?? ''}","${s.voidReason ?? ''}"`
         )
         .join('\n');
 
@@ -401,6 +402,19 @@ export default function SettingsScreen() {
 
             <View style={styles.divider} />
 
+            <Pressable style={styles.row} onPress={() => router.push('/backup')}>
+              <View style={styles.rowLeft}>
+                <Ionicons name="archive-outline" size={20} color={colors.textSecondary} />
+                <View>
+                  <Text style={styles.rowText}>{t('backupRestore')}</Text>
+                  <Text style={styles.rowSub}>{t('backupRestoreSub')}</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            </Pressable>
+
+            <View style={styles.divider} />
+
             <Pressable
               style={styles.row}
               onPress={syncNow}
@@ -421,6 +435,51 @@ export default function SettingsScreen() {
                 <Ionicons name="checkmark" size={18} color={colors.textMuted} />
               )}
             </Pressable>
+
+            {user?.role === 'owner' && (
+              <>
+                <View style={styles.divider} />
+
+                <Pressable style={styles.row} onPress={() => router.push('/sync-issues')}>
+                  <View style={styles.rowLeft}>
+                    <Ionicons name="warning-outline" size={20} color={syncDeadLetters.length > 0 ? colors.danger : colors.textSecondary} />
+                    <View>
+                      <Text style={styles.rowText}>{t('syncIssues')}</Text>
+                      <Text style={styles.rowSub}>
+                        {syncDeadLetters.length > 0
+                          ? t('syncIssuesCount', { count: syncDeadLetters.length })
+                          : t('noSyncIssues')}
+                      </Text>
+                    </View>
+                  </View>
+                  <View style={styles.rowRight}>
+                    {syncDeadLetters.length > 0 && (
+                      <View style={styles.countBadge}>
+                        <Text style={styles.countBadgeText}>{syncDeadLetters.length}</Text>
+                      </View>
+                    )}
+                    <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+                  </View>
+                </Pressable>
+
+                <View style={styles.divider} />
+
+                <Pressable style={styles.row} onPress={() => router.push('/sync-conflicts')}>
+                  <View style={styles.rowLeft}>
+                    <Ionicons name="git-compare-outline" size={20} color={colors.textSecondary} />
+                    <View>
+                      <Text style={styles.rowText}>{t('syncConflicts')}</Text>
+                      <Text style={styles.rowSub}>
+                        {syncConflicts.length > 0
+                          ? t('syncConflictsCount', { count: syncConflicts.length })
+                          : t('noSyncConflicts')}
+                      </Text>
+                    </View>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+                </Pressable>
+              </>
+            )}
           </View>
         </Animated.View>
 
@@ -574,6 +633,25 @@ function makeStyles(colors: ReturnType<typeof useThemeColors>, insets: { top: nu
       paddingTop: 14,
       paddingBottom: 10,
     },
+    rowRight: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    countBadge: {
+      minWidth: 20,
+      height: 20,
+      borderRadius: 10,
+      paddingHorizontal: 6,
+      backgroundColor: colors.danger,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    countBadgeText: {
+      fontFamily: 'Poppins_600SemiBold',
+      fontSize: 11,
+      color: '#fff',
+    },
     rowText: {
       fontFamily: 'Poppins_400Regular',
       fontSize: 15,
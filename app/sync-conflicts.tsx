@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/lib/toast-context';
+import { useThemeColors } from '@/constants/colors';
+import type { SyncConflict, SyncTable } from '@/lib/types';
+
+const TABLE_LABEL_KEYS: Record<SyncTable, string> = {
+  products: 'products',
+  sales: 'sales',
+  sale_returns: 'returns',
+  customers: 'creditAccounts',
+  credit_payments: 'repayments',
+  loyalty_entries: 'loyaltyPoints',
+  orders: 'orders',
+  payments: 'payment',
+  expenses: 'expenses',
+  staff_members: 'staffManagement',
+  staff_activity: 'activityLog',
+  inventory_movements: 'stock',
+};
+
+function formatValue(value: unknown): string {
+  if (value == null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatField(field: string): string {
+  return field.replace(/_/g, ' ');
+}
+
+export default function SyncConflictsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { syncConflicts, resolveSyncConflict } = useShop();
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const bottomInset = Platform.OS === 'web' ? 20 : insets.bottom;
+
+  const handleResolve = async (conflict: SyncConflict, keep: 'local' | 'server') => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setResolvingId(conflict.id);
+    try {
+      await resolveSyncConflict(conflict.id, keep);
+    } catch (err) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      toast.error(err instanceof Error ? err.message : t('conflictNotSynced', { error: '' }));
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const header = (
+    <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+      <Pressable onPress={() => router.back()} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+        <Ionicons name="chevron-back" size={24} color={colors.text} />
+      </Pressable>
+      <Text style={[styles.title, { color: colors.text }]}>{t('syncConflicts')}</Text>
+      <View style={{ width: 40 }} />
+    </View>
+  );
+
+  // Only the owner decides which device's edit stands
+  if (user?.role !== 'owner') {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        {header}
+        <View style={styles.centerWrap}>
+          <View style={[styles.iconBox, { backgroundColor: colors.sandLight }]}>
+            <Ionicons name="lock-closed-outline" size={40} color={colors.textMuted} />
+          </View>
+          <Text style={[styles.centerTitle, { color: colors.text }]}>{t('ownerOnlyTitle')}</Text>
+          <Text style={[styles.centerText, { color: colors.textSecondary }]}>{t('ownerOnlyFeature')}</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {header}
+
+      {syncConflicts.length === 0 ? (
+        <View style={styles.centerWrap}>
+          <View style={[styles.iconBox, { backgroundColor: colors.successLight }]}>
+            <Ionicons name="checkmark-done-outline" size={40} color={colors.success} />
+          </View>
+          <Text style={[styles.centerTitle, { color: colors.text }]}>{t('noSyncConflicts')}</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={{ flex: 1 }}
+          contentContainerStyle={[styles.content, { paddingBottom: bottomInset + 24 }]}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('syncConflictsHint')}</Text>
+
+          {syncConflicts.map((conflict, index) => {
+            const isResolving = resolvingId === conflict.id;
+            return (
+              <Animated.View key={conflict.id} entering={FadeInDown.delay(index * 40).duration(300)}>
+                <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+                  <View style={styles.cardHeader}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={[styles.cardTitle, { color: colors.text }]} numberOfLines={1}>{conflict.label}</Text>
+                      <Text style={[styles.cardSub, { color: colors.textMuted }]}>
+                        {t(TABLE_LABEL_KEYS[conflict.table])} · {dayjs(conflict.detectedAt).format('DD MMM, h:mm A')}
+                      </Text>
+                    </View>
+                  </View>
+
+                  {conflict.operation === 'delete' ? (
+                    <Text style={[styles.deleteNote, { color: colors.textSecondary }]}>{t('conflictDeleteKept')}</Text>
+                  ) : (
+                    conflict.fields.map(f => (
+                      <View key={f.field} style={[styles.fieldRow, { borderTopColor: colors.borderLight }]}>
+                        <Text style={[styles.fieldName, { color: colors.textSecondary }]}>{formatField(f.field)}</Text>
+                        <View style={styles.valuesRow}>
+                          <View style={styles.valueCol}>
+                            <Text style={[styles.valueLabel, { color: colors.textMuted }]}>{t('thisPhone')}</Text>
+                            <Text style={[styles.value, { color: colors.text }]} numberOfLines={2}>{formatValue(f.localValue)}</Text>
+                          </View>
+                          <View style={styles.valueCol}>
+                            <Text style={[styles.valueLabel, { color: colors.textMuted }]}>{t('otherPhone')}</Text>
+                            <Text style={[styles.value, { color: colors.text }]} numberOfLines={2}>{formatValue(f.serverValue)}</Text>
+                          </View>
+                        </View>
+                        <Text style={[styles.winner, { color: colors.green }]}>
+                          {t('conflictApplied', { side: f.winner === 'local' ? t('thisPhone') : t('otherPhone') })}
+                        </Text>
+                      </View>
+                    ))
+                  )}
+
+                  <View style={styles.actions}>
+                    {isResolving ? (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                      <>
+                        <Pressable
+                          style={({ pressed }) => [styles.actionBtn, { borderColor: colors.border, opacity: pressed ? 0.8 : 1 }]}
+                          onPress={() => handleResolve(conflict, 'server')}
+                        >
+                          <Text style={[styles.actionText, { color: colors.textSecondary }]}>{t('keepServer')}</Text>
+                        </Pressable>
+                        <Pressable
+                          style={({ pressed }) => [styles.actionBtn, { backgroundColor: colors.primary, borderColor: colors.primary, opacity: pressed ? 0.85 : 1 }]}
+                          onPress={() => handleResolve(conflict, 'local')}
+                        >
+                          <Text style={[styles.actionText, { color: '#fff' }]}>{t('keepMine')}</Text>
+                        </Pressable>
+                      </>
+                    )}
+                  </View>
+                </View>
+              </Animated.View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backBtn: { width: 40, height: 40, justifyContent: 'center' },
+  title: { fontFamily: 'Poppins_600SemiBold', fontSize: 18 },
+  centerWrap: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 40,
+    gap: 12,
+  },
+  iconBox: {
+    width: 80,
+    height: 80,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  centerTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 18, textAlign: 'center' },
+  centerText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center', lineHeight: 22 },
+  content: { paddingHorizontal: 16, paddingTop: 16 },
+  hint: { fontFamily: 'Poppins_400Regular', fontSize: 13, lineHeight: 20, marginBottom: 16 },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 12,
+  },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 8 },
+  cardTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 15 },
+  cardSub: { fontFamily: 'Poppins_400Regular', fontSize: 12, marginTop: 1 },
+  deleteNote: { fontFamily: 'Poppins_400Regular', fontSize: 13, marginBottom: 4 },
+  fieldRow: { borderTopWidth: 1, paddingVertical: 10 },
+  fieldName: {
+    fontFamily: 'Poppins_500Medium',
+    fontSize: 11,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 6,
+  },
+  valuesRow: { flexDirection: 'row', gap: 12 },
+  valueCol: { flex: 1 },
+  valueLabel: { fontFamily: 'Poppins_400Regular', fontSize: 11 },
+  value: { fontFamily: 'Poppins_500Medium', fontSize: 14 },
+  winner: { fontFamily: 'Poppins_500Medium', fontSize: 11, marginTop: 6 },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+    minHeight: 38,
+  },
+  actionBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  actionText: { fontFamily: 'Poppins_600SemiBold', fontSize: 13 },
+});
@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import dayjs from 'dayjs';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/lib/toast-context';
+import { useThemeColors } from '@/constants/colors';
+import type { SyncDeadLetter } from '@/lib/types';
+
+export default function SyncIssuesScreen() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { syncDeadLetters, retryDeadLetter, discardDeadLetter } = useShop();
+  const { user } = useAuth();
+  const toast = useToast();
+  const { t } = useTranslation();
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [draftError, setDraftError] = useState('');
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const bottomInset = Platform.OS === 'web' ? 20 : insets.bottom;
+
+  const handleRetry = async (item: SyncDeadLetter, payload?: Record<string, unknown>) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setBusyId(item.id);
+    try {
+      await retryDeadLetter(item.id, payload);
+      setEditingId(null);
+      toast.info(t('syncIssueRequeued'));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('somethingWentWrong'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEdit = (item: SyncDeadLetter) => {
+    setEditingId(item.id);
+    setDraft(JSON.stringify(item.payload, null, 2));
+    setDraftError('');
+  };
+
+  const handleSaveEdit = (item: SyncDeadLetter) => {
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(draft);
+    } catch {
+      setDraftError(t('syncIssueInvalidJson'));
+      return;
+    }
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload) || payload.id !== item.payload.id) {
+      setDraftError(t('syncIssueIdChanged'));
+      return;
+    }
+    handleRetry(item, payload);
+  };
+
+  const handleDiscard = (item: SyncDeadLetter) => {
+    Alert.alert(t('syncIssueDiscard'), t('syncIssueDiscardConfirm'), [
+      { text: t('cancel'), style: 'cancel' },
+      {
+        text: t('syncIssueDiscard'),
+        style: 'destructive',
+        onPress: async () => {
+          await discardDeadLetter(item.id);
+          if (editingId === item.id) setEditingId(null);
+        },
+      },
+    ]);
+  };
+
+  const header = (
+    <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+      <Pressable onPress={() => router.back()} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+        <Ionicons name="chevron-back" size={24} color={colors.text} />
+      </Pressable>
+      <Text style={[styles.title, { color: colors.text }]}>{t('syncIssues')}</Text>
+      <View style={{ width: 40 }} />
+    </View>
+  );
+
+  // Editing raw sync payloads is an owner-only escape hatch
+  if (user?.role !== 'owner') {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        {header}
+        <View style={styles.centerWrap}>
+          <View style={[styles.iconBox, { backgroundColor: colors.sandLight }]}>
+            <Ionicons name="lock-closed-outline" size={40} color={colors.textMuted} />
+          </View>
+          <Text style={[styles.centerTitle, { color: colors.text }]}>{t('ownerOnlyTitle')}</Text>
+          <Text style={[styles.centerText, { color: colors.textSecondary }]}>{t('ownerOnlyFeature')}</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {header}
+
+      {syncDeadLetters.length === 0 ? (
+        <View style={styles.centerWrap}>
+          <View style={[styles.iconBox, { backgroundColor: colors.successLight }]}>
+            <Ionicons name="cloud-done-outline" size={40} color={colors.success} />
+          </View>
+          <Text style={[styles.centerTitle, { color: colors.text }]}>{t('noSyncIssues')}</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={{ flex: 1 }}
+          contentContainerStyle={[styles.content, { paddingBottom: bottomInset + 24 }]}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={[styles.hint, { color: colors.textSecondary }]}>{t('syncIssuesHint')}</Text>
+
+          {syncDeadLetters.map((item, index) => {
+            const isBusy = busyId === item.id;
+            const isEditing = editingId === item.id;
+            return (
+              <Animated.View key={item.id} entering={FadeInDown.delay(index * 40).duration(300)}>
+                <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+                  <View style={styles.cardHeader}>
+                    <View style={[styles.opBadge, { backgroundColor: colors.primary + '14' }]}>
+                      <Text style={[styles.opBadgeText, { color: colors.primary }]}>{item.operation}</Text>
+                    </View>
+                    <View style={{ flex: 1 }}>
+                      <Text style={[styles.cardTitle, { color: colors.text }]}>{item.table}</Text>
+                      <Text style={[styles.cardSub, { color: colors.textMuted }]}>
+                        {dayjs(item.createdAt).format('DD MMM, h:mm A')}
+                      </Text>
+                    </View>
+                  </View>
+
+                  <View style={[styles.errorBox, { backgroundColor: colors.dangerLight }]}>
+                    <Ionicons name="alert-circle" size={16} color={colors.danger} />
+                    <Text style={[styles.errorText, { color: colors.danger }]}>{item.lastError}</Text>
+                  </View>
+
+                  {isEditing ? (
+                    <>
+                      <TextInput
+                        style={[styles.editor, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+                        value={draft}
+                        onChangeText={v => { setDraft(v); setDraftError(''); }}
+                        multiline
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                      />
+                      {draftError ? <Text style={[styles.draftError, { color: colors.danger }]}>{draftError}</Text> : null}
+                    </>
+                  ) : (
+                    <Text style={[styles.payload, { color: colors.textSecondary }]} numberOfLines={4}>
+                      {JSON.stringify(item.payload)}
+                    </Text>
+                  )}
+
+                  <View style={styles.actions}>
+                    {isBusy ? (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    ) : isEditing ? (
+                      <>
+                        <Pressable
+                          style={({ pressed }) => [styles.actionBtn, { borderColor: colors.border, opacity: pressed ? 0.8 : 1 }]}
+                          onPress={() => setEditingId(null)}
+                        >
+                          <Text style={[styles.actionText, { color: colors.textSecondary }]}>{t('cancel')}</Text>
+                        </Pressable>
+                        <Pressable
+                          style={({ pressed }) => [styles.actionBtn, { backgroundColor: colors.primary, borderColor: colors.primary, opacity: pressed ? 0.85 : 1 }]}
+                          onPress={() => handleSaveEdit(item)}
+                        >
+                          <Text style={[styles.actionText, { color: '#fff' }]}>{t('syncIssueSaveRetry')}</Text>
+                        </Pressable>
+                      </>
+                    ) : (
+                      <>
+                        <Pressable
+                          style={({ pressed }) => [styles.actionBtn, { borderColor: colors.danger, opacity: pressed ? 0.8 : 1 }]}
+                          onPress={() => handleDiscard(item)}
+                        >
+                          <Text style={[styles.actionText, { color: colors.danger }]}>{t('syncIssueDiscard')}</Text>
+                        </Pressable>
+                        <Pressable
+                          style={({ pressed }) => [styles.actionBtn, { borderColor: colors.border, opacity: pressed ? 0.8 : 1 }]}
+                          onPress={() => handleEdit(item)}
+                        >
+                          <Text style={[styles.actionText, { color: colors.textSecondary }]}>{t('syncIssueEdit')}</Text>
+                        </Pressable>
+                        <Pressable
+                          style={({ pressed }) => [styles.actionBtn, { backgroundColor: colors.primary, borderColor: colors.primary, opacity: pressed ? 0.85 : 1 }]}
+                          onPress={() => handleRetry(item)}
+                        >
+                          <Text style={[styles.actionText, { color: '#fff' }]}>{t('syncIssueRetry')}</Text>
+                        </Pressable>
+                      </>
+                    )}
+                  </View>
+                </View>
+              </Animated.View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backBtn: { width: 40, height: 40, justifyContent: 'center' },
+  title: { fontFamily: 'Poppins_600SemiBold', fontSize: 18 },
+  centerWrap: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 40,
+    gap: 12,
+  },
+  iconBox: {
+    width: 80,
+    height: 80,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  centerTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 18, textAlign: 'center' },
+  centerText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center', lineHeight: 22 },
+  content: { paddingHorizontal: 16, paddingTop: 16 },
+  hint: { fontFamily: 'Poppins_400Regular', fontSize: 13, lineHeight: 20, marginBottom: 16 },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 12,
+    gap: 10,
+  },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  opBadge: { paddingHorizontal: 8, paddingVertical: 4, borderRadius: 8 },
+  opBadgeText: { fontFamily: 'Poppins_600SemiBold', fontSize: 11, textTransform: 'uppercase' },
+  cardTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 15, textTransform: 'capitalize' },
+  cardSub: { fontFamily: 'Poppins_400Regular', fontSize: 12, marginTop: 1 },
+  errorBox: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    padding: 10,
+    borderRadius: 10,
+  },
+  errorText: { fontFamily: 'Poppins_400Regular', fontSize: 12, flex: 1 },
+  payload: { fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace', fontSize: 11 },
+  editor: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    minHeight: 140,
+    borderRadius: 10,
+    borderWidth: 1,
+    padding: 10,
+    textAlignVertical: 'top',
+  },
+  draftError: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 8,
+    minHeight: 38,
+  },
+  actionBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  actionText: { fontFamily: 'Poppins_600SemiBold', fontSize: 13 },
+});
@@ -0,0 +1,298 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  Switch,
+  ScrollView,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/lib/toast-context';
+import { useThemeColors } from '@/constants/colors';
+
+export default function TaxSettingsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { shopProfile, updateShopProfile } = useShop();
+  const { user } = useAuth();
+  const toast = useToast();
+  const { t } = useTranslation();
+
+  const existing = shopProfile.taxSettings;
+
+  const [enabled, setEnabled] = useState(existing.enabled);
+  const [name, setName] = useState(existing.name);
+  const [rate, setRate] = useState(String(existing.rate));
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(existing.pricesIncludeTax);
+  const [taxId, setTaxId] = useState(existing.taxId ?? '');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const bottomInset = Platform.OS === 'web' ? 20 : insets.bottom;
+
+  if (user?.role !== 'owner') {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+          <Pressable onPress={() => router.back()} style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}>
+            <Ionicons name="chevron-back" size={24} color={colors.text} />
+          </Pressable>
+          <Text style={[styles.title, { color: colors.text }]}>{t('taxSettings')}</Text>
+          <View style={{ width: 40 }} />
+        </View>
+        <View style={styles.lockedWrap}>
+          <View style={[styles.lockedIconBox, { backgroundColor: colors.sandLight }]}>
+            <Ionicons name="lock-closed-outline" size={40} color={colors.textMuted} />
+          </View>
+          <Text style={[styles.lockedTitle, { color: colors.text }]}>{t('ownerOnlyTitle')}</Text>
+          <Text style={[styles.lockedText, { color: colors.textSecondary }]}>{t('ownerOnlyFeature')}</Text>
+          <Pressable
+            onPress={() => router.back()}
+            style={({ pressed }) => [styles.lockedBackBtn, { backgroundColor: colors.primary, opacity: pressed ? 0.85 : 1 }]}
+          >
+            <Text style={styles.lockedBackBtnText}>{t('back')}</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  const handleSave = async () => {
+    const amount = parseFloat(rate);
+    if (!name.trim()) { setError(t('taxNameRequired')); return; }
+    if (isNaN(amount) || amount < 0 || amount > 100) { setError(t('taxRateInvalid')); return; }
+
+    setSaving(true);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    await updateShopProfile({
+      taxSettings: {
+        enabled,
+        name: name.trim(),
+        rate: amount,
+        pricesIncludeTax,
+        taxId: taxId.trim() || null,
+      },
+    });
+    setSaving(false);
+    toast.success(t('taxSettingsSaved'));
+    router.back();
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { paddingTop: topInset + 12, borderBottomColor: colors.border }]}>
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [styles.backBtn, { opacity: pressed ? 0.7 : 1 }]}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </Pressable>
+        <Text style={[styles.title, { color: colors.text }]}>{t('taxSettings')}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={[styles.content, { paddingBottom: bottomInset + 24 }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Animated.View entering={FadeInDown.duration(350).springify()}>
+          <View style={[styles.toggleRow, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+            <View style={styles.toggleLeft}>
+              <Ionicons name="receipt-outline" size={20} color={colors.primary} />
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.toggleLabel, { color: colors.text }]}>{t('chargeTax')}</Text>
+                <Text style={[styles.hint, { color: colors.textMuted }]}>{t('chargeTaxSub')}</Text>
+              </View>
+            </View>
+            <Switch
+              value={enabled}
+              onValueChange={v => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setEnabled(v); }}
+              trackColor={{ false: colors.border, true: colors.primary + '60' }}
+              thumbColor={enabled ? colors.primary : colors.textMuted}
+            />
+          </View>
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(60).duration(350).springify()} style={styles.row}>
+          <View style={{ flex: 2 }}>
+            <Text style={[styles.label, { color: colors.text }]}>{t('taxName')}</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              value={name}
+              onChangeText={v => { setName(v); setError(''); }}
+              placeholder="VAT"
+              placeholderTextColor={colors.textMuted}
+            />
+          </View>
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.label, { color: colors.text }]}>{t('taxRate')}</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+              value={rate}
+              onChangeText={v => { setRate(v); setError(''); }}
+              placeholder="7.5"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(120).duration(350).springify()}>
+          <Text style={[styles.label, { color: colors.text }]}>{t('taxPricing')}</Text>
+          <View style={styles.pillRow}>
+            {[true, false].map(inclusive => (
+              <Pressable
+                key={String(inclusive)}
+                style={[
+                  styles.pill,
+                  {
+                    backgroundColor: pricesIncludeTax === inclusive ? colors.primary : colors.surface,
+                    borderColor: pricesIncludeTax === inclusive ? colors.primary : colors.border,
+                  },
+                ]}
+                onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setPricesIncludeTax(inclusive); }}
+              >
+                <Text style={[styles.pillText, { color: pricesIncludeTax === inclusive ? '#fff' : colors.textSecondary }]}>
+                  {inclusive ? t('taxInclusive') : t('taxExclusive')}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <Text style={[styles.hint, styles.pricingHint, { color: colors.textMuted }]}>
+            {pricesIncludeTax ? t('taxInclusiveHint') : t('taxExclusiveHint')}
+          </Text>
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(180).duration(350).springify()}>
+          <Text style={[styles.label, { color: colors.text }]}>{t('taxId')}</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }]}
+            value={taxId}
+            onChangeText={setTaxId}
+            placeholder="e.g. 12345678-0001"
+            placeholderTextColor={colors.textMuted}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          <Text style={[styles.hint, { color: colors.textMuted, marginTop: -8 }]}>{t('taxIdHint')}</Text>
+        </Animated.View>
+
+        {!!error && <Text style={[styles.error, { color: colors.danger }]}>{error}</Text>}
+      </ScrollView>
+
+      <View style={[styles.footer, { backgroundColor: colors.surface, borderTopColor: colors.border, paddingBottom: bottomInset + 8 }]}>
+        <Pressable
+          style={({ pressed }) => [styles.saveBtn, { backgroundColor: colors.primary, opacity: pressed || saving ? 0.85 : 1 }]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          <Ionicons name="checkmark-circle" size={22} color="#fff" />
+          <Text style={styles.saveBtnText}>{saving ? 'Saving…' : t('save')}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  lockedWrap: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 40,
+    gap: 12,
+  },
+  lockedIconBox: {
+    width: 80,
+    height: 80,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  lockedTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 18, textAlign: 'center' },
+  lockedText: { fontFamily: 'Poppins_400Regular', fontSize: 14, textAlign: 'center', lineHeight: 22 },
+  lockedBackBtn: {
+    marginTop: 12,
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  lockedBackBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 14, color: '#fff' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backBtn: { width: 40, height: 40, justifyContent: 'center' },
+  title: { fontFamily: 'Poppins_600SemiBold', fontSize: 18 },
+  content: { paddingHorizontal: 20, paddingTop: 20 },
+  row: { flexDirection: 'row', gap: 12 },
+  label: { fontFamily: 'Poppins_500Medium', fontSize: 14, marginBottom: 6, marginTop: 4 },
+  input: {
+    fontFamily: 'Poppins_400Regular',
+    fontSize: 15,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    marginBottom: 14,
+  },
+  hint: { fontFamily: 'Poppins_400Regular', fontSize: 12, lineHeight: 18 },
+  pricingHint: { marginTop: -8, marginBottom: 16 },
+  pillRow: { flexDirection: 'row', gap: 8, marginBottom: 16 },
+  pill: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  pillText: { fontFamily: 'Poppins_500Medium', fontSize: 13 },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginBottom: 20,
+  },
+  toggleLeft: { flexDirection: 'row', alignItems: 'center', gap: 10, flex: 1 },
+  toggleLabel: { fontFamily: 'Poppins_500Medium', fontSize: 14 },
+  error: { fontFamily: 'Poppins_500Medium', fontSize: 13, marginTop: 4 },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+  },
+  saveBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderRadius: 14,
+    gap: 8,
+  },
+  saveBtnText: { fontFamily: 'Poppins_600SemiBold', fontSize: 16, color: '#fff' },
+});
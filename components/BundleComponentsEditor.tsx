@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  FlatList,
+  Modal,
+  Platform,
+  useColorScheme,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useThemeColors } from '@/constants/colors';
+import { formatCurrency } from '@/lib/format';
+import { bundleCost, isBundle } from '@/lib/bundles';
+import { parentIds, productLabel } from '@/lib/variants';
+import type { BundleComponent, Product } from '@/lib/types';
+
+interface BundleComponentsEditorProps {
+  components: BundleComponent[];
+  onChange: (components: BundleComponent[]) => void;
+  products: Product[];
+  bundleId?: string; // the bundle being edited, which can't go inside itself
+}
+
+export function BundleComponentsEditor({ components, onChange, products, bundleId }: BundleComponentsEditorProps) {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const [picking, setPicking] = useState(false);
+  const [search, setSearch] = useState('');
+
+  // Only things with stock of their own can go in a bundle
+  const choices = useMemo(() => {
+    const parents = parentIds(products);
+    const q = search.trim().toLowerCase();
+    return products.filter(p =>
+      p.id !== bundleId && !isBundle(p) && !parents.has(p.id) &&
+      (!q || productLabel(p).toLowerCase().includes(q))
+    );
+  }, [products, bundleId, search]);
+
+  const cost = bundleCost(components, products);
+
+  const setQuantity = (productId: string, quantity: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange(quantity <= 0
+      ? components.filter(c => c.productId !== productId)
+      : components.map(c => (c.productId === productId ? { ...c, quantity } : c)));
+  };
+
+  const handlePick = (product: Product) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const existing = components.find(c => c.productId === product.id);
+    onChange(existing
+      ? components.map(c => (c.productId === product.id ? { ...c, quantity: c.quantity + 1 } : c))
+      : [...components, { productId: product.id, quantity: 1 }]);
+    setPicking(false);
+    setSearch('');
+  };
+
+  return (
+    <View>
+      <Text style={[styles.label, { color: colors.text }]}>Bundle Contents</Text>
+      <Text style={[styles.hint, { color: colors.textMuted }]}>
+        Sell a pack made of other products. Its stock comes from what&apos;s inside, and selling one takes them off the shelf.
+      </Text>
+
+      {components.map(c => {
+        const product = products.find(p => p.id === c.productId);
+        return (
+          <View key={c.productId} style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>
+                {product ? productLabel(product) : 'Deleted product'}
+              </Text>
+              <Text style={[styles.meta, { color: colors.textMuted }]}>
+                {product ? `${product.stock} in stock` : 'Remove this from the bundle'}
+              </Text>
+            </View>
+            <View style={styles.qtyControls}>
+              <Pressable
+                style={[styles.qtyBtn, { backgroundColor: colors.border }]}
+                onPress={() => setQuantity(c.productId, c.quantity - 1)}
+              >
+                <Ionicons name={c.quantity > 1 ? 'remove' : 'trash-outline'} size={16} color={c.quantity > 1 ? colors.text : colors.danger} />
+              </Pressable>
+              <Text style={[styles.qtyText, { color: colors.primary }]}>{c.quantity}</Text>
+              <Pressable
+                style={[styles.qtyBtn, { backgroundColor: colors.primary }]}
+                onPress={() => setQuantity(c.productId, c.quantity + 1)}
+              >
+                <Ionicons name="add" size={16} color="#fff" />
+              </Pressable>
+            </View>
+          </View>
+        );
+      })}
+
+      {components.length > 0 && cost != null && (
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>Cost from contents: {formatCurrency(cost)}</Text>
+      )}
+
+      <Pressable
+        style={({ pressed }) => [styles.addBtn, { borderColor: colors.primary, opacity: pressed ? 0.8 : 1 }]}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          setPicking(true);
+        }}
+      >
+        <Ionicons name="add" size={18} color={colors.primary} />
+        <Text style={[styles.addBtnText, { color: colors.primary }]}>Add to bundle</Text>
+      </Pressable>
+
+      <Modal visible={picking} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setPicking(false)}>
+        <View style={[styles.container, { backgroundColor: colors.background }]}>
+          <View style={[styles.topBar, { paddingTop: topInset + 8, backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+            <Pressable onPress={() => setPicking(false)}>
+              <Ionicons name="close" size={28} color={colors.text} />
+            </Pressable>
+            <Text style={[styles.topBarTitle, { color: colors.text }]}>Add to Bundle</Text>
+            <View style={{ width: 28 }} />
+          </View>
+          <View style={[styles.searchBar, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <Ionicons name="search" size={18} color={colors.textMuted} />
+            <TextInput
+              style={[styles.searchInput, { color: colors.text }]}
+              placeholder="Search products"
+              placeholderTextColor={colors.textMuted}
+              value={search}
+              onChangeText={setSearch}
+            />
+          </View>
+          <FlatList
+            data={choices}
+            keyExtractor={item => item.id}
+            contentContainerStyle={styles.list}
+            renderItem={({ item }) => (
+              <Pressable
+                style={({ pressed }) => [
+                  styles.card,
+                  { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: pressed ? 0.9 : 1 },
+                ]}
+                onPress={() => handlePick(item)}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>{productLabel(item)}</Text>
+                  <Text style={[styles.meta, { color: colors.textMuted }]}>
+                    {formatCurrency(item.price)} · {item.stock} in stock
+                  </Text>
+                </View>
+                <Ionicons name="add-circle" size={24} color={colors.primary} />
+              </Pressable>
+            )}
+            ListEmptyComponent={
+              <Text style={[styles.hint, { color: colors.textMuted, textAlign: 'center', marginTop: 24 }]}>
+                No products to add
+              </Text>
+            }
+          />
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  topBarTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 18 },
+  label: { fontFamily: 'Poppins_500Medium', fontSize: 14, marginBottom: 2 },
+  hint: { fontFamily: 'Poppins_400Regular', fontSize: 12, marginBottom: 10 },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  name: { fontFamily: 'Poppins_500Medium', fontSize: 14 },
+  meta: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
+  qtyControls: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  qtyBtn: { width: 30, height: 30, borderRadius: 8, alignItems: 'center', justifyContent: 'center' },
+  qtyText: { fontFamily: 'Poppins_600SemiBold', fontSize: 15, minWidth: 20, textAlign: 'center' },
+  addBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    marginBottom: 16,
+  },
+  addBtnText: { fontFamily: 'Poppins_500Medium', fontSize: 14 },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingHorizontal: 14,
+    height: 46,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  searchInput: { flex: 1, fontFamily: 'Poppins_400Regular', fontSize: 15 },
+  list: { padding: 20 },
+});
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Pressable, TextInput, useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Crypto from 'expo-crypto';
+import * as Haptics from 'expo-haptics';
+import { BarcodeScanner } from '@/components/BarcodeScanner';
+import { useThemeColors } from '@/constants/colors';
+import type { ProductUnit } from '@/lib/types';
+
+// A selling unit as typed into the form, before it is checked
+export interface UnitDraft {
+  id: string;
+  name: string;
+  factor: string;
+  price: string;
+  barcode: string;
+}
+
+export function toUnitDrafts(units: ProductUnit[]): UnitDraft[] {
+  return units.map(u => ({
+    id: u.id,
+    name: u.name,
+    factor: String(u.factor),
+    price: String(u.price),
+    barcode: u.barcode ?? '',
+  }));
+}
+
+/** Check the drafts; returns the units to save, or what to tell the user. */
+export function parseUnitDrafts(drafts: UnitDraft[]): { units: ProductUnit[] } | { error: string } {
+  const units: ProductUnit[] = [];
+  for (const d of drafts) {
+    const name = d.name.trim();
+    const factor = Number(d.factor);
+    const price = parseFloat(d.price);
+    if (!name) return { error: 'Give every selling unit a name.' };
+    if (!Number.isInteger(factor) || factor < 2) {
+      return { error: `"${name}" must hold a whole number of base units, 2 or more.` };
+    }
+    if (isNaN(price) || price <= 0) return { error: `Enter a price for "${name}".` };
+    units.push({ id: d.id, name, factor, price, barcode: d.barcode.trim() || null });
+  }
+  return { units };
+}
+
+interface ProductUnitsEditorProps {
+  units: UnitDraft[];
+  onChange: (units: UnitDraft[]) => void;
+  baseUnit: string; // what stock is counted in, e.g. "piece"
+}
+
+export function ProductUnitsEditor({ units, onChange, baseUnit }: ProductUnitsEditorProps) {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const [scanningId, setScanningId] = useState<string | null>(null);
+  const base = baseUnit.trim() || 'unit';
+
+  const update = (id: string, changes: Partial<UnitDraft>) =>
+    onChange(units.map(u => (u.id === id ? { ...u, ...changes } : u)));
+
+  const inputStyle = [styles.input, { backgroundColor: colors.surface, borderColor: colors.border, color: colors.text }];
+
+  return (
+    <View>
+      <Text style={[styles.label, { color: colors.text }]}>Selling Units</Text>
+      <Text style={[styles.hint, { color: colors.textMuted }]}>
+        Stock is counted in {base}s. Add packs or cartons to sell them at their own price.
+      </Text>
+
+      {units.map(u => (
+        <View key={u.id} style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+          <View style={styles.row}>
+            <TextInput
+              style={[inputStyle, { flex: 1 }]}
+              placeholder="carton, pack"
+              placeholderTextColor={colors.textMuted}
+              value={u.name}
+              onChangeText={v => update(u.id, { name: v })}
+            />
+            <Pressable
+              style={styles.removeBtn}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                onChange(units.filter(x => x.id !== u.id));
+              }}
+            >
+              <Ionicons name="trash-outline" size={20} color={colors.danger} />
+            </Pressable>
+          </View>
+          <View style={styles.row}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>{base}s in one</Text>
+              <TextInput
+                style={inputStyle}
+                placeholder="24"
+                placeholderTextColor={colors.textMuted}
+                value={u.factor}
+                onChangeText={v => update(u.id, { factor: v })}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>Price ({'₦'})</Text>
+              <TextInput
+                style={inputStyle}
+                placeholder="0"
+                placeholderTextColor={colors.textMuted}
+                value={u.price}
+                onChangeText={v => update(u.id, { price: v })}
+                keyboardType="numeric"
+              />
+            </View>
+          </View>
+          <View style={[styles.barcodeRow, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <TextInput
+              style={[styles.barcodeInput, { color: colors.text }]}
+              placeholder="Barcode (optional)"
+              placeholderTextColor={colors.textMuted}
+              value={u.barcode}
+              onChangeText={v => update(u.id, { barcode: v })}
+              autoCapitalize="none"
+            />
+            <Pressable
+              style={[styles.scanBtn, { backgroundColor: colors.primary }]}
+              onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setScanningId(u.id); }}
+            >
+              <Ionicons name="barcode-outline" size={20} color="#fff" />
+            </Pressable>
+          </View>
+        </View>
+      ))}
+
+      <Pressable
+        style={({ pressed }) => [styles.addBtn, { borderColor: colors.primary, opacity: pressed ? 0.8 : 1 }]}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          onChange([...units, { id: Crypto.randomUUID(), name: '', factor: '', price: '', barcode: '' }]);
+        }}
+      >
+        <Ionicons name="add" size={18} color={colors.primary} />
+        <Text style={[styles.addBtnText, { color: colors.primary }]}>Add selling unit</Text>
+      </Pressable>
+
+      <BarcodeScanner
+        visible={scanningId !== null}
+        onScan={(code) => {
+          if (scanningId) update(scanningId, { barcode: code });
+          setScanningId(null);
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        }}
+        onClose={() => setScanningId(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontFamily: 'Poppins_500Medium', fontSize: 14, marginBottom: 2 },
+  hint: { fontFamily: 'Poppins_400Regular', fontSize: 12, marginBottom: 10 },
+  card: { borderRadius: 12, borderWidth: 1, padding: 12, marginBottom: 10, gap: 8 },
+  row: { flexDirection: 'row', alignItems: 'flex-end', gap: 10 },
+  fieldLabel: { fontFamily: 'Poppins_400Regular', fontSize: 12, marginBottom: 4 },
+  input: {
+    fontFamily: 'Poppins_400Regular',
+    fontSize: 15,
+    height: 46,
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+  },
+  removeBtn: { width: 40, height: 46, alignItems: 'center', justifyContent: 'center' },
+  barcodeRow: { flexDirection: 'row', alignItems: 'center', borderRadius: 10, borderWidth: 1, overflow: 'hidden' },
+  barcodeInput: { flex: 1, fontFamily: 'Poppins_400Regular', fontSize: 15, height: 46, paddingHorizontal: 12 },
+  scanBtn: { width: 46, height: 46, justifyContent: 'center', alignItems: 'center' },
+  addBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    marginBottom: 16,
+  },
+  addBtnText: { fontFamily: 'Poppins_500Medium', fontSize: 14 },
+});
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  useColorScheme,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/lib/auth-context';
+import { useShop } from '@/lib/shop-context';
+import { useToast } from '@/lib/toast-context';
+import { useThemeColors } from '@/constants/colors';
+import type { ShopMembership, StaffRole } from '@/lib/types';
+
+const ROLE_LABEL_KEYS: Record<StaffRole, string> = {
+  owner: 'owner',
+  cashier: 'cashier',
+  stock_manager: 'stockManager',
+  delivery: 'deliveryRider',
+};
+
+/**
+ * Active shop name with a sheet for moving to another of the user's shops.
+ * Renders nothing for users who belong to a single shop.
+ */
+export function ShopSwitcher() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { user, switchShop } = useAuth();
+  const { syncStatus } = useShop();
+  const toast = useToast();
+  const [visible, setVisible] = useState(false);
+  const [switchingId, setSwitchingId] = useState<string | null>(null);
+
+  const memberships = user?.memberships ?? [];
+  if (memberships.length < 2) return null;
+
+  const topInset = Platform.OS === 'web' ? 67 : insets.top;
+  const active = memberships.find(m => m.shop_id === user?.shop_id);
+
+  const doSwitch = async (membership: ShopMembership) => {
+    setSwitchingId(membership.shop_id);
+    try {
+      await switchShop(membership.shop_id);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setVisible(false);
+      toast.success(t('shopSwitched', { name: membership.shop?.name ?? '' }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('somethingWentWrong'));
+    } finally {
+      setSwitchingId(null);
+    }
+  };
+
+  const handleSelect = (membership: ShopMembership) => {
+    if (membership.shop_id === user?.shop_id || switchingId) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Unsent changes stay with their shop and upload when it is opened again
+    if (syncStatus.pendingCount > 0) {
+      Alert.alert(t('switchShop'), t('switchShopPending', { count: syncStatus.pendingCount }), [
+        { text: t('cancel'), style: 'cancel' },
+        { text: t('switchShop'), onPress: () => doSwitch(membership) },
+      ]);
+      return;
+    }
+    doSwitch(membership);
+  };
+
+  return (
+    <>
+      <Pressable
+        style={({ pressed }) => [
+          styles.trigger,
+          { backgroundColor: colors.surfaceElevated, borderColor: colors.border, opacity: pressed ? 0.9 : 1 },
+        ]}
+        onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); setVisible(true); }}
+      >
+        <Ionicons name="storefront-outline" size={14} color={colors.primary} />
+        <Text style={[styles.triggerText, { color: colors.text }]} numberOfLines={1}>
+          {active?.shop?.name ?? t('myShop')}
+        </Text>
+        <Ionicons name="chevron-down" size={14} color={colors.textMuted} />
+      </Pressable>
+
+      <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setVisible(false)}>
+        <View style={[styles.container, { backgroundColor: colors.background }]}>
+          <View style={[
+            styles.topBar,
+            { paddingTop: topInset + 8, backgroundColor: colors.surface, borderBottomColor: colors.border },
+          ]}>
+            <Pressable onPress={() => setVisible(false)}>
+              <Ionicons name="close" size={28} color={colors.text} />
+            </Pressable>
+            <Text style={[styles.topBarTitle, { color: colors.text }]}>{t('switchShop')}</Text>
+            <View style={{ width: 28 }} />
+          </View>
+
+          <View style={styles.list}>
+            {memberships.map(m => {
+              const isActive = m.shop_id === user?.shop_id;
+              return (
+                <Pressable
+                  key={m.shop_id}
+                  style={({ pressed }) => [
+                    styles.row,
+                    {
+                      backgroundColor: colors.card,
+                      borderColor: isActive ? colors.primary : colors.cardBorder,
+                      opacity: pressed ? 0.9 : 1,
+                    },
+                  ]}
+                  onPress={() => handleSelect(m)}
+                >
+                  <View style={[styles.rowIcon, { backgroundColor: colors.primary + '14' }]}>
+                    <Ionicons name="storefront" size={18} color={colors.primary} />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+                      {m.shop?.name ?? t('myShop')}
+                    </Text>
+                    <Text style={[styles.rowSub, { color: colors.textMuted }]}>{t(ROLE_LABEL_KEYS[m.role])}</Text>
+                  </View>
+                  {switchingId === m.shop_id ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : isActive ? (
+                    <Ionicons name="checkmark-circle" size={22} color={colors.primary} />
+                  ) : null}
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  trigger: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingHorizontal: 10,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginTop: 4,
+    maxWidth: 220,
+  },
+  triggerText: { fontFamily: 'Poppins_500Medium', fontSize: 12, flexShrink: 1 },
+  container: { flex: 1 },
+  topBar: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingHorizontal: 20, paddingBottom: 12, borderBottomWidth: 1,
+  },
+  topBarTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 18 },
+  list: { padding: 16, gap: 10 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1.5,
+  },
+  rowIcon: { width: 40, height: 40, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  rowTitle: { fontFamily: 'Poppins_600SemiBold', fontSize: 15 },
+  rowSub: { fontFamily: 'Poppins_400Regular', fontSize: 12 },
+});
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Text, StyleSheet, Pressable, ActivityIndicator, useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useTranslation } from 'react-i18next';
+import { useShop } from '@/lib/shop-context';
+import { useAuth } from '@/lib/auth-context';
+import { useThemeColors } from '@/constants/colors';
+import i18n from '@/lib/i18n';
+
+function formatRelativeTime(iso: string): string {
+  const diffMins = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (diffMins < 1) return i18n.t('justNow');
+  if (diffMins < 60) return i18n.t('minutesAgo', { count: diffMins });
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return i18n.t('hoursAgo', { count: diffHours });
+  return i18n.t('daysAgo', { count: Math.floor(diffHours / 24) });
+}
+
+/**
+ * Header pill showing whether local writes have reached the server.
+ * Tapping it runs a sync. Hidden until the user belongs to a shop.
+ */
+export function SyncStatusIndicator() {
+  const colorScheme = useColorScheme();
+  const colors = useThemeColors(colorScheme);
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const { syncStatus, isSyncing, syncNow } = useShop();
+
+  if (!user?.shop_id) return null;
+
+  const pendingSales = syncStatus.pendingByTable.sales ?? 0;
+  let icon: keyof typeof Ionicons.glyphMap;
+  let color: string;
+  let label: string;
+  if (isSyncing) {
+    icon = 'sync-outline';
+    color = colors.primary;
+    label = t('syncStatusSyncing');
+  } else if (syncStatus.pendingCount > 0 && syncStatus.lastError) {
+    icon = 'cloud-offline-outline';
+    color = colors.danger;
+    label = pendingSales > 0
+      ? t('syncStatusSalesPending', { count: pendingSales })
+      : t('syncStatusFailed');
+  } else if (syncStatus.pendingCount > 0) {
+    icon = 'cloud-upload-outline';
+    color = colors.gold;
+    label = pendingSales > 0
+      ? t('syncStatusSalesPending', { count: pendingSales })
+      : t('syncStatusPending', { count: syncStatus.pendingCount });
+  } else {
+    icon = 'cloud-done-outline';
+    color = colors.green;
+    label = syncStatus.lastPushAt
+      ? t('syncStatusSynced', { time: formatRelativeTime(syncStatus.lastPushAt) })
+      : t('syncStatusNever');
+  }
+
+  return (
+    <Pressable
+      style={({ pressed }) => [
+        styles.pill,
+        { backgroundColor: color + '14', borderColor: color + '40', opacity: pressed ? 0.85 : 1 },
+      ]}
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        syncNow();
+      }}
+      disabled={isSyncing}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+    >
+      {isSyncing
+        ? <ActivityIndicator size="small" color={color} />
+        : <Ionicons name={icon} size={16} color={color} />
+      }
+      <Text style={[styles.label, { color }]} numberOfLines={1}>{label}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    maxWidth: 180,
+  },
+  label: { fontFamily: 'Poppins_500Medium', fontSize: 11, flexShrink: 1 },
+});
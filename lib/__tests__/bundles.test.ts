@@ -0,0 +1,92 @@
+import {
+  isBundle,
+  bundleStock,
+  availableStock,
+  bundleCost,
+  stockNeeds,
+  saleItemStock,
+  totalByProduct,
+} from '../bundles';
+import type { SaleItem } from '../types';
+import { product } from './fixtures';
+
+const book = product({ id: 'book', name: 'Exercise book', price: 300, stock: 25, costPrice: 200 });
+const pen = product({ id: 'pen', name: 'Pen', stock: 9, costPrice: 50 });
+// Two books and a pen, also sold as a box of 10 packs
+const schoolPack = product({
+  id: 'pack',
+  name: 'Back-to-school pack',
+  stock: 500,
+  components: [{ productId: 'book', quantity: 2 }, { productId: 'pen', quantity: 1 }],
+  units: [{ id: 'box', name: 'Box', factor: 10, price: 7000, barcode: null }],
+});
+const products = [book, pen, schoolPack];
+
+describe('bundle availability', () => {
+  it('makes up as many whole bundles as the scarcest component allows', () => {
+    expect(bundleStock(schoolPack, products)).toBe(9);
+    expect(bundleStock(schoolPack, [{ ...book, stock: 5 }, pen])).toBe(2);
+  });
+
+  it('makes up none when a component is gone or has no quantity', () => {
+    expect(bundleStock(schoolPack, [book])).toBe(0);
+    expect(bundleStock({ ...schoolPack, components: [{ productId: 'book', quantity: 0 }] }, products)).toBe(0);
+  });
+
+  it("ignores a bundle's own stock count", () => {
+    expect(isBundle(schoolPack)).toBe(true);
+    expect(availableStock(schoolPack, products)).toBe(9);
+    expect(isBundle(book)).toBe(false);
+    expect(availableStock(book, products)).toBe(25);
+  });
+});
+
+describe('bundleCost', () => {
+  it('adds up the cost of what is inside', () => {
+    expect(bundleCost(schoolPack.components, products)).toBe(450);
+  });
+
+  it('skips components without a cost, and is null when none has one', () => {
+    expect(bundleCost(schoolPack.components, [book, { ...pen, costPrice: null }])).toBe(400);
+    expect(bundleCost(schoolPack.components, [])).toBeNull();
+  });
+});
+
+describe('stock moves', () => {
+  it('takes a plain product off in base units', () => {
+    const malt = product({ id: 'malt', units: [{ id: 'pack', name: 'Pack', factor: 6, price: 3000, barcode: null }] });
+    expect(stockNeeds(malt, 'pack')).toEqual([{ productId: 'malt', quantity: 6 }]);
+    expect(stockNeeds(malt, null)).toEqual([{ productId: 'malt', quantity: 1 }]);
+  });
+
+  it('takes a bundle off as its components, times the unit it was sold in', () => {
+    expect(stockNeeds(schoolPack, 'box')).toEqual([
+      { productId: 'book', quantity: 20 },
+      { productId: 'pen', quantity: 10 },
+    ]);
+  });
+
+  it('moves the components recorded on a sale line, for part of the line too', () => {
+    const line: SaleItem = {
+      productId: 'pack',
+      productName: 'Back-to-school pack',
+      unitFactor: 1,
+      components: schoolPack.components,
+      price: 800,
+      quantity: 3,
+      subtotal: 2400,
+    };
+    expect(saleItemStock(line)).toEqual([{ productId: 'book', quantity: 6 }, { productId: 'pen', quantity: 3 }]);
+    expect(saleItemStock(line, 1)).toEqual([{ productId: 'book', quantity: 2 }, { productId: 'pen', quantity: 1 }]);
+  });
+
+  it('moves a plain sale line in base units', () => {
+    const line: SaleItem = { productId: 'malt', productName: 'Malt', unitFactor: 6, price: 3000, quantity: 2, subtotal: 6000 };
+    expect(saleItemStock(line)).toEqual([{ productId: 'malt', quantity: 12 }]);
+  });
+
+  it('adds up moves by product', () => {
+    const moves = [...stockNeeds(schoolPack, null), ...stockNeeds(book, null)];
+    expect(totalByProduct(moves)).toEqual(new Map([['book', 3], ['pen', 1]]));
+  });
+});
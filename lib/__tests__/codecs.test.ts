@@ -0,0 +1,395 @@
+import {
+  productCodec,
+  productEditRow,
+  saleCodec,
+  saleReturnCodec,
+  customerCodec,
+  creditPaymentCodec,
+  loyaltyEntryCodec,
+  orderCodec,
+  expenseCodec,
+  staffMemberCodec,
+  staffActivityCodec,
+  inventoryMovementCodec,
+} from '../codecs';
+import type {
+  CreditPayment,
+  Customer,
+  Expense,
+  InventoryMovement,
+  LoyaltyEntry,
+  Order,
+  Product,
+  Sale,
+  SaleItem,
+  SaleReturn,
+  StaffMember,
+} from '../types';
+import type { Codec, StaffActivityEntry } from '../codecs';
+
+const created = '2024-03-01T09:00:00.000Z';
+const updated = '2024-03-02T10:30:00.000Z';
+
+const item: SaleItem = {
+  productId: 'p1',
+  productName: 'Rice',
+  unitId: 'u1',
+  unitName: 'Bag',
+  unitFactor: 50,
+  parentId: null,
+  components: [],
+  price: 25000,
+  costPrice: 20000,
+  quantity: 2,
+  discount: 500,
+  subtotal: 49500,
+  tax: 0,
+};
+
+const product: Product = {
+  id: 'p1',
+  name: 'Rice',
+  price: 550,
+  costPrice: 400,
+  unit: 'kg',
+  stock: 120,
+  lowStockThreshold: 10,
+  imageUri: 'file:///rice.jpg',
+  category: 'Food',
+  barcode: '6001234567890',
+  createdAt: created,
+  updatedAt: updated,
+  isMarketplace: true,
+  marketplaceListing: { title: 'Rice', description: 'Long grain', photos: ['a.jpg'], location: 'Kano', isActive: true },
+  taxExempt: true,
+  units: [{ id: 'u1', name: 'Bag', factor: 50, price: 25000, barcode: null }],
+  parentId: 'p0',
+  variantName: '5kg',
+  components: [{ productId: 'p2', quantity: 3 }],
+};
+
+const sale: Sale = {
+  id: 's1',
+  items: [item],
+  total: 49000,
+  amountPaid: 50000,
+  change: 1000,
+  cashAmount: 20000,
+  transferAmount: 30000,
+  paymentMethod: 'split',
+  isCredit: false,
+  customerName: 'Ada',
+  customerId: 'c1',
+  staffId: 'st1',
+  staffName: 'Musa',
+  paymentId: 'pay1',
+  gatewayProvider: 'opay',
+  discount: 500,
+  promoCode: 'SALLAH',
+  tax: 3418,
+  taxRate: 7.5,
+  taxInclusive: true,
+  voidedAt: updated,
+  voidReason: 'Rang up twice',
+  voidedBy: 'owner1',
+  loyaltyPointsEarned: 49,
+  loyaltyPointsRedeemed: 100,
+  loyaltyAmount: 100,
+  createdAt: created,
+};
+
+const saleReturn: SaleReturn = {
+  id: 'r1',
+  saleId: 's1',
+  items: [{ productId: 'p1', productName: 'Rice', unitId: 'u1', quantity: 1, amount: 24750, tax: 0, restock: true }],
+  amount: 24750,
+  tax: 0,
+  refundMethod: 'transfer',
+  reason: 'Wrong size',
+  staffId: 'st1',
+  staffName: 'Musa',
+  createdAt: created,
+};
+
+const customer: Customer = {
+  id: 'c1',
+  name: 'Ada',
+  phone: '08031234567',
+  address: '12 Zoo Road',
+  notes: 'Pays on Fridays',
+  createdAt: created,
+  updatedAt: updated,
+};
+
+const creditPayment: CreditPayment = {
+  id: 'cp1',
+  customerId: 'c1',
+  amount: 5000,
+  method: 'transfer',
+  note: 'Part payment',
+  staffId: 'st1',
+  staffName: 'Musa',
+  createdAt: created,
+};
+
+const loyaltyEntry: LoyaltyEntry = {
+  id: 'l1',
+  customerId: 'c1',
+  saleId: 's1',
+  kind: 'redeem',
+  points: -100,
+  staffId: 'st1',
+  staffName: 'Musa',
+  createdAt: created,
+};
+
+const order: Order = {
+  id: 'o1',
+  items: [item],
+  total: 49500,
+  customerName: 'Ada',
+  customerPhone: '08031234567',
+  customerId: 'c1',
+  deliveryAddress: '12 Zoo Road',
+  status: 'preparing',
+  createdAt: created,
+  updatedAt: updated,
+  notes: 'Call on arrival',
+};
+
+const expense: Expense = {
+  id: 'e1',
+  title: 'Fuel',
+  amount: 2000,
+  category: 'Transport',
+  date: '2024-03-01',
+  notes: 'Generator',
+  createdAt: created,
+};
+
+const staffMember: StaffMember = {
+  id: 'st1',
+  name: 'Musa',
+  role: 'stock_manager',
+  pinHash: null,
+  hasPin: false,
+  isActive: false,
+  createdAt: created,
+  updatedAt: updated,
+  activityLog: [],
+};
+
+const staffActivity: StaffActivityEntry = {
+  id: 'a1',
+  staffId: 'st1',
+  action: 'sale',
+  details: 'Sold 2 items',
+  timestamp: created,
+};
+
+const movement: InventoryMovement = {
+  id: 'm1',
+  productId: 'p1',
+  delta: -100,
+  reason: 'sale',
+  referenceId: 's1',
+  createdAt: created,
+};
+
+function roundTrip<T, Row extends Record<string, unknown>>(codec: Codec<T, Row>, item: T): T {
+  return codec.fromRow(codec.toRow(item));
+}
+
+describe('round trips', () => {
+  it('product', () => expect(roundTrip(productCodec, product)).toEqual(product));
+  it('sale', () => expect(roundTrip(saleCodec, sale)).toEqual(sale));
+  it('sale return', () => expect(roundTrip(saleReturnCodec, saleReturn)).toEqual(saleReturn));
+  it('customer', () => expect(roundTrip(customerCodec, customer)).toEqual(customer));
+  it('credit payment', () => expect(roundTrip(creditPaymentCodec, creditPayment)).toEqual(creditPayment));
+  it('loyalty entry', () => expect(roundTrip(loyaltyEntryCodec, loyaltyEntry)).toEqual(loyaltyEntry));
+  it('order', () => expect(roundTrip(orderCodec, order)).toEqual(order));
+  it('expense', () => expect(roundTrip(expenseCodec, expense)).toEqual(expense));
+  it('staff member', () => expect(roundTrip(staffMemberCodec, staffMember)).toEqual(staffMember));
+  it('staff activity', () => expect(roundTrip(staffActivityCodec, staffActivity)).toEqual(staffActivity));
+  it('inventory movement', () => expect(roundTrip(inventoryMovementCodec, movement)).toEqual(movement));
+
+  it('a product without a listing comes back with null', () => {
+    const { marketplaceListing: _listing, ...unlisted } = product;
+    expect(roundTrip(productCodec, unlisted)).toEqual({ ...unlisted, marketplaceListing: null });
+  });
+
+  it('staff members never send a PIN, and only learn from the server whether one is set', () => {
+    const row = staffMemberCodec.toRow({ ...staffMember, pinHash: 'salt:hash', hasPin: true });
+    expect(Object.keys(row).filter(column => column.includes('pin'))).toEqual([]);
+    expect(staffMemberCodec.fromRow({ ...row, has_pin: true })).toMatchObject({ hasPin: true, pinHash: null });
+  });
+
+  it('product edits leave stock out', () => {
+    const row = productEditRow(product);
+    expect(row).not.toHaveProperty('stock');
+    expect(row).toMatchObject({ id: 'p1', parent_id: 'p0', components: [{ productId: 'p2', quantity: 3 }] });
+  });
+});
+
+// Rows written before later columns existed, as they come back from Supabase
+describe('legacy rows', () => {
+  it('product', () => {
+    expect(productCodec.fromRow({ id: 'p1', name: 'Rice', price: 550, stock: 12, created_at: created })).toEqual({
+      id: 'p1',
+      name: 'Rice',
+      price: 550,
+      costPrice: null,
+      unit: null,
+      stock: 12,
+      lowStockThreshold: 5,
+      imageUri: null,
+      category: '',
+      barcode: null,
+      isMarketplace: false,
+      marketplaceListing: null,
+      taxExempt: false,
+      units: [],
+      parentId: null,
+      variantName: null,
+      components: [],
+      createdAt: created,
+      updatedAt: created,
+    });
+  });
+
+  it('sale', () => {
+    expect(saleCodec.fromRow({ id: 's1', total: 1000, amount_paid: 1200, created_at: created })).toEqual({
+      id: 's1',
+      items: [],
+      total: 1000,
+      amountPaid: 1200,
+      change: 0,
+      cashAmount: 1200,
+      transferAmount: 0,
+      paymentMethod: 'cash',
+      isCredit: false,
+      customerName: null,
+      customerId: null,
+      staffId: null,
+      staffName: null,
+      paymentId: null,
+      gatewayProvider: null,
+      discount: 0,
+      promoCode: null,
+      tax: 0,
+      taxRate: 0,
+      taxInclusive: false,
+      voidedAt: null,
+      voidReason: '',
+      voidedBy: null,
+      loyaltyPointsEarned: 0,
+      loyaltyPointsRedeemed: 0,
+      loyaltyAmount: 0,
+      createdAt: created,
+    });
+  });
+
+  it('sale return', () => {
+    expect(saleReturnCodec.fromRow({ id: 'r1', sale_id: 's1', amount: 500, created_at: created })).toEqual({
+      id: 'r1',
+      saleId: 's1',
+      items: [],
+      amount: 500,
+      tax: 0,
+      refundMethod: 'cash',
+      reason: '',
+      staffId: null,
+      staffName: null,
+      createdAt: created,
+    });
+  });
+
+  it('customer', () => {
+    expect(customerCodec.fromRow({ id: 'c1', name: 'Ada', created_at: created })).toEqual({
+      id: 'c1',
+      name: 'Ada',
+      phone: '',
+      address: '',
+      notes: '',
+      createdAt: created,
+      updatedAt: created,
+    });
+  });
+
+  it('credit payment', () => {
+    expect(creditPaymentCodec.fromRow({ id: 'cp1', customer_id: 'c1', amount: 500, created_at: created })).toEqual({
+      id: 'cp1',
+      customerId: 'c1',
+      amount: 500,
+      method: 'cash',
+      note: '',
+      staffId: null,
+      staffName: null,
+      createdAt: created,
+    });
+  });
+
+  it('loyalty entry', () => {
+    expect(loyaltyEntryCodec.fromRow({ id: 'l1', customer_id: 'c1', created_at: created })).toEqual({
+      id: 'l1',
+      customerId: 'c1',
+      saleId: null,
+      kind: 'earn',
+      points: 0,
+      staffId: null,
+      staffName: null,
+      createdAt: created,
+    });
+  });
+
+  it('order', () => {
+    expect(orderCodec.fromRow({ id: 'o1', total: 0, created_at: created })).toEqual({
+      id: 'o1',
+      items: [],
+      total: 0,
+      customerName: '',
+      customerPhone: '',
+      customerId: null,
+      deliveryAddress: '',
+      status: 'new',
+      notes: '',
+      createdAt: created,
+      updatedAt: created,
+    });
+  });
+
+  it('expense', () => {
+    expect(expenseCodec.fromRow({ id: 'e1', title: 'Fuel', amount: 2000, date: '2024-03-01', created_at: created }))
+      .toEqual({ id: 'e1', title: 'Fuel', amount: 2000, category: '', date: '2024-03-01', notes: '', createdAt: created });
+  });
+
+  it('staff member', () => {
+    expect(staffMemberCodec.fromRow({ id: 'st1', name: 'Musa', created_at: created })).toEqual({
+      id: 'st1',
+      name: 'Musa',
+      role: 'cashier',
+      pinHash: null,
+      hasPin: false,
+      isActive: true,
+      createdAt: created,
+      updatedAt: created,
+      activityLog: [],
+    });
+  });
+
+  it('staff activity', () => {
+    expect(staffActivityCodec.fromRow({ id: 'a1', staff_id: 'st1', action: 'login', created_at: created }))
+      .toEqual({ id: 'a1', staffId: 'st1', action: 'login', details: '', timestamp: created });
+  });
+
+  it('inventory movement', () => {
+    expect(inventoryMovementCodec.fromRow({ id: 'm1', product_id: 'p1', delta: 5, created_at: created })).toEqual({
+      id: 'm1',
+      productId: 'p1',
+      delta: 5,
+      reason: 'adjustment',
+      referenceId: null,
+      createdAt: created,
+    });
+  });
+});
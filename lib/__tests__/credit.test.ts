@@ -0,0 +1,83 @@
+import dayjs from 'dayjs';
+import { buildCustomerAccount, totalAgeing, whatsappNumber } from '../credit';
+import type { CreditPayment, Sale, SaleReturn } from '../types';
+import { customer, sale as makeSale } from './fixtures';
+
+const today = dayjs('2024-03-31T12:00:00.000Z');
+
+const ada = customer({ phone: '08031234567' });
+
+function sale(id: string, createdAt: string, total: number, overrides: Partial<Sale> = {}): Sale {
+  return makeSale({
+    id, createdAt, total, amountPaid: 0, cashAmount: 0, isCredit: true, customerName: 'Ada', customerId: 'c1', ...overrides,
+  });
+}
+
+function saleReturn(id: string, saleId: string, createdAt: string, amount: number, refundMethod: SaleReturn['refundMethod']): SaleReturn {
+  return { id, saleId, items: [], amount, tax: 0, refundMethod, reason: '', staffId: null, staffName: null, createdAt };
+}
+
+function payment(id: string, createdAt: string, amount: number, customerId = 'c1'): CreditPayment {
+  return { id, customerId, amount, method: 'cash', note: '', staffId: null, staffName: null, createdAt };
+}
+
+const sales = [
+  sale('s1', '2024-01-10T10:00:00.000Z', 5000),
+  sale('s2', '2024-02-20T10:00:00.000Z', 3000),
+  sale('s3', '2024-03-25T10:00:00.000Z', 2000),
+  sale('voided', '2024-03-01T10:00:00.000Z', 1000, { voidedAt: '2024-03-01T11:00:00.000Z' }),
+  sale('paid', '2024-03-02T10:00:00.000Z', 800, { isCredit: false }),
+  sale('other', '2024-03-03T10:00:00.000Z', 700, { customerId: 'c2', customerName: 'Musa' }),
+];
+const returns = [
+  saleReturn('r1', 's2', '2024-02-25T10:00:00.000Z', 1000, 'credit'),
+  saleReturn('r2', 's3', '2024-03-26T10:00:00.000Z', 500, 'cash'),
+];
+const payments = [payment('p1', '2024-03-01T10:00:00.000Z', 6000), payment('p2', '2024-03-01T10:00:00.000Z', 400, 'c2')];
+
+describe('buildCustomerAccount', () => {
+  const account = buildCustomerAccount(ada, sales, returns, payments, today);
+
+  it('runs the balance through credit sales, credit returns and repayments in date order', () => {
+    expect(account.entries.map(e => [e.id, e.amount, e.balance])).toEqual([
+      ['s1', 5000, 5000],
+      ['s2', 3000, 8000],
+      ['r1', -1000, 7000],
+      ['p1', -6000, 1000],
+      ['s3', 2000, 3000],
+    ]);
+    expect(account.balance).toBe(3000);
+  });
+
+  it('settles the oldest sales first and ages what is left', () => {
+    expect(account.ageing).toEqual({ current: 2000, days31to60: 1000, over60: 0 });
+    expect(account.oldestUnpaidAt).toBe('2024-02-20T10:00:00.000Z');
+  });
+
+  it('owes nothing once repayments cover every sale', () => {
+    const paidUp = buildCustomerAccount(ada, sales, returns, [...payments, payment('p3', '2024-03-30T10:00:00.000Z', 3000)], today);
+    expect(paidUp.balance).toBe(0);
+    expect(paidUp.ageing).toEqual({ current: 0, days31to60: 0, over60: 0 });
+    expect(paidUp.oldestUnpaidAt).toBeNull();
+  });
+
+  it('puts debt over 60 days old in its own bucket', () => {
+    const old = buildCustomerAccount(ada, sales, [], [], today);
+    expect(old.ageing).toEqual({ current: 2000, days31to60: 3000, over60: 5000 });
+  });
+});
+
+describe('totalAgeing', () => {
+  it('adds up the buckets across customers', () => {
+    const musa = { ...ada, id: 'c2', name: 'Musa' };
+    const accounts = [ada, musa].map(c => buildCustomerAccount(c, sales, returns, payments, today));
+    expect(totalAgeing(accounts)).toEqual({ current: 2300, days31to60: 1000, over60: 0 });
+  });
+});
+
+describe('whatsappNumber', () => {
+  it('turns local numbers into Nigerian international ones', () => {
+    expect(whatsappNumber('0803 123 4567')).toBe('2348031234567');
+    expect(whatsappNumber('+234 803-123-4567')).toBe('2348031234567');
+  });
+});
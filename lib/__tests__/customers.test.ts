@@ -0,0 +1,94 @@
+import {
+  matchCustomer,
+  customerSales,
+  customerOrders,
+  summarizeCustomer,
+} from '../customers';
+import type { Order, SaleReturn } from '../types';
+import { now, customer, sale } from './fixtures';
+
+function order(id: string, overrides: Partial<Order>): Order {
+  return {
+    id,
+    items: [],
+    total: 0,
+    customerName: '',
+    customerPhone: '',
+    customerId: null,
+    deliveryAddress: '',
+    status: 'new',
+    notes: '',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+const ada = customer({ name: 'Ada Obi', phone: '0803 123 4567' });
+const musa = customer({ id: 'c2', name: 'Musa', phone: '08051112222' });
+
+describe('matchCustomer', () => {
+  it('matches on phone digits before name', () => {
+    expect(matchCustomer([ada, musa], 'Someone else', '08031234567')).toBe(ada);
+  });
+
+  it('matches a name however it was typed', () => {
+    expect(matchCustomer([ada, musa], '  ada   OBI ')).toBe(ada);
+  });
+
+  it('falls back to the name when the phone is new', () => {
+    expect(matchCustomer([ada, musa], 'Musa', '09000000000')).toBe(musa);
+  });
+
+  it('finds nobody for a new customer', () => {
+    expect(matchCustomer([ada, musa], 'Chidi', '')).toBeUndefined();
+  });
+});
+
+describe('customerSales', () => {
+  const sales = [
+    sale({ id: 'later', createdAt: '2024-02-01T00:00:00.000Z', customerId: 'c1', customerName: 'Ada Obi' }),
+    sale({ id: 'legacy', createdAt: '2024-01-05T00:00:00.000Z', customerName: 'ada obi' }),
+    sale({ id: 'voided', createdAt: '2024-01-10T00:00:00.000Z', customerId: 'c1', voidedAt: '2024-01-10T01:00:00.000Z' }),
+    sale({ id: 'namesake', createdAt: '2024-01-15T00:00:00.000Z', customerId: 'c9', customerName: 'Ada Obi' }),
+    sale({ id: 'musa', createdAt: '2024-01-20T00:00:00.000Z', customerId: 'c2', customerName: 'Musa' }),
+  ];
+
+  it('finds sales by customer id, or by name for sales from before the customer was saved', () => {
+    expect(customerSales(ada, sales).map(s => s.id)).toEqual(['legacy', 'later']);
+  });
+
+  it('leaves out voided sales', () => {
+    expect(customerSales(ada, sales).map(s => s.id)).not.toContain('voided');
+  });
+});
+
+describe('customerOrders', () => {
+  it('finds orders by customer id, or by phone or name for older orders', () => {
+    const orders = [
+      order('linked', { customerId: 'c1' }),
+      order('byPhone', { customerName: 'Mrs Obi', customerPhone: '08031234567' }),
+      order('byName', { customerName: 'ADA OBI' }),
+      order('other', { customerId: 'c2', customerName: 'Ada Obi' }),
+    ];
+    expect(customerOrders(ada, orders).map(o => o.id)).toEqual(['linked', 'byPhone', 'byName']);
+  });
+});
+
+describe('summarizeCustomer', () => {
+  it('totals spend net of refunds on their own sales', () => {
+    const sales = [
+      sale({ id: 's1', createdAt: '2024-01-05T00:00:00.000Z', total: 3000 }),
+      sale({ id: 's2', createdAt: '2024-02-01T00:00:00.000Z', total: 2000 }),
+    ];
+    const refund = (saleId: string, amount: number): SaleReturn => ({
+      id: `r-${saleId}`, saleId, items: [], amount, tax: 0, refundMethod: 'cash', reason: '', staffId: null, staffName: null, createdAt: now,
+    });
+    expect(summarizeCustomer(sales, [refund('s1', 500), refund('elsewhere', 900)]))
+      .toEqual({ totalSpend: 4500, visits: 2, lastVisitAt: '2024-02-01T00:00:00.000Z' });
+  });
+
+  it('has no last visit without sales', () => {
+    expect(summarizeCustomer([], [])).toEqual({ totalSpend: 0, visits: 0, lastVisitAt: null });
+  });
+});
@@ -0,0 +1,240 @@
+import * as SQLite from 'expo-sqlite';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  SCHEMA_VERSION,
+  runMigrations,
+  getDatabase,
+  loadTable,
+  productsTable,
+  salesTable,
+  ordersTable,
+  staffTable,
+  expensesTable,
+} from '../database';
+import { verifyPin } from '../pin';
+
+let dbCount = 0;
+
+// A fresh database brought up to `version`
+async function databaseAt(version: number): Promise<SQLite.SQLiteDatabase> {
+  const db = await SQLite.openDatabaseAsync(`migration-test-${++dbCount}.db`);
+  await runMigrations(db, version);
+  return db;
+}
+
+async function userVersion(db: SQLite.SQLiteDatabase): Promise<number> {
+  return (await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version'))!.user_version;
+}
+
+async function columns(db: SQLite.SQLiteDatabase, table: string): Promise<string[]> {
+  const rows = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return rows.map(r => r.name);
+}
+
+async function tables(db: SQLite.SQLiteDatabase): Promise<string[]> {
+  const rows = await db.getAllAsync<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table'");
+  return rows.map(r => r.name);
+}
+
+const now = '2024-01-01T00:00:00.000Z';
+
+// Shapes the AsyncStorage-only builds wrote, before any later field existed
+const legacyProduct = { id: 'p1', name: 'Rice', price: 500, stock: 12, category: 'Food', createdAt: now };
+const legacySale = {
+  id: 's1',
+  items: [{ productId: 'p1', productName: 'Rice', price: 500, quantity: 2, subtotal: 1000 }],
+  total: 1000,
+  amountPaid: 1000,
+  paymentMethod: 'transfer',
+  createdAt: now,
+};
+const legacyOrder = { id: 'o1', items: [], total: 0, customerName: 'Ada', createdAt: now };
+const legacyStaff = { id: 'st1', name: 'Musa', role: 'cashier', pin: '1234', createdAt: now };
+const legacyExpense = { id: 'e1', title: 'Fuel', amount: 2000, date: now };
+
+async function storeLegacyData(): Promise<void> {
+  await AsyncStorage.multiSet([
+    ['@shoptally_products', JSON.stringify([legacyProduct])],
+    ['@shoptally_sales', JSON.stringify([legacySale])],
+    ['@shoptally_orders', JSON.stringify([legacyOrder])],
+    ['@shoptally_staff', JSON.stringify([legacyStaff])],
+    ['@shoptally_expenses', JSON.stringify([legacyExpense])],
+  ]);
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('migrations', () => {
+  it('1 creates the original tables', async () => {
+    const db = await databaseAt(1);
+    expect(await tables(db)).toEqual(expect.arrayContaining(['products', 'sales', 'orders', 'staff_members', 'expenses']));
+    expect(await userVersion(db)).toBe(1);
+  });
+
+  it('2 imports legacy AsyncStorage data into the version 1 tables and removes the keys', async () => {
+    await storeLegacyData();
+    const db = await databaseAt(2);
+
+    const product = await db.getFirstAsync<Record<string, unknown>>('SELECT * FROM products');
+    expect(product).toMatchObject({ id: 'p1', name: 'Rice', low_stock_threshold: 5, updated_at: now });
+    const sale = await db.getFirstAsync<Record<string, unknown>>('SELECT * FROM sales');
+    expect(sale).toMatchObject({ id: 's1', cash_amount: 0, transfer_amount: 1000 });
+    expect(await db.getFirstAsync('SELECT * FROM orders')).toMatchObject({ id: 'o1', status: 'new' });
+    expect(await db.getFirstAsync('SELECT * FROM staff_members')).toMatchObject({ id: 'st1', is_active: 1 });
+    expect(await db.getFirstAsync('SELECT * FROM expenses')).toMatchObject({ id: 'e1', created_at: now });
+
+    expect(await AsyncStorage.getItem('@shoptally_products')).toBeNull();
+    expect(await AsyncStorage.getItem('@shoptally_sales')).toBeNull();
+  });
+
+  it('2 leaves the tables empty when there is nothing to import', async () => {
+    const db = await databaseAt(2);
+    expect(await db.getAllAsync('SELECT * FROM products')).toEqual([]);
+    expect(await userVersion(db)).toBe(2);
+  });
+
+  it('3 moves transfer sales recorded as cash into transfer_amount', async () => {
+    const db = await databaseAt(2);
+    await db.runAsync(
+      `INSERT INTO sales (id, total, amount_paid, cash_amount, transfer_amount, payment_method, created_at)
+       VALUES ('t1', 800, 800, 800, 0, 'transfer', ?), ('c1', 300, 300, 300, 0, 'cash', ?)`,
+      [now, now],
+    );
+    await runMigrations(db, 3);
+
+    expect(await db.getFirstAsync("SELECT cash_amount, transfer_amount FROM sales WHERE id = 't1'"))
+      .toEqual({ cash_amount: 0, transfer_amount: 800 });
+    expect(await db.getFirstAsync("SELECT cash_amount, transfer_amount FROM sales WHERE id = 'c1'"))
+      .toEqual({ cash_amount: 300, transfer_amount: 0 });
+  });
+
+  it('4 adds discount and promo code to sales', async () => {
+    const db = await databaseAt(3);
+    await db.runAsync("INSERT INTO sales (id, created_at) VALUES ('s1', ?)", [now]);
+    await runMigrations(db, 4);
+    expect(await db.getFirstAsync('SELECT discount, promo_code FROM sales')).toEqual({ discount: 0, promo_code: null });
+  });
+
+  it('5 adds tax to sales and tax exemption to products', async () => {
+    const db = await databaseAt(4);
+    await db.runAsync("INSERT INTO sales (id, created_at) VALUES ('s1', ?)", [now]);
+    await runMigrations(db, 5);
+    expect(await db.getFirstAsync('SELECT tax, tax_rate, tax_inclusive FROM sales'))
+      .toEqual({ tax: 0, tax_rate: 0, tax_inclusive: 0 });
+    expect(await columns(db, 'products')).toContain('tax_exempt');
+  });
+
+  it('6 creates sale_returns', async () => {
+    const db = await databaseAt(6);
+    expect(await columns(db, 'sale_returns')).toEqual(expect.arrayContaining(['sale_id', 'items', 'refund_method']));
+  });
+
+  it('7 adds void details to sales', async () => {
+    const db = await databaseAt(6);
+    await db.runAsync("INSERT INTO sales (id, created_at) VALUES ('s1', ?)", [now]);
+    await runMigrations(db, 7);
+    expect(await db.getFirstAsync('SELECT voided_at, void_reason, voided_by FROM sales'))
+      .toEqual({ voided_at: null, void_reason: '', voided_by: null });
+  });
+
+  it('8 creates customers and credit payments and links sales to customers', async () => {
+    const db = await databaseAt(8);
+    expect(await tables(db)).toEqual(expect.arrayContaining(['customers', 'credit_payments']));
+    expect(await columns(db, 'sales')).toContain('customer_id');
+  });
+
+  it('9 adds customer address and notes and links orders to customers', async () => {
+    const db = await databaseAt(8);
+    await db.runAsync("INSERT INTO customers (id, name, created_at, updated_at) VALUES ('c1', 'Ada', ?, ?)", [now, now]);
+    await runMigrations(db, 9);
+    expect(await db.getFirstAsync('SELECT address, notes FROM customers')).toEqual({ address: '', notes: '' });
+    expect(await columns(db, 'orders')).toContain('customer_id');
+  });
+
+  it('10 adds loyalty points to sales and the loyalty ledger', async () => {
+    const db = await databaseAt(10);
+    expect(await tables(db)).toContain('loyalty_entries');
+    expect(await columns(db, 'sales'))
+      .toEqual(expect.arrayContaining(['loyalty_points_earned', 'loyalty_points_redeemed', 'loyalty_amount']));
+  });
+
+  it('11 gives existing products no extra selling units', async () => {
+    const db = await databaseAt(10);
+    await db.runAsync("INSERT INTO products (id, name, created_at, updated_at) VALUES ('p1', 'Rice', ?, ?)", [now, now]);
+    await runMigrations(db, 11);
+    expect(await db.getFirstAsync('SELECT units FROM products')).toEqual({ units: '[]' });
+  });
+
+  it('12 leaves existing products without a parent', async () => {
+    const db = await databaseAt(11);
+    await db.runAsync("INSERT INTO products (id, name, created_at, updated_at) VALUES ('p1', 'Rice', ?, ?)", [now, now]);
+    await runMigrations(db, 12);
+    expect(await db.getFirstAsync('SELECT parent_id, variant_name FROM products'))
+      .toEqual({ parent_id: null, variant_name: null });
+  });
+
+  it('13 makes no existing product a bundle', async () => {
+    const db = await databaseAt(12);
+    await db.runAsync("INSERT INTO products (id, name, created_at, updated_at) VALUES ('p1', 'Rice', ?, ?)", [now, now]);
+    await runMigrations(db, 13);
+    expect(await db.getFirstAsync('SELECT components FROM products')).toEqual({ components: '[]' });
+  });
+
+  it('14 replaces plain PINs with salted hashes', async () => {
+    const db = await databaseAt(13);
+    await db.runAsync(
+      `INSERT INTO staff_members (id, name, role, pin, created_at, updated_at)
+       VALUES ('st1', 'Musa', 'owner', '4821', ?, ?), ('st2', 'Ada', 'cashier', '', ?, ?)`,
+      [now, now, now, now],
+    );
+    await runMigrations(db, 14);
+
+    expect(await columns(db, 'staff_members')).not.toContain('pin');
+    const owner = await db.getFirstAsync<{ pin_hash: string; has_pin: number }>("SELECT * FROM staff_members WHERE id = 'st1'");
+    expect(owner!.has_pin).toBe(1);
+    expect(owner!.pin_hash).not.toContain('4821');
+    expect(verifyPin('4821', owner!.pin_hash)).toBe(true);
+    expect(await db.getFirstAsync("SELECT pin_hash, has_pin FROM staff_members WHERE id = 'st2'"))
+      .toEqual({ pin_hash: null, has_pin: 0 });
+  });
+
+  it('is a no-op on a database that is already current', async () => {
+    const db = await databaseAt(SCHEMA_VERSION);
+    await runMigrations(db);
+    expect(await userVersion(db)).toBe(SCHEMA_VERSION);
+  });
+});
+
+describe('upgrading an install', () => {
+  it('takes a version 1 database with legacy data left over to the current schema', async () => {
+    const db = await databaseAt(1);
+    await storeLegacyData();
+    await runMigrations(db);
+
+    expect(await userVersion(db)).toBe(SCHEMA_VERSION);
+    const rows = await db.getAllAsync<Record<string, unknown>>('SELECT * FROM sales');
+    expect(rows.map(salesTable.fromRow)).toEqual([
+      expect.objectContaining({ id: 's1', cashAmount: 0, transferAmount: 1000, discount: 0, voidedAt: null }),
+    ]);
+  });
+
+  it('opens a version 0 install with legacy data at the current schema', async () => {
+    await storeLegacyData();
+    const db = await getDatabase();
+
+    expect(await userVersion(db)).toBe(SCHEMA_VERSION);
+    expect(await loadTable(productsTable)).toEqual([
+      expect.objectContaining({ id: 'p1', units: [], parentId: null, components: [], taxExempt: false }),
+    ]);
+    expect(await loadTable(salesTable)).toEqual([
+      expect.objectContaining({ id: 's1', items: legacySale.items, loyaltyPointsEarned: 0, customerId: null }),
+    ]);
+    expect(await loadTable(ordersTable)).toEqual([expect.objectContaining({ id: 'o1', customerId: null })]);
+    const [member] = await loadTable(staffTable);
+    expect(member).toMatchObject({ id: 'st1', isActive: true, hasPin: true });
+    expect(verifyPin('1234', member.pinHash)).toBe(true);
+    expect(await loadTable(expensesTable)).toEqual([expect.objectContaining({ id: 'e1', category: '' })]);
+  });
+});
@@ -0,0 +1,75 @@
+import type { Customer, Product, Sale } from '../types';
+
+export const now = '2024-01-01T00:00:00.000Z';
+
+// Plain records with every field set; tests override only what they check
+
+export function product(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'p1',
+    name: 'Rice',
+    price: 550,
+    costPrice: null,
+    unit: null,
+    stock: 0,
+    lowStockThreshold: 5,
+    imageUri: null,
+    category: '',
+    barcode: null,
+    createdAt: now,
+    updatedAt: now,
+    isMarketplace: false,
+    taxExempt: false,
+    units: [],
+    parentId: null,
+    variantName: null,
+    components: [],
+    ...overrides,
+  };
+}
+
+export function sale(overrides: Partial<Sale> = {}): Sale {
+  return {
+    id: 's1',
+    items: [],
+    total: 1000,
+    amountPaid: 1000,
+    change: 0,
+    cashAmount: 1000,
+    transferAmount: 0,
+    paymentMethod: 'cash',
+    isCredit: false,
+    customerName: null,
+    customerId: null,
+    staffId: null,
+    staffName: null,
+    paymentId: null,
+    gatewayProvider: null,
+    discount: 0,
+    promoCode: null,
+    tax: 0,
+    taxRate: 0,
+    taxInclusive: false,
+    voidedAt: null,
+    voidReason: '',
+    voidedBy: null,
+    loyaltyPointsEarned: 0,
+    loyaltyPointsRedeemed: 0,
+    loyaltyAmount: 0,
+    createdAt: now,
+    ...overrides,
+  };
+}
+
+export function customer(overrides: Partial<Customer> = {}): Customer {
+  return {
+    id: 'c1',
+    name: 'Ada',
+    phone: '',
+    address: '',
+    notes: '',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
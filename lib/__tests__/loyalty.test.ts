@@ -0,0 +1,97 @@
+import { pointsEarned, redemptionValue, pointsToCover, loyaltyBalance, returnPoints } from '../loyalty';
+import type { LoyaltyEntry, LoyaltySettings, SaleReturn } from '../types';
+import { now, sale as makeSale } from './fixtures';
+
+// A point for every 100 naira, worth 1 naira, spendable from 50 points
+const settings: LoyaltySettings = { enabled: true, spendPerPoint: 100, pointValue: 1, minRedeemPoints: 50 };
+
+describe('pointsEarned', () => {
+  it('gives whole points only', () => {
+    expect(pointsEarned(2550, settings)).toBe(25);
+    expect(pointsEarned(99, settings)).toBe(0);
+  });
+
+  it('gives nothing while loyalty is off or for nothing paid', () => {
+    expect(pointsEarned(2550, { ...settings, enabled: false })).toBe(0);
+    expect(pointsEarned(-500, settings)).toBe(0);
+    expect(pointsEarned(2550, { ...settings, spendPerPoint: 0 })).toBe(0);
+  });
+});
+
+describe('redemptionValue', () => {
+  it("is worth the points at the shop's rate, never more than is due", () => {
+    expect(redemptionValue(300, settings)).toBe(300);
+    expect(redemptionValue(300, settings, 120)).toBe(120);
+    expect(redemptionValue(300, settings, -10)).toBe(0);
+  });
+
+  it('rounds to the kobo', () => {
+    expect(redemptionValue(333, { ...settings, pointValue: 0.25 })).toBe(83.25);
+    expect(redemptionValue(1, { ...settings, pointValue: 1 / 3 })).toBe(0.33);
+  });
+});
+
+describe('pointsToCover', () => {
+  it('spends only the points the sale needs', () => {
+    expect(pointsToCover(120, 500, settings)).toBe(120);
+    expect(pointsToCover(101, 500, { ...settings, pointValue: 2.5 })).toBe(41);
+  });
+
+  it('spends the whole balance when it falls short', () => {
+    expect(pointsToCover(1000, 80, settings)).toBe(80);
+  });
+
+  it('spends nothing below the minimum balance or while loyalty is off', () => {
+    expect(pointsToCover(120, 49, settings)).toBe(0);
+    expect(pointsToCover(120, 500, { ...settings, enabled: false })).toBe(0);
+  });
+});
+
+describe('loyaltyBalance', () => {
+  const entry = (id: string, customerId: string, points: number, createdAt: string): LoyaltyEntry => ({
+    id, customerId, saleId: null, kind: points < 0 ? 'redeem' : 'earn', points, staffId: null, staffName: null, createdAt,
+  });
+  const entries = [
+    entry('l1', 'c1', 120, '2024-01-01T10:00:00.000Z'),
+    entry('l2', 'c1', -50, '2024-01-05T10:00:00.000Z'),
+    entry('l3', 'c2', 300, '2024-01-06T10:00:00.000Z'),
+    entry('l4', 'c1', 30, '2024-01-10T10:00:00.000Z'),
+  ];
+
+  it("adds up one customer's entries", () => {
+    expect(loyaltyBalance(entries, 'c1')).toBe(100);
+  });
+
+  it('stops at a point in time', () => {
+    expect(loyaltyBalance(entries, 'c1', '2024-01-05T10:00:00.000Z')).toBe(70);
+  });
+});
+
+describe('returnPoints', () => {
+  // 2000 of rice, 500 of it paid with 500 points; the 1500 paid in cash earned 15
+  const sale = makeSale({
+    id: 's1', total: 2000, amountPaid: 1500, cashAmount: 1500, customerId: 'c1',
+    loyaltyAmount: 500, loyaltyPointsRedeemed: 500, loyaltyPointsEarned: 15,
+  });
+  // Half the rice back: 750 refunded in cash, 250 paid with points
+  const halfBack: SaleReturn = {
+    id: 'r1', saleId: 's1', amount: 750, tax: 0, refundMethod: 'cash', reason: '', staffId: null, staffName: null, createdAt: now,
+    items: [{ productId: 'rice', productName: 'Rice', quantity: 2, amount: 750, tax: 0, loyaltyAmount: 250, restock: true }],
+  };
+  const returned = (points: number): LoyaltyEntry => ({
+    id: `l${points}`, customerId: 'c1', saleId: 's1', kind: 'return', points, staffId: null, staffName: null, createdAt: now,
+  });
+
+  it('gives back the points spent on the returned goods and takes back those earned on the refund', () => {
+    expect(returnPoints(sale, halfBack, [])).toEqual({ earned: 7, spent: 250 });
+  });
+
+  it('never moves more points than the sale did, across several returns', () => {
+    expect(returnPoints(sale, halfBack, [returned(-10), returned(400)])).toEqual({ earned: 5, spent: 100 });
+  });
+
+  it('moves nothing on a sale without points', () => {
+    const plain = makeSale({ id: 's1', total: 2000, customerId: 'c1' });
+    expect(returnPoints(plain, { ...halfBack, amount: 1000, items: [] }, [])).toEqual({ earned: 0, spent: 0 });
+  });
+});
@@ -0,0 +1,24 @@
+import { PIN_PATTERN, hashPin, verifyPin } from '../pin';
+
+describe('approval PINs', () => {
+  it('accepts four to six digits', () => {
+    expect(['1234', '123456'].every(pin => PIN_PATTERN.test(pin))).toBe(true);
+    expect(['123', '1234567', '12a4', ''].some(pin => PIN_PATTERN.test(pin))).toBe(false);
+  });
+
+  it('verifies a PIN against its hash without storing it', () => {
+    const stored = hashPin('4821');
+    expect(stored).not.toContain('4821');
+    expect(verifyPin('4821', stored)).toBe(true);
+    expect(verifyPin('4822', stored)).toBe(false);
+  });
+
+  it('salts each hash', () => {
+    expect(hashPin('4821')).not.toBe(hashPin('4821'));
+  });
+
+  it('matches nothing when no hash is set', () => {
+    expect(verifyPin('', null)).toBe(false);
+    expect(verifyPin('4821', '')).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  discountAmount,
+  taxAmount,
+  calculateCartTotals,
+  normalizePromoCode,
+  isPromoCodeCurrent,
+  saleLineRefund,
+  saleReturnValue,
+} from '../pricing';
+import type { CartItem, PromoCode, SaleItem, SaleReturn, TaxSettings } from '../types';
+import { now, product, sale as makeSale } from './fixtures';
+
+const rice = product({ id: 'rice' });
+const oil = product({ id: 'oil', name: 'Oil', price: 1200 });
+
+describe('discountAmount', () => {
+  it('takes a percentage off, capped at 100%', () => {
+    expect(discountAmount(2000, { type: 'percent', value: 15 })).toBe(300);
+    expect(discountAmount(2000, { type: 'percent', value: 150 })).toBe(2000);
+  });
+
+  it('never takes more than the base in naira', () => {
+    expect(discountAmount(2000, { type: 'fixed', value: 500 })).toBe(500);
+    expect(discountAmount(300, { type: 'fixed', value: 500 })).toBe(300);
+  });
+
+  it('rounds to the kobo', () => {
+    expect(discountAmount(999.99, { type: 'percent', value: 15 })).toBe(150);
+    expect(discountAmount(333, { type: 'percent', value: 12.5 })).toBe(41.63);
+  });
+
+  it('is nothing without a discount, a value or a base', () => {
+    expect(discountAmount(2000, null)).toBe(0);
+    expect(discountAmount(2000, { type: 'fixed', value: 0 })).toBe(0);
+    expect(discountAmount(0, { type: 'percent', value: 10 })).toBe(0);
+  });
+});
+
+describe('calculateCartTotals', () => {
+  const cart: CartItem[] = [
+    { product: rice, quantity: 2, discount: { type: 'percent', value: 10 } },
+    { product: oil, quantity: 1, discount: { type: 'fixed', value: 200 } },
+  ];
+
+  it('takes line discounts off first and the cart discount off what is left', () => {
+    const totals = calculateCartTotals(cart, { type: 'percent', value: 10 });
+    expect(totals.lines.map(l => [l.gross, l.discount])).toEqual([[1100, 110], [1200, 200]]);
+    expect(totals).toMatchObject({ subtotal: 2300, lineDiscounts: 310, cartDiscount: 199, tax: 0, total: 1791 });
+  });
+
+  it('caps a fixed cart discount at what is left after line discounts', () => {
+    expect(calculateCartTotals(cart, { type: 'fixed', value: 5000 })).toMatchObject({ cartDiscount: 1990, total: 0 });
+  });
+
+  it('totals an empty cart to nothing', () => {
+    expect(calculateCartTotals([], { type: 'percent', value: 10 }))
+      .toEqual({ lines: [], subtotal: 0, lineDiscounts: 0, cartDiscount: 0, tax: 0, total: 0 });
+  });
+});
+
+describe('VAT', () => {
+  const exclusive: TaxSettings = { enabled: true, name: 'VAT', rate: 7.5, pricesIncludeTax: false, taxId: null };
+  const inclusive: TaxSettings = { ...exclusive, pricesIncludeTax: true };
+
+  it('adds tax on top of exclusive prices and takes it out of inclusive ones', () => {
+    expect(taxAmount(1000, exclusive)).toBe(75);
+    expect(taxAmount(1075, inclusive)).toBe(75);
+  });
+
+  it('rounds to the kobo', () => {
+    expect(taxAmount(550, inclusive)).toBe(38.37);
+    expect(taxAmount(333.33, exclusive)).toBe(25);
+  });
+
+  it('is nothing at a zero rate or on nothing', () => {
+    expect(taxAmount(1000, { ...exclusive, rate: 0 })).toBe(0);
+    expect(taxAmount(0, exclusive)).toBe(0);
+  });
+
+  // Rice is taxed, oil is exempt; the cart discount is shared by line value
+  const cart: CartItem[] = [
+    { product: rice, quantity: 2 },
+    { product: { ...oil, taxExempt: true }, quantity: 1 },
+  ];
+  const cartDiscount = { type: 'fixed' as const, value: 230 };
+
+  it('charges exclusive tax on the discounted taxable lines and adds it to the total', () => {
+    const totals = calculateCartTotals(cart, cartDiscount, exclusive);
+    expect(totals.lines.map(l => l.tax)).toEqual([74.25, 0]);
+    expect(totals).toMatchObject({ tax: 74.25, total: 2144.25 });
+  });
+
+  it('leaves the total alone when prices include tax', () => {
+    expect(calculateCartTotals(cart, cartDiscount, inclusive)).toMatchObject({ tax: 69.07, total: 2070 });
+  });
+
+  it('charges nothing while VAT is switched off', () => {
+    expect(calculateCartTotals(cart, cartDiscount, { ...exclusive, enabled: false })).toMatchObject({ tax: 0, total: 2070 });
+  });
+});
+
+describe('saleLineRefund', () => {
+  // Four rice at 550 less 200 with 7.5% added, one exempt oil, and 300 off the cart
+  const riceLine: SaleItem = {
+    productId: 'rice', productName: 'Rice', price: 550, quantity: 4, discount: 200, subtotal: 2000, tax: 150,
+  };
+  const oilLine: SaleItem = { productId: 'oil', productName: 'Oil', price: 1000, quantity: 1, subtotal: 1000, tax: 0 };
+  const sale = makeSale({
+    items: [riceLine, oilLine],
+    total: 2850,
+    amountPaid: 2850,
+    cashAmount: 2850,
+    discount: 300,
+    tax: 150,
+    taxRate: 7.5,
+  });
+
+  it('gives back the line less its share of the cart discount, plus the tax added on it', () => {
+    expect(saleLineRefund(sale, riceLine, 4)).toEqual({ amount: 1950, tax: 150, loyaltyAmount: 0 });
+    expect(saleLineRefund(sale, oilLine, 1)).toEqual({ amount: 900, tax: 0, loyaltyAmount: 0 });
+  });
+
+  it('refunds part of a line pro rata', () => {
+    expect(saleLineRefund(sale, riceLine, 1)).toEqual({ amount: 487.5, tax: 37.5, loyaltyAmount: 0 });
+  });
+
+  it('gives nothing extra back when the tax was inside the price', () => {
+    expect(saleLineRefund({ ...sale, taxInclusive: true }, riceLine, 1)).toEqual({ amount: 450, tax: 37.5, loyaltyAmount: 0 });
+  });
+
+  it('rounds to the kobo', () => {
+    const line: SaleItem = { productId: 'oil', productName: 'Oil', price: 1000, quantity: 3, subtotal: 1000, tax: 0 };
+    expect(saleLineRefund({ ...sale, items: [line], discount: 0 }, line, 1)).toEqual({ amount: 333.33, tax: 0, loyaltyAmount: 0 });
+  });
+
+  it('refunds nothing for no quantity', () => {
+    expect(saleLineRefund(sale, riceLine, 0)).toEqual({ amount: 0, tax: 0, loyaltyAmount: 0 });
+  });
+
+  it('splits the refund between money and points on a sale partly paid with points', () => {
+    const line: SaleItem = { productId: 'rice', productName: 'Rice', price: 500, quantity: 4, subtotal: 2000, tax: 0 };
+    const pointsSale = makeSale({ items: [line], total: 2000, amountPaid: 1500, cashAmount: 1500, loyaltyAmount: 500 });
+    expect(saleLineRefund(pointsSale, line, 2)).toEqual({ amount: 750, tax: 0, loyaltyAmount: 250 });
+  });
+});
+
+describe('saleReturnValue', () => {
+  it('counts what went back as points along with the money refunded', () => {
+    const saleReturn: SaleReturn = {
+      id: 'r1', saleId: 's1', amount: 750, tax: 0, refundMethod: 'cash', reason: '', staffId: null, staffName: null, createdAt: now,
+      items: [{ productId: 'rice', productName: 'Rice', quantity: 2, amount: 750, tax: 0, loyaltyAmount: 250, restock: true }],
+    };
+    expect(saleReturnValue(saleReturn)).toBe(1000);
+  });
+});
+
+describe('promo codes', () => {
+  const promo: PromoCode = {
+    id: 'pc1',
+    code: 'SALLAH24',
+    type: 'percent',
+    value: 10,
+    startsOn: '2024-04-08',
+    endsOn: '2024-04-14',
+    isActive: true,
+    createdAt: now,
+  };
+
+  it('ignores case and spaces in what was typed', () => {
+    expect(normalizePromoCode('  sallah 24 ')).toBe('SALLAH24');
+  });
+
+  it('is current from its first day to its last', () => {
+    expect(isPromoCodeCurrent(promo, '2024-04-07')).toBe(false);
+    expect(isPromoCodeCurrent(promo, '2024-04-08')).toBe(true);
+    expect(isPromoCodeCurrent(promo, '2024-04-14')).toBe(true);
+    expect(isPromoCodeCurrent(promo, '2024-04-15')).toBe(false);
+  });
+
+  it('has no limits without dates, and none while switched off', () => {
+    expect(isPromoCodeCurrent({ ...promo, startsOn: null, endsOn: null }, '2030-01-01')).toBe(true);
+    expect(isPromoCodeCurrent({ ...promo, isActive: false }, '2024-04-10')).toBe(false);
+  });
+});
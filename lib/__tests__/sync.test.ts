@@ -0,0 +1,66 @@
+import { mergeWithServer, pushShopProfile, flushSyncQueue } from '../sync';
+import { productCodec } from '../codecs';
+import { supabase } from '../supabase';
+import { setActiveShop, loadShopProfile, loadShopUpdate } from '../storage';
+import type { SyncQueueItem } from '../types';
+import { product } from './fixtures';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { fetch: () => Promise.resolve({ isConnected: true }) },
+}));
+
+function queued(overrides: Partial<SyncQueueItem>): SyncQueueItem {
+  return {
+    id: 'q1',
+    table: 'products',
+    operation: 'insert',
+    payload: {},
+    createdAt: '2024-01-02T00:00:00.000Z',
+    retryCount: 1,
+    ...overrides,
+  };
+}
+
+describe('mergeWithServer', () => {
+  it('never sends product stock, which the server keeps through inventory movements', () => {
+    // An insert that reached the server, then was retried after movements ran there
+    const local = product({ id: 'p1', price: 600, stock: 20, updatedAt: '2024-01-02T00:00:00.000Z' });
+    const serverRow = productCodec.toRow({ ...local, price: 550, stock: 14, updatedAt: '2024-01-01T00:00:00.000Z' });
+    const { changes } = mergeWithServer(queued({ payload: productCodec.toRow(local) }), serverRow);
+
+    expect(changes).toEqual({ price: 600, updated_at: '2024-01-02T00:00:00.000Z' });
+  });
+});
+
+describe('pushShopProfile', () => {
+  it('keeps settings the server rejected and sends them with the next flush', async () => {
+    const sent: Record<string, unknown>[] = [];
+    let error: { message: string } | null = { message: 'Network request failed' };
+    Object.assign(supabase, {
+      from: () => ({
+        update: (row: Record<string, unknown>) => ({
+          eq: () => {
+            sent.push(row);
+            return Promise.resolve({ error });
+          },
+        }),
+      }),
+    });
+    await setActiveShop('shop1');
+    const profile = {
+      ...(await loadShopProfile()),
+      taxSettings: { enabled: true, name: 'VAT', rate: 7.5, pricesIncludeTax: false, taxId: null },
+    };
+
+    await expect(pushShopProfile('shop1', profile)).rejects.toEqual(error);
+    expect(await loadShopUpdate()).toMatchObject({ tax_settings: profile.taxSettings });
+
+    error = null;
+    await flushSyncQueue('shop1');
+    expect(sent).toHaveLength(2);
+    expect(sent[1]).toMatchObject({ tax_settings: profile.taxSettings });
+    expect(await loadShopUpdate()).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  productUnit,
+  unitFactor,
+  unitPrice,
+  unitName,
+  lineKey,
+  cartItemPrice,
+  findByBarcode,
+  describeStock,
+} from '../units';
+import { product } from './fixtures';
+
+// Sold by the bottle, the pack of 6 and the carton of 24
+const malt = product({
+  name: 'Malt',
+  unit: 'bottle',
+  barcode: 'BOTTLE',
+  stock: 59,
+  units: [
+    { id: 'pack', name: 'Pack', factor: 6, price: 3000, barcode: 'PACK' },
+    { id: 'carton', name: 'Carton', factor: 24, price: 11000, barcode: 'CARTON' },
+  ],
+});
+
+describe('selling units', () => {
+  it('converts packs to base units', () => {
+    expect(unitFactor(malt, 'pack')).toBe(6);
+    expect(unitFactor(malt, 'carton')).toBe(24);
+  });
+
+  it('uses the base unit when no unit or an unknown one is given', () => {
+    expect(productUnit(malt, null)).toBeNull();
+    expect(productUnit(malt, 'crate')).toBeNull();
+    expect(unitFactor(malt, undefined)).toBe(1);
+    expect(unitPrice(malt, 'crate')).toBe(550);
+    expect(unitName(malt, null)).toBe('bottle');
+  });
+
+  it('prices and names each unit on its own', () => {
+    expect(unitPrice(malt, 'carton')).toBe(11000);
+    expect(unitName(malt, 'pack')).toBe('Pack');
+    expect(cartItemPrice({ product: malt, unitId: 'pack', quantity: 2 })).toBe(3000);
+  });
+
+  it('keys cart lines by product and unit', () => {
+    expect(lineKey('p1', 'pack')).toBe('p1:pack');
+    expect(lineKey('p1', null)).toBe('p1');
+  });
+});
+
+describe('findByBarcode', () => {
+  const other = product({ id: 'p2', name: 'Water', barcode: 'WATER' });
+
+  it('finds the product and the unit a barcode is printed on', () => {
+    expect(findByBarcode([other, malt], 'CARTON')).toEqual({ product: malt, unitId: 'carton' });
+    expect(findByBarcode([other, malt], 'BOTTLE')).toEqual({ product: malt, unitId: null });
+  });
+
+  it('finds nothing for an unknown code', () => {
+    expect(findByBarcode([other, malt], 'NOPE')).toBeNull();
+  });
+});
+
+describe('describeStock', () => {
+  it('shows stock in the largest whole units first', () => {
+    expect(describeStock(malt)).toBe('2 Carton + 1 Pack + 5 bottle');
+    expect(describeStock({ ...malt, stock: 48 })).toBe('2 Carton');
+  });
+
+  it('shows the plain count without extra units, or when nothing is left', () => {
+    expect(describeStock({ ...malt, units: [] })).toBe('59 bottle');
+    expect(describeStock({ ...malt, stock: 0 })).toBe('0 bottle');
+    expect(describeStock({ ...malt, stock: 4, unit: null })).toBe('4');
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  productLabel,
+  variantsOf,
+  parentIds,
+  topLevelProducts,
+  stockedProducts,
+  groupStock,
+} from '../variants';
+import { product } from './fixtures';
+
+const shirt = product({ id: 'shirt', name: 'Ankara shirt', price: 8000, stock: 99 });
+const red = { ...shirt, id: 'red', parentId: 'shirt', variantName: 'Red, L', stock: 4 };
+const blue = { ...shirt, id: 'blue', parentId: 'shirt', variantName: 'Blue, M', stock: 7 };
+const cap = product({ id: 'cap', name: 'Cap', stock: 12 });
+const outfit = product({ id: 'outfit', name: 'Outfit', components: [{ productId: 'red', quantity: 1 }, { productId: 'cap', quantity: 1 }] });
+const products = [shirt, red, blue, cap, outfit];
+
+describe('variants', () => {
+  it('labels a variant with its parent name', () => {
+    expect(productLabel(red)).toBe('Ankara shirt (Red, L)');
+    expect(productLabel(cap)).toBe('Cap');
+  });
+
+  it('finds the variants under a parent', () => {
+    expect(variantsOf(products, 'shirt')).toEqual([red, blue]);
+    expect(variantsOf(products, 'cap')).toEqual([]);
+    expect([...parentIds(products)]).toEqual(['shirt']);
+  });
+
+  it('lists parents and plain products at the top level', () => {
+    expect(topLevelProducts(products).map(p => p.id)).toEqual(['shirt', 'cap', 'outfit']);
+  });
+
+  it('tracks stock on variants and plain products, not on parents or bundles', () => {
+    expect(stockedProducts(products).map(p => p.id)).toEqual(['red', 'blue', 'cap']);
+  });
+});
+
+describe('groupStock', () => {
+  it("adds up the variants and ignores the parent's own count", () => {
+    expect(groupStock(shirt, products)).toBe(11);
+  });
+
+  it("is a product's own stock, or what a bundle can make up", () => {
+    expect(groupStock(cap, products)).toBe(12);
+    expect(groupStock(outfit, products)).toBe(4);
+  });
+});
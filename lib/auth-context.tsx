@@ -33,6 +33,7 @@ import type {
   AppSettings,
   StaffRole,
   ShopProfile,
+  ShopMembership,
 } from './types';
 
 interface AuthContextValue {
@@ -55,6 +56,7 @@ interface AuthContextValue {
 
   // Setup actions
   createShop: (shopData: Partial<ShopProfile> & { name: string }) => Promise<void>;
+  switchShop: (shopId: string) => Promise<void>;
   completeOnboarding: () => Promise<void>;
 
   // Staff management (owner-only)
@@ -98,6 +100,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         return;
       }
 
+      const { data: memberships } = await supabase
+        .from('shop_memberships')
+        .select('shop_id, role, shop:shops(id, name, logo_url)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true })
+        // A membership belongs to one shop, so the embed is an object, not a list
+        .overrideTypes<ShopMembership[], { merge: false }>();
+
       const userProfile: UserProfile = {
         id: profile.id,
         name: profile.name,
@@ -108,6 +118,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         created_at: profile.created_at,
         updated_at: profile.updated_at,
         shop: profile.shop ?? null,
+        memberships: memberships ?? [],
       };
 
       setUser(userProfile);
@@ -297,6 +308,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await loadUserProfile(session.user.id);
   }, [session, loadUserProfile]);
 
+  // Make another of the user's shops the active one; ShopProvider reloads on the shop_id change
+  const switchShop = useCallback(async (shopId: string) => {
+    if (!session?.user) throw new Error('Not authenticated');
+
+    const { error } = await supabase.rpc('switch_shop', { target_shop_id: shopId });
+    if (error) throw error;
+
+    await loadUserProfile(session.user.id);
+  }, [session, loadUserProfile]);
+
   const completeOnboarding = useCallback(async () => {
     await saveOnboardingDone();
     setIsOnboardingDone(true);
@@ -407,6 +428,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     updatePassword,
     deleteAccount,
     createShop,
+    switchShop,
     completeOnboarding,
     inviteStaff,
     updateStaffPermissions,
@@ -0,0 +1,278 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, hexToBytes, utf8ToBytes, bytesToUtf8 } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import i18n from './i18n';
+import {
+  loadProducts, saveProducts,
+  loadSales, saveSales,
+  loadSaleReturns, saveSaleReturns,
+  loadCustomers, saveCustomers,
+  loadCreditPayments, saveCreditPayments,
+  loadLoyaltyEntries, saveLoyaltyEntries,
+  loadOrders, saveOrders,
+  loadStaff, saveStaff,
+  loadExpenses, saveExpenses,
+  loadBackupKeys,
+  restoreBackupKeys,
+  getActiveShop,
+} from './storage';
+import { clearTables } from './database';
+import { hashPin } from './pin';
+import { getSyncStatus } from './sync';
+import type {
+  Product, Sale, SaleReturn, Customer, CreditPayment, LoyaltyEntry, Order, StaffMember, Expense, ShopProfile,
+} from './types';
+
+// Bump when BackupData changes shape, and teach parseBackup to read the old one
+export const BACKUP_VERSION = 6;
+const BACKUP_FORMAT = 'shoptally-backup';
+// PBKDF2 runs in JS here, so keep new files to about a second on a cheap phone;
+// older files carry their own count in kdf.iterations
+const KDF_ITERATIONS = 30_000;
+
+export interface BackupData {
+  tables: {
+    products: Product[];
+    sales: Sale[];
+    saleReturns: SaleReturn[]; // since version 2
+    customers: Customer[]; // since version 3
+    creditPayments: CreditPayment[]; // since version 3
+    loyaltyEntries: LoyaltyEntry[]; // since version 4
+    orders: Order[];
+    staff: StaffMember[]; // PINs hashed since version 5
+    expenses: Expense[];
+  };
+  /** Raw AsyncStorage values keyed by their `@shoptally_*` key */
+  keys: Record<string, string>;
+  /** The shop signed in when it was made, null when offline-only; since version 6 */
+  shopId?: string | null;
+}
+
+interface BackupEnvelope {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  encrypted: boolean;
+  /** BackupData, or its AES-GCM ciphertext as hex when encrypted */
+  data: BackupData | string;
+  kdf?: { name: 'pbkdf2-sha256'; iterations: number; salt: string };
+  nonce?: string;
+}
+
+/** An opened backup file, before anything on this phone is touched. */
+export interface PendingBackup {
+  createdAt: string;
+  encrypted: boolean;
+  envelope: BackupEnvelope;
+}
+
+export interface BackupSummary {
+  createdAt: string;
+  shopName: string | null;
+  products: number;
+  sales: number;
+  saleReturns: number;
+  customers: number;
+  orders: number;
+  staff: number;
+  expenses: number;
+  pendingSync: number;
+}
+
+async function deriveKey(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  return pbkdf2Async(sha256, utf8ToBytes(password), salt, { c: iterations, dkLen: 32 });
+}
+
+function parseJson<T>(raw: string | undefined, fallback: T): T {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function isEntityList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => item && typeof item === 'object' && typeof item.id === 'string');
+}
+
+function validateData(data: unknown): BackupData {
+  const candidate = data as BackupData | null;
+  // Version 1 files were written before returns existed
+  if (candidate?.tables && candidate.tables.saleReturns === undefined) {
+    candidate.tables.saleReturns = [];
+  }
+  // Versions 1 and 2 were written before credit accounts existed
+  if (candidate?.tables && candidate.tables.customers === undefined) {
+    candidate.tables.customers = [];
+    candidate.tables.creditPayments = [];
+  }
+  // Versions 1 to 3 were written before loyalty points existed
+  if (candidate?.tables && candidate.tables.loyaltyEntries === undefined) {
+    candidate.tables.loyaltyEntries = [];
+  }
+  // Versions 1 to 4 kept approval PINs in plain text
+  if (Array.isArray(candidate?.tables?.staff)) {
+    candidate.tables.staff = candidate.tables.staff.map(m => {
+      const { pin, ...member } = m as StaffMember & { pin?: string };
+      if (pin === undefined) return m;
+      return { ...member, pinHash: pin ? hashPin(pin) : null, hasPin: !!pin };
+    });
+  }
+  const tables = candidate?.tables;
+  const keys = candidate?.keys;
+  if (
+    !tables ||
+    !isEntityList(tables.products) ||
+    !isEntityList(tables.sales) ||
+    !isEntityList(tables.saleReturns) ||
+    !isEntityList(tables.customers) ||
+    !isEntityList(tables.creditPayments) ||
+    !isEntityList(tables.loyaltyEntries) ||
+    !isEntityList(tables.orders) ||
+    !isEntityList(tables.staff) ||
+    !isEntityList(tables.expenses) ||
+    !keys ||
+    typeof keys !== 'object' ||
+    Object.values(keys).some(v => typeof v !== 'string') ||
+    (candidate.shopId != null && typeof candidate.shopId !== 'string')
+  ) {
+    throw new Error(i18n.t('backupInvalid'));
+  }
+  return candidate;
+}
+
+/** Collect everything stored on this phone into a backup file's contents. */
+export async function createBackup(password?: string): Promise<string> {
+  const data: BackupData = {
+    tables: {
+      products: await loadProducts(),
+      sales: await loadSales(),
+      saleReturns: await loadSaleReturns(),
+      customers: await loadCustomers(),
+      creditPayments: await loadCreditPayments(),
+      loyaltyEntries: await loadLoyaltyEntries(),
+      orders: await loadOrders(),
+      staff: await loadStaff(),
+      expenses: await loadExpenses(),
+    },
+    keys: await loadBackupKeys(),
+    shopId: getActiveShop(),
+  };
+  const envelope: BackupEnvelope = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    encrypted: !!password,
+    data,
+  };
+  if (password) {
+    const salt = Crypto.getRandomBytes(16);
+    const nonce = Crypto.getRandomBytes(12);
+    const key = await deriveKey(password, salt, KDF_ITERATIONS);
+    const ciphertext = gcm(key, nonce).encrypt(utf8ToBytes(JSON.stringify(data)));
+    envelope.data = bytesToHex(ciphertext);
+    envelope.kdf = { name: 'pbkdf2-sha256', iterations: KDF_ITERATIONS, salt: bytesToHex(salt) };
+    envelope.nonce = bytesToHex(nonce);
+  }
+  return JSON.stringify(envelope);
+}
+
+/** Write a backup to the documents folder and open the share sheet. */
+export async function shareBackup(password?: string): Promise<void> {
+  const contents = await createBackup(password);
+  const filename = `shoptally-backup-${new Date().toISOString().slice(0, 10)}.json`;
+  const fileUri = `${FileSystem.documentDirectory}${filename}`;
+  await FileSystem.writeAsStringAsync(fileUri, contents, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  const canShare = await Sharing.isAvailableAsync();
+  if (canShare) {
+    await Sharing.shareAsync(fileUri, { mimeType: 'application/json', dialogTitle: filename });
+  }
+}
+
+/** Check a file's envelope without decrypting it. Throws if it isn't a backup this app can read. */
+export function parseBackup(contents: string): PendingBackup {
+  const envelope = parseJson<BackupEnvelope | null>(contents, null);
+  if (!envelope || envelope.format !== BACKUP_FORMAT) {
+    throw new Error(i18n.t('backupInvalid'));
+  }
+  if (typeof envelope.version !== 'number' || envelope.version > BACKUP_VERSION) {
+    throw new Error(i18n.t('backupTooNew'));
+  }
+  if (envelope.encrypted && (typeof envelope.data !== 'string' || !envelope.kdf || !envelope.nonce)) {
+    throw new Error(i18n.t('backupInvalid'));
+  }
+  return { createdAt: envelope.createdAt, encrypted: envelope.encrypted, envelope };
+}
+
+/** Decrypt (when needed) and validate a parsed backup. */
+export async function openBackup(backup: PendingBackup, password?: string): Promise<BackupData> {
+  const { envelope } = backup;
+  if (!envelope.encrypted) return validateData(envelope.data);
+
+  if (!password) throw new Error(i18n.t('backupWrongPassword'));
+  const kdf = envelope.kdf!;
+  const key = await deriveKey(password, hexToBytes(kdf.salt), kdf.iterations);
+  let plaintext: string;
+  try {
+    plaintext = bytesToUtf8(gcm(key, hexToBytes(envelope.nonce!)).decrypt(hexToBytes(envelope.data as string)));
+  } catch {
+    // GCM authentication fails for a wrong password and for a tampered file alike
+    throw new Error(i18n.t('backupWrongPassword'));
+  }
+  return validateData(parseJson<unknown>(plaintext, null));
+}
+
+// A queue only replays into the shop it was made in. Older files don't say
+// which shop that was, so theirs is left out too.
+function keepsSyncState(data: BackupData): boolean {
+  return data.shopId !== undefined && data.shopId === getActiveShop();
+}
+
+export function summarizeBackup(createdAt: string, data: BackupData): BackupSummary {
+  const profile = parseJson<ShopProfile | null>(data.keys['@shoptally_shop_profile'], null);
+  const queue = parseJson<unknown[]>(data.keys['@shoptally_sync_queue'], []);
+  return {
+    createdAt,
+    shopName: profile?.name ?? null,
+    products: data.tables.products.length,
+    sales: data.tables.sales.length,
+    saleReturns: data.tables.saleReturns.length,
+    customers: data.tables.customers.length,
+    orders: data.tables.orders.length,
+    staff: data.tables.staff.length,
+    expenses: data.tables.expenses.length,
+    pendingSync: Array.isArray(queue) && keepsSyncState(data) ? queue.length : 0,
+  };
+}
+
+/**
+ * Replace everything stored on this phone with the backup. The restored sync
+ * queue and pull cursors come along, so unsent writes still reach the server,
+ * but only into the shop they were made in.
+ */
+export async function restoreBackup(data: BackupData): Promise<void> {
+  const shopId = getActiveShop();
+  if (data.shopId && shopId && data.shopId !== shopId) {
+    throw new Error(i18n.t('backupOtherShop'));
+  }
+  await clearTables();
+  await saveProducts(data.tables.products);
+  await saveSales(data.tables.sales);
+  await saveSaleReturns(data.tables.saleReturns);
+  await saveCustomers(data.tables.customers);
+  await saveCreditPayments(data.tables.creditPayments);
+  await saveLoyaltyEntries(data.tables.loyaltyEntries);
+  await saveOrders(data.tables.orders);
+  await saveStaff(data.tables.staff);
+  await saveExpenses(data.tables.expenses);
+  await restoreBackupKeys(data.keys, keepsSyncState(data));
+  await getSyncStatus();
+}
@@ -0,0 +1,61 @@
+import type { BundleComponent, Product, SaleItem } from './types';
+import { unitFactor } from './units';
+
+// Stock moved for one product, in its base units
+export interface StockMove {
+  productId: string;
+  quantity: number;
+}
+
+export function isBundle(product: Product): boolean {
+  return (product.components ?? []).length > 0;
+}
+
+/** Whole bundles the components on hand can make up. */
+export function bundleStock(bundle: Product, products: Product[]): number {
+  let stock = Infinity;
+  for (const c of bundle.components) {
+    const component = products.find(p => p.id === c.productId);
+    if (!component || c.quantity <= 0) return 0;
+    stock = Math.min(stock, Math.floor(component.stock / c.quantity));
+  }
+  return Number.isFinite(stock) ? stock : 0;
+}
+
+/** What can be sold right now: a bundle's is worked out from its components. */
+export function availableStock(product: Product, products: Product[]): number {
+  return isBundle(product) ? bundleStock(product, products) : product.stock;
+}
+
+/**
+ * Cost of one bundle from its components' cost prices, or null when none of
+ * them has one.
+ */
+export function bundleCost(components: BundleComponent[], products: Product[]): number | null {
+  let cost: number | null = null;
+  for (const c of components) {
+    const costPrice = products.find(p => p.id === c.productId)?.costPrice;
+    if (costPrice != null) cost = (cost ?? 0) + costPrice * c.quantity;
+  }
+  return cost;
+}
+
+/** Stock one of `product` sold in `unitId` takes off the shelf. */
+export function stockNeeds(product: Product, unitId: string | null | undefined): StockMove[] {
+  const factor = unitFactor(product, unitId);
+  if (!isBundle(product)) return [{ productId: product.id, quantity: factor }];
+  return product.components.map(c => ({ productId: c.productId, quantity: c.quantity * factor }));
+}
+
+/** Stock `quantity` of a sale line moved: a bundle moves its components. */
+export function saleItemStock(item: SaleItem, quantity: number = item.quantity): StockMove[] {
+  const units = quantity * (item.unitFactor ?? 1);
+  if (!item.components?.length) return [{ productId: item.productId, quantity: units }];
+  return item.components.map(c => ({ productId: c.productId, quantity: c.quantity * units }));
+}
+
+export function totalByProduct(moves: StockMove[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const m of moves) totals.set(m.productId, (totals.get(m.productId) ?? 0) + m.quantity);
+  return totals;
+}
@@ -0,0 +1,11 @@
+/**
+ * Converts one entity between its app shape (camelCase, see types.ts) and
+ * its Supabase row (snake_case, see supabase/schema.sql). Both directions
+ * live together so a column added on one side can't be forgotten on the other.
+ * Row shapes are type aliases, not interfaces, so they can be queued as sync payloads.
+ */
+export interface Codec<T, Row> {
+  toRow: (item: T) => Row;
+  // Rows may predate newer columns, so every optional field has a fallback
+  fromRow: (row: Partial<Row> & Record<string, unknown>) => T;
+}
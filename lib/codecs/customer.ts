@@ -0,0 +1,70 @@
+import type { Customer, CreditPayment, CreditPaymentMethod } from '../types';
+import type { Codec } from './codec';
+
+export type CustomerRow = {
+  id: string;
+  name: string;
+  phone: string;
+  address: string;
+  notes: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export const customerCodec: Codec<Customer, CustomerRow> = {
+  toRow: c => ({
+    id: c.id,
+    name: c.name,
+    phone: c.phone ?? '',
+    address: c.address ?? '',
+    notes: c.notes ?? '',
+    created_at: c.createdAt,
+    updated_at: c.updatedAt,
+  }),
+  fromRow: row => ({
+    id: row.id as string,
+    name: row.name as string,
+    phone: row.phone ?? '',
+    address: row.address ?? '',
+    notes: row.notes ?? '',
+    createdAt: row.created_at as string,
+    updatedAt: (row.updated_at ?? row.created_at) as string,
+  }),
+};
+
+export type CreditPaymentRow = {
+  id: string;
+  customer_id: string;
+  amount: number;
+  method: CreditPaymentMethod;
+  note: string;
+  staff_id: string | null;
+  staff_name: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const creditPaymentCodec: Codec<CreditPayment, CreditPaymentRow> = {
+  // Repayments are never edited, so they were last updated when created
+  toRow: p => ({
+    id: p.id,
+    customer_id: p.customerId,
+    amount: p.amount,
+    method: p.method,
+    note: p.note ?? '',
+    staff_id: p.staffId ?? null,
+    staff_name: p.staffName ?? null,
+    created_at: p.createdAt,
+    updated_at: p.createdAt,
+  }),
+  fromRow: row => ({
+    id: row.id as string,
+    customerId: row.customer_id as string,
+    amount: row.amount as number,
+    method: row.method ?? 'cash',
+    note: row.note ?? '',
+    staffId: row.staff_id ?? null,
+    staffName: row.staff_name ?? null,
+    createdAt: row.created_at as string,
+  }),
+};
@@ -0,0 +1,36 @@
+import type { Expense } from '../types';
+import type { Codec } from './codec';
+
+export type ExpenseRow = {
+  id: string;
+  title: string;
+  amount: number;
+  category: string;
+  date: string;
+  notes: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export const expenseCodec: Codec<Expense, ExpenseRow> = {
+  // Expenses aren't edited in place, so they were last updated when created
+  toRow: e => ({
+    id: e.id,
+    title: e.title,
+    amount: e.amount,
+    category: e.category,
+    date: e.date,
+    notes: e.notes,
+    created_at: e.createdAt,
+    updated_at: e.createdAt,
+  }),
+  fromRow: row => ({
+    id: row.id as string,
+    title: row.title as string,
+    amount: row.amount as number,
+    category: row.category ?? '',
+    date: row.date as string,
+    notes: row.notes ?? '',
+    createdAt: row.created_at as string,
+  }),
+};
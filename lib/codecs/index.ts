@@ -0,0 +1,19 @@
+export type { Codec } from './codec';
+export { productCodec, productEditRow } from './product';
+export type { ProductRow } from './product';
+export { saleCodec } from './sale';
+export type { SaleRow } from './sale';
+export { saleReturnCodec } from './sale-return';
+export type { SaleReturnRow } from './sale-return';
+export { customerCodec, creditPaymentCodec } from './customer';
+export type { CustomerRow, CreditPaymentRow } from './customer';
+export { loyaltyEntryCodec } from './loyalty';
+export type { LoyaltyEntryRow } from './loyalty';
+export { orderCodec } from './order';
+export type { OrderRow } from './order';
+export { expenseCodec } from './expense';
+export type { ExpenseRow } from './expense';
+export { staffMemberCodec, staffActivityCodec } from './staff';
+export type { StaffMemberRow, StaffActivityRow, StaffActivityEntry } from './staff';
+export { inventoryMovementCodec } from './inventory-movement';
+export type { InventoryMovementRow } from './inventory-movement';
@@ -0,0 +1,32 @@
+import type { InventoryMovement, InventoryMovementReason } from '../types';
+import type { Codec } from './codec';
+
+export type InventoryMovementRow = {
+  id: string;
+  product_id: string;
+  delta: number;
+  reason: InventoryMovementReason;
+  reference_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const inventoryMovementCodec: Codec<InventoryMovement, InventoryMovementRow> = {
+  toRow: m => ({
+    id: m.id,
+    product_id: m.productId,
+    delta: m.delta,
+    reason: m.reason,
+    reference_id: m.referenceId,
+    created_at: m.createdAt,
+    updated_at: m.createdAt,
+  }),
+  fromRow: row => ({
+    id: row.id as string,
+    productId: row.product_id as string,
+    delta: row.delta as number,
+    reason: row.reason ?? 'adjustment',
+    referenceId: row.reference_id ?? null,
+    createdAt: row.created_at as string,
+  }),
+};
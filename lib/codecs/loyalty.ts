@@ -0,0 +1,39 @@
+import type { LoyaltyEntry, LoyaltyEntryKind } from '../types';
+import type { Codec } from './codec';
+
+export type LoyaltyEntryRow = {
+  id: string;
+  customer_id: string;
+  sale_id: string | null;
+  kind: LoyaltyEntryKind;
+  points: number;
+  staff_id: string | null;
+  staff_name: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const loyaltyEntryCodec: Codec<LoyaltyEntry, LoyaltyEntryRow> = {
+  // Entries are never edited, so they were last updated when created
+  toRow: e => ({
+    id: e.id,
+    customer_id: e.customerId,
+    sale_id: e.saleId ?? null,
+    kind: e.kind,
+    points: e.points,
+    staff_id: e.staffId ?? null,
+    staff_name: e.staffName ?? null,
+    created_at: e.createdAt,
+    updated_at: e.createdAt,
+  }),
+  fromRow: row => ({
+    id: row.id as string,
+    customerId: row.customer_id as string,
+    saleId: row.sale_id ?? null,
+    kind: row.kind ?? 'earn',
+    points: row.points ?? 0,
+    staffId: row.staff_id ?? null,
+    staffName: row.staff_name ?? null,
+    createdAt: row.created_at as string,
+  }),
+};
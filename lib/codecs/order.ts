@@ -0,0 +1,45 @@
+import type { Order, OrderStatus, SaleItem } from '../types';
+import type { Codec } from './codec';
+
+export type OrderRow = {
+  id: string;
+  items: SaleItem[];
+  total: number;
+  customer_name: string;
+  customer_phone: string;
+  customer_id: string | null;
+  delivery_address: string;
+  status: OrderStatus;
+  notes: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export const orderCodec: Codec<Order, OrderRow> = {
+  toRow: o => ({
+    id: o.id,
+    items: o.items,
+    total: o.total,
+    customer_name: o.customerName,
+    customer_phone: o.customerPhone,
+    customer_id: o.customerId ?? null,
+    delivery_address: o.deliveryAddress,
+    status: o.status,
+    notes: o.notes,
+    created_at: o.createdAt,
+    updated_at: o.updatedAt,
+  }),
+  fromRow: row => ({
+    id: row.id as string,
+    items: row.items ?? [],
+    total: row.total as number,
+    customerName: row.customer_name ?? '',
+    customerPhone: row.customer_phone ?? '',
+    customerId: row.customer_id ?? null,
+    deliveryAddress: row.delivery_address ?? '',
+    status: row.status ?? 'new',
+    notes: row.notes ?? '',
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at ?? (row.created_at as string),
+  }),
+};
@@ -0,0 +1,75 @@
+import type { BundleComponent, MarketplaceListing, Product, ProductUnit } from '../types';
+import type { Codec } from './codec';
+
+export type ProductRow = {
+  id: string;
+  name: string;
+  price: number;
+  cost_price: number | null;
+  unit: string | null;
+  stock: number;
+  low_stock_threshold: number;
+  image_uri: string | null;
+  category: string;
+  barcode: string | null;
+  is_marketplace: boolean;
+  marketplace_listing: MarketplaceListing | null;
+  tax_exempt: boolean;
+  units: ProductUnit[];
+  parent_id: string | null;
+  variant_name: string | null;
+  components: BundleComponent[];
+  created_at: string;
+  updated_at: string;
+};
+
+export const productCodec: Codec<Product, ProductRow> = {
+  toRow: p => ({
+    id: p.id,
+    name: p.name,
+    price: p.price,
+    cost_price: p.costPrice ?? null,
+    unit: p.unit ?? null,
+    stock: p.stock,
+    low_stock_threshold: p.lowStockThreshold,
+    image_uri: p.imageUri ?? null,
+    category: p.category,
+    barcode: p.barcode ?? null,
+    is_marketplace: p.isMarketplace,
+    marketplace_listing: p.marketplaceListing ?? null,
+    tax_exempt: p.taxExempt ?? false,
+    units: p.units ?? [],
+    parent_id: p.parentId ?? null,
+    variant_name: p.variantName ?? null,
+    components: p.components ?? [],
+    created_at: p.createdAt,
+    updated_at: p.updatedAt,
+  }),
+  fromRow: row => ({
+    id: row.id as string,
+    name: row.name as string,
+    price: row.price as number,
+    costPrice: row.cost_price ?? null,
+    unit: row.unit ?? null,
+    stock: row.stock as number,
+    lowStockThreshold: row.low_stock_threshold ?? 5,
+    imageUri: row.image_uri ?? null,
+    category: row.category ?? '',
+    barcode: row.barcode ?? null,
+    isMarketplace: row.is_marketplace ?? false,
+    marketplaceListing: row.marketplace_listing ?? null,
+    taxExempt: row.tax_exempt ?? false,
+    units: row.units ?? [],
+    parentId: row.parent_id ?? null,
+    variantName: row.variant_name ?? null,
+    components: row.components ?? [],
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at ?? (row.created_at as string),
+  }),
+};
+
+// Product edits leave stock out: it only changes through inventory_movements
+export function productEditRow(p: Product): Omit<ProductRow, 'stock'> {
+  const { stock: _stock, ...row } = productCodec.toRow(p);
+  return row;
+}
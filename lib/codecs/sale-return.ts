@@ -0,0 +1,45 @@
+import type { RefundMethod, SaleReturn, SaleReturnItem } from '../types';
+import type { Codec } from './codec';
+
+export type SaleReturnRow = {
+  id: string;
+  sale_id: string;
+  items: SaleReturnItem[];
+  amount: number;
+  tax: number;
+  refund_method: RefundMethod;
+  reason: string;
+  staff_id: string | null;
+  staff_name: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const saleReturnCodec: Codec<SaleReturn, SaleReturnRow> = {
+  // Returns are never edited, so they were last updated when created
+  toRow: r => ({
+    id: r.id,
+    sale_id: r.saleId,
+    items: r.items,
+    amount: r.amount,
+    tax: r.tax ?? 0,
+    refund_method: r.refundMethod,
+    reason: r.reason ?? '',
+    staff_id: r.staffId ?? null,
+    staff_name: r.staffName ?? null,
+    created_at: r.createdAt,
+    updated_at: r.createdAt,
+  }),
+  fromRow: row => ({
+    id: row.id as string,
+    saleId: row.sale_id as string,
+    items: row.items ?? [],
+    amount: row.amount as number,
+    tax: row.tax ?? 0,
+    refundMethod: row.refund_method ?? 'cash',
+    reason: row.reason ?? '',
+    staffId: row.staff_id ?? null,
+    staffName: row.staff_name ?? null,
+    createdAt: row.created_at as string,
+  }),
+};
@@ -0,0 +1,93 @@
+import type { Sale, SaleItem, PaymentGateway, PaymentMethod } from '../types';
+import type { Codec } from './codec';
+
+export type SaleRow = {
+  id: string;
+  items: SaleItem[];
+  total: number;
+  amount_paid: number;
+  change: number;
+  cash_amount: number;
+  transfer_amount: number;
+  payment_method: PaymentMethod;
+  is_credit: boolean;
+  customer_name: string | null;
+  customer_id: string | null;
+  staff_id: string | null;
+  staff_name: string | null;
+  payment_id: string | null;
+  gateway_provider: PaymentGateway | null;
+  discount: number;
+  promo_code: string | null;
+  tax: number;
+  tax_rate: number;
+  tax_inclusive: boolean;
+  voided_at: string | null;
+  void_reason: string;
+  voided_by: string | null;
+  loyalty_points_earned: number;
+  loyalty_points_redeemed: number;
+  loyalty_amount: number;
+  created_at: string;
+};
+
+export const saleCodec: Codec<Sale, SaleRow> = {
+  toRow: s => ({
+    id: s.id,
+    items: s.items,
+    total: s.total,
+    amount_paid: s.amountPaid,
+    change: s.change,
+    cash_amount: s.cashAmount,
+    transfer_amount: s.transferAmount,
+    payment_method: s.paymentMethod,
+    is_credit: s.isCredit,
+    customer_name: s.customerName ?? null,
+    customer_id: s.customerId ?? null,
+    staff_id: s.staffId ?? null,
+    staff_name: s.staffName ?? null,
+    payment_id: s.paymentId ?? null,
+    gateway_provider: s.gatewayProvider ?? null,
+    discount: s.discount ?? 0,
+    promo_code: s.promoCode ?? null,
+    tax: s.tax ?? 0,
+    tax_rate: s.taxRate ?? 0,
+    tax_inclusive: s.taxInclusive ?? false,
+    voided_at: s.voidedAt ?? null,
+    void_reason: s.voidReason ?? '',
+    voided_by: s.voidedBy ?? null,
+    loyalty_points_earned: s.loyaltyPointsEarned ?? 0,
+    loyalty_points_redeemed: s.loyaltyPointsRedeemed ?? 0,
+    loyalty_amount: s.loyaltyAmount ?? 0,
+    created_at: s.createdAt,
+  }),
+  fromRow: row => ({
+    id: row.id as string,
+    items: row.items ?? [],
+    total: row.total as number,
+    amountPaid: row.amount_paid as number,
+    change: row.change ?? 0,
+    cashAmount: row.cash_amount ?? (row.amount_paid as number),
+    transferAmount: row.transfer_amount ?? 0,
+    paymentMethod: row.payment_method ?? 'cash',
+    isCredit: row.is_credit ?? false,
+    customerName: row.customer_name ?? null,
+    customerId: row.customer_id ?? null,
+    staffId: row.staff_id ?? null,
+    staffName: row.staff_name ?? null,
+    paymentId: row.payment_id ?? null,
+    gatewayProvider: row.gateway_provider ?? null,
+    discount: row.discount ?? 0,
+    promoCode: row.promo_code ?? null,
+    tax: row.tax ?? 0,
+    taxRate: row.tax_rate ?? 0,
+    taxInclusive: row.tax_inclusive ?? false,
+    voidedAt: row.voided_at ?? null,
+    voidReason: row.void_reason ?? '',
+    voidedBy: row.voided_by ?? null,
+    loyaltyPointsEarned: row.loyalty_points_earned ?? 0,
+    loyaltyPointsRedeemed: row.loyalty_points_redeemed ?? 0,
+    loyaltyAmount: row.loyalty_amount ?? 0,
+    createdAt: row.created_at as string,
+  }),
+};
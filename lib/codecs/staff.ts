@@ -0,0 +1,66 @@
+import type { StaffActivity, StaffMember, StaffRole } from '../types';
+import type { Codec } from './codec';
+
+export type StaffMemberRow = {
+  id: string;
+  name: string;
+  role: StaffRole;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+// The activity log is its own table; pulled members get it from the local cache.
+// The server worked out has_pin from a PIN hash clients can't read or write,
+// so it is only ever pulled; PINs go up through set_staff_pin()
+export const staffMemberCodec: Codec<StaffMember, StaffMemberRow> = {
+  toRow: m => ({
+    id: m.id,
+    name: m.name,
+    role: m.role,
+    is_active: m.isActive,
+    created_at: m.createdAt,
+    updated_at: m.updatedAt,
+  }),
+  fromRow: row => ({
+    id: row.id as string,
+    name: row.name as string,
+    role: row.role ?? 'cashier',
+    pinHash: null,
+    hasPin: row.has_pin === true,
+    isActive: row.is_active ?? true,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at ?? (row.created_at as string),
+    activityLog: [],
+  }),
+};
+
+// An activity entry together with the staff member it belongs to
+export type StaffActivityEntry = StaffActivity & { staffId: string };
+
+export type StaffActivityRow = {
+  id: string;
+  staff_id: string;
+  action: string;
+  details: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export const staffActivityCodec: Codec<StaffActivityEntry, StaffActivityRow> = {
+  toRow: a => ({
+    id: a.id,
+    staff_id: a.staffId,
+    action: a.action,
+    details: a.details,
+    created_at: a.timestamp,
+    updated_at: a.timestamp,
+  }),
+  fromRow: row => ({
+    id: row.id as string,
+    staffId: row.staff_id as string,
+    action: row.action as string,
+    details: row.details ?? '',
+    timestamp: row.created_at as string,
+  }),
+};
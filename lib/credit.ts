@@ -0,0 +1,98 @@
+import dayjs from 'dayjs';
+import type { CreditPayment, CreditPaymentMethod, Customer, Sale, SaleReturn } from './types';
+import { customerSales, normalizePhone } from './customers';
+
+const roundKobo = (amount: number) => Math.round(amount * 100) / 100;
+
+/** Credit sales charged to `customer`, oldest first. */
+export function customerCreditSales(customer: Customer, sales: Sale[]): Sale[] {
+  return customerSales(customer, sales).filter(s => s.isCredit);
+}
+
+export type LedgerEntry =
+  | { kind: 'sale'; id: string; date: string; amount: number; balance: number }
+  | { kind: 'return'; id: string; saleId: string; date: string; amount: number; balance: number }
+  | { kind: 'payment'; id: string; date: string; amount: number; balance: number; method: CreditPaymentMethod; note: string };
+
+// Outstanding credit by how long it has been owed
+export interface CreditAgeing {
+  current: number;  // 0-30 days
+  days31to60: number;
+  over60: number;
+}
+
+export interface CustomerAccount {
+  customer: Customer;
+  entries: LedgerEntry[]; // oldest first; amount is negative when it reduces the debt
+  balance: number;
+  ageing: CreditAgeing;
+  oldestUnpaidAt: string | null;
+}
+
+/**
+ * A customer's running balance: credit sales add to it, returns refunded off
+ * credit and repayments take it down. Repayments settle the oldest sales
+ * first, so whatever is left is aged from the sales still unpaid.
+ */
+export function buildCustomerAccount(
+  customer: Customer,
+  sales: Sale[],
+  saleReturns: SaleReturn[],
+  payments: CreditPayment[],
+  now: dayjs.Dayjs = dayjs(),
+): CustomerAccount {
+  const creditSales = customerCreditSales(customer, sales);
+  const saleIds = new Set(creditSales.map(s => s.id));
+  const creditReturns = saleReturns.filter(r => r.refundMethod === 'credit' && saleIds.has(r.saleId));
+  const repayments = payments.filter(p => p.customerId === customer.id);
+
+  const unsorted: Omit<LedgerEntry, 'balance'>[] = [
+    ...creditSales.map(s => ({ kind: 'sale' as const, id: s.id, date: s.createdAt, amount: s.total })),
+    ...creditReturns.map(r => ({ kind: 'return' as const, id: r.id, saleId: r.saleId, date: r.createdAt, amount: -r.amount })),
+    ...repayments.map(p => ({
+      kind: 'payment' as const, id: p.id, date: p.createdAt, amount: -p.amount, method: p.method, note: p.note,
+    })),
+  ];
+  let running = 0;
+  const entries = unsorted
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(entry => {
+      running = roundKobo(running + entry.amount);
+      return { ...entry, balance: running } as LedgerEntry;
+    });
+
+  const returnedBySale = new Map<string, number>();
+  for (const r of creditReturns) returnedBySale.set(r.saleId, (returnedBySale.get(r.saleId) ?? 0) + r.amount);
+  let paidPool = repayments.reduce((sum, p) => sum + p.amount, 0);
+
+  const ageing: CreditAgeing = { current: 0, days31to60: 0, over60: 0 };
+  let oldestUnpaidAt: string | null = null;
+  for (const sale of creditSales) {
+    const owed = Math.max(0, sale.total - (returnedBySale.get(sale.id) ?? 0));
+    const settled = Math.min(owed, paidPool);
+    paidPool -= settled;
+    const left = roundKobo(owed - settled);
+    if (left <= 0) continue;
+    oldestUnpaidAt = oldestUnpaidAt ?? sale.createdAt;
+    const days = now.diff(dayjs(sale.createdAt), 'day');
+    if (days <= 30) ageing.current += left;
+    else if (days <= 60) ageing.days31to60 += left;
+    else ageing.over60 += left;
+  }
+
+  return { customer, entries, balance: running, ageing, oldestUnpaidAt };
+}
+
+export function totalAgeing(accounts: CustomerAccount[]): CreditAgeing {
+  return accounts.reduce((sum, a) => ({
+    current: sum.current + a.ageing.current,
+    days31to60: sum.days31to60 + a.ageing.days31to60,
+    over60: sum.over60 + a.ageing.over60,
+  }), { current: 0, days31to60: 0, over60: 0 });
+}
+
+/** Phone number in the international form wa.me links expect; local 0-numbers are Nigerian. */
+export function whatsappNumber(phone: string): string {
+  const cleaned = normalizePhone(phone);
+  return cleaned.startsWith('0') ? '234' + cleaned.slice(1) : cleaned;
+}
@@ -0,0 +1,58 @@
+import type { Customer, Order, Sale, SaleReturn } from './types';
+import { saleReturnValue } from './pricing';
+
+export function normalizeCustomerName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, '');
+}
+
+/** The saved customer a typed name or phone number refers to, if any. */
+export function matchCustomer(customers: Customer[], name: string, phone: string = ''): Customer | undefined {
+  const digits = normalizePhone(phone);
+  const key = normalizeCustomerName(name);
+  return (digits ? customers.find(c => normalizePhone(c.phone) === digits) : undefined)
+    ?? customers.find(c => normalizeCustomerName(c.name) === key);
+}
+
+/**
+ * Sales rung up for `customer`, oldest first, leaving out voids. Sales from
+ * before the customer was saved only carry a name, so those are matched on it.
+ */
+export function customerSales(customer: Customer, sales: Sale[]): Sale[] {
+  const name = normalizeCustomerName(customer.name);
+  return sales
+    .filter(s => !s.voidedAt && (
+      s.customerId ? s.customerId === customer.id : normalizeCustomerName(s.customerName ?? '') === name
+    ))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Orders placed by `customer`, newest first; older orders are matched on phone or name. */
+export function customerOrders(customer: Customer, orders: Order[]): Order[] {
+  const name = normalizeCustomerName(customer.name);
+  const digits = normalizePhone(customer.phone);
+  return orders.filter(o => (
+    o.customerId
+      ? o.customerId === customer.id
+      : (!!digits && normalizePhone(o.customerPhone) === digits) || normalizeCustomerName(o.customerName) === name
+  ));
+}
+
+export interface CustomerSummary {
+  totalSpend: number; // net of refunds
+  visits: number;
+  lastVisitAt: string | null;
+}
+
+export function summarizeCustomer(sales: Sale[], saleReturns: SaleReturn[]): CustomerSummary {
+  const saleIds = new Set(sales.map(s => s.id));
+  const refunded = saleReturns.filter(r => saleIds.has(r.saleId)).reduce((sum, r) => sum + saleReturnValue(r), 0);
+  return {
+    totalSpend: sales.reduce((sum, s) => sum + s.total, 0) - refunded,
+    visits: sales.length,
+    lastVisitAt: sales.length > 0 ? sales[sales.length - 1].createdAt : null,
+  };
+}
@@ -0,0 +1,701 @@
+import * as SQLite from 'expo-sqlite';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Product, Sale, SaleReturn, Customer, CreditPayment, LoyaltyEntry, Order, StaffMember, Expense } from './types';
+import { hashPin } from './pin';
+
+const DATABASE_NAME = 'shoptally.db';
+
+interface Migration {
+  version: number;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+// Numbered storage migrations, applied in order on startup. PRAGMA user_version
+// records the last one that ran. Append new steps — never edit one that has
+// already shipped.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    up: db => db.execAsync(`
+      CREATE TABLE IF NOT EXISTS products (
+        id TEXT PRIMARY KEY NOT NULL,
+        name TEXT NOT NULL,
+        price REAL NOT NULL DEFAULT 0,
+        cost_price REAL,
+        unit TEXT,
+        stock INTEGER NOT NULL DEFAULT 0,
+        low_stock_threshold INTEGER NOT NULL DEFAULT 5,
+        image_uri TEXT,
+        category TEXT NOT NULL DEFAULT '',
+        barcode TEXT,
+        is_marketplace INTEGER NOT NULL DEFAULT 0,
+        marketplace_listing TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS products_category_idx ON products(category);
+      CREATE INDEX IF NOT EXISTS products_barcode_idx ON products(barcode);
+
+      CREATE TABLE IF NOT EXISTS sales (
+        id TEXT PRIMARY KEY NOT NULL,
+        items TEXT NOT NULL DEFAULT '[]',
+        total REAL NOT NULL DEFAULT 0,
+        amount_paid REAL NOT NULL DEFAULT 0,
+        change REAL NOT NULL DEFAULT 0,
+        cash_amount REAL NOT NULL DEFAULT 0,
+        transfer_amount REAL NOT NULL DEFAULT 0,
+        payment_method TEXT NOT NULL DEFAULT 'cash',
+        is_credit INTEGER NOT NULL DEFAULT 0,
+        customer_name TEXT,
+        staff_id TEXT,
+        staff_name TEXT,
+        payment_id TEXT,
+        gateway_provider TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS sales_created_idx ON sales(created_at);
+
+      CREATE TABLE IF NOT EXISTS orders (
+        id TEXT PRIMARY KEY NOT NULL,
+        items TEXT NOT NULL DEFAULT '[]',
+        total REAL NOT NULL DEFAULT 0,
+        customer_name TEXT NOT NULL DEFAULT '',
+        customer_phone TEXT NOT NULL DEFAULT '',
+        delivery_address TEXT NOT NULL DEFAULT '',
+        status TEXT NOT NULL DEFAULT 'new',
+        notes TEXT NOT NULL DEFAULT '',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS orders_status_idx ON orders(status);
+      CREATE INDEX IF NOT EXISTS orders_created_idx ON orders(created_at);
+
+      CREATE TABLE IF NOT EXISTS staff_members (
+        id TEXT PRIMARY KEY NOT NULL,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'cashier',
+        pin TEXT NOT NULL DEFAULT '',
+        is_active INTEGER NOT NULL DEFAULT 1,
+        activity_log TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS expenses (
+        id TEXT PRIMARY KEY NOT NULL,
+        title TEXT NOT NULL,
+        amount REAL NOT NULL DEFAULT 0,
+        category TEXT NOT NULL DEFAULT '',
+        date TEXT NOT NULL,
+        notes TEXT NOT NULL DEFAULT '',
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS expenses_date_idx ON expenses(date);
+    `),
+  },
+  {
+    version: 2,
+    up: db => importLegacyData(db),
+  },
+  {
+    // Version 1 builds filled cash_amount with the full amount for transfer sales
+    version: 3,
+    up: db => db.execAsync(`
+      UPDATE sales SET cash_amount = 0, transfer_amount = amount_paid
+      WHERE payment_method = 'transfer' AND transfer_amount = 0;
+    `),
+  },
+  {
+    version: 4,
+    up: db => db.execAsync(`
+      ALTER TABLE sales ADD COLUMN discount REAL NOT NULL DEFAULT 0;
+      ALTER TABLE sales ADD COLUMN promo_code TEXT;
+    `),
+  },
+  {
+    version: 5,
+    up: db => db.execAsync(`
+      ALTER TABLE products ADD COLUMN tax_exempt INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE sales ADD COLUMN tax REAL NOT NULL DEFAULT 0;
+      ALTER TABLE sales ADD COLUMN tax_rate REAL NOT NULL DEFAULT 0;
+      ALTER TABLE sales ADD COLUMN tax_inclusive INTEGER NOT NULL DEFAULT 0;
+    `),
+  },
+  {
+    version: 6,
+    up: db => db.execAsync(`
+      CREATE TABLE IF NOT EXISTS sale_returns (
+        id TEXT PRIMARY KEY NOT NULL,
+        sale_id TEXT NOT NULL,
+        items TEXT NOT NULL DEFAULT '[]',
+        amount REAL NOT NULL DEFAULT 0,
+        tax REAL NOT NULL DEFAULT 0,
+        refund_method TEXT NOT NULL DEFAULT 'cash',
+        reason TEXT NOT NULL DEFAULT '',
+        staff_id TEXT,
+        staff_name TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS sale_returns_sale_idx ON sale_returns(sale_id);
+      CREATE INDEX IF NOT EXISTS sale_returns_created_idx ON sale_returns(created_at);
+    `),
+  },
+  {
+    version: 7,
+    up: db => db.execAsync(`
+      ALTER TABLE sales ADD COLUMN voided_at TEXT;
+      ALTER TABLE sales ADD COLUMN void_reason TEXT NOT NULL DEFAULT '';
+      ALTER TABLE sales ADD COLUMN voided_by TEXT;
+    `),
+  },
+  {
+    version: 8,
+    up: db => db.execAsync(`
+      ALTER TABLE sales ADD COLUMN customer_id TEXT;
+      CREATE INDEX IF NOT EXISTS sales_customer_idx ON sales(customer_id);
+      CREATE TABLE IF NOT EXISTS customers (
+        id TEXT PRIMARY KEY NOT NULL,
+        name TEXT NOT NULL,
+        phone TEXT NOT NULL DEFAULT '',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS credit_payments (
+        id TEXT PRIMARY KEY NOT NULL,
+        customer_id TEXT NOT NULL,
+        amount REAL NOT NULL DEFAULT 0,
+        method TEXT NOT NULL DEFAULT 'cash',
+        note TEXT NOT NULL DEFAULT '',
+        staff_id TEXT,
+        staff_name TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS credit_payments_customer_idx ON credit_payments(customer_id);
+      CREATE INDEX IF NOT EXISTS credit_payments_created_idx ON credit_payments(created_at);
+    `),
+  },
+  {
+    version: 9,
+    up: db => db.execAsync(`
+      ALTER TABLE customers ADD COLUMN address TEXT NOT NULL DEFAULT '';
+      ALTER TABLE customers ADD COLUMN notes TEXT NOT NULL DEFAULT '';
+      ALTER TABLE orders ADD COLUMN customer_id TEXT;
+      CREATE INDEX IF NOT EXISTS orders_customer_idx ON orders(customer_id);
+    `),
+  },
+  {
+    version: 10,
+    up: db => db.execAsync(`
+      ALTER TABLE sales ADD COLUMN loyalty_points_earned INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE sales ADD COLUMN loyalty_points_redeemed INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE sales ADD COLUMN loyalty_amount REAL NOT NULL DEFAULT 0;
+      CREATE TABLE IF NOT EXISTS loyalty_entries (
+        id TEXT PRIMARY KEY NOT NULL,
+        customer_id TEXT NOT NULL,
+        sale_id TEXT,
+        kind TEXT NOT NULL,
+        points INTEGER NOT NULL DEFAULT 0,
+        staff_id TEXT,
+        staff_name TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS loyalty_entries_customer_idx ON loyalty_entries(customer_id);
+    `),
+  },
+  {
+    version: 11,
+    up: db => db.execAsync(`
+      ALTER TABLE products ADD COLUMN units TEXT NOT NULL DEFAULT '[]';
+    `),
+  },
+  {
+    version: 12,
+    up: db => db.execAsync(`
+      ALTER TABLE products ADD COLUMN parent_id TEXT;
+      ALTER TABLE products ADD COLUMN variant_name TEXT;
+      CREATE INDEX IF NOT EXISTS products_parent_idx ON products(parent_id);
+    `),
+  },
+  {
+    version: 13,
+    up: db => db.execAsync(`
+      ALTER TABLE products ADD COLUMN components TEXT NOT NULL DEFAULT '[]';
+    `),
+  },
+  {
+    // PINs were kept in plain text; only a salted hash stays
+    version: 14,
+    up: async db => {
+      await db.execAsync(`
+        ALTER TABLE staff_members ADD COLUMN pin_hash TEXT;
+        ALTER TABLE staff_members ADD COLUMN has_pin INTEGER NOT NULL DEFAULT 0;
+      `);
+      const rows = await db.getAllAsync<{ id: string; pin: string }>("SELECT id, pin FROM staff_members WHERE pin <> ''");
+      for (const row of rows) {
+        await db.runAsync('UPDATE staff_members SET pin_hash = ?, has_pin = 1 WHERE id = ?', [hashPin(row.pin), row.id]);
+      }
+      await db.execAsync('ALTER TABLE staff_members DROP COLUMN pin');
+    },
+  },
+];
+
+type Row = Record<string, unknown>;
+
+interface RowWriter<T> {
+  table: string;
+  columns: string[];
+  toRow: (item: T) => SQLite.SQLiteBindValue[];
+}
+
+// How an entity maps onto its table. Lists are read newest first, matching
+// the order ShopProvider keeps them in.
+export interface TableCodec<T extends { id: string }> extends RowWriter<T> {
+  fromRow: (row: Row) => T;
+}
+
+const json = (value: unknown) => JSON.stringify(value ?? null);
+const parse = <T>(value: unknown, fallback: T): T => (typeof value === 'string' ? JSON.parse(value) ?? fallback : fallback);
+
+export const productsTable: TableCodec<Product> = {
+  table: 'products',
+  columns: ['id', 'name', 'price', 'cost_price', 'unit', 'stock', 'low_stock_threshold', 'image_uri', 'category', 'barcode', 'is_marketplace', 'marketplace_listing', 'tax_exempt', 'units', 'parent_id', 'variant_name', 'components', 'created_at', 'updated_at'],
+  toRow: p => [
+    p.id, p.name, p.price, p.costPrice ?? null, p.unit ?? null, p.stock, p.lowStockThreshold,
+    p.imageUri ?? null, p.category ?? '', p.barcode ?? null, p.isMarketplace ? 1 : 0,
+    p.marketplaceListing ? json(p.marketplaceListing) : null, p.taxExempt ? 1 : 0, json(p.units ?? []),
+    p.parentId ?? null, p.variantName ?? null, json(p.components ?? []), p.createdAt, p.updatedAt,
+  ],
+  fromRow: r => ({
+    id: r.id as string,
+    name: r.name as string,
+    price: r.price as number,
+    costPrice: (r.cost_price as number) ?? null,
+    unit: (r.unit as string) ?? null,
+    stock: r.stock as number,
+    lowStockThreshold: r.low_stock_threshold as number,
+    imageUri: (r.image_uri as string) ?? null,
+    category: r.category as string,
+    barcode: (r.barcode as string) ?? null,
+    isMarketplace: r.is_marketplace === 1,
+    marketplaceListing: parse<Product['marketplaceListing']>(r.marketplace_listing, null),
+    taxExempt: r.tax_exempt === 1,
+    units: parse<Product['units']>(r.units, []),
+    parentId: (r.parent_id as string) ?? null,
+    variantName: (r.variant_name as string) ?? null,
+    components: parse<Product['components']>(r.components, []),
+    createdAt: r.created_at as string,
+    updatedAt: r.updated_at as string,
+  }),
+};
+
+export const salesTable: TableCodec<Sale> = {
+  table: 'sales',
+  columns: ['id', 'items', 'total', 'amount_paid', 'change', 'cash_amount', 'transfer_amount', 'payment_method', 'is_credit', 'customer_name', 'customer_id', 'staff_id', 'staff_name', 'payment_id', 'gateway_provider', 'discount', 'promo_code', 'tax', 'tax_rate', 'tax_inclusive', 'voided_at', 'void_reason', 'voided_by', 'loyalty_points_earned', 'loyalty_points_redeemed', 'loyalty_amount', 'created_at'],
+  toRow: s => [
+    s.id, json(s.items), s.total, s.amountPaid, s.change, s.cashAmount ?? s.amountPaid, s.transferAmount ?? 0,
+    s.paymentMethod ?? 'cash', s.isCredit ? 1 : 0, s.customerName ?? null, s.customerId ?? null, s.staffId ?? null,
+    s.staffName ?? null, s.paymentId ?? null, s.gatewayProvider ?? null, s.discount ?? 0, s.promoCode ?? null,
+    s.tax ?? 0, s.taxRate ?? 0, s.taxInclusive ? 1 : 0, s.voidedAt ?? null, s.voidReason ?? '',
+    s.voidedBy ?? null, s.loyaltyPointsEarned ?? 0, s.loyaltyPointsRedeemed ?? 0, s.loyaltyAmount ?? 0, s.createdAt,
+  ],
+  fromRow: r => ({
+    id: r.id as string,
+    items: parse<Sale['items']>(r.items, []),
+    total: r.total as number,
+    amountPaid: r.amount_paid as number,
+    change: r.change as number,
+    cashAmount: r.cash_amount as number,
+    transferAmount: r.transfer_amount as number,
+    paymentMethod: r.payment_method as Sale['paymentMethod'],
+    isCredit: r.is_credit === 1,
+    customerName: (r.customer_name as string) ?? null,
+    customerId: (r.customer_id as string) ?? null,
+    staffId: (r.staff_id as string) ?? null,
+    staffName: (r.staff_name as string) ?? null,
+    paymentId: (r.payment_id as string) ?? null,
+    gatewayProvider: (r.gateway_provider as Sale['gatewayProvider']) ?? null,
+    discount: (r.discount as number) ?? 0,
+    promoCode: (r.promo_code as string) ?? null,
+    tax: (r.tax as number) ?? 0,
+    taxRate: (r.tax_rate as number) ?? 0,
+    taxInclusive: r.tax_inclusive === 1,
+    voidedAt: (r.voided_at as string) ?? null,
+    voidReason: (r.void_reason as string) ?? '',
+    voidedBy: (r.voided_by as string) ?? null,
+    loyaltyPointsEarned: (r.loyalty_points_earned as number) ?? 0,
+    loyaltyPointsRedeemed: (r.loyalty_points_redeemed as number) ?? 0,
+    loyaltyAmount: (r.loyalty_amount as number) ?? 0,
+    createdAt: r.created_at as string,
+  }),
+};
+
+export const saleReturnsTable: TableCodec<SaleReturn> = {
+  table: 'sale_returns',
+  columns: ['id', 'sale_id', 'items', 'amount', 'tax', 'refund_method', 'reason', 'staff_id', 'staff_name', 'created_at'],
+  toRow: r => [
+    r.id, r.saleId, json(r.items), r.amount, r.tax ?? 0, r.refundMethod, r.reason ?? '',
+    r.staffId ?? null, r.staffName ?? null, r.createdAt,
+  ],
+  fromRow: r => ({
+    id: r.id as string,
+    saleId: r.sale_id as string,
+    items: parse<SaleReturn['items']>(r.items, []),
+    amount: r.amount as number,
+    tax: (r.tax as number) ?? 0,
+    refundMethod: r.refund_method as SaleReturn['refundMethod'],
+    reason: (r.reason as string) ?? '',
+    staffId: (r.staff_id as string) ?? null,
+    staffName: (r.staff_name as string) ?? null,
+    createdAt: r.created_at as string,
+  }),
+};
+
+export const customersTable: TableCodec<Customer> = {
+  table: 'customers',
+  columns: ['id', 'name', 'phone', 'address', 'notes', 'created_at', 'updated_at'],
+  toRow: c => [c.id, c.name, c.phone ?? '', c.address ?? '', c.notes ?? '', c.createdAt, c.updatedAt],
+  fromRow: r => ({
+    id: r.id as string,
+    name: r.name as string,
+    phone: (r.phone as string) ?? '',
+    address: (r.address as string) ?? '',
+    notes: (r.notes as string) ?? '',
+    createdAt: r.created_at as string,
+    updatedAt: r.updated_at as string,
+  }),
+};
+
+export const creditPaymentsTable: TableCodec<CreditPayment> = {
+  table: 'credit_payments',
+  columns: ['id', 'customer_id', 'amount', 'method', 'note', 'staff_id', 'staff_name', 'created_at'],
+  toRow: p => [p.id, p.customerId, p.amount, p.method, p.note ?? '', p.staffId ?? null, p.staffName ?? null, p.createdAt],
+  fromRow: r => ({
+    id: r.id as string,
+    customerId: r.customer_id as string,
+    amount: r.amount as number,
+    method: r.method as CreditPayment['method'],
+    note: (r.note as string) ?? '',
+    staffId: (r.staff_id as string) ?? null,
+    staffName: (r.staff_name as string) ?? null,
+    createdAt: r.created_at as string,
+  }),
+};
+
+export const loyaltyEntriesTable: TableCodec<LoyaltyEntry> = {
+  table: 'loyalty_entries',
+  columns: ['id', 'customer_id', 'sale_id', 'kind', 'points', 'staff_id', 'staff_name', 'created_at'],
+  toRow: e => [e.id, e.customerId, e.saleId ?? null, e.kind, e.points, e.staffId ?? null, e.staffName ?? null, e.createdAt],
+  fromRow: r => ({
+    id: r.id as string,
+    customerId: r.customer_id as string,
+    saleId: (r.sale_id as string) ?? null,
+    kind: r.kind as LoyaltyEntry['kind'],
+    points: r.points as number,
+    staffId: (r.staff_id as string) ?? null,
+    staffName: (r.staff_name as string) ?? null,
+    createdAt: r.created_at as string,
+  }),
+};
+
+export const ordersTable: TableCodec<Order> = {
+  table: 'orders',
+  columns: [
+    'id', 'items', 'total', 'customer_name', 'customer_phone', 'customer_id', 'delivery_address', 'status', 'notes',
+    'created_at', 'updated_at',
+  ],
+  toRow: o => [
+    o.id, json(o.items), o.total, o.customerName ?? '', o.customerPhone ?? '', o.customerId ?? null, o.deliveryAddress ?? '',
+    o.status, o.notes ?? '', o.createdAt, o.updatedAt,
+  ],
+  fromRow: r => ({
+    id: r.id as string,
+    items: parse<Order['items']>(r.items, []),
+    total: r.total as number,
+    customerName: r.customer_name as string,
+    customerPhone: r.customer_phone as string,
+    customerId: (r.customer_id as string) ?? null,
+    deliveryAddress: r.delivery_address as string,
+    status: r.status as Order['status'],
+    notes: r.notes as string,
+    createdAt: r.created_at as string,
+    updatedAt: r.updated_at as string,
+  }),
+};
+
+export const staffTable: TableCodec<StaffMember> = {
+  table: 'staff_members',
+  columns: ['id', 'name', 'role', 'pin_hash', 'has_pin', 'is_active', 'activity_log', 'created_at', 'updated_at'],
+  toRow: m => [
+    m.id, m.name, m.role, m.pinHash ?? null, m.hasPin ? 1 : 0, m.isActive ? 1 : 0, json(m.activityLog ?? []),
+    m.createdAt, m.updatedAt ?? m.createdAt,
+  ],
+  fromRow: r => ({
+    id: r.id as string,
+    name: r.name as string,
+    role: r.role as StaffMember['role'],
+    pinHash: (r.pin_hash as string) ?? null,
+    hasPin: r.has_pin === 1,
+    isActive: r.is_active === 1,
+    activityLog: parse<StaffMember['activityLog']>(r.activity_log, []),
+    createdAt: r.created_at as string,
+    updatedAt: r.updated_at as string,
+  }),
+};
+
+export const expensesTable: TableCodec<Expense> = {
+  table: 'expenses',
+  columns: ['id', 'title', 'amount', 'category', 'date', 'notes', 'created_at'],
+  toRow: e => [e.id, e.title, e.amount, e.category ?? '', e.date, e.notes ?? '', e.createdAt],
+  fromRow: r => ({
+    id: r.id as string,
+    title: r.title as string,
+    amount: r.amount as number,
+    category: r.category as string,
+    date: r.date as string,
+    notes: r.notes as string,
+    createdAt: r.created_at as string,
+  }),
+};
+
+// Older installs stored entities as written at the time. Migration 2 copies
+// them into the version 1 tables, so the import keeps its own frozen column
+// lists instead of following the current codecs; columns added since get
+// their defaults from the migrations that add them.
+type Legacy = Record<string, unknown>;
+
+// Blobs are parsed JSON, so each field is checked before it is bound
+const text = (value: unknown, fallback: string | null = null) => (typeof value === 'string' ? value : fallback);
+const num = (value: unknown, fallback: number | null = 0) => (typeof value === 'number' ? value : fallback);
+
+interface LegacyImport extends RowWriter<Legacy> {
+  key: string;
+}
+
+// Blobs written by the AsyncStorage-only versions of the app, imported once
+const LEGACY_KEYS: LegacyImport[] = [
+  {
+    key: '@shoptally_products',
+    table: 'products',
+    columns: ['id', 'name', 'price', 'cost_price', 'unit', 'stock', 'low_stock_threshold', 'image_uri', 'category', 'barcode', 'is_marketplace', 'marketplace_listing', 'created_at', 'updated_at'],
+    toRow: p => [
+      text(p.id), text(p.name), num(p.price), num(p.costPrice, null), text(p.unit), num(p.stock), num(p.lowStockThreshold, 5),
+      text(p.imageUri), text(p.category, ''), text(p.barcode), p.isMarketplace ? 1 : 0,
+      p.marketplaceListing ? json(p.marketplaceListing) : null, text(p.createdAt), text(p.updatedAt, text(p.createdAt)),
+    ],
+  },
+  {
+    key: '@shoptally_sales',
+    table: 'sales',
+    columns: ['id', 'items', 'total', 'amount_paid', 'change', 'cash_amount', 'transfer_amount', 'payment_method', 'is_credit', 'customer_name', 'staff_id', 'staff_name', 'payment_id', 'gateway_provider', 'created_at'],
+    toRow: s => {
+      const paymentMethod = text(s.paymentMethod, 'cash');
+      const amountPaid = num(s.amountPaid);
+      return [
+        text(s.id), json(s.items ?? []), num(s.total), amountPaid, num(s.change),
+        num(s.cashAmount, paymentMethod === 'transfer' ? 0 : amountPaid),
+        num(s.transferAmount, paymentMethod === 'transfer' ? amountPaid : 0),
+        paymentMethod, s.isCredit ? 1 : 0, text(s.customerName), text(s.staffId), text(s.staffName),
+        text(s.paymentId), text(s.gatewayProvider), text(s.createdAt),
+      ];
+    },
+  },
+  {
+    key: '@shoptally_orders',
+    table: 'orders',
+    columns: ['id', 'items', 'total', 'customer_name', 'customer_phone', 'delivery_address', 'status', 'notes', 'created_at', 'updated_at'],
+    toRow: o => [
+      text(o.id), json(o.items ?? []), num(o.total), text(o.customerName, ''), text(o.customerPhone, ''), text(o.deliveryAddress, ''),
+      text(o.status, 'new'), text(o.notes, ''), text(o.createdAt), text(o.updatedAt, text(o.createdAt)),
+    ],
+  },
+  {
+    key: '@shoptally_staff',
+    table: 'staff_members',
+    columns: ['id', 'name', 'role', 'pin', 'is_active', 'activity_log', 'created_at', 'updated_at'],
+    toRow: m => [
+      text(m.id), text(m.name), text(m.role, 'cashier'), text(m.pin, ''), m.isActive === false ? 0 : 1, json(m.activityLog ?? []),
+      text(m.createdAt), text(m.updatedAt, text(m.createdAt)),
+    ],
+  },
+  {
+    key: '@shoptally_expenses',
+    table: 'expenses',
+    columns: ['id', 'title', 'amount', 'category', 'date', 'notes', 'created_at'],
+    toRow: e => [text(e.id), text(e.title), num(e.amount), text(e.category, ''), text(e.date), text(e.notes, ''), text(e.createdAt, text(e.date))],
+  },
+];
+
+// Tables added after the AsyncStorage era have no legacy key to import
+const ENTITY_TABLES = [
+  ...LEGACY_KEYS.map(l => l.table),
+  saleReturnsTable.table,
+  customersTable.table,
+  creditPaymentsTable.table,
+  loyaltyEntriesTable.table,
+];
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+// Each shop gets its own database file; null is the original, unscoped one
+let databaseName = DATABASE_NAME;
+
+export function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(databaseName).catch(err => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+async function openDatabase(name: string): Promise<SQLite.SQLiteDatabase> {
+  const db = await SQLite.openDatabaseAsync(name);
+  await db.execAsync('PRAGMA journal_mode = WAL;');
+  await runMigrations(db);
+  return db;
+}
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Bring `db` up to `target`, the newest version unless a test stops short. */
+export async function runMigrations(db: SQLite.SQLiteDatabase, target: number = SCHEMA_VERSION): Promise<void> {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const current = row?.user_version ?? 0;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current || migration.version > target) continue;
+    await db.withTransactionAsync(async () => {
+      await migration.up(db);
+      await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+    });
+  }
+}
+
+/**
+ * Copy any `@shoptally_*` arrays left by older installs into the version 1
+ * tables, then remove the keys.
+ */
+async function importLegacyData(db: SQLite.SQLiteDatabase): Promise<void> {
+  const entries = await AsyncStorage.multiGet(LEGACY_KEYS.map(l => l.key));
+  const found = entries.filter(([, value]) => value != null);
+  if (found.length === 0) return;
+
+  for (const [key, value] of found) {
+    const legacy = LEGACY_KEYS.find(l => l.key === key)!;
+    const items: Legacy[] = JSON.parse(value as string) ?? [];
+    await upsertRows(db, legacy, items);
+  }
+  await AsyncStorage.multiRemove(found.map(([key]) => key));
+}
+
+async function upsertRows<T>(db: SQLite.SQLiteDatabase, codec: RowWriter<T>, items: T[]): Promise<void> {
+  if (items.length === 0) return;
+  const placeholders = codec.columns.map(() => '?').join(', ');
+  const statement = await db.prepareAsync(
+    `INSERT OR REPLACE INTO ${codec.table} (${codec.columns.join(', ')}) VALUES (${placeholders})`,
+  );
+  try {
+    for (const item of items) {
+      await statement.executeAsync(codec.toRow(item));
+    }
+  } finally {
+    await statement.finalizeAsync();
+  }
+}
+
+async function deleteRows(db: SQLite.SQLiteDatabase, table: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const statement = await db.prepareAsync(`DELETE FROM ${table} WHERE id = ?`);
+  try {
+    for (const id of ids) {
+      await statement.executeAsync([id]);
+    }
+  } finally {
+    await statement.finalizeAsync();
+  }
+}
+
+// Last list written per table, by id. ShopProvider replaces only the objects
+// it changes, so comparing references finds the rows that need writing.
+const snapshots = new Map<string, Map<string, unknown>>();
+
+// Writes run one at a time, in the order the saves were made
+let writeChain: Promise<void> = Promise.resolve();
+
+export async function loadTable<T extends { id: string }>(codec: TableCodec<T>): Promise<T[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<Row>(`SELECT * FROM ${codec.table} ORDER BY created_at DESC`);
+  const items = rows.map(codec.fromRow);
+  snapshots.set(codec.table, new Map(items.map(item => [item.id, item])));
+  return items;
+}
+
+/**
+ * Persist a full list by writing only what changed since the last load or
+ * save of the same table. Without a snapshot the table is rewritten.
+ */
+export function saveTable<T extends { id: string }>(codec: TableCodec<T>, items: T[]): Promise<void> {
+  const previous = snapshots.get(codec.table);
+  const next = new Map(items.map(item => [item.id, item]));
+  snapshots.set(codec.table, next);
+
+  const changed = previous ? items.filter(item => previous.get(item.id) !== item) : items;
+  const removed = previous ? [...previous.keys()].filter(id => !next.has(id)) : [];
+
+  const write = writeChain.then(async () => {
+    const db = await getDatabase();
+    await db.withTransactionAsync(async () => {
+      if (!previous) await db.runAsync(`DELETE FROM ${codec.table}`);
+      await deleteRows(db, codec.table, removed);
+      await upsertRows(db, codec, changed);
+    });
+  });
+  // A failed write leaves the snapshot ahead of the table; rewrite it next time
+  writeChain = write.catch(() => {
+    snapshots.delete(codec.table);
+  });
+  return write;
+}
+
+export function clearTables(): Promise<void> {
+  snapshots.clear();
+  const clear = writeChain.then(async () => {
+    const db = await getDatabase();
+    await db.withTransactionAsync(async () => {
+      for (const table of ENTITY_TABLES) {
+        await db.runAsync(`DELETE FROM ${table}`);
+      }
+    });
+  });
+  writeChain = clear.catch(() => {});
+  return clear;
+}
+
+function databaseFile(namespace: string | null): string {
+  return namespace ? `shoptally-${namespace}.db` : DATABASE_NAME;
+}
+
+/**
+ * Point every later load and save at another shop's database file, once the
+ * writes already made have landed in the current one.
+ */
+export function setDatabaseNamespace(namespace: string | null): Promise<void> {
+  const name = databaseFile(namespace);
+  const change = writeChain.then(async () => {
+    if (name === databaseName) return;
+    const previous = dbPromise;
+    dbPromise = null;
+    databaseName = name;
+    snapshots.clear();
+    if (previous) await (await previous.catch(() => null))?.closeAsync();
+  });
+  writeChain = change.catch(() => {});
+  return change;
+}
+
+/** Delete a shop's database file. It must not be the one currently in use. */
+export async function deleteDatabaseNamespace(namespace: string): Promise<void> {
+  const name = databaseFile(namespace);
+  if (name === databaseName) throw new Error(`${name} is in use`);
+  await SQLite.deleteDatabaseAsync(name).catch(() => {});
+}
@@ -101,6 +101,7 @@ const en = {
     owner: 'Owner',
     activityLog: 'Activity Log',
     inStock: 'in stock',
+    variantsCount: '{{count}} variants',
     sold: 'sold',
     items: 'items',
     item: 'item',
@@ -113,6 +114,7 @@ const en = {
     financialDashboard: 'Financial Dashboard',
     creditSales: 'Credit Sales',
     paidSales: 'Paid Sales',
+    expenses: 'Expenses',
     lowStockAlert: 'Low Stock Alert',
     general: 'General',
     addPhoto: 'Add Photo',
@@ -216,6 +218,223 @@ const en = {
     paymentReceivedMsg: '{{amount}} received via {{provider}}',
     ownerOnlyTitle: 'Owner Only',
     ownerOnlyFeature: 'Only the shop owner can configure this feature.',
+    // Sync conflicts
+    syncConflicts: 'Sync Conflicts',
+    syncConflictsHint: 'Another phone changed these records at the same time. The newer edit was kept — choose a side to change it.',
+    syncConflictsCount: '{{count}} to review',
+    noSyncConflicts: 'No conflicts to review',
+    thisPhone: 'This phone',
+    otherPhone: 'Other phone',
+    keepMine: 'Keep this phone',
+    keepServer: 'Keep other phone',
+    conflictApplied: 'Applied: {{side}}',
+    conflictNotSynced: 'Choice saved, but it could not sync yet: {{error}}',
+    conflictDeleteKept: 'Deleted on this phone but edited on another, so it was kept.',
+    // Sync issues (dead-letter queue)
+    syncIssues: 'Sync Issues',
+    syncIssuesHint: 'These changes failed to upload after several tries. Retry them, fix the data, or discard them.',
+    syncIssuesCount: '{{count}} stuck',
+    noSyncIssues: 'Everything has reached the server',
+    syncIssueRetry: 'Retry',
+    syncIssueEdit: 'Edit',
+    syncIssueSaveRetry: 'Save & Retry',
+    syncIssueDiscard: 'Discard',
+    syncIssueDiscardConfirm: 'This change will never reach the server. Discard it?',
+    syncIssueRequeued: 'Sent back to the sync queue',
+    syncIssueInvalidJson: 'This is not valid JSON',
+    syncIssueIdChanged: 'The record id cannot be changed',
+    // Sync status
+    syncStatusSyncing: 'Syncing…',
+    syncStatusPending: '{{count}} waiting',
+    syncStatusSalesPending: '{{count}} sales not sent',
+    syncStatusFailed: 'Not sent',
+    syncStatusSynced: 'Synced {{time}}',
+    syncStatusNever: 'Not synced yet',
+    justNow: 'just now',
+    minutesAgo: '{{count}}m ago',
+    hoursAgo: '{{count}}h ago',
+    daysAgo: '{{count}}d ago',
+    // Backup & restore
+    backupRestore: 'Backup & Restore',
+    backupRestoreSub: 'Move this shop to another phone without the cloud',
+    createBackup: 'Create backup',
+    createBackupHint: 'Saves every product, sale, order, expense and setting on this phone into one file you can share or keep.',
+    backupPasswordOptional: 'Password (optional)',
+    createBackupShare: 'Create & share',
+    restoreBackup: 'Restore backup',
+    restoreBackupHint: 'Replaces everything on this phone with the contents of a backup file.',
+    restoreBackupConfirm: 'Everything on this phone will be replaced by this backup. Continue?',
+    chooseBackupFile: 'Choose backup file',
+    backupPassword: 'Backup password',
+    unlockBackup: 'Unlock',
+    backupPasswordWorking: 'Applying the password, this can take a few seconds…',
+    backupCreatedAt: 'Created {{date}}',
+    backupPendingSync: 'Changes not yet synced',
+    backupRestored: 'Backup restored',
+    backupInvalid: 'This is not a ShopTally backup file',
+    backupTooNew: 'This backup was made by a newer version of ShopTally. Update the app and try again.',
+    backupWrongPassword: 'Wrong password, or the file is damaged',
+    backupOtherShop: 'This backup belongs to a different shop. Switch to that shop and try again.',
+    // Shop switcher
+    switchShop: 'Switch shop',
+    switchShopPending: '{{count}} changes from this shop haven\'t uploaded yet. They stay on this phone and upload next time you open it.',
+    shopSwitched: 'Now in {{name}}',
+    // Held carts
+    heldCartDefaultName: 'Customer {{count}}',
+    // Discounts & promo codes
+    promoCodes: 'Promo Codes',
+    promoCodesSub: 'Reusable discount codes for customers',
+    promoCodesCount: '{{count}} active',
+    addPromoCode: 'Add Promo Code',
+    editPromoCode: 'Edit Promo Code',
+    promoCode: 'Code',
+    discountPercent: 'Percent (%)',
+    discountFixed: 'Amount (₦)',
+    discountValue: 'Discount',
+    promoCodeStartsOn: 'Starts on (YYYY-MM-DD)',
+    promoCodeEndsOn: 'Ends on (YYYY-MM-DD)',
+    promoCodeDatesHint: 'Leave a date empty for no limit',
+    noPromoCodes: 'No promo codes yet',
+    promoCodeSaved: 'Promo code saved',
+    promoCodeDeleted: 'Promo code deleted',
+    deletePromoCodeConfirm: 'Delete promo code {{code}}? Past sales keep their discount.',
+    promoCodeRequired: 'Enter a code and a discount above zero',
+    promoCodePercentTooHigh: 'A percent discount can\'t be more than 100',
+    promoCodeBadDate: 'Dates must look like 2025-12-31',
+    promoCodeDateOrder: 'The end date is before the start date',
+    promoCodeDuplicate: 'Another promo code already uses {{code}}',
+    promoCodeNotFound: 'No promo code matches that',
+    promoCodeExpired: 'This promo code isn\'t valid today',
+    promoCodeStatusExpired: 'Expired',
+    promoCodeStatusScheduled: 'Not started',
+    // Tax
+    taxSettings: 'Tax',
+    taxSettingsSub: 'VAT on receipts and reports',
+    taxSettingsActive: '{{name}} {{rate}}%',
+    chargeTax: 'Charge tax',
+    chargeTaxSub: 'Work out tax on every sale',
+    taxName: 'Tax name',
+    taxRate: 'Rate (%)',
+    taxPricing: 'Your prices',
+    taxInclusive: 'Include tax',
+    taxExclusive: 'Exclude tax',
+    taxInclusiveHint: 'Customers pay the shelf price; the tax inside it is shown on the receipt',
+    taxExclusiveHint: 'Tax is added on top of the shelf price at the till',
+    taxId: 'Tax ID (TIN)',
+    taxIdHint: 'Printed on receipts',
+    taxSettingsSaved: 'Tax settings saved',
+    taxNameRequired: 'Enter a name for the tax',
+    taxRateInvalid: 'Enter a rate between 0 and 100',
+    // Returns
+    returns: 'Returns',
+    returnItems: 'Return Items',
+    returnAll: 'Return all',
+    returnableCount: '{{count}} of {{sold}} can be returned',
+    returnRestock: 'Put back in stock',
+    returnNothingLeft: 'Everything on this sale has already been returned',
+    refundMethod: 'Refund by',
+    refundCash: 'Cash',
+    refundTransfer: 'Transfer',
+    refundCredit: 'Off credit',
+    returnReason: 'Reason (optional)',
+    returnReasonPlaceholder: 'e.g. wrong size, damaged',
+    refundAmount: 'Refund {{amount}}',
+    returnRecorded: 'Return recorded, refund {{amount}}',
+    returnPointsBack: '{{amount}} was paid with points and goes back as points',
+    returnSaleNotFound: 'This sale could not be found',
+    returnTooMany: 'More {{name}} than is left to return on this sale',
+    returnNothingSelected: 'Choose at least one item to return',
+
+    // Voids
+    approvalPin: 'Approval PIN',
+    approvalPinSub: 'Needed before a sale can be voided',
+    approvalPinSet: 'Set — owner approves voids',
+    approvalPinHint: 'Cashiers can\'t void a sale on their own. You key in this PIN on their device to approve it, and the void is logged against you.',
+    newPin: 'New PIN',
+    confirmPin: 'Confirm PIN',
+    pinInvalidFormat: 'PIN must be 4 to 6 digits',
+    pinMismatch: 'The two PINs don\'t match',
+    approvalPinSaved: 'Approval PIN saved',
+    approvalPinNotSaved: 'Couldn\'t save the PIN. Check your connection and try again.',
+    saleAlreadyVoided: 'This sale has already been voided',
+    voidHasReturns: 'Items on this sale were already returned, so it can\'t be voided',
+    voidReasonRequired: 'Give a reason for the void',
+    ownerPinInvalid: 'Wrong owner PIN',
+    ownerPinLocked: 'Too many wrong PINs. Try again in 15 minutes.',
+    voidApprovalFailed: 'Couldn\'t check the PIN. Voids need an internet connection.',
+    voidActivityDetails: 'Voided sale #{{id}} ({{amount}}) rung up by {{staff}}: {{reason}}',
+
+    // Credit accounts
+    creditAccounts: 'Credit Accounts',
+    creditAccountsSub: 'Who owes you and for how long',
+    creditAccountsOwed: '{{amount}} owed to you',
+    repayments: 'Repayments',
+    creditOutstanding: 'Outstanding credit',
+    ageingCurrent: '0–30 days',
+    ageing31to60: '31–60 days',
+    ageingOver60: '60+ days',
+    customers: 'Customers',
+    showSettled: 'Show settled',
+    hideSettled: 'Hide settled',
+    noCreditOutstanding: 'Nobody owes you anything right now',
+    owingSince: 'Owing since {{date}}',
+    accountSettled: 'Settled',
+    customerNotFound: 'This customer could not be found',
+    balanceOwed: 'Balance owed',
+    sendReminder: 'Remind',
+    customerPhoneSaved: 'Phone number saved',
+    customerPhoneRequired: 'Add the customer\'s phone number first',
+    creditReminderMessage: 'Hello {{name}}, this is a friendly reminder from {{shop}} that you have an outstanding balance of {{amount}}. Thank you!',
+    recordRepayment: 'Record repayment',
+    repaymentAmount: 'Amount paid',
+    repaymentNote: 'Note (optional)',
+    repaymentInvalid: 'Enter an amount greater than zero',
+    repaymentRecorded: 'Repayment of {{amount}} recorded',
+    accountHistory: 'History',
+    ledgerSale: 'Credit sale',
+    ledgerReturn: 'Return',
+    ledgerPayment: 'Repayment',
+
+    // Customer directory
+    customersSub: 'Keep names, numbers and addresses in one place',
+    customersCount: '{{count}} saved',
+    searchCustomers: 'Search by name or phone',
+    noCustomersYet: 'Customers you add or sell to by name show up here',
+    noCustomersMatch: 'No customer matches that search',
+    addCustomer: 'Add Customer',
+    customerNameRequired: 'Enter the customer\'s name',
+    customerExists: 'A customer with this name or phone number is already saved',
+    customerSaved: 'Customer saved',
+    customerNotes: 'Notes',
+    customerNotesPlaceholder: 'e.g. prefers delivery after 5pm',
+    totalSpend: 'Total spend',
+    visits: 'Visits',
+    lastVisit: 'Last visit',
+    lastVisitOn: 'Last visit {{date}}',
+    noVisitsYet: 'No purchases yet',
+    purchaseHistory: 'Purchase history',
+    loyaltyPoints: 'Loyalty points',
+    loyaltySettings: 'Loyalty Points',
+    loyaltySettingsSub: 'Reward regular customers',
+    loyaltySettingsActive: '1 point per {{spend}} spent',
+    loyaltySettingsSaved: 'Loyalty settings saved',
+    loyaltyEnable: 'Give loyalty points',
+    loyaltyEnableSub: 'Saved customers earn points on what they pay and spend them at the till',
+    loyaltySpendPerPoint: 'Spend for 1 point (₦)',
+    loyaltyPointValue: 'Value of 1 point (₦)',
+    loyaltyMinRedeem: 'Points needed to redeem',
+    loyaltyExample: 'Spending {{spend}} earns {{points}} points, worth {{value}} off a later sale',
+    loyaltySpendInvalid: 'Enter how much a customer spends to earn a point',
+    loyaltyValueInvalid: 'Enter what one point is worth',
+    loyaltyMinimumInvalid: 'Enter the fewest points a customer can redeem',
+    loyaltyRedeemUnavailable: 'Points can only be used on a paid sale to a saved customer',
+    loyaltyNotEnoughPoints: 'The customer only has {{points}} points',
+    loyaltyPointsWorth: '{{points}} pts · {{amount}}',
+    loyaltyHistory: 'Points history',
+    loyaltyEntry_earn: 'Earned on a sale',
+    loyaltyEntry_redeem: 'Spent on a sale',
+    loyaltyEntry_return: 'Taken back for a return',
+    loyaltyEntry_void: 'Reversed for a voided sale',
   },
 };
 
@@ -319,6 +538,7 @@ const ha = {
     owner: 'Mai shago',
     activityLog: 'Tarihin Aiki',
     inStock: 'a cikin kaya',
+    variantsCount: 'nau\'i {{count}}',
     sold: 'an sayar',
     items: 'kaya',
     item: 'kaya',
@@ -331,6 +551,7 @@ const ha = {
     financialDashboard: 'Jagorar Kudi',
     creditSales: 'Siyayya a Bashi',
     paidSales: 'Siyayya da aka biya',
+    expenses: 'Kashe-kashe',
     lowStockAlert: 'Gargadin Kaya Kadan',
     general: 'Gabaɗaya',
     addPhoto: 'Saka Hoto',
@@ -434,6 +655,223 @@ const ha = {
     paymentReceivedMsg: 'An karbi {{amount}} ta {{provider}}',
     ownerOnlyTitle: 'Mai Shago Kawai',
     ownerOnlyFeature: 'Kawai mai shago ne zai iya saita wannan.',
+    // Sync conflicts
+    syncConflicts: 'Sabanin Daidaitawa',
+    syncConflictsHint: 'Wata waya ta canza waɗannan bayanai a lokaci guda. An ajiye sabon gyara — zaɓi gefe don canzawa.',
+    syncConflictsCount: '{{count}} don dubawa',
+    noSyncConflicts: 'Babu sabani da za a duba',
+    thisPhone: 'Wannan waya',
+    otherPhone: 'Ɗayan waya',
+    keepMine: 'Ajiye na wannan waya',
+    keepServer: 'Ajiye na ɗayan waya',
+    conflictApplied: 'An yi amfani da: {{side}}',
+    conflictNotSynced: 'An ajiye zaɓi, amma bai daidaita ba tukuna: {{error}}',
+    conflictDeleteKept: 'An share a wannan waya amma an gyara a wata, don haka an ajiye shi.',
+    // Sync issues (dead-letter queue)
+    syncIssues: 'Matsalolin Daidaitawa',
+    syncIssuesHint: 'Waɗannan canje-canje sun kasa hawa bayan gwaji da yawa. Sake gwadawa, gyara bayanan, ko watsar da su.',
+    syncIssuesCount: '{{count}} sun makale',
+    noSyncIssues: 'Komai ya isa sabar',
+    syncIssueRetry: 'Sake gwadawa',
+    syncIssueEdit: 'Gyara',
+    syncIssueSaveRetry: 'Ajiye ka sake gwadawa',
+    syncIssueDiscard: 'Watsar',
+    syncIssueDiscardConfirm: 'Wannan canjin ba zai taɓa isa sabar ba. A watsar da shi?',
+    syncIssueRequeued: 'An mayar da shi layin daidaitawa',
+    syncIssueInvalidJson: 'Wannan ba JSON mai inganci ba ne',
+    syncIssueIdChanged: 'Ba za a iya canza id ɗin bayanin ba',
+    // Sync status
+    syncStatusSyncing: 'Ana daidaitawa…',
+    syncStatusPending: '{{count}} suna jira',
+    syncStatusSalesPending: 'Ciniki {{count}} ba a tura ba',
+    syncStatusFailed: 'Ba a tura ba',
+    syncStatusSynced: 'An daidaita {{time}}',
+    syncStatusNever: 'Ba a daidaita ba tukuna',
+    justNow: 'yanzu-yanzu',
+    minutesAgo: 'minti {{count}} da suka wuce',
+    hoursAgo: 'awa {{count}} da suka wuce',
+    daysAgo: 'kwana {{count}} da suka wuce',
+    // Backup & restore
+    backupRestore: 'Ajiyar Bayanai & Maidowa',
+    backupRestoreSub: 'Mayar da wannan shago zuwa wata waya ba tare da intanet ba',
+    createBackup: 'Yi ajiyar bayanai',
+    createBackupHint: 'Yana ajiye duk kaya, ciniki, oda, kashe-kashe da saituna na wannan waya a fayil ɗaya da za ka iya turawa ko ajiyewa.',
+    backupPasswordOptional: 'Kalmar sirri (ba dole ba)',
+    createBackupShare: 'Ƙirƙira ka tura',
+    restoreBackup: 'Maido da ajiya',
+    restoreBackupHint: 'Yana maye gurbin komai a wannan waya da abin da ke cikin fayil ɗin ajiya.',
+    restoreBackupConfirm: 'Za a maye gurbin komai a wannan waya da wannan ajiya. A ci gaba?',
+    chooseBackupFile: 'Zaɓi fayil ɗin ajiya',
+    backupPassword: 'Kalmar sirrin ajiya',
+    unlockBackup: 'Buɗe',
+    backupPasswordWorking: 'Ana amfani da kalmar sirri, zai iya ɗaukar ɗan lokaci…',
+    backupCreatedAt: 'An ƙirƙira {{date}}',
+    backupPendingSync: 'Canje-canje da ba a daidaita ba',
+    backupRestored: 'An maido da ajiya',
+    backupInvalid: 'Wannan ba fayil ɗin ajiyar ShopTally ba ne',
+    backupTooNew: 'Sabuwar sigar ShopTally ce ta yi wannan ajiya. Sabunta manhajar ka sake gwadawa.',
+    backupWrongPassword: 'Kalmar sirri ba daidai ba ce, ko fayil ɗin ya lalace',
+    backupOtherShop: 'Wannan ajiya ta wani shago ce daban. Koma wancan shagon ka sake gwadawa.',
+    // Shop switcher
+    switchShop: 'Canja shago',
+    switchShopPending: 'Canje-canje {{count}} na wannan shago ba su hau ba tukuna. Za su zauna a wannan waya su hau idan ka sake buɗe shi.',
+    shopSwitched: 'Yanzu kana cikin {{name}}',
+    // Held carts
+    heldCartDefaultName: 'Abokin ciniki {{count}}',
+    // Discounts & promo codes
+    promoCodes: 'Lambobin Rangwame',
+    promoCodesSub: 'Lambobin rangwame da abokan ciniki za su sake amfani da su',
+    promoCodesCount: '{{count}} suna aiki',
+    addPromoCode: 'Ƙara Lambar Rangwame',
+    editPromoCode: 'Gyara Lambar Rangwame',
+    promoCode: 'Lamba',
+    discountPercent: 'Kashi (%)',
+    discountFixed: 'Adadi (₦)',
+    discountValue: 'Rangwame',
+    promoCodeStartsOn: 'Farawa (YYYY-MM-DD)',
+    promoCodeEndsOn: 'Ƙarewa (YYYY-MM-DD)',
+    promoCodeDatesHint: 'Bar kwanan wata babu komai idan babu iyaka',
+    noPromoCodes: 'Babu lambobin rangwame tukuna',
+    promoCodeSaved: 'An ajiye lambar rangwame',
+    promoCodeDeleted: 'An share lambar rangwame',
+    deletePromoCodeConfirm: 'Share lambar rangwame {{code}}? Tsofaffin cinikai za su riƙe rangwamensu.',
+    promoCodeRequired: 'Shigar da lamba da rangwame sama da sifili',
+    promoCodePercentTooHigh: 'Rangwamen kashi ba zai wuce 100 ba',
+    promoCodeBadDate: 'Kwanan wata ya zama kamar 2025-12-31',
+    promoCodeDateOrder: 'Ranar ƙarewa ta riga ranar farawa',
+    promoCodeDuplicate: 'Wata lambar rangwame tana amfani da {{code}}',
+    promoCodeNotFound: 'Babu lambar rangwame mai wannan suna',
+    promoCodeExpired: 'Wannan lambar rangwame ba ta aiki yau',
+    promoCodeStatusExpired: 'Ya ƙare',
+    promoCodeStatusScheduled: 'Bai fara ba',
+    // Tax
+    taxSettings: 'Haraji',
+    taxSettingsSub: 'VAT a rasit da rahoto',
+    taxSettingsActive: '{{name}} {{rate}}%',
+    chargeTax: 'Karɓi haraji',
+    chargeTaxSub: 'Lissafa haraji a kowace siyayya',
+    taxName: 'Sunan haraji',
+    taxRate: 'Kaso (%)',
+    taxPricing: 'Farashinka',
+    taxInclusive: 'Da haraji a ciki',
+    taxExclusive: 'Ba haraji a ciki',
+    taxInclusiveHint: 'Abokin ciniki zai biya farashin kaya; harajin da ke ciki zai bayyana a rasit',
+    taxExclusiveHint: 'Za a ƙara haraji kan farashin kaya lokacin biya',
+    taxId: 'Lambar haraji (TIN)',
+    taxIdHint: 'Za a buga a rasit',
+    taxSettingsSaved: 'An ajiye saitin haraji',
+    taxNameRequired: 'Saka sunan haraji',
+    taxRateInvalid: 'Saka kaso tsakanin 0 da 100',
+    // Returns
+    returns: 'Kayan da aka dawo',
+    returnItems: 'Dawo da Kaya',
+    returnAll: 'Dawo da duka',
+    returnableCount: '{{count}} cikin {{sold}} za a iya dawowa',
+    returnRestock: 'Mayar cikin kaya',
+    returnNothingLeft: 'An riga an dawo da duk kayan wannan siyayya',
+    refundMethod: 'Hanyar mayar da kuɗi',
+    refundCash: 'Tsabar kuɗi',
+    refundTransfer: 'Tura kuɗi',
+    refundCredit: 'Cire daga bashi',
+    returnReason: 'Dalili (ba dole ba)',
+    returnReasonPlaceholder: 'misali girma bai yi ba, ya lalace',
+    refundAmount: 'Mayar da {{amount}}',
+    returnRecorded: 'An rubuta dawowa, an mayar da {{amount}}',
+    returnPointsBack: 'An biya {{amount}} da maki, za a mayar da shi a matsayin maki',
+    returnSaleNotFound: 'Ba a sami wannan siyayya ba',
+    returnTooMany: '{{name}} ya fi abin da ya rage a dawo a wannan siyayya',
+    returnNothingSelected: 'Zaɓi aƙalla kaya ɗaya da za a dawo',
+
+    // Voids
+    approvalPin: 'Lambar Amincewa',
+    approvalPinSub: 'Ana bukata kafin a soke siyayya',
+    approvalPinSet: 'An saita — mai shago ne ke amince da sokewa',
+    approvalPinHint: 'Mai karbar kudi ba zai iya soke siyayya shi kadai ba. Kai ne za ka shigar da wannan lamba a wayarsa don amincewa, kuma za a rubuta sokewar da sunanka.',
+    newPin: 'Sabuwar Lamba',
+    confirmPin: 'Tabbatar da Lamba',
+    pinInvalidFormat: 'Lamba ta zama lambobi 4 zuwa 6',
+    pinMismatch: 'Lambobin biyu ba su yi daidai ba',
+    approvalPinSaved: 'An ajiye lambar amincewa',
+    approvalPinNotSaved: 'Ba a iya ajiye lambar ba. Duba intanet dinka ka sake gwadawa.',
+    saleAlreadyVoided: 'An riga an soke wannan siyayya',
+    voidHasReturns: 'An riga an dawo da kaya daga wannan siyayya, don haka ba za a iya soke ta ba',
+    voidReasonRequired: 'Ba da dalilin sokewa',
+    ownerPinInvalid: 'Lambar mai shago ba daidai ba ce',
+    ownerPinLocked: 'An yi kuskuren lamba da yawa. Sake gwadawa bayan minti 15.',
+    voidApprovalFailed: 'Ba a iya duba lambar ba. Sokewa na bukatar intanet.',
+    voidActivityDetails: 'An soke siyayya #{{id}} ({{amount}}) da {{staff}} ya yi: {{reason}}',
+
+    // Credit accounts
+    creditAccounts: 'Asusun Bashi',
+    creditAccountsSub: 'Wanda ke bin ka bashi da tsawon lokacin',
+    creditAccountsOwed: 'Ana bin ka {{amount}}',
+    repayments: 'Biyan Bashi',
+    creditOutstanding: 'Bashin da ba a biya ba',
+    ageingCurrent: 'Kwana 0–30',
+    ageing31to60: 'Kwana 31–60',
+    ageingOver60: 'Fiye da kwana 60',
+    customers: 'Abokan Ciniki',
+    showSettled: 'Nuna wadanda suka biya',
+    hideSettled: 'Boye wadanda suka biya',
+    noCreditOutstanding: 'Babu wanda ke bin ka bashi yanzu',
+    owingSince: 'Yana bin bashi tun {{date}}',
+    accountSettled: 'An biya',
+    customerNotFound: 'Ba a sami wannan abokin ciniki ba',
+    balanceOwed: 'Bashin da ake bi',
+    sendReminder: 'Tunatar',
+    customerPhoneSaved: 'An ajiye lambar waya',
+    customerPhoneRequired: 'Fara shigar da lambar wayar abokin ciniki',
+    creditReminderMessage: 'Sannu {{name}}, wannan tunatarwa ce daga {{shop}} cewa akwai bashin {{amount}} a kanka. Mun gode!',
+    recordRepayment: 'Rubuta biyan bashi',
+    repaymentAmount: 'Adadin da aka biya',
+    repaymentNote: 'Bayani (zabi)',
+    repaymentInvalid: 'Shigar da adadi fiye da sifili',
+    repaymentRecorded: 'An rubuta biyan {{amount}}',
+    accountHistory: 'Tarihi',
+    ledgerSale: 'Siyayyar bashi',
+    ledgerReturn: 'Mayarwa',
+    ledgerPayment: 'Biyan bashi',
+
+    // Customer directory
+    customersSub: 'Ajiye sunaye, lambobi da adireshi wuri guda',
+    customersCount: 'An ajiye {{count}}',
+    searchCustomers: 'Nemo da suna ko lambar waya',
+    noCustomersYet: 'Abokan cinikin da ka kara ko ka sayar musu da suna za su bayyana a nan',
+    noCustomersMatch: 'Babu abokin ciniki da ya dace da wannan binciken',
+    addCustomer: 'Kara Abokin Ciniki',
+    customerNameRequired: 'Shigar da sunan abokin ciniki',
+    customerExists: 'An riga an ajiye abokin ciniki mai wannan suna ko lambar waya',
+    customerSaved: 'An ajiye abokin ciniki',
+    customerNotes: 'Bayani',
+    customerNotesPlaceholder: 'misali, ya fi son a kai masa bayan karfe 5',
+    totalSpend: 'Jimillar kashewa',
+    visits: 'Ziyara',
+    lastVisit: 'Ziyarar karshe',
+    lastVisitOn: 'Ziyarar karshe {{date}}',
+    noVisitsYet: 'Babu siyayya tukuna',
+    purchaseHistory: 'Tarihin siyayya',
+    loyaltyPoints: 'Makin aminci',
+    loyaltySettings: 'Makin Aminci',
+    loyaltySettingsSub: 'Ba abokan ciniki na yau da kullum lada',
+    loyaltySettingsActive: 'Maki 1 kan kowane {{spend}} da aka kashe',
+    loyaltySettingsSaved: 'An ajiye saitin makin aminci',
+    loyaltyEnable: 'Ba da makin aminci',
+    loyaltyEnableSub: 'Abokan ciniki da aka ajiye suna samun maki kan abin da suka biya, su kashe su wajen biya',
+    loyaltySpendPerPoint: 'Kashewa don maki 1 (₦)',
+    loyaltyPointValue: 'Darajar maki 1 (₦)',
+    loyaltyMinRedeem: 'Makin da ake bukata kafin a kashe',
+    loyaltyExample: 'Kashe {{spend}} yana ba da maki {{points}}, darajar {{value}} a siyayya ta gaba',
+    loyaltySpendInvalid: 'Shigar da nawa abokin ciniki zai kashe don samun maki',
+    loyaltyValueInvalid: 'Shigar da darajar maki daya',
+    loyaltyMinimumInvalid: 'Shigar da mafi karancin makin da za a iya kashewa',
+    loyaltyRedeemUnavailable: 'Ana iya amfani da maki ne kawai a siyarwar da aka biya ga abokin ciniki da aka ajiye',
+    loyaltyNotEnoughPoints: 'Abokin ciniki yana da maki {{points}} kawai',
+    loyaltyPointsWorth: 'Maki {{points}} · {{amount}}',
+    loyaltyHistory: 'Tarihin maki',
+    loyaltyEntry_earn: 'An samu a siyarwa',
+    loyaltyEntry_redeem: 'An kashe a siyarwa',
+    loyaltyEntry_return: 'An cire saboda dawowa',
+    loyaltyEntry_void: 'An soke saboda soke siyarwa',
   },
 };
 
@@ -0,0 +1,56 @@
+import type { LoyaltyEntry, LoyaltySettings, Sale, SaleReturn } from './types';
+
+const roundKobo = (amount: number) => Math.round(amount * 100) / 100;
+
+/** Points a payment of `amount` earns; only whole points are given. */
+export function pointsEarned(amount: number, settings: LoyaltySettings): number {
+  if (!settings.enabled || amount <= 0 || settings.spendPerPoint <= 0) return 0;
+  return Math.floor(amount / settings.spendPerPoint);
+}
+
+/** Naira `points` take off a sale, never more than `due`. */
+export function redemptionValue(points: number, settings: LoyaltySettings, due: number = Infinity): number {
+  if (points <= 0 || settings.pointValue <= 0) return 0;
+  return roundKobo(Math.min(points * settings.pointValue, Math.max(0, due)));
+}
+
+/**
+ * Fewest points that pay off `due`, or the whole balance when it falls short.
+ * Nothing can be spent until the balance reaches the shop's minimum.
+ */
+export function pointsToCover(due: number, balance: number, settings: LoyaltySettings): number {
+  if (!settings.enabled || balance < settings.minRedeemPoints || settings.pointValue <= 0) return 0;
+  return Math.min(balance, Math.ceil(due / settings.pointValue));
+}
+
+/** A customer's points, optionally as they stood at `asOf` (an ISO timestamp). */
+export function loyaltyBalance(entries: LoyaltyEntry[], customerId: string, asOf?: string): number {
+  return entries
+    .filter(e => e.customerId === customerId && (!asOf || e.createdAt <= asOf))
+    .reduce((sum, e) => sum + e.points, 0);
+}
+
+/**
+ * Points a return moves on its sale: `earned` comes back off the customer
+ * for the money refunded, and `spent` goes back to them for the part paid
+ * with points. Earlier returns on the sale count towards both limits.
+ */
+export function returnPoints(
+  sale: Sale,
+  saleReturn: SaleReturn,
+  entries: LoyaltyEntry[],
+): { earned: number; spent: number } {
+  const earlier = entries.filter(e => e.saleId === sale.id && e.kind === 'return');
+  const clawedBack = -earlier.filter(e => e.points < 0).reduce((sum, e) => sum + e.points, 0);
+  const restored = earlier.filter(e => e.points > 0).reduce((sum, e) => sum + e.points, 0);
+
+  const paidInMoney = sale.total - sale.loyaltyAmount;
+  const earned = sale.loyaltyPointsEarned > 0 && paidInMoney > 0
+    ? Math.min(sale.loyaltyPointsEarned - clawedBack, Math.floor(sale.loyaltyPointsEarned * saleReturn.amount / paidInMoney))
+    : 0;
+  const pointsValue = saleReturn.items.reduce((sum, item) => sum + (item.loyaltyAmount ?? 0), 0);
+  const spent = sale.loyaltyPointsRedeemed > 0 && sale.loyaltyAmount > 0
+    ? Math.min(sale.loyaltyPointsRedeemed - restored, Math.round(sale.loyaltyPointsRedeemed * pointsValue / sale.loyaltyAmount))
+    : 0;
+  return { earned: Math.max(0, earned), spent: Math.max(0, spent) };
+}
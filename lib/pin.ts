@@ -0,0 +1,19 @@
+import * as Crypto from 'expo-crypto';
+import { bytesToHex, hexToBytes, utf8ToBytes, concatBytes } from '@noble/hashes/utils';
+import { sha256 } from '@noble/hashes/sha2';
+
+/** Approval PINs are four to six digits. */
+export const PIN_PATTERN = /^\d{4,6}$/;
+
+/** A salted hash of `pin`, stored as `salt:hash` in hex. */
+export function hashPin(pin: string): string {
+  const salt = Crypto.getRandomBytes(16);
+  return `${bytesToHex(salt)}:${bytesToHex(sha256(concatBytes(salt, utf8ToBytes(pin))))}`;
+}
+
+/** Whether `pin` is the one `stored` was made from; an empty hash matches nothing. */
+export function verifyPin(pin: string, stored: string | null): boolean {
+  const [salt, hash] = (stored ?? '').split(':');
+  if (!salt || !hash) return false;
+  return bytesToHex(sha256(concatBytes(hexToBytes(salt), utf8ToBytes(pin)))) === hash;
+}
@@ -0,0 +1,124 @@
+import dayjs from 'dayjs';
+import type { CartItem, Discount, PromoCode, Sale, SaleItem, SaleReturn, TaxSettings } from './types';
+import { cartItemPrice } from './units';
+
+const roundKobo = (amount: number) => Math.round(amount * 100) / 100;
+
+/** Naira a discount takes off `base`, never more than `base` itself. */
+export function discountAmount(base: number, discount: Discount | null | undefined): number {
+  if (!discount || base <= 0 || discount.value <= 0) return 0;
+  const raw = discount.type === 'percent'
+    ? base * Math.min(discount.value, 100) / 100
+    : discount.value;
+  return roundKobo(Math.min(raw, base));
+}
+
+/**
+ * Tax due on `amount`. Inclusive prices already contain the tax, so it is
+ * taken out of the amount; exclusive prices have it added on top.
+ */
+export function taxAmount(amount: number, tax: TaxSettings): number {
+  if (amount <= 0 || tax.rate <= 0) return 0;
+  return roundKobo(tax.pricesIncludeTax
+    ? amount * tax.rate / (100 + tax.rate)
+    : amount * tax.rate / 100);
+}
+
+// One cart line, in cart order
+export interface CartLineTotals {
+  gross: number;    // price * quantity
+  discount: number; // line discount only
+  tax: number;      // after the line's share of the cart discount
+}
+
+export interface CartTotals {
+  lines: CartLineTotals[];
+  subtotal: number;      // before any discount
+  lineDiscounts: number;
+  cartDiscount: number;
+  tax: number;
+  total: number;         // what the customer pays
+}
+
+export function calculateCartTotals(
+  cart: CartItem[],
+  discount: Discount | null,
+  tax: TaxSettings | null = null,
+): CartTotals {
+  const lines = cart.map(item => {
+    const gross = cartItemPrice(item) * item.quantity;
+    return { gross, discount: discountAmount(gross, item.discount), tax: 0 };
+  });
+  const subtotal = lines.reduce((sum, line) => sum + line.gross, 0);
+  const lineDiscounts = lines.reduce((sum, line) => sum + line.discount, 0);
+  const net = subtotal - lineDiscounts;
+  const cartDiscount = discountAmount(net, discount);
+
+  if (tax?.enabled) {
+    // The cart discount is shared across lines by value, so an exempt line
+    // doesn't soak up discount that should have lowered the taxable amount
+    cart.forEach((item, i) => {
+      if (item.product.taxExempt || net <= 0) return;
+      const lineNet = lines[i].gross - lines[i].discount;
+      lines[i].tax = taxAmount(lineNet - cartDiscount * lineNet / net, tax);
+    });
+  }
+  const totalTax = roundKobo(lines.reduce((sum, line) => sum + line.tax, 0));
+  const afterDiscounts = net - cartDiscount;
+
+  return {
+    lines,
+    subtotal,
+    lineDiscounts,
+    cartDiscount,
+    tax: totalTax,
+    total: roundKobo(tax?.enabled && !tax.pricesIncludeTax ? afterDiscounts + totalTax : afterDiscounts),
+  };
+}
+
+/** Sale value before discounts, so reports can show discounts as their own line. */
+export function saleGrossTotal(sale: Sale): number {
+  return sale.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+}
+
+export function saleDiscountTotal(sale: Sale): number {
+  return sale.items.reduce((sum, item) => sum + (item.discount ?? 0), 0) + (sale.discount ?? 0);
+}
+
+/**
+ * What the customer actually paid for `quantity` units of a sale line: the
+ * line's share of the cart discount comes off, and tax added at the till is
+ * given back with it. The share paid with loyalty points is split out as
+ * `loyaltyAmount`, so only `amount` goes back as money.
+ */
+export function saleLineRefund(
+  sale: Sale,
+  item: SaleItem,
+  quantity: number,
+): { amount: number; tax: number; loyaltyAmount: number } {
+  if (quantity <= 0 || item.quantity <= 0) return { amount: 0, tax: 0, loyaltyAmount: 0 };
+  const linesNet = sale.items.reduce((sum, i) => sum + i.subtotal, 0);
+  const cartShare = linesNet > 0 ? (sale.discount ?? 0) * item.subtotal / linesNet : 0;
+  const lineTax = item.tax ?? 0;
+  const linePaid = item.subtotal - cartShare + (sale.taxInclusive ? 0 : lineTax);
+  const fraction = quantity / item.quantity;
+  const paid = roundKobo(linePaid * fraction);
+  const loyaltyAmount = sale.total > 0 ? roundKobo(paid * sale.loyaltyAmount / sale.total) : 0;
+  return { amount: roundKobo(paid - loyaltyAmount), tax: roundKobo(lineTax * fraction), loyaltyAmount };
+}
+
+/** What a return took off sales: the money refunded plus what went back as points. */
+export function saleReturnValue(saleReturn: SaleReturn): number {
+  return roundKobo(saleReturn.items.reduce((sum, item) => sum + (item.loyaltyAmount ?? 0), saleReturn.amount));
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase().replace(/\s+/g, '');
+}
+
+export function isPromoCodeCurrent(promo: PromoCode, today: string = dayjs().format('YYYY-MM-DD')): boolean {
+  if (!promo.isActive) return false;
+  if (promo.startsOn && today < promo.startsOn) return false;
+  if (promo.endsOn && today > promo.endsOn) return false;
+  return true;
+}
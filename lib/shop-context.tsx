@@ -2,78 +2,116 @@ import React, { createContext, useContext, useState, useEffect, useCallback, use
 import * as Crypto from 'expo-crypto';
 import dayjs from 'dayjs';
 import i18n from './i18n';
-import { Product, Sale, CartItem, SaleItem, Order, OrderStatus, StaffMember, StaffRole, ShopProfile, MarketplaceListing, PaymentMethod, PaymentGateway, Expense } from './types';
+import { Product, Sale, SaleReturn, ReturnRequestItem, RefundMethod, Customer, CreditPayment, CreditPaymentMethod, LoyaltyEntry, LoyaltyEntryKind, CartItem, Discount, PromoCode, HeldCart, HeldCartAdjustment, SaleItem, Order, OrderStatus, StaffMember, StaffActivity, StaffRole, ShopProfile, MarketplaceListing, PaymentMethod, PaymentGateway, Expense, SyncConflict, SyncDeadLetter, SyncStatus, InventoryMovement, InventoryMovementReason } from './types';
 import { useAuth } from './auth-context';
 import { supabase } from './supabase';
-import { enqueueSync, syncAll } from './sync';
+import {
+  enqueueSync,
+  syncAll,
+  flushSyncQueue,
+  resolveSyncConflict as resolveQueuedConflict,
+  retryDeadLetter as requeueDeadLetter,
+  discardDeadLetter as dropDeadLetter,
+  fetchStaffActivityPage,
+  startRealtimeSync,
+  activateShop,
+  subscribeSyncStatus,
+  pushShopProfile,
+  STAFF_ACTIVITY_CACHE,
+} from './sync';
 import { useToast } from './toast-context';
-import { loadLastSyncAt } from './storage';
+import { loadLastSyncAt, loadSyncConflicts, loadSyncDeadLetters } from './storage';
 import { scheduleLocalNotification } from './notifications';
+import { formatCurrency } from './format';
+import { calculateCartTotals, normalizePromoCode, isPromoCodeCurrent, saleLineRefund } from './pricing';
+import { buildCustomerAccount, CustomerAccount } from './credit';
+import { normalizeCustomerName, matchCustomer } from './customers';
+import { pointsEarned, pointsToCover, redemptionValue, returnPoints } from './loyalty';
+import { cartItemPrice, lineKey, unitFactor, unitName } from './units';
+import { bundleCost, isBundle, saleItemStock, stockNeeds, totalByProduct } from './bundles';
+import { productLabel, stockedProducts } from './variants';
+import { hashPin, verifyPin } from './pin';
 import {
   loadProducts, saveProducts,
   loadSales, saveSales,
+  loadSaleReturns, saveSaleReturns,
+  loadCustomers, saveCustomers,
+  loadCreditPayments, saveCreditPayments,
+  loadLoyaltyEntries, saveLoyaltyEntries,
   loadOrders, saveOrders,
   loadStaff, saveStaff,
   loadShopProfile, saveShopProfile,
   loadExpenses, saveExpenses,
+  loadHeldCarts, saveHeldCarts,
 } from './storage';
+import {
+  productCodec,
+  productEditRow,
+  saleCodec,
+  saleReturnCodec,
+  customerCodec,
+  creditPaymentCodec,
+  loyaltyEntryCodec,
+  orderCodec,
+  expenseCodec,
+  staffMemberCodec,
+  staffActivityCodec,
+  inventoryMovementCodec,
+} from './codecs';
 
-// ── Supabase format converters ────────────────────────────────────────────────
-function toSupabaseProduct(p: Product) {
+function newMovement(productId: string, delta: number, reason: InventoryMovementReason, referenceId: string | null = null): InventoryMovement {
   return {
-    id: p.id,
-    name: p.name,
-    price: p.price,
-    cost_price: p.costPrice ?? null,
-    unit: p.unit ?? null,
-    stock: p.stock,
-    low_stock_threshold: p.lowStockThreshold,
-    image_uri: p.imageUri ?? null,
-    category: p.category,
-    is_marketplace: p.isMarketplace,
-    marketplace_listing: p.marketplaceListing ?? null,
-    created_at: p.createdAt,
-    updated_at: p.updatedAt,
+    id: Crypto.randomUUID(),
+    productId,
+    delta,
+    reason,
+    referenceId,
+    createdAt: new Date().toISOString(),
   };
 }
 
-function toSupabaseSale(s: Sale) {
+function newLoyaltyEntry(
+  customerId: string,
+  saleId: string,
+  kind: LoyaltyEntryKind,
+  points: number,
+  user: { id: string; name: string } | null,
+  createdAt: string = new Date().toISOString(),
+): LoyaltyEntry {
   return {
-    id: s.id,
-    items: s.items,
-    total: s.total,
-    amount_paid: s.amountPaid,
-    change: s.change,
-    is_credit: s.isCredit,
-    customer_name: s.customerName ?? null,
-    staff_id: s.staffId ?? null,
-    payment_method: s.paymentMethod,
-    cash_amount: s.cashAmount,
-    transfer_amount: s.transferAmount,
-    payment_id: s.paymentId ?? null,
-    gateway_provider: s.gatewayProvider ?? null,
-    created_at: s.createdAt,
+    id: Crypto.randomUUID(),
+    customerId,
+    saleId,
+    kind,
+    points,
+    staffId: user?.id ?? null,
+    staffName: user?.name ?? null,
+    createdAt,
   };
 }
 
-function toSupabaseOrder(o: Order) {
-  return {
-    id: o.id,
-    items: o.items,
-    total: o.total,
-    customer_name: o.customerName,
-    customer_phone: o.customerPhone,
-    delivery_address: o.deliveryAddress,
-    status: o.status,
-    notes: o.notes,
-    created_at: o.createdAt,
-    updated_at: o.updatedAt,
-  };
+// Fold a live change from another device into a local list
+function applyRealtimeChange<T extends { id: string }>(list: T[], change: { row: T } | { deletedId: string }): T[] {
+  if ('deletedId' in change) return list.filter(item => item.id !== change.deletedId);
+  const exists = list.some(item => item.id === change.row.id);
+  return exists
+    ? list.map(item => item.id === change.row.id ? change.row : item)
+    : [change.row, ...list];
 }
 
+type CustomerDetails = Partial<Pick<Customer, 'name' | 'phone' | 'address' | 'notes'>>;
+
 interface ShopContextValue {
   products: Product[];
   sales: Sale[];
+  saleReturns: SaleReturn[];
+  customers: Customer[];
+  creditPayments: CreditPayment[];
+  // One per customer who has bought on credit, including names from before accounts existed
+  creditAccounts: CustomerAccount[];
+  loyaltyEntries: LoyaltyEntry[];
+  // Current points per customer id
+  loyaltyBalances: Record<string, number>;
   orders: Order[];
   staff: StaffMember[];
   shopProfile: ShopProfile;
@@ -83,14 +121,24 @@ interface ShopContextValue {
   addProduct: (product: Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'isMarketplace'>) => Promise<void>;
   updateProduct: (id: string, updates: Partial<Product>) => Promise<void>;
   deleteProduct: (id: string) => Promise<void>;
-  adjustStock: (id: string, quantity: number) => Promise<void>;
+  adjustStock: (id: string, quantity: number, reason?: Exclude<InventoryMovementReason, 'sale'>) => Promise<void>;
   toggleMarketplace: (id: string) => Promise<void>;
   updateMarketplaceListing: (id: string, listing: MarketplaceListing) => Promise<void>;
 
-  addToCart: (product: Product, quantity?: number) => void;
-  removeFromCart: (productId: string) => void;
-  updateCartQuantity: (productId: string, quantity: number) => void;
+  // unitId picks one of product.units; leave it out for the base unit
+  addToCart: (product: Product, quantity?: number, unitId?: string | null) => void;
+  removeFromCart: (productId: string, unitId?: string | null) => void;
+  updateCartQuantity: (productId: string, quantity: number, unitId?: string | null) => void;
+  setCartItemUnit: (productId: string, fromUnitId: string | null, toUnitId: string | null) => void;
   clearCart: () => void;
+  cartDiscount: Discount | null;
+  setCartItemDiscount: (productId: string, discount: Discount | null, unitId?: string | null) => void;
+  setCartDiscount: (discount: Discount | null) => void;
+  applyPromoCode: (code: string) => PromoCode;
+  heldCarts: HeldCart[];
+  parkCart: (name: string) => Promise<void>;
+  resumeHeldCart: (id: string) => Promise<HeldCartAdjustment[]>;
+  discardHeldCart: (id: string) => Promise<void>;
   completeSale: (
     amountPaid: number,
     isCredit?: boolean,
@@ -100,16 +148,38 @@ interface ShopContextValue {
     transferAmount?: number,
     paymentId?: string | null,
     gatewayProvider?: PaymentGateway | null,
+    customerPhone?: string | null,
+    redeemPoints?: number,
   ) => Promise<Sale>;
+  recordSaleReturn: (
+    saleId: string,
+    items: ReturnRequestItem[],
+    refundMethod: RefundMethod,
+    reason?: string,
+  ) => Promise<SaleReturn>;
+  voidSale: (saleId: string, reason: string, ownerPin: string) => Promise<Sale>;
+
+  addCustomer: (details: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Customer>;
+  updateCustomer: (id: string, updates: CustomerDetails) => Promise<void>;
+  findOrCreateCustomer: (name: string, details?: CustomerDetails) => Promise<Customer>;
+  recordCreditPayment: (
+    customer: Customer,
+    amount: number,
+    method: CreditPaymentMethod,
+    note?: string,
+  ) => Promise<CreditPayment>;
 
-  addOrder: (order: Omit<Order, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  // Without a customerId the order is matched to a saved customer by phone or name
+  addOrder: (order: Omit<Order, 'id' | 'createdAt' | 'updatedAt' | 'customerId'> & { customerId?: string | null }) => Promise<void>;
   updateOrderStatus: (id: string, status: OrderStatus) => Promise<void>;
   deleteOrder: (id: string) => Promise<void>;
 
-  addStaffMember: (member: Omit<StaffMember, 'id' | 'createdAt' | 'activityLog'>) => Promise<void>;
+  addStaffMember: (member: Omit<StaffMember, 'id' | 'createdAt' | 'updatedAt' | 'activityLog'>) => Promise<StaffMember>;
   updateStaffMember: (id: string, updates: Partial<StaffMember>) => Promise<void>;
+  setApprovalPin: (pin: string) => Promise<void>;
   deleteStaffMember: (id: string) => Promise<void>;
   logStaffActivity: (staffId: string, action: string, details: string) => Promise<void>;
+  fetchStaffActivity: (staffId: string, before?: string) => Promise<StaffActivity[]>;
 
   updateShopProfile: (updates: Partial<ShopProfile>) => Promise<void>;
 
@@ -119,9 +189,18 @@ interface ShopContextValue {
 
   isSyncing: boolean;
   lastSyncAt: Date | null;
+  syncConflicts: SyncConflict[];
+  resolveSyncConflict: (id: string, keep: 'local' | 'server') => Promise<void>;
+  syncDeadLetters: SyncDeadLetter[];
+  syncStatus: SyncStatus;
+  retryDeadLetter: (id: string, payload?: Record<string, unknown>) => Promise<void>;
+  discardDeadLetter: (id: string) => Promise<void>;
   syncNow: () => Promise<void>;
   reloadData: () => Promise<void>;
 
+  cartSubtotal: number;
+  cartDiscountTotal: number;
+  cartTax: number;
   cartTotal: number;
   cartItemCount: number;
   todaySales: Sale[];
@@ -135,14 +214,28 @@ interface ShopContextValue {
 const ShopContext = createContext<ShopContextValue | null>(null);
 
 export function ShopProvider({ children }: { children: ReactNode }) {
-  const { user } = useAuth();
+  const { user, isLoading: authLoading } = useAuth();
   const toast = useToast();
   const [products, setProducts] = useState<Product[]>([]);
   const [sales, setSales] = useState<Sale[]>([]);
+  const [saleReturns, setSaleReturns] = useState<SaleReturn[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [creditPayments, setCreditPayments] = useState<CreditPayment[]>([]);
+  const [loyaltyEntries, setLoyaltyEntries] = useState<LoyaltyEntry[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
   const [staff, setStaff] = useState<StaffMember[]>([]);
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncAt, setLastSyncAt] = useState<Date | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [syncDeadLetters, setSyncDeadLetters] = useState<SyncDeadLetter[]>([]);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({
+    pendingCount: 0,
+    pendingByTable: {},
+    lastError: null,
+    lastErrorAt: null,
+    lastPushAt: null,
+    lastPullAt: null,
+  });
   const [shopProfile, setShopProfile] = useState<ShopProfile>({
     name: 'My Shop',
     bio: '',
@@ -164,52 +257,124 @@ export function ShopProvider({ children }: { children: ReactNode }) {
     deliveryRadius: 10,
     featuredProductIds: [],
     language: 'en',
+    promoCodes: [],
+    taxSettings: { enabled: false, name: 'VAT', rate: 7.5, pricesIncludeTax: true, taxId: null },
+    loyaltySettings: { enabled: false, spendPerPoint: 1000, pointValue: 10, minRedeemPoints: 100 },
   });
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [cartDiscount, setCartDiscount] = useState<Discount | null>(null);
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>([]);
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   const reloadData = useCallback(async () => {
-    const [p, s, o, st, sp, ex] = await Promise.all([
+    const [p, s, sr, cu, cp, le, o, st, sp, ex, sc, dl, hc] = await Promise.all([
       loadProducts(),
       loadSales(),
+      loadSaleReturns(),
+      loadCustomers(),
+      loadCreditPayments(),
+      loadLoyaltyEntries(),
       loadOrders(),
       loadStaff(),
       loadShopProfile(),
       loadExpenses(),
+      loadSyncConflicts(),
+      loadSyncDeadLetters(),
+      loadHeldCarts(),
     ]);
     setProducts(p);
     setSales(s);
+    setSaleReturns(sr);
+    setCustomers(cu);
+    setCreditPayments(cp);
+    setLoyaltyEntries(le);
     setOrders(o);
     setStaff(st);
     setShopProfile(sp);
     setExpenses(ex);
+    setSyncConflicts(sc);
+    setSyncDeadLetters(dl);
+    setHeldCarts(hc);
     if (sp.language) {
       i18n.changeLanguage(sp.language);
     }
   }, []);
 
+  // Open the signed-in shop's local data (or the offline store when there is
+  // none), then pull the latest from Supabase. Runs again on every shop switch.
   useEffect(() => {
+    if (authLoading) return;
+    const shopId = user?.shop_id ?? null;
+    let cancelled = false;
     (async () => {
+      setIsLoading(true);
+      setCart([]);
+      const status = await activateShop(shopId);
+      if (cancelled) return;
+      setSyncStatus(status);
       await reloadData();
       const ts = await loadLastSyncAt();
+      if (cancelled) return;
       setLastSyncAt(ts ? new Date(ts) : null);
       setIsLoading(false);
+
+      if (!shopId) return;
+      setIsSyncing(true);
+      try {
+        await syncAll(shopId);
+        if (cancelled) return;
+        await reloadData();
+        const syncedAt = await loadLastSyncAt();
+        setLastSyncAt(syncedAt ? new Date(syncedAt) : null);
+      } finally {
+        setIsSyncing(false);
+      }
     })();
-  }, [reloadData]);
+    return () => {
+      cancelled = true;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authLoading, user?.shop_id]);
+
+  // Pending writes and last push/pull, for the header indicator
+  useEffect(() => subscribeSyncStatus(setSyncStatus), []);
 
-  // Auto-pull from Supabase when shop_id becomes available (login / session restore)
+  // Live updates from other devices while signed in to a shop
   useEffect(() => {
     if (!user?.shop_id) return;
-    setIsSyncing(true);
-    syncAll(user.shop_id)
-      .then(() => reloadData())
-      .finally(async () => {
-        setIsSyncing(false);
-        const ts = await loadLastSyncAt();
-        setLastSyncAt(ts ? new Date(ts) : null);
-      });
-  // eslint-disable-next-line react-hooks/exhaustive-deps
+    return startRealtimeSync(user.shop_id, change => {
+      switch (change.table) {
+        case 'products':
+          setProducts(prev => {
+            const next = applyRealtimeChange(prev, change);
+            saveProducts(next);
+            return next;
+          });
+          break;
+        case 'sales':
+          setSales(prev => {
+            const next = applyRealtimeChange(prev, change);
+            saveSales(next);
+            return next;
+          });
+          break;
+        case 'orders':
+          setOrders(prev => {
+            const next = applyRealtimeChange(prev, change);
+            saveOrders(next);
+            return next;
+          });
+          break;
+        case 'expenses':
+          setExpenses(prev => {
+            const next = applyRealtimeChange(prev, change);
+            saveExpenses(next);
+            return next;
+          });
+          break;
+      }
+    });
   }, [user?.shop_id]);
 
   const syncNow = useCallback(async () => {
@@ -227,6 +392,31 @@ export function ShopProvider({ children }: { children: ReactNode }) {
     setIsSyncing(false);
   }, [user, isSyncing, reloadData, toast]);
 
+  // Re-apply the chosen side, then push and pull so local data matches it
+  const resolveSyncConflict = useCallback(async (id: string, keep: 'local' | 'server') => {
+    await resolveQueuedConflict(id, keep);
+    setSyncConflicts(prev => prev.filter(c => c.id !== id));
+    if (user?.shop_id) {
+      const result = await syncAll(user.shop_id);
+      await reloadData();
+      // The choice is kept in the queue, so the next sync still sends it
+      if (!result.success) throw new Error(i18n.t('conflictNotSynced', { error: result.error ?? '' }));
+    }
+  }, [user, reloadData]);
+
+  const retryDeadLetter = useCallback(async (id: string, payload?: Record<string, unknown>) => {
+    await requeueDeadLetter(id, payload);
+    if (user?.shop_id) {
+      await flushSyncQueue(user.shop_id);
+    }
+    setSyncDeadLetters(await loadSyncDeadLetters());
+  }, [user]);
+
+  const discardDeadLetter = useCallback(async (id: string) => {
+    await dropDeadLetter(id);
+    setSyncDeadLetters(prev => prev.filter(d => d.id !== id));
+  }, []);
+
   const addProduct = useCallback(async (product: Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'isMarketplace'>) => {
     const now = new Date().toISOString();
     const newProduct: Product = {
@@ -242,51 +432,97 @@ export function ShopProvider({ children }: { children: ReactNode }) {
       return next;
     });
     if (user?.shop_id) {
-      enqueueSync({ table: 'products', operation: 'insert', payload: toSupabaseProduct(newProduct) }).catch(() => {});
+      enqueueSync({ table: 'products', operation: 'insert', payload: productCodec.toRow(newProduct) }).catch(() => {});
     }
   }, [user]);
 
   const updateProduct = useCallback(async (id: string, updates: Partial<Product>) => {
     const updatedAt = new Date().toISOString();
+    let previous: Product | null = null;
+    let updated: Product | null = null;
+    // Variants carry their parent's name and category, so those follow it down
+    const variants: { previous: Product; updated: Product }[] = [];
     setProducts(prev => {
-      const next = prev.map(p =>
-        p.id === id ? { ...p, ...updates, updatedAt } : p
-      );
+      variants.length = 0;
+      const next = prev.map(p => {
+        if (p.parentId === id) {
+          const name = updates.name ?? p.name;
+          const category = updates.category ?? p.category;
+          if (name === p.name && category === p.category) return p;
+          const variant = { ...p, name, category, updatedAt };
+          variants.push({ previous: p, updated: variant });
+          return variant;
+        }
+        if (p.id !== id) return p;
+        previous = p;
+        updated = { ...p, ...updates, updatedAt };
+        return updated;
+      });
       saveProducts(next);
       return next;
     });
     if (user?.shop_id) {
-      enqueueSync({ table: 'products', operation: 'update', payload: { id, ...toSupabaseProduct({ ...updates, updatedAt } as Product), updated_at: updatedAt } }).catch(() => {});
+      for (const v of variants) {
+        enqueueSync({
+          table: 'products',
+          operation: 'update',
+          payload: productEditRow(v.updated),
+          base: productEditRow(v.previous),
+        }).catch(() => {});
+      }
+    }
+    if (user?.shop_id && previous && updated) {
+      enqueueSync({
+        table: 'products',
+        operation: 'update',
+        payload: productEditRow(updated),
+        base: productEditRow(previous),
+      }).catch(() => {});
+      // A typed-in stock count is recorded as the adjustment that gets there
+      const delta = (updated as Product).stock - (previous as Product).stock;
+      if (delta !== 0) {
+        enqueueSync({
+          table: 'inventory_movements',
+          operation: 'insert',
+          payload: inventoryMovementCodec.toRow(newMovement(id, delta, 'adjustment')),
+        }).catch(() => {});
+      }
     }
   }, [user]);
 
+  // Deleting a parent takes its variants with it
   const deleteProduct = useCallback(async (id: string) => {
+    const removed = [id, ...products.filter(p => p.parentId === id).map(p => p.id)];
     setProducts(prev => {
-      const next = prev.filter(p => p.id !== id);
+      const next = prev.filter(p => !removed.includes(p.id));
       saveProducts(next);
       return next;
     });
     if (user?.shop_id) {
-      enqueueSync({ table: 'products', operation: 'delete', payload: { id } }).catch(() => {});
+      for (const productId of removed) {
+        enqueueSync({ table: 'products', operation: 'delete', payload: { id: productId } }).catch(() => {});
+      }
     }
-  }, [user]);
+  }, [user, products]);
 
-  const adjustStock = useCallback(async (id: string, quantity: number) => {
+  const adjustStock = useCallback(async (id: string, quantity: number, reason: Exclude<InventoryMovementReason, 'sale'> = 'adjustment') => {
     const updatedAt = new Date().toISOString();
-    let newStock = 0;
     setProducts(prev => {
       const next = prev.map(p => {
         if (p.id === id) {
-          newStock = Math.max(0, p.stock + quantity);
-          return { ...p, stock: newStock, updatedAt };
+          return { ...p, stock: Math.max(0, p.stock + quantity), updatedAt };
         }
         return p;
       });
       saveProducts(next);
       return next;
     });
-    if (user?.shop_id) {
-      enqueueSync({ table: 'products', operation: 'update', payload: { id, stock: newStock, updated_at: updatedAt } }).catch(() => {});
+    if (user?.shop_id && quantity !== 0) {
+      enqueueSync({
+        table: 'inventory_movements',
+        operation: 'insert',
+        payload: inventoryMovementCodec.toRow(newMovement(id, quantity, reason)),
+      }).catch(() => {});
     }
   }, [user]);
 
@@ -305,66 +541,320 @@ export function ShopProvider({ children }: { children: ReactNode }) {
       return next;
     });
     if (user?.shop_id) {
-      enqueueSync({ table: 'products', operation: 'update', payload: { id, is_marketplace: newIsMarketplace, updated_at: updatedAt } }).catch(() => {});
+      enqueueSync({
+        table: 'products',
+        operation: 'update',
+        payload: { id, is_marketplace: newIsMarketplace, updated_at: updatedAt },
+        base: { id, is_marketplace: !newIsMarketplace },
+      }).catch(() => {});
     }
   }, [user]);
 
   const updateMarketplaceListing = useCallback(async (id: string, listing: MarketplaceListing) => {
     const updatedAt = new Date().toISOString();
+    let previous: Product | null = null;
     setProducts(prev => {
-      const next = prev.map(p =>
-        p.id === id ? { ...p, marketplaceListing: listing, isMarketplace: true, updatedAt } : p
-      );
+      const next = prev.map(p => {
+        if (p.id !== id) return p;
+        previous = p;
+        return { ...p, marketplaceListing: listing, isMarketplace: true, updatedAt };
+      });
       saveProducts(next);
       return next;
     });
     if (user?.shop_id) {
-      enqueueSync({ table: 'products', operation: 'update', payload: { id, marketplace_listing: listing, is_marketplace: true, updated_at: updatedAt } }).catch(() => {});
+      const base = previous as Product | null;
+      enqueueSync({
+        table: 'products',
+        operation: 'update',
+        payload: { id, marketplace_listing: listing, is_marketplace: true, updated_at: updatedAt },
+        base: base ? { id, marketplace_listing: base.marketplaceListing ?? null, is_marketplace: base.isMarketplace } : null,
+      }).catch(() => {});
     }
   }, [user]);
 
-  const addToCart = useCallback((product: Product, quantity: number = 1) => {
+  // Cart lines are one product in one selling unit; unitId null is the base unit
+  const addToCart = useCallback((product: Product, quantity: number = 1, unitId: string | null = null) => {
+    const key = lineKey(product.id, unitId);
     setCart(prev => {
-      const existing = prev.find(item => item.product.id === product.id);
+      const existing = prev.find(item => lineKey(item.product.id, item.unitId) === key);
       if (existing) {
         return prev.map(item =>
-          item.product.id === product.id
+          lineKey(item.product.id, item.unitId) === key
             ? { ...item, quantity: item.quantity + quantity }
             : item
         );
       }
-      return [...prev, { product, quantity }];
+      return [...prev, { product, unitId, quantity }];
     });
   }, []);
 
-  const removeFromCart = useCallback((productId: string) => {
-    setCart(prev => prev.filter(item => item.product.id !== productId));
+  const removeFromCart = useCallback((productId: string, unitId: string | null = null) => {
+    const key = lineKey(productId, unitId);
+    setCart(prev => prev.filter(item => lineKey(item.product.id, item.unitId) !== key));
   }, []);
 
-  const updateCartQuantity = useCallback((productId: string, quantity: number) => {
+  const updateCartQuantity = useCallback((productId: string, quantity: number, unitId: string | null = null) => {
+    const key = lineKey(productId, unitId);
     if (quantity <= 0) {
-      setCart(prev => prev.filter(item => item.product.id !== productId));
+      setCart(prev => prev.filter(item => lineKey(item.product.id, item.unitId) !== key));
       return;
     }
     setCart(prev =>
       prev.map(item =>
-        item.product.id === productId ? { ...item, quantity } : item
+        lineKey(item.product.id, item.unitId) === key ? { ...item, quantity } : item
       )
     );
   }, []);
 
+  // Switching a line to a unit already in the cart merges the two lines
+  const setCartItemUnit = useCallback((productId: string, fromUnitId: string | null, toUnitId: string | null) => {
+    const from = lineKey(productId, fromUnitId);
+    const to = lineKey(productId, toUnitId);
+    if (from === to) return;
+    setCart(prev => {
+      const moving = prev.find(item => lineKey(item.product.id, item.unitId) === from);
+      if (!moving) return prev;
+      const target = prev.find(item => lineKey(item.product.id, item.unitId) === to);
+      if (target) {
+        return prev
+          .filter(item => item !== moving)
+          .map(item => (item === target ? { ...item, quantity: item.quantity + moving.quantity } : item));
+      }
+      return prev.map(item => (item === moving ? { ...item, unitId: toUnitId } : item));
+    });
+  }, []);
+
   const clearCart = useCallback(() => setCart([]), []);
 
-  const cartTotal = useMemo(() =>
-    cart.reduce((sum, item) => sum + item.product.price * item.quantity, 0),
-    [cart]
+  // A discount belongs to the cart it was given on, not to the next customer
+  useEffect(() => {
+    if (cart.length === 0) setCartDiscount(null);
+  }, [cart.length]);
+
+  const setCartItemDiscount = useCallback((productId: string, discount: Discount | null, unitId: string | null = null) => {
+    const key = lineKey(productId, unitId);
+    setCart(prev =>
+      prev.map(item =>
+        lineKey(item.product.id, item.unitId) === key ? { ...item, discount } : item
+      )
+    );
+  }, []);
+
+  // Promo codes apply to the whole cart and replace any manual cart discount
+  const applyPromoCode = useCallback((code: string): PromoCode => {
+    const normalized = normalizePromoCode(code);
+    const promo = (shopProfile.promoCodes ?? []).find(p => p.code === normalized);
+    if (!promo) throw new Error(i18n.t('promoCodeNotFound'));
+    if (!isPromoCodeCurrent(promo)) throw new Error(i18n.t('promoCodeExpired'));
+    setCartDiscount({ type: promo.type, value: promo.value, promoCode: promo.code });
+    return promo;
+  }, [shopProfile.promoCodes]);
+
+  // Held carts stay on this phone only; they become a sale when resumed and completed
+  const parkCart = useCallback(async (name: string) => {
+    if (cart.length === 0) return;
+    setHeldCarts(prev => {
+      const next = [...prev, {
+        id: Crypto.randomUUID(),
+        name: name.trim() || i18n.t('heldCartDefaultName', { count: prev.length + 1 }),
+        items: cart,
+        discount: cartDiscount,
+        heldAt: new Date().toISOString(),
+      }];
+      saveHeldCarts(next);
+      return next;
+    });
+    setCart([]);
+  }, [cart, cartDiscount]);
+
+  /**
+   * Swap a held cart into the till. Prices come from the current product
+   * list and quantities are cut to what is in stock now. Returns the lines
+   * that changed so the cashier can tell the customer.
+   */
+  const resumeHeldCart = useCallback(async (id: string): Promise<HeldCartAdjustment[]> => {
+    const held = heldCarts.find(h => h.id === id);
+    if (!held) return [];
+
+    const adjustments: HeldCartAdjustment[] = [];
+    const items: CartItem[] = [];
+    // Base units already taken by earlier lines using the same stock
+    const taken = new Map<string, number>();
+    for (const item of held.items) {
+      const product = products.find(p => p.id === item.product.id);
+      const needs = product ? stockNeeds(product, item.unitId) : [];
+      const available = product ? Math.min(...needs.map(n => {
+        const left = (products.find(p => p.id === n.productId)?.stock ?? 0) - (taken.get(n.productId) ?? 0);
+        return Math.max(0, Math.floor(left / n.quantity));
+      })) : 0;
+      if (available < item.quantity) {
+        adjustments.push({ productName: productLabel(item.product), requested: item.quantity, available });
+      }
+      if (product && available > 0) {
+        const quantity = Math.min(item.quantity, available);
+        for (const n of needs) taken.set(n.productId, (taken.get(n.productId) ?? 0) + quantity * n.quantity);
+        items.push({ ...item, product, quantity });
+      }
+    }
+
+    setHeldCarts(prev => {
+      const next = prev.filter(h => h.id !== id);
+      saveHeldCarts(next);
+      return next;
+    });
+    setCart(items);
+    setCartDiscount(held.discount ?? null);
+    return adjustments;
+  }, [heldCarts, products]);
+
+  const discardHeldCart = useCallback(async (id: string) => {
+    setHeldCarts(prev => {
+      const next = prev.filter(h => h.id !== id);
+      saveHeldCarts(next);
+      return next;
+    });
+  }, []);
+
+  const cartTotals = useMemo(
+    () => calculateCartTotals(cart, cartDiscount, shopProfile.taxSettings),
+    [cart, cartDiscount, shopProfile.taxSettings]
   );
+  const cartTotal = cartTotals.total;
 
   const cartItemCount = useMemo(() =>
     cart.reduce((sum, item) => sum + item.quantity, 0),
     [cart]
   );
 
+  const addCustomer = useCallback(async (details: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>) => {
+    if (!details.name.trim()) throw new Error(i18n.t('customerNameRequired'));
+    if (matchCustomer(customers, details.name, details.phone)) throw new Error(i18n.t('customerExists'));
+    const now = new Date().toISOString();
+    const customer: Customer = {
+      id: Crypto.randomUUID(),
+      name: details.name.trim(),
+      phone: details.phone.trim(),
+      address: details.address.trim(),
+      notes: details.notes.trim(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    setCustomers(prev => {
+      const next = [customer, ...prev];
+      saveCustomers(next);
+      return next;
+    });
+    if (user?.shop_id) {
+      enqueueSync({ table: 'customers', operation: 'insert', payload: customerCodec.toRow(customer) }).catch(() => {});
+    }
+    return customer;
+  }, [customers, user]);
+
+  const updateCustomer = useCallback(async (id: string, updates: CustomerDetails) => {
+    let previous: Customer | null = null;
+    let updated: Customer | null = null;
+    setCustomers(prev => {
+      const next = prev.map(c => {
+        if (c.id !== id) return c;
+        previous = c;
+        updated = { ...c, ...updates, updatedAt: new Date().toISOString() };
+        return updated;
+      });
+      saveCustomers(next);
+      return next;
+    });
+    if (user?.shop_id && updated && previous) {
+      enqueueSync({
+        table: 'customers',
+        operation: 'update',
+        payload: customerCodec.toRow(updated),
+        base: customerCodec.toRow(previous),
+      }).catch(() => {});
+    }
+  }, [user]);
+
+  // Sales and orders are matched to a saved customer by phone or name, so
+  // typing someone the shop already knows doesn't create a second record
+  const findOrCreateCustomer = useCallback(async (name: string, details: CustomerDetails = {}) => {
+    const existing = matchCustomer(customers, name, details.phone);
+    if (!existing) {
+      return addCustomer({ name, phone: details.phone ?? '', address: details.address ?? '', notes: details.notes ?? '' });
+    }
+    // Fill in whatever the saved record is missing, but never overwrite it
+    const missing: CustomerDetails = {};
+    if (!existing.phone && details.phone?.trim()) missing.phone = details.phone.trim();
+    if (!existing.address && details.address?.trim()) missing.address = details.address.trim();
+    if (Object.keys(missing).length === 0) return existing;
+    await updateCustomer(existing.id, missing);
+    return { ...existing, ...missing };
+  }, [customers, addCustomer, updateCustomer]);
+
+  const recordCreditPayment = useCallback(async (
+    customer: Customer,
+    amount: number,
+    method: CreditPaymentMethod,
+    note: string = '',
+  ) => {
+    if (!(amount > 0)) throw new Error(i18n.t('repaymentInvalid'));
+    // Names carried over from before accounts existed get saved on first repayment
+    const account = customer.id ? customer : await findOrCreateCustomer(customer.name, { phone: customer.phone });
+    const payment: CreditPayment = {
+      id: Crypto.randomUUID(),
+      customerId: account.id,
+      amount: Math.round(amount * 100) / 100,
+      method,
+      note: note.trim(),
+      staffId: user?.id ?? null,
+      staffName: user?.name ?? null,
+      createdAt: new Date().toISOString(),
+    };
+    setCreditPayments(prev => {
+      const next = [payment, ...prev];
+      saveCreditPayments(next);
+      return next;
+    });
+    if (user?.shop_id) {
+      enqueueSync({ table: 'credit_payments', operation: 'insert', payload: creditPaymentCodec.toRow(payment) }).catch(() => {});
+    }
+    return payment;
+  }, [user, findOrCreateCustomer]);
+
+  const creditAccounts = useMemo(() => {
+    const known = new Set(customers.map(c => normalizeCustomerName(c.name)));
+    const legacy = new Map<string, Customer>();
+    for (const s of sales) {
+      if (!s.isCredit || s.customerId || !s.customerName) continue;
+      const key = normalizeCustomerName(s.customerName);
+      if (!key || known.has(key) || legacy.has(key)) continue;
+      legacy.set(key, {
+        id: '', name: s.customerName.trim(), phone: '', address: '', notes: '', createdAt: s.createdAt, updatedAt: s.createdAt,
+      });
+    }
+    return [...customers, ...legacy.values()]
+      .map(c => buildCustomerAccount(c, sales, saleReturns, creditPayments));
+  }, [customers, sales, saleReturns, creditPayments]);
+
+  const loyaltyBalances = useMemo(() => {
+    const balances: Record<string, number> = {};
+    for (const e of loyaltyEntries) balances[e.customerId] = (balances[e.customerId] ?? 0) + e.points;
+    return balances;
+  }, [loyaltyEntries]);
+
+  const recordLoyaltyEntries = useCallback((entries: LoyaltyEntry[]) => {
+    if (entries.length === 0) return;
+    setLoyaltyEntries(prev => {
+      const next = [...entries, ...prev];
+      saveLoyaltyEntries(next);
+      return next;
+    });
+    if (user?.shop_id) {
+      entries.forEach(entry => {
+        enqueueSync({ table: 'loyalty_entries', operation: 'insert', payload: loyaltyEntryCodec.toRow(entry) }).catch(() => {});
+      });
+    }
+  }, [user]);
+
   const completeSale = useCallback(async (
     amountPaid: number,
     isCredit: boolean = false,
@@ -374,55 +864,102 @@ export function ShopProvider({ children }: { children: ReactNode }) {
     transferAmount: number = 0,
     paymentId: string | null = null,
     gatewayProvider: PaymentGateway | null = null,
+    customerPhone: string | null = null,
+    redeemPoints: number = 0,
   ) => {
-    const saleItems: SaleItem[] = cart.map(item => ({
-      productId: item.product.id,
-      productName: item.product.name,
-      price: item.product.price,
-      costPrice: item.product.costPrice ?? undefined,
-      quantity: item.quantity,
-      subtotal: item.product.price * item.quantity,
-    }));
-
-    const total = saleItems.reduce((sum, item) => sum + item.subtotal, 0);
+    const taxSettings = shopProfile.taxSettings;
+    const loyalty = shopProfile.loyaltySettings;
+    const { lines, cartDiscount: discount, tax, total } = calculateCartTotals(cart, cartDiscount, taxSettings);
+
+    // Everything is checked before anything is saved, so a refused sale
+    // leaves no walk-in customer behind. A customer not saved yet has no points
+    const name = customerName?.trim() ? customerName : null;
+    const known = name ? matchCustomer(customers, name, customerPhone ?? '') : undefined;
+    const balance = known ? loyaltyBalances[known.id] ?? 0 : 0;
+    if (redeemPoints > 0) {
+      if (!name || isCredit || !loyalty.enabled) throw new Error(i18n.t('loyaltyRedeemUnavailable'));
+      if (balance < loyalty.minRedeemPoints || redeemPoints > balance) {
+        throw new Error(i18n.t('loyaltyNotEnoughPoints', { points: balance }));
+      }
+    }
+
+    const customer = name ? await findOrCreateCustomer(name, { phone: customerPhone ?? '' }) : null;
+    // Points are a way of paying, so they come off what is due rather than the total
+    const loyaltyAmount = redemptionValue(redeemPoints, loyalty, total);
+    // Points offered beyond what is due stay on the customer's balance
+    const pointsRedeemed = loyaltyAmount > 0 ? Math.min(redeemPoints, pointsToCover(loyaltyAmount, balance, loyalty)) : 0;
+    const earned = customer && !isCredit ? pointsEarned(total - loyaltyAmount, loyalty) : 0;
+    const saleItems: SaleItem[] = cart.map((item, i) => {
+      const factor = unitFactor(item.product, item.unitId);
+      // A bundle costs what its components cost
+      const bundle = isBundle(item.product);
+      const costPrice = bundle ? bundleCost(item.product.components, products) : item.product.costPrice;
+      return {
+        productId: item.product.id,
+        productName: productLabel(item.product),
+        unitId: item.unitId ?? null,
+        unitName: unitName(item.product, item.unitId),
+        unitFactor: factor,
+        parentId: item.product.parentId ?? null,
+        ...(bundle ? { components: item.product.components } : {}),
+        price: cartItemPrice(item),
+        costPrice: costPrice != null ? costPrice * factor : undefined,
+        quantity: item.quantity,
+        discount: lines[i].discount,
+        subtotal: lines[i].gross - lines[i].discount,
+        tax: lines[i].tax,
+      };
+    });
+
     const sale: Sale = {
       id: Crypto.randomUUID(),
       items: saleItems,
       total,
       amountPaid,
-      change: Math.max(0, amountPaid - total),
+      change: Math.max(0, amountPaid - (total - loyaltyAmount)),
       cashAmount,
       transferAmount,
       paymentMethod,
       isCredit,
-      customerName,
+      customerName: customer?.name ?? customerName,
+      customerId: customer?.id ?? null,
       staffId: user?.id ?? null,
       staffName: user?.name ?? null,
       paymentId,
       gatewayProvider,
+      discount,
+      promoCode: discount > 0 ? cartDiscount?.promoCode ?? null : null,
+      tax,
+      taxRate: tax > 0 ? taxSettings.rate : 0,
+      taxInclusive: taxSettings.enabled && taxSettings.pricesIncludeTax,
+      loyaltyPointsEarned: earned,
+      loyaltyPointsRedeemed: pointsRedeemed,
+      loyaltyAmount,
+      voidedAt: null,
+      voidReason: '',
+      voidedBy: null,
       createdAt: new Date().toISOString(),
     };
 
     const updatedAt = new Date().toISOString();
-    const stockUpdates: { id: string; stock: number }[] = [];
+    const moves = saleItems.flatMap(item => saleItemStock(item));
+    const soldByProduct = totalByProduct(moves);
 
     setProducts(prev => {
       const next = prev.map(p => {
-        const cartItem = cart.find(ci => ci.product.id === p.id);
-        if (cartItem) {
-          const newStock = Math.max(0, p.stock - cartItem.quantity);
-          stockUpdates.push({ id: p.id, stock: newStock });
-          return { ...p, stock: newStock, updatedAt };
+        const sold = soldByProduct.get(p.id) ?? 0;
+        if (sold > 0) {
+          return { ...p, stock: Math.max(0, p.stock - sold), updatedAt };
         }
         return p;
       });
       saveProducts(next);
       // Check for low stock after update
-      next.forEach(p => {
+      stockedProducts(next).forEach(p => {
         if (p.stock <= p.lowStockThreshold && p.stock >= 0) {
           scheduleLocalNotification(
             '⚠ Low Stock Alert',
-            `${p.name} is low (${p.stock} left)`,
+            `${productLabel(p)} is low (${p.stock} left)`,
             { productId: p.id, type: 'low_stock' },
           ).catch(() => {});
         }
@@ -436,22 +973,142 @@ export function ShopProvider({ children }: { children: ReactNode }) {
       return next;
     });
 
-    // Enqueue sale + stock updates for sync
+    // Enqueue sale + stock movements for sync
     if (user?.shop_id) {
-      enqueueSync({ table: 'sales', operation: 'insert', payload: toSupabaseSale(sale) }).catch(() => {});
-      stockUpdates.forEach(({ id, stock }) => {
-        enqueueSync({ table: 'products', operation: 'update', payload: { id, stock, updated_at: updatedAt } }).catch(() => {});
+      enqueueSync({ table: 'sales', operation: 'insert', payload: saleCodec.toRow(sale) }).catch(() => {});
+      moves.forEach(move => {
+        enqueueSync({
+          table: 'inventory_movements',
+          operation: 'insert',
+          payload: inventoryMovementCodec.toRow(newMovement(move.productId, -move.quantity, 'sale', sale.id)),
+        }).catch(() => {});
       });
     }
 
+    if (customer) {
+      recordLoyaltyEntries([
+        ...(sale.loyaltyPointsRedeemed > 0
+          ? [newLoyaltyEntry(customer.id, sale.id, 'redeem', -sale.loyaltyPointsRedeemed, user, sale.createdAt)]
+          : []),
+        ...(earned > 0 ? [newLoyaltyEntry(customer.id, sale.id, 'earn', earned, user, sale.createdAt)] : []),
+      ]);
+    }
+
     setCart([]);
     return sale;
-  }, [cart, user]);
+  }, [cart, cartDiscount, products, shopProfile.taxSettings, shopProfile.loyaltySettings, user, customers,
+    findOrCreateCustomer, loyaltyBalances, recordLoyaltyEntries]);
+
+  const recordSaleReturn = useCallback(async (
+    saleId: string,
+    items: ReturnRequestItem[],
+    refundMethod: RefundMethod,
+    reason: string = '',
+  ) => {
+    const sale = sales.find(s => s.id === saleId);
+    if (!sale) throw new Error(i18n.t('returnSaleNotFound'));
+    if (sale.voidedAt) throw new Error(i18n.t('saleAlreadyVoided'));
+
+    const alreadyReturned = new Map<string, number>();
+    for (const r of saleReturns) {
+      if (r.saleId !== saleId) continue;
+      for (const item of r.items) {
+        const key = lineKey(item.productId, item.unitId);
+        alreadyReturned.set(key, (alreadyReturned.get(key) ?? 0) + item.quantity);
+      }
+    }
+
+    const returnItems = items.filter(i => i.quantity > 0).map(request => {
+      const key = lineKey(request.productId, request.unitId);
+      const saleItem = sale.items.find(i => lineKey(i.productId, i.unitId) === key);
+      const returnable = (saleItem?.quantity ?? 0) - (alreadyReturned.get(key) ?? 0);
+      if (!saleItem || request.quantity > returnable) {
+        throw new Error(i18n.t('returnTooMany', { name: saleItem?.productName ?? '' }));
+      }
+      const { amount, tax, loyaltyAmount } = saleLineRefund(sale, saleItem, request.quantity);
+      return {
+        productId: saleItem.productId,
+        productName: saleItem.productName,
+        unitId: saleItem.unitId ?? null,
+        quantity: request.quantity,
+        amount,
+        tax,
+        loyaltyAmount,
+        restock: request.restock,
+      };
+    });
+    if (returnItems.length === 0) throw new Error(i18n.t('returnNothingSelected'));
+
+    const saleReturn: SaleReturn = {
+      id: Crypto.randomUUID(),
+      saleId,
+      items: returnItems,
+      amount: Math.round(returnItems.reduce((sum, i) => sum + i.amount, 0) * 100) / 100,
+      tax: Math.round(returnItems.reduce((sum, i) => sum + i.tax, 0) * 100) / 100,
+      refundMethod,
+      reason: reason.trim(),
+      staffId: user?.id ?? null,
+      staffName: user?.name ?? null,
+      createdAt: new Date().toISOString(),
+    };
+
+    // Goods go back on the shelf in base units; a bundle's components do
+    const restocked = returnItems.filter(i => i.restock).flatMap(i => {
+      const saleItem = sale.items.find(s => lineKey(s.productId, s.unitId) === lineKey(i.productId, i.unitId));
+      return saleItem ? saleItemStock(saleItem, i.quantity) : [];
+    });
+    if (restocked.length > 0) {
+      const updatedAt = new Date().toISOString();
+      const restockedByProduct = totalByProduct(restocked);
+      setProducts(prev => {
+        const next = prev.map(p => {
+          const quantity = restockedByProduct.get(p.id) ?? 0;
+          return quantity > 0 ? { ...p, stock: p.stock + quantity, updatedAt } : p;
+        });
+        saveProducts(next);
+        return next;
+      });
+    }
+
+    setSaleReturns(prev => {
+      const next = [saleReturn, ...prev];
+      saveSaleReturns(next);
+      return next;
+    });
+
+    if (user?.shop_id) {
+      enqueueSync({ table: 'sale_returns', operation: 'insert', payload: saleReturnCodec.toRow(saleReturn) }).catch(() => {});
+      restocked.forEach(item => {
+        enqueueSync({
+          table: 'inventory_movements',
+          operation: 'insert',
+          payload: inventoryMovementCodec.toRow(newMovement(item.productId, item.quantity, 'return', saleReturn.id)),
+        }).catch(() => {});
+      });
+    }
+
+    // Take back the points earned on the money refunded, and give back the
+    // points spent on the goods that came back
+    if (sale.customerId) {
+      const { earned, spent } = returnPoints(sale, saleReturn, loyaltyEntries);
+      recordLoyaltyEntries([
+        ...(earned > 0 ? [newLoyaltyEntry(sale.customerId, saleId, 'return', -earned, user, saleReturn.createdAt)] : []),
+        ...(spent > 0 ? [newLoyaltyEntry(sale.customerId, saleId, 'return', spent, user, saleReturn.createdAt)] : []),
+      ]);
+    }
+    return saleReturn;
+  }, [sales, saleReturns, user, loyaltyEntries, recordLoyaltyEntries]);
 
-  const addOrder = useCallback(async (order: Omit<Order, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const addOrder = useCallback(async (
+    order: Omit<Order, 'id' | 'createdAt' | 'updatedAt' | 'customerId'> & { customerId?: string | null },
+  ) => {
     const now = new Date().toISOString();
+    const customer = order.customerId || !order.customerName.trim()
+      ? null
+      : await findOrCreateCustomer(order.customerName, { phone: order.customerPhone, address: order.deliveryAddress });
     const newOrder: Order = {
       ...order,
+      customerId: order.customerId ?? customer?.id ?? null,
       id: Crypto.randomUUID(),
       createdAt: now,
       updatedAt: now,
@@ -462,21 +1119,29 @@ export function ShopProvider({ children }: { children: ReactNode }) {
       return next;
     });
     if (user?.shop_id) {
-      enqueueSync({ table: 'orders', operation: 'insert', payload: toSupabaseOrder(newOrder) }).catch(() => {});
+      enqueueSync({ table: 'orders', operation: 'insert', payload: orderCodec.toRow(newOrder) }).catch(() => {});
     }
-  }, [user]);
+  }, [user, findOrCreateCustomer]);
 
   const updateOrderStatus = useCallback(async (id: string, status: OrderStatus) => {
     const updatedAt = new Date().toISOString();
+    let previousStatus: OrderStatus | null = null;
     setOrders(prev => {
-      const next = prev.map(o =>
-        o.id === id ? { ...o, status, updatedAt } : o
-      );
+      const next = prev.map(o => {
+        if (o.id !== id) return o;
+        previousStatus = o.status;
+        return { ...o, status, updatedAt };
+      });
       saveOrders(next);
       return next;
     });
     if (user?.shop_id) {
-      enqueueSync({ table: 'orders', operation: 'update', payload: { id, status, updated_at: updatedAt } }).catch(() => {});
+      enqueueSync({
+        table: 'orders',
+        operation: 'update',
+        payload: { id, status, updated_at: updatedAt },
+        base: previousStatus ? { id, status: previousStatus } : null,
+      }).catch(() => {});
     }
   }, [user]);
 
@@ -491,11 +1156,13 @@ export function ShopProvider({ children }: { children: ReactNode }) {
     }
   }, [user]);
 
-  const addStaffMember = useCallback(async (member: Omit<StaffMember, 'id' | 'createdAt' | 'activityLog'>) => {
+  const addStaffMember = useCallback(async (member: Omit<StaffMember, 'id' | 'createdAt' | 'updatedAt' | 'activityLog'>) => {
+    const now = new Date().toISOString();
     const newMember: StaffMember = {
       ...member,
       id: Crypto.randomUUID(),
-      createdAt: new Date().toISOString(),
+      createdAt: now,
+      updatedAt: now,
       activityLog: [],
     };
     setStaff(prev => {
@@ -503,15 +1170,55 @@ export function ShopProvider({ children }: { children: ReactNode }) {
       saveStaff(next);
       return next;
     });
-  }, []);
+    if (user?.shop_id) {
+      enqueueSync({ table: 'staff_members', operation: 'insert', payload: staffMemberCodec.toRow(newMember) }).catch(() => {});
+    }
+    return newMember;
+  }, [user]);
 
   const updateStaffMember = useCallback(async (id: string, updates: Partial<StaffMember>) => {
+    let previous: StaffMember | null = null;
+    let updated: StaffMember | null = null;
     setStaff(prev => {
-      const next = prev.map(s => s.id === id ? { ...s, ...updates } : s);
+      const next = prev.map(s => {
+        if (s.id !== id) return s;
+        previous = s;
+        updated = { ...s, ...updates, updatedAt: new Date().toISOString() };
+        return updated;
+      });
       saveStaff(next);
       return next;
     });
-  }, []);
+    if (user?.shop_id && updated && previous) {
+      enqueueSync({
+        table: 'staff_members',
+        operation: 'update',
+        payload: staffMemberCodec.toRow(updated),
+        base: staffMemberCodec.toRow(previous),
+      }).catch(() => {});
+    }
+  }, [user]);
+
+  // The PIN lives on the owner's staff roster entry, so voids it approves land
+  // in that entry's activity log. A synced shop hands it to set_staff_pin,
+  // which keeps its hash on the server; only an unsynced phone keeps a hash
+  const setApprovalPin = useCallback(async (pin: string) => {
+    const owner = staff.find(s => s.role === 'owner' && s.isActive)
+      ?? await addStaffMember({ name: user?.name ?? '', role: 'owner', pinHash: null, hasPin: false, isActive: true });
+    if (user?.shop_id) {
+      // A new roster entry has to reach the server before its PIN can
+      await flushSyncQueue(user.shop_id);
+      const { error } = await supabase.rpc('set_staff_pin', { target_staff_id: owner.id, new_pin: pin });
+      if (error) throw new Error(i18n.t('approvalPinNotSaved'));
+    }
+    const pinHash = user?.shop_id ? null : hashPin(pin);
+    // Set without queueing: neither field is synced
+    setStaff(prev => {
+      const next = prev.map(s => (s.id === owner.id ? { ...s, pinHash, hasPin: true } : s));
+      saveStaff(next);
+      return next;
+    });
+  }, [staff, user, addStaffMember]);
 
   const deleteStaffMember = useCallback(async (id: string) => {
     setStaff(prev => {
@@ -519,24 +1226,127 @@ export function ShopProvider({ children }: { children: ReactNode }) {
       saveStaff(next);
       return next;
     });
-  }, []);
+    if (user?.shop_id) {
+      enqueueSync({ table: 'staff_members', operation: 'delete', payload: { id } }).catch(() => {});
+    }
+  }, [user]);
 
   const logStaffActivity = useCallback(async (staffId: string, action: string, details: string) => {
+    const entry: StaffActivity = { id: Crypto.randomUUID(), action, details, timestamp: new Date().toISOString() };
     setStaff(prev => {
       const next = prev.map(s => {
         if (s.id !== staffId) return s;
         return {
           ...s,
-          activityLog: [
-            { id: Crypto.randomUUID(), action, details, timestamp: new Date().toISOString() },
-            ...s.activityLog.slice(0, 99),
-          ],
+          activityLog: [entry, ...s.activityLog.slice(0, STAFF_ACTIVITY_CACHE - 1)],
         };
       });
       saveStaff(next);
       return next;
     });
-  }, []);
+    if (user?.shop_id) {
+      enqueueSync({ table: 'staff_activity', operation: 'insert', payload: staffActivityCodec.toRow({ ...entry, staffId }) }).catch(() => {});
+    }
+  }, [user]);
+
+  const fetchStaffActivity = useCallback(async (staffId: string, before?: string) => {
+    if (!user?.shop_id) {
+      const member = staff.find(s => s.id === staffId);
+      const log = member?.activityLog ?? [];
+      return before ? log.filter(a => a.timestamp < before) : log;
+    }
+    return fetchStaffActivityPage(user.shop_id, staffId, before);
+  }, [user, staff]);
+
+  // Cashiers can't void on their own: an owner on the staff roster has to
+  // key in their PIN, and the void is logged against that owner. A synced
+  // shop checks the PIN on the server, which records the approval
+  const voidSale = useCallback(async (saleId: string, reason: string, ownerPin: string) => {
+    const sale = sales.find(s => s.id === saleId);
+    if (!sale) throw new Error(i18n.t('returnSaleNotFound'));
+    if (sale.voidedAt) throw new Error(i18n.t('saleAlreadyVoided'));
+    if (saleReturns.some(r => r.saleId === saleId)) throw new Error(i18n.t('voidHasReturns'));
+    if (!reason.trim()) throw new Error(i18n.t('voidReasonRequired'));
+
+    let approver: { id: string; name: string } | undefined;
+    if (user?.shop_id) {
+      const { data, error } = await supabase.rpc('approve_void', {
+        target_shop_id: user.shop_id,
+        target_sale_id: saleId,
+        void_reason: reason.trim(),
+        owner_pin: ownerPin,
+      });
+      if (error) {
+        throw new Error(i18n.t(error.message === 'Too many wrong PINs' ? 'ownerPinLocked' : 'voidApprovalFailed'));
+      }
+      const [row] = (data ?? []) as { staff_id: string; staff_name: string }[];
+      approver = row && { id: row.staff_id, name: row.staff_name };
+    } else {
+      approver = staff.find(s => s.role === 'owner' && s.isActive && verifyPin(ownerPin, s.pinHash));
+    }
+    if (!approver) throw new Error(i18n.t('ownerPinInvalid'));
+
+    const voidedAt = new Date().toISOString();
+    const voided: Sale = { ...sale, voidedAt, voidReason: reason.trim(), voidedBy: approver.name };
+
+    const moves = sale.items.flatMap(item => saleItemStock(item));
+    const returnedByProduct = totalByProduct(moves);
+    setProducts(prev => {
+      const next = prev.map(p => {
+        const returned = returnedByProduct.get(p.id) ?? 0;
+        return returned > 0 ? { ...p, stock: p.stock + returned, updatedAt: voidedAt } : p;
+      });
+      saveProducts(next);
+      return next;
+    });
+
+    setSales(prev => {
+      const next = prev.map(s => (s.id === saleId ? voided : s));
+      saveSales(next);
+      return next;
+    });
+
+    if (user?.shop_id) {
+      enqueueSync({
+        table: 'sales',
+        operation: 'update',
+        payload: { id: saleId, voided_at: voidedAt, void_reason: voided.voidReason, voided_by: voided.voidedBy },
+        base: { id: saleId, voided_at: null, void_reason: '', voided_by: null },
+      }).catch(() => {});
+      moves.forEach(move => {
+        enqueueSync({
+          table: 'inventory_movements',
+          operation: 'insert',
+          payload: inventoryMovementCodec.toRow(newMovement(move.productId, move.quantity, 'void', saleId)),
+        }).catch(() => {});
+      });
+    }
+
+    // Earned points are taken back and spent points given back
+    if (sale.customerId) {
+      const customerId = sale.customerId;
+      recordLoyaltyEntries([
+        ...(sale.loyaltyPointsEarned > 0
+          ? [newLoyaltyEntry(customerId, saleId, 'void', -sale.loyaltyPointsEarned, user, voidedAt)]
+          : []),
+        ...(sale.loyaltyPointsRedeemed > 0
+          ? [newLoyaltyEntry(customerId, saleId, 'void', sale.loyaltyPointsRedeemed, user, voidedAt)]
+          : []),
+      ]);
+    }
+
+    await logStaffActivity(
+      approver.id,
+      'void_sale',
+      i18n.t('voidActivityDetails', {
+        id: saleId.slice(0, 8).toUpperCase(),
+        amount: formatCurrency(sale.total),
+        staff: user?.name ?? sale.staffName ?? '—',
+        reason: voided.voidReason,
+      }),
+    );
+    return voided;
+  }, [sales, saleReturns, staff, user, logStaffActivity, recordLoyaltyEntries]);
 
   const updateShopProfile = useCallback(async (updates: Partial<ShopProfile>) => {
     setShopProfile(prev => {
@@ -547,26 +1357,9 @@ export function ShopProvider({ children }: { children: ReactNode }) {
       }
       return next;
     });
-    // Sync all shop fields directly to Supabase shops table (not via offline queue)
+    // A failed send shows in the sync status and is retried on the next flush
     if (user?.shop_id) {
-      const next = { ...shopProfile, ...updates };
-      const va = next.virtualAccount;
-      supabase.from('shops').update({
-        name: next.name,
-        bio: next.bio,
-        slug: next.slug,
-        phone: next.phone,
-        address: next.address,
-        accent_color: next.accentColor,
-        delivery_radius: next.deliveryRadius,
-        opening_hours: next.openingHours,
-        language: next.language,
-        virtual_account_provider: va?.provider ?? null,
-        virtual_account_number: va?.accountNumber ?? null,
-        virtual_account_bank_name: va?.bankName ?? null,
-        virtual_account_account_name: va?.accountName ?? null,
-        virtual_account_is_active: va?.isActive ?? false,
-      }).eq('id', user.shop_id).then(() => {}).catch(() => {});
+      pushShopProfile(user.shop_id, { ...shopProfile, ...updates }).catch(() => {});
     }
   }, [user, shopProfile]);
 
@@ -577,7 +1370,10 @@ export function ShopProvider({ children }: { children: ReactNode }) {
       saveExpenses(next);
       return next;
     });
-  }, []);
+    if (user?.shop_id) {
+      enqueueSync({ table: 'expenses', operation: 'insert', payload: expenseCodec.toRow(newExpense) }).catch(() => {});
+    }
+  }, [user]);
 
   const deleteExpense = useCallback(async (id: string) => {
     setExpenses(prev => {
@@ -585,11 +1381,14 @@ export function ShopProvider({ children }: { children: ReactNode }) {
       saveExpenses(next);
       return next;
     });
-  }, []);
+    if (user?.shop_id) {
+      enqueueSync({ table: 'expenses', operation: 'delete', payload: { id } }).catch(() => {});
+    }
+  }, [user]);
 
   const todaySales = useMemo(() => {
     const today = dayjs().format('YYYY-MM-DD');
-    return sales.filter(s => dayjs(s.createdAt).format('YYYY-MM-DD') === today);
+    return sales.filter(s => !s.voidedAt && dayjs(s.createdAt).format('YYYY-MM-DD') === today);
   }, [sales]);
 
   const todayRevenue = useMemo(() =>
@@ -603,7 +1402,7 @@ export function ShopProvider({ children }: { children: ReactNode }) {
   );
 
   const lowStockProducts = useMemo(() =>
-    products.filter(p => p.stock <= p.lowStockThreshold),
+    stockedProducts(products).filter(p => p.stock <= p.lowStockThreshold),
     [products]
   );
 
@@ -620,27 +1419,40 @@ export function ShopProvider({ children }: { children: ReactNode }) {
   }, [sales]);
 
   const value = useMemo(() => ({
-    products, sales, orders, staff, shopProfile, cart, isLoading,
-    isSyncing, lastSyncAt, syncNow, reloadData,
+    products, sales, saleReturns, customers, creditPayments, creditAccounts, loyaltyEntries, loyaltyBalances,
+    orders, staff, shopProfile, cart, isLoading,
+    isSyncing, lastSyncAt, syncConflicts, resolveSyncConflict,
+    syncDeadLetters, syncStatus, retryDeadLetter, discardDeadLetter, syncNow, reloadData,
     addProduct, updateProduct, deleteProduct, adjustStock,
     toggleMarketplace, updateMarketplaceListing,
-    addToCart, removeFromCart, updateCartQuantity, clearCart, completeSale,
+    addToCart, removeFromCart, updateCartQuantity, setCartItemUnit, clearCart, completeSale, recordSaleReturn, voidSale,
+    addCustomer, updateCustomer, findOrCreateCustomer, recordCreditPayment,
+    cartDiscount, setCartItemDiscount, setCartDiscount, applyPromoCode,
+    heldCarts, parkCart, resumeHeldCart, discardHeldCart,
     addOrder, updateOrderStatus, deleteOrder,
-    addStaffMember, updateStaffMember, deleteStaffMember, logStaffActivity,
+    addStaffMember, updateStaffMember, setApprovalPin, deleteStaffMember, logStaffActivity, fetchStaffActivity,
     updateShopProfile,
     expenses, addExpense, deleteExpense,
+    cartSubtotal: cartTotals.subtotal,
+    cartDiscountTotal: cartTotals.lineDiscounts + cartTotals.cartDiscount,
+    cartTax: cartTotals.tax,
     cartTotal, cartItemCount, todaySales, todayRevenue, todayItemsSold,
     lowStockProducts, marketplaceProducts, getSalesByDateRange,
-  }), [products, sales, orders, staff, shopProfile, cart, isLoading,
-    isSyncing, lastSyncAt, syncNow, reloadData,
+  }), [products, sales, saleReturns, customers, creditPayments, creditAccounts, loyaltyEntries, loyaltyBalances,
+    orders, staff, shopProfile, cart, isLoading,
+    isSyncing, lastSyncAt, syncConflicts, resolveSyncConflict,
+    syncDeadLetters, syncStatus, retryDeadLetter, discardDeadLetter, syncNow, reloadData,
     addProduct, updateProduct, deleteProduct, adjustStock,
     toggleMarketplace, updateMarketplaceListing,
-    addToCart, removeFromCart, updateCartQuantity, clearCart, completeSale,
+    addToCart, removeFromCart, updateCartQuantity, setCartItemUnit, clearCart, completeSale, recordSaleReturn, voidSale,
+    addCustomer, updateCustomer, findOrCreateCustomer, recordCreditPayment,
+    cartDiscount, setCartItemDiscount, applyPromoCode,
+    heldCarts, parkCart, resumeHeldCart, discardHeldCart,
     addOrder, updateOrderStatus, deleteOrder,
-    addStaffMember, updateStaffMember, deleteStaffMember, logStaffActivity,
+    addStaffMember, updateStaffMember, setApprovalPin, deleteStaffMember, logStaffActivity, fetchStaffActivity,
     updateShopProfile,
     expenses, addExpense, deleteExpense,
-    cartTotal, cartItemCount, todaySales, todayRevenue, todayItemsSold,
+    cartTotals, cartTotal, cartItemCount, todaySales, todayRevenue, todayItemsSold,
     lowStockProducts, marketplaceProducts, getSalesByDateRange]);
 
   return (
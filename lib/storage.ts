@@ -1,50 +1,129 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Product, Sale, Order, StaffMember, ShopProfile, UserProfile, StaffPermissions, AppSettings, SyncQueueItem, Expense } from './types';
+import { loadTable, saveTable, clearTables, setDatabaseNamespace, deleteDatabaseNamespace, productsTable, salesTable, saleReturnsTable, customersTable, creditPaymentsTable, loyaltyEntriesTable, ordersTable, staffTable, expensesTable } from './database';
+import { Product, Sale, SaleReturn, Customer, CreditPayment, LoyaltyEntry, Order, StaffMember, ShopProfile, HeldCart, UserProfile, StaffPermissions, AppSettings, SyncQueueItem, SyncConflict, SyncDeadLetter, SyncStatus, Expense } from './types';
 
-const PRODUCTS_KEY = '@shoptally_products';
-const SALES_KEY = '@shoptally_sales';
-const ORDERS_KEY = '@shoptally_orders';
-const STAFF_KEY = '@shoptally_staff';
 const SHOP_PROFILE_KEY = '@shoptally_shop_profile';
 
+// --- Shop namespaces ---
+// Shop data is kept per shop so a user in several shops can switch between
+// them. Keys get a `:<shopId>` suffix and entity tables a database file of
+// their own. The first shop opened on this phone keeps the original unscoped
+// names, which is where its data already lives from before namespacing.
+
+const UNSCOPED_SHOP_KEY = '@shoptally_unscoped_shop';
+const KNOWN_SHOPS_KEY = '@shoptally_known_shops';
+
+let activeShopId: string | null = null;
+let keyNamespace: string | null = null;
+
+function scoped(key: string): string {
+  return keyNamespace ? `${key}:${keyNamespace}` : key;
+}
+
+async function loadKnownShops(): Promise<string[]> {
+  const data = await AsyncStorage.getItem(KNOWN_SHOPS_KEY);
+  return data ? JSON.parse(data) : [];
+}
+
+export function getActiveShop(): string | null {
+  return activeShopId;
+}
+
+/**
+ * Point every load and save at the given shop's data. Pass null when no
+ * shop is signed in (offline-only use), which uses the unscoped names.
+ */
+export async function setActiveShop(shopId: string | null): Promise<void> {
+  let namespace: string | null = null;
+  if (shopId) {
+    const unscopedShop = await AsyncStorage.getItem(UNSCOPED_SHOP_KEY);
+    if (!unscopedShop) {
+      await AsyncStorage.setItem(UNSCOPED_SHOP_KEY, shopId);
+    } else if (unscopedShop !== shopId) {
+      namespace = shopId;
+      const knownShops = await loadKnownShops();
+      if (!knownShops.includes(shopId)) {
+        await AsyncStorage.setItem(KNOWN_SHOPS_KEY, JSON.stringify([...knownShops, shopId]));
+      }
+    }
+  }
+  activeShopId = shopId;
+  keyNamespace = namespace;
+  await setDatabaseNamespace(namespace);
+}
+
+// Entity lists live in SQLite (see database.ts); saves write only changed rows
+
 export async function loadProducts(): Promise<Product[]> {
-  const data = await AsyncStorage.getItem(PRODUCTS_KEY);
-  if (!data) return [];
-  return JSON.parse(data);
+  return loadTable(productsTable);
 }
 
 export async function saveProducts(products: Product[]): Promise<void> {
-  await AsyncStorage.setItem(PRODUCTS_KEY, JSON.stringify(products));
+  await saveTable(productsTable, products);
 }
 
 export async function loadSales(): Promise<Sale[]> {
-  const data = await AsyncStorage.getItem(SALES_KEY);
-  if (!data) return [];
-  return JSON.parse(data);
+  return loadTable(salesTable);
 }
 
 export async function saveSales(sales: Sale[]): Promise<void> {
-  await AsyncStorage.setItem(SALES_KEY, JSON.stringify(sales));
+  await saveTable(salesTable, sales);
+}
+
+export async function loadSaleReturns(): Promise<SaleReturn[]> {
+  return loadTable(saleReturnsTable);
+}
+
+export async function saveSaleReturns(returns: SaleReturn[]): Promise<void> {
+  await saveTable(saleReturnsTable, returns);
+}
+
+export async function loadCustomers(): Promise<Customer[]> {
+  return loadTable(customersTable);
+}
+
+export async function saveCustomers(customers: Customer[]): Promise<void> {
+  await saveTable(customersTable, customers);
+}
+
+export async function loadCreditPayments(): Promise<CreditPayment[]> {
+  return loadTable(creditPaymentsTable);
+}
+
+export async function saveCreditPayments(payments: CreditPayment[]): Promise<void> {
+  await saveTable(creditPaymentsTable, payments);
+}
+
+export async function loadLoyaltyEntries(): Promise<LoyaltyEntry[]> {
+  return loadTable(loyaltyEntriesTable);
+}
+
+export async function saveLoyaltyEntries(entries: LoyaltyEntry[]): Promise<void> {
+  await saveTable(loyaltyEntriesTable, entries);
 }
 
 export async function loadOrders(): Promise<Order[]> {
-  const data = await AsyncStorage.getItem(ORDERS_KEY);
-  if (!data) return [];
-  return JSON.parse(data);
+  return loadTable(ordersTable);
 }
 
 export async function saveOrders(orders: Order[]): Promise<void> {
-  await AsyncStorage.setItem(ORDERS_KEY, JSON.stringify(orders));
+  await saveTable(ordersTable, orders);
 }
 
 export async function loadStaff(): Promise<StaffMember[]> {
-  const data = await AsyncStorage.getItem(STAFF_KEY);
-  if (!data) return [];
-  return JSON.parse(data);
+  return loadTable(staffTable);
 }
 
 export async function saveStaff(staff: StaffMember[]): Promise<void> {
-  await AsyncStorage.setItem(STAFF_KEY, JSON.stringify(staff));
+  await saveTable(staffTable, staff);
+}
+
+export async function loadExpenses(): Promise<Expense[]> {
+  return loadTable(expensesTable);
+}
+
+export async function saveExpenses(expenses: Expense[]): Promise<void> {
+  await saveTable(expensesTable, expenses);
 }
 
 const DEFAULT_SHOP_PROFILE: ShopProfile = {
@@ -69,16 +148,19 @@ const DEFAULT_SHOP_PROFILE: ShopProfile = {
   featuredProductIds: [],
   language: 'en',
   virtualAccount: null,
+  promoCodes: [],
+  taxSettings: { enabled: false, name: 'VAT', rate: 7.5, pricesIncludeTax: true, taxId: null },
+  loyaltySettings: { enabled: false, spendPerPoint: 1000, pointValue: 10, minRedeemPoints: 100 },
 };
 
 export async function loadShopProfile(): Promise<ShopProfile> {
-  const data = await AsyncStorage.getItem(SHOP_PROFILE_KEY);
+  const data = await AsyncStorage.getItem(scoped(SHOP_PROFILE_KEY));
   if (!data) return DEFAULT_SHOP_PROFILE;
   return { ...DEFAULT_SHOP_PROFILE, ...JSON.parse(data) };
 }
 
 export async function saveShopProfile(profile: ShopProfile): Promise<void> {
-  await AsyncStorage.setItem(SHOP_PROFILE_KEY, JSON.stringify(profile));
+  await AsyncStorage.setItem(scoped(SHOP_PROFILE_KEY), JSON.stringify(profile));
 }
 
 // --- Auth & sync storage ---
@@ -88,6 +170,25 @@ const AUTH_USER_CACHE_KEY = '@shoptally_auth_user';
 const AUTH_PERMISSIONS_CACHE_KEY = '@shoptally_auth_permissions';
 const APP_SETTINGS_KEY = '@shoptally_app_settings';
 const SYNC_QUEUE_KEY = '@shoptally_sync_queue';
+const SYNC_CONFLICTS_KEY = '@shoptally_sync_conflicts';
+const SYNC_DEAD_LETTERS_KEY = '@shoptally_sync_dead_letters';
+const PULL_CURSORS_KEY = '@shoptally_pull_cursors';
+const SYNC_STATUS_KEY = '@shoptally_sync_status';
+const LAST_SYNC_AT_KEY = '@shoptally_last_sync_at';
+const HELD_CARTS_KEY = '@shoptally_held_carts';
+const SHOP_UPDATE_KEY = '@shoptally_shop_update';
+
+const SHOP_SCOPED_KEYS = [
+  SHOP_PROFILE_KEY,
+  SYNC_QUEUE_KEY,
+  SYNC_CONFLICTS_KEY,
+  SYNC_DEAD_LETTERS_KEY,
+  PULL_CURSORS_KEY,
+  SYNC_STATUS_KEY,
+  LAST_SYNC_AT_KEY,
+  HELD_CARTS_KEY,
+  SHOP_UPDATE_KEY,
+];
 
 const DEFAULT_APP_SETTINGS: AppSettings = {
   theme: 'system',
@@ -143,24 +244,50 @@ export async function saveAppSettings(settings: AppSettings): Promise<void> {
 }
 
 export async function loadSyncQueue(): Promise<SyncQueueItem[]> {
-  const data = await AsyncStorage.getItem(SYNC_QUEUE_KEY);
+  const data = await AsyncStorage.getItem(scoped(SYNC_QUEUE_KEY));
   return data ? JSON.parse(data) : [];
 }
 
 export async function saveSyncQueue(queue: SyncQueueItem[]): Promise<void> {
-  await AsyncStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+  await AsyncStorage.setItem(scoped(SYNC_QUEUE_KEY), JSON.stringify(queue));
 }
 
-const EXPENSES_KEY = '@shoptally_expenses';
+export async function loadSyncConflicts(): Promise<SyncConflict[]> {
+  const data = await AsyncStorage.getItem(scoped(SYNC_CONFLICTS_KEY));
+  return data ? JSON.parse(data) : [];
+}
 
-export async function loadExpenses(): Promise<Expense[]> {
-  const data = await AsyncStorage.getItem(EXPENSES_KEY);
-  if (!data) return [];
-  return JSON.parse(data);
+export async function saveSyncConflicts(conflicts: SyncConflict[]): Promise<void> {
+  await AsyncStorage.setItem(scoped(SYNC_CONFLICTS_KEY), JSON.stringify(conflicts));
 }
 
-export async function saveExpenses(expenses: Expense[]): Promise<void> {
-  await AsyncStorage.setItem(EXPENSES_KEY, JSON.stringify(expenses));
+export async function loadSyncDeadLetters(): Promise<SyncDeadLetter[]> {
+  const data = await AsyncStorage.getItem(scoped(SYNC_DEAD_LETTERS_KEY));
+  return data ? JSON.parse(data) : [];
+}
+
+export async function saveSyncDeadLetters(items: SyncDeadLetter[]): Promise<void> {
+  await AsyncStorage.setItem(scoped(SYNC_DEAD_LETTERS_KEY), JSON.stringify(items));
+}
+
+// Shop settings the server hasn't accepted yet, as a shops row update
+export async function loadShopUpdate(): Promise<Record<string, unknown> | null> {
+  const data = await AsyncStorage.getItem(scoped(SHOP_UPDATE_KEY));
+  return data ? JSON.parse(data) : null;
+}
+
+export async function saveShopUpdate(update: Record<string, unknown> | null): Promise<void> {
+  if (update) await AsyncStorage.setItem(scoped(SHOP_UPDATE_KEY), JSON.stringify(update));
+  else await AsyncStorage.removeItem(scoped(SHOP_UPDATE_KEY));
+}
+
+export async function loadHeldCarts(): Promise<HeldCart[]> {
+  const data = await AsyncStorage.getItem(scoped(HELD_CARTS_KEY));
+  return data ? JSON.parse(data) : [];
+}
+
+export async function saveHeldCarts(carts: HeldCart[]): Promise<void> {
+  await AsyncStorage.setItem(scoped(HELD_CARTS_KEY), JSON.stringify(carts));
 }
 
 // Pending shop creation (stored while waiting for email confirmation)
@@ -183,25 +310,97 @@ export async function clearPendingShop(): Promise<void> {
 
 // --- App data clear & sync timestamp ---
 
+/** Remove every shop's data from this phone, e.g. on sign out. */
 export async function clearAppData(): Promise<void> {
-  await AsyncStorage.multiRemove([
-    PRODUCTS_KEY,
-    SALES_KEY,
-    ORDERS_KEY,
-    STAFF_KEY,
-    SHOP_PROFILE_KEY,
-    SYNC_QUEUE_KEY,
-    PENDING_SHOP_KEY,
-    EXPENSES_KEY,
-  ]);
+  const knownShops = await loadKnownShops();
+  await setActiveShop(null);
+  await clearTables();
+  for (const shopId of knownShops) {
+    await deleteDatabaseNamespace(shopId);
+  }
+  const keys = (await AsyncStorage.getAllKeys()).filter(key =>
+    SHOP_SCOPED_KEYS.some(base => key === base || key.startsWith(`${base}:`)),
+  );
+  await AsyncStorage.multiRemove([...keys, PENDING_SHOP_KEY, KNOWN_SHOPS_KEY, UNSCOPED_SHOP_KEY]);
 }
 
-const LAST_SYNC_AT_KEY = '@shoptally_last_sync_at';
-
 export async function loadLastSyncAt(): Promise<string | null> {
-  return AsyncStorage.getItem(LAST_SYNC_AT_KEY);
+  return AsyncStorage.getItem(scoped(LAST_SYNC_AT_KEY));
 }
 
 export async function saveLastSyncAt(iso: string): Promise<void> {
-  await AsyncStorage.setItem(LAST_SYNC_AT_KEY, iso);
+  await AsyncStorage.setItem(scoped(LAST_SYNC_AT_KEY), iso);
+}
+
+// Per-table high-water marks for incremental pulls (server timestamps)
+export async function loadPullCursors(): Promise<Record<string, string>> {
+  const data = await AsyncStorage.getItem(scoped(PULL_CURSORS_KEY));
+  return data ? JSON.parse(data) : {};
+}
+
+export async function savePullCursors(cursors: Record<string, string>): Promise<void> {
+  await AsyncStorage.setItem(scoped(PULL_CURSORS_KEY), JSON.stringify(cursors));
+}
+
+const DEFAULT_SYNC_STATUS: SyncStatus = {
+  pendingCount: 0,
+  pendingByTable: {},
+  lastError: null,
+  lastErrorAt: null,
+  lastPushAt: null,
+  lastPullAt: null,
+};
+
+export async function loadSyncStatus(): Promise<SyncStatus> {
+  const data = await AsyncStorage.getItem(scoped(SYNC_STATUS_KEY));
+  return data ? { ...DEFAULT_SYNC_STATUS, ...JSON.parse(data) } : DEFAULT_SYNC_STATUS;
+}
+
+export async function saveSyncStatus(status: SyncStatus): Promise<void> {
+  await AsyncStorage.setItem(scoped(SYNC_STATUS_KEY), JSON.stringify(status));
+}
+
+// --- Backup ---
+
+// The active shop's keys plus this phone's preferences. Sign-in caches and
+// namespace bookkeeping belong to the phone, not to the shop.
+const BACKUP_KEYS = [...SHOP_SCOPED_KEYS, APP_SETTINGS_KEY, ONBOARDING_DONE_KEY];
+
+// What the phone knows about its exchange with the server. Only meaningful
+// for the shop it was recorded in.
+const SYNC_STATE_KEYS = [
+  SYNC_QUEUE_KEY,
+  SYNC_CONFLICTS_KEY,
+  SYNC_DEAD_LETTERS_KEY,
+  PULL_CURSORS_KEY,
+  SYNC_STATUS_KEY,
+  LAST_SYNC_AT_KEY,
+  SHOP_UPDATE_KEY,
+];
+
+function storageKey(key: string): string {
+  return SHOP_SCOPED_KEYS.includes(key) ? scoped(key) : key;
+}
+
+/** Raw values of every key that belongs in a backup file, by unscoped name. */
+export async function loadBackupKeys(): Promise<Record<string, string>> {
+  const entries = await AsyncStorage.multiGet(BACKUP_KEYS.map(storageKey));
+  const values: Record<string, string> = {};
+  entries.forEach(([, value], i) => {
+    if (value != null) values[BACKUP_KEYS[i]] = value;
+  });
+  return values;
+}
+
+/**
+ * Replace the active shop's backed-up keys with the given values. Without
+ * `withSyncState` the queue and pull cursors start empty instead.
+ */
+export async function restoreBackupKeys(values: Record<string, string>, withSyncState = true): Promise<void> {
+  await AsyncStorage.multiRemove(BACKUP_KEYS.map(storageKey));
+  await AsyncStorage.multiSet(
+    Object.entries(values)
+      .filter(([key]) => BACKUP_KEYS.includes(key) && (withSyncState || !SYNC_STATE_KEYS.includes(key)))
+      .map(([key, value]) => [storageKey(key), value]),
+  );
 }
@@ -3,14 +3,56 @@ import { supabase } from './supabase';
 import {
   loadSyncQueue,
   saveSyncQueue,
+  loadSyncConflicts,
+  saveSyncConflicts,
+  loadSyncDeadLetters,
+  saveSyncDeadLetters,
+  loadProducts,
   saveProducts,
+  loadSales,
   saveSales,
+  loadSaleReturns,
+  saveSaleReturns,
+  loadCustomers,
+  saveCustomers,
+  loadCreditPayments,
+  saveCreditPayments,
+  loadLoyaltyEntries,
+  saveLoyaltyEntries,
+  loadOrders,
   saveOrders,
+  loadExpenses,
+  saveExpenses,
+  loadStaff,
+  saveStaff,
   saveShopProfile,
   loadShopProfile,
   saveLastSyncAt,
+  loadPullCursors,
+  savePullCursors,
+  getActiveShop,
+  setActiveShop,
+  loadSyncStatus,
+  saveSyncStatus,
+  loadShopUpdate,
+  saveShopUpdate,
 } from './storage';
-import type { SyncQueueItem, SyncTable, Product, Sale, Order, ShopProfile } from './types';
+import type {
+  SyncQueueItem, SyncDeadLetter, SyncTable, SyncConflict, SyncConflictField, SyncConflictPolicy, SyncStatus,
+  Product, Sale, Order, Expense, ShopProfile, StaffActivity,
+} from './types';
+import {
+  productCodec,
+  saleCodec,
+  saleReturnCodec,
+  customerCodec,
+  creditPaymentCodec,
+  loyaltyEntryCodec,
+  orderCodec,
+  expenseCodec,
+  staffMemberCodec,
+  staffActivityCodec,
+} from './codecs';
 
 // Generate a UUID (Expo crypto or Math.random fallback)
 function generateId(): string {
@@ -25,73 +67,613 @@ function generateId(): string {
 const TABLE_MAP: Record<SyncTable, string> = {
   products: 'products',
   sales: 'sales',
+  sale_returns: 'sale_returns',
+  customers: 'customers',
+  credit_payments: 'credit_payments',
+  loyalty_entries: 'loyalty_entries',
   orders: 'orders',
   payments: 'payments',
+  expenses: 'expenses',
+  staff_members: 'staff_members',
+  staff_activity: 'staff_activity',
+  inventory_movements: 'inventory_movements',
+};
+
+// Column lists for tables where `*` would ask for columns clients can't read
+const SELECT_COLUMNS: Record<string, string> = {
+  staff_members: 'id, shop_id, name, role, has_pin, is_active, created_at, updated_at, synced_at',
+};
+
+// How a queued write is reconciled with a row another device changed first.
+// 'last_writer_wins' merges field by field and keeps the newer edit where both
+// sides touched the same field; 'server_wins' never overwrites a server value.
+const CONFLICT_POLICY: Record<SyncTable, SyncConflictPolicy> = {
+  products: 'last_writer_wins',
+  sales: 'server_wins',
+  sale_returns: 'server_wins',
+  customers: 'last_writer_wins',
+  credit_payments: 'server_wins',
+  loyalty_entries: 'server_wins',
+  orders: 'last_writer_wins',
+  payments: 'server_wins',
+  expenses: 'last_writer_wins',
+  staff_members: 'last_writer_wins',
+  staff_activity: 'server_wins',
+  inventory_movements: 'server_wins',
+};
+
+// Columns that identify or stamp a row rather than hold user-edited data
+const META_FIELDS = new Set(['id', 'shop_id', 'created_at', 'updated_at']);
+
+// Columns the server keeps itself once a row exists: stock only moves through
+// the inventory_movements trigger, so a retried insert must not reset it
+const SERVER_OWNED_FIELDS: Partial<Record<SyncTable, Set<string>>> = {
+  products: new Set(['stock']),
 };
 
+// Rows that only ever get inserted; each queued item is a distinct record
+const APPEND_ONLY = new Set<SyncTable>([
+  'sale_returns', 'credit_payments', 'loyalty_entries', 'staff_activity', 'inventory_movements',
+]);
+
+// Parents before children, so foreign keys exist by the time a batch lands
+const FLUSH_ORDER: SyncTable[] = [
+  'products', 'customers', 'sales', 'sale_returns', 'credit_payments', 'loyalty_entries', 'orders', 'expenses',
+  'staff_members', 'staff_activity', 'inventory_movements', 'payments',
+];
+
+// Ids per request when looking up or upserting rows in bulk
+const SYNC_BATCH_SIZE = 100;
+
+// Queue items currently being sent; compaction leaves them alone
+const inFlight = new Set<string>();
+
+// Every read-modify-write of the queue runs through here, one at a time
+let queueLock: Promise<unknown> = Promise.resolve();
+
+function withQueueLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = queueLock.then(task);
+  queueLock = run.catch(() => {});
+  return run;
+}
+
+// ── Status ───────────────────────────────────────────────────────────────────
+
+type SyncStatusListener = (status: SyncStatus) => void;
+
+const statusListeners = new Set<SyncStatusListener>();
+let statusChain: Promise<SyncStatus> | null = null;
+
+function countPending(queue: SyncQueueItem[]): Pick<SyncStatus, 'pendingCount' | 'pendingByTable'> {
+  const pendingByTable: SyncStatus['pendingByTable'] = {};
+  for (const item of queue) {
+    pendingByTable[item.table] = (pendingByTable[item.table] ?? 0) + 1;
+  }
+  return { pendingCount: queue.length, pendingByTable };
+}
+
+/**
+ * Apply changes to the persisted status and notify listeners. Pass the
+ * queue whenever it was just saved so the pending counts follow it.
+ */
+function publishSyncStatus(changes: Partial<SyncStatus>, queue?: SyncQueueItem[]): Promise<SyncStatus> {
+  statusChain = (statusChain ?? loadSyncStatus())
+    .catch(() => loadSyncStatus())
+    .then(async current => {
+      const next = { ...current, ...changes, ...(queue ? countPending(queue) : {}) };
+      await saveSyncStatus(next);
+      statusListeners.forEach(listener => listener(next));
+      return next;
+    });
+  return statusChain;
+}
+
+function recordSyncError(err: unknown): void {
+  publishSyncStatus({ lastError: errorMessage(err), lastErrorAt: new Date().toISOString() }).catch(() => {});
+}
+
+/**
+ * Point local storage at another shop (null for offline-only use). Waits for
+ * a running flush and queued writes so none of them land in the wrong shop.
+ */
+export async function activateShop(shopId: string | null): Promise<SyncStatus> {
+  await activeFlush?.catch(() => {});
+  await withQueueLock(() => setActiveShop(shopId));
+  return getSyncStatus();
+}
+
+/** Re-read the status and queue from storage, e.g. after signing in. */
+export async function getSyncStatus(): Promise<SyncStatus> {
+  statusChain = null;
+  return publishSyncStatus({}, await loadSyncQueue());
+}
+
+/**
+ * Listen for status changes from enqueues, flushes and pulls.
+ * Returns an unsubscribe function — call it in component cleanup.
+ */
+export function subscribeSyncStatus(listener: SyncStatusListener): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+/**
+ * Fold a new write into the queue. Successive writes to the same row become
+ * one item, and a delete of a row that never reached the server cancels the
+ * insert. Items already being flushed are never touched.
+ */
+function compactQueue(queue: SyncQueueItem[], item: SyncQueueItem): SyncQueueItem[] {
+  if (APPEND_ONLY.has(item.table)) return [...queue, item];
+
+  let index = -1;
+  for (let i = queue.length - 1; i >= 0; i--) {
+    const q = queue[i];
+    if (q.table === item.table && q.payload.id === item.payload.id && !inFlight.has(q.id)) {
+      index = i;
+      break;
+    }
+  }
+  if (index === -1) return [...queue, item];
+
+  const pending = queue[index];
+  if (pending.operation === 'delete') return [...queue, item];
+
+  const next = [...queue];
+  if (item.operation === 'delete') {
+    if (pending.operation === 'insert') next.splice(index, 1);
+    else next[index] = item;
+    return next;
+  }
+
+  next[index] = {
+    ...pending,
+    payload: { ...pending.payload, ...item.payload },
+    // Keep the value each field had before the first queued edit
+    base: pending.base || item.base ? { ...item.base, ...pending.base } : pending.base,
+  };
+  return next;
+}
+
 /**
  * Add a write operation to the offline sync queue.
- * Call this after every AsyncStorage write in shop-context.
+ * Call this after every local storage write in shop-context.
  */
-export async function enqueueSync(
+export function enqueueSync(
   item: Omit<SyncQueueItem, 'id' | 'createdAt' | 'retryCount'>
 ): Promise<void> {
-  const queue = await loadSyncQueue();
   const newItem: SyncQueueItem = {
     ...item,
     id: generateId(),
     createdAt: new Date().toISOString(),
     retryCount: 0,
   };
-  await saveSyncQueue([...queue, newItem]);
+  return withQueueLock(async () => {
+    const queue = compactQueue(await loadSyncQueue(), newItem);
+    await saveSyncQueue(queue);
+    publishSyncStatus({}, queue).catch(() => {});
+  }).catch(err => {
+    // Callers don't wait on this, so make sure the failure is visible
+    recordSyncError(err);
+    throw err;
+  });
+}
+
+const MAX_RETRIES = 3;
+
+function errorMessage(err: unknown): string {
+  if (err && typeof err === 'object' && 'message' in err) {
+    return String((err as { message: unknown }).message);
+  }
+  return String(err ?? 'Unknown error');
 }
 
+let activeFlush: Promise<void> | null = null;
+
 /**
- * Attempt to push all queued items to Supabase.
+ * Attempt to push all queued items to Supabase, one table at a time with
+ * inserts and deletes batched into single requests.
  * Items that succeed are removed from the queue.
- * Items that fail are retried up to 3 times, then dropped.
+ * Items that fail are retried up to 3 times, then moved to the dead-letter
+ * store with their last error so the owner can retry, edit or discard them.
+ * Rows another device changed in the meantime are merged per CONFLICT_POLICY,
+ * and fields both sides edited are recorded as SyncConflicts for review.
+ * Calls made while a flush is running share it.
  */
-export async function flushSyncQueue(shopId: string): Promise<void> {
+export function flushSyncQueue(shopId: string): Promise<void> {
+  if (!activeFlush) {
+    activeFlush = runFlush(shopId).finally(() => {
+      activeFlush = null;
+    });
+  }
+  return activeFlush;
+}
+
+async function runFlush(shopId: string): Promise<void> {
+  // The queue belongs to the active shop; a listener left over from before a switch must not push it
+  if (shopId !== getActiveShop()) return;
   const netState = await NetInfo.fetch();
   if (!netState.isConnected) return;
 
-  const queue = await loadSyncQueue();
+  await sendShopUpdate(shopId).catch(() => {});
+
+  const queue = await withQueueLock(loadSyncQueue);
   if (queue.length === 0) return;
 
-  const remaining: SyncQueueItem[] = [];
+  queue.forEach(item => inFlight.add(item.id));
+  try {
+    const failures = new Map<string, unknown>();
+    for (const table of FLUSH_ORDER) {
+      const items = queue.filter(item => item.table === table);
+      if (items.length === 0) continue;
+      const batchFailures = await syncBatch(table, items, shopId);
+      batchFailures.forEach((err, id) => failures.set(id, err));
+    }
 
-  for (const item of queue) {
-    try {
-      await syncItem(item, shopId);
-      // Success — don't add back to queue
-    } catch {
-      if (item.retryCount < 3) {
-        remaining.push({ ...item, retryCount: item.retryCount + 1 });
+    const failed: SyncDeadLetter[] = [];
+    await withQueueLock(async () => {
+      // Re-read so writes queued during the flush are kept
+      const current = await loadSyncQueue();
+      const remaining: SyncQueueItem[] = [];
+      for (const item of current) {
+        if (!inFlight.has(item.id)) {
+          remaining.push(item);
+          continue;
+        }
+        if (!failures.has(item.id)) continue; // Success — don't add back to queue
+        const lastError = errorMessage(failures.get(item.id));
+        if (item.retryCount < MAX_RETRIES) {
+          remaining.push({ ...item, retryCount: item.retryCount + 1, lastError });
+        } else {
+          failed.push({ ...item, lastError, failedAt: new Date().toISOString() });
+        }
       }
-      // After 3 retries, silently drop the item
+      await saveSyncQueue(remaining);
+      const now = new Date().toISOString();
+      const firstFailure = failures.values().next();
+      await publishSyncStatus(
+        failures.size === 0
+          ? { lastPushAt: now, lastError: null, lastErrorAt: null }
+          : { lastError: errorMessage(firstFailure.value), lastErrorAt: now },
+        remaining,
+      );
+    });
+
+    if (failed.length > 0) {
+      const deadLetters = await loadSyncDeadLetters();
+      await saveSyncDeadLetters([...failed, ...deadLetters]);
     }
+  } finally {
+    queue.forEach(item => inFlight.delete(item.id));
   }
+}
+
+/**
+ * Put a dead-lettered item back on the queue with a fresh retry budget,
+ * optionally with an edited payload.
+ */
+export async function retryDeadLetter(id: string, payload?: Record<string, unknown>): Promise<void> {
+  const deadLetters = await loadSyncDeadLetters();
+  const item = deadLetters.find(d => d.id === id);
+  if (!item) return;
 
-  await saveSyncQueue(remaining);
+  const requeued: SyncQueueItem = {
+    id: item.id,
+    table: item.table,
+    operation: item.operation,
+    payload: payload ?? item.payload,
+    base: item.base,
+    createdAt: item.createdAt,
+    retryCount: 0,
+    lastError: item.lastError,
+  };
+  await withQueueLock(async () => {
+    const queue = [...(await loadSyncQueue()), requeued];
+    await saveSyncQueue(queue);
+    await publishSyncStatus({}, queue);
+  });
+  await saveSyncDeadLetters(deadLetters.filter(d => d.id !== id));
 }
 
-async function syncItem(item: SyncQueueItem, shopId: string): Promise<void> {
-  const supabaseTable = TABLE_MAP[item.table];
-  const payload = { ...item.payload, shop_id: shopId };
+export async function discardDeadLetter(id: string): Promise<void> {
+  const deadLetters = await loadSyncDeadLetters();
+  await saveSyncDeadLetters(deadLetters.filter(d => d.id !== id));
+}
 
-  if (item.operation === 'insert' || item.operation === 'update') {
-    const { error } = await supabase
-      .from(supabaseTable)
-      .upsert(payload, { onConflict: 'id' });
-    if (error) throw error;
-  } else if (item.operation === 'delete') {
+// Compare two column values, ignoring JSONB key order and null/undefined
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a == null || b == null) return a == null && b == null;
+  if (typeof a === 'object' && typeof b === 'object') {
+    return stableStringify(a) === stableStringify(b);
+  }
+  return a === b;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(k => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function isAfter(a: unknown, b: unknown): boolean {
+  if (typeof a !== 'string' || typeof b !== 'string') return false;
+  return new Date(a).getTime() > new Date(b).getTime();
+}
+
+function rowLabel(row: Record<string, unknown>): string {
+  return (row.name as string) || (row.title as string) || (row.customer_name as string) || String(row.id).slice(0, 8);
+}
+
+async function recordConflict(conflict: Omit<SyncConflict, 'id' | 'detectedAt'>): Promise<void> {
+  const conflicts = await loadSyncConflicts();
+  await saveSyncConflicts([
+    { ...conflict, id: generateId(), detectedAt: new Date().toISOString() },
+    ...conflicts,
+  ]);
+}
+
+/**
+ * Three-way merge of a queued write against the current server row.
+ * With a `base` snapshot a field only counts as a conflict when both this
+ * device and the server changed it; without one, any differing field does
+ * once the server row is newer (or the table is server-wins). Server-owned
+ * columns are never sent.
+ */
+export function mergeWithServer(
+  item: SyncQueueItem,
+  serverRow: Record<string, unknown>,
+): { changes: Record<string, unknown>; conflicts: SyncConflictField[] } {
+  const policy = CONFLICT_POLICY[item.table];
+  const base = item.base ?? null;
+  const localAt = item.payload.updated_at;
+  const serverAt = serverRow.updated_at;
+  const serverIsNewer = isAfter(serverAt, localAt);
+
+  const changes: Record<string, unknown> = {};
+  const conflicts: SyncConflictField[] = [];
+
+  for (const [field, localValue] of Object.entries(item.payload)) {
+    if (META_FIELDS.has(field) || SERVER_OWNED_FIELDS[item.table]?.has(field)) continue;
+    const serverValue = serverRow[field];
+    if (isSameValue(localValue, serverValue)) continue;
+
+    if (base) {
+      // Unchanged here — whatever the server has is newer
+      if (isSameValue(localValue, base[field])) continue;
+      // Changed only here
+      if (isSameValue(serverValue, base[field])) {
+        changes[field] = localValue;
+        continue;
+      }
+    } else if (policy === 'last_writer_wins' && !serverIsNewer) {
+      changes[field] = localValue;
+      continue;
+    }
+
+    const winner = policy === 'last_writer_wins' && !serverIsNewer ? 'local' : 'server';
+    if (winner === 'local') changes[field] = localValue;
+    conflicts.push({ field, localValue, serverValue, winner });
+  }
+
+  if (Object.keys(changes).length > 0 && typeof localAt === 'string') {
+    changes.updated_at = serverIsNewer ? serverAt : localAt;
+  }
+
+  return { changes, conflicts };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Push every queued item for one table. Server rows are looked up in bulk;
+ * rows the server doesn't have are upserted together and deletes go out as
+ * one request. Edits to existing rows are merged and sent individually,
+ * since a partial upsert can't skip NOT NULL columns.
+ * Returns the items that failed, with their errors.
+ */
+async function syncBatch(table: SyncTable, items: SyncQueueItem[], shopId: string): Promise<Map<string, unknown>> {
+  const supabaseTable = TABLE_MAP[table];
+  const failures = new Map<string, unknown>();
+  const failAll = (group: SyncQueueItem[], err: unknown) => group.forEach(item => failures.set(item.id, err));
+
+  const serverRows = new Map<string, Record<string, unknown>>();
+  const rowIds = [...new Set(items.map(item => item.payload.id as string))];
+  try {
+    for (const ids of chunk(rowIds, SYNC_BATCH_SIZE)) {
+      const { data, error } = await supabase
+        .from(supabaseTable)
+        .select<string, Record<string, unknown>>(SELECT_COLUMNS[supabaseTable] ?? '*')
+        .eq('shop_id', shopId)
+        .in('id', ids);
+      if (error) throw error;
+      for (const row of data as Record<string, unknown>[]) serverRows.set(row.id as string, row);
+    }
+  } catch (err) {
+    failAll(items, err);
+    return failures;
+  }
+
+  const upserts: SyncQueueItem[] = [];
+  const deletes: SyncQueueItem[] = [];
+
+  for (const item of items) {
+    const rowId = item.payload.id as string;
+    const serverRow = serverRows.get(rowId);
+    try {
+      if (item.operation === 'delete') {
+        if (!serverRow) continue;
+        // Another device edited the row after it was deleted here — keep it
+        if (isAfter(serverRow.updated_at, item.createdAt)) {
+          await recordConflict({
+            table: item.table,
+            rowId,
+            label: rowLabel(serverRow),
+            operation: 'delete',
+            policy: CONFLICT_POLICY[item.table],
+            fields: [],
+            localUpdatedAt: item.createdAt,
+            serverUpdatedAt: serverRow.updated_at as string,
+          });
+          continue;
+        }
+        deletes.push(item);
+      } else if (!serverRow) {
+        upserts.push(item);
+      } else {
+        await syncMerged(item, serverRow, shopId);
+      }
+    } catch (err) {
+      failures.set(item.id, err);
+    }
+  }
+
+  // Rows in one request must share a column set
+  const byColumns = new Map<string, SyncQueueItem[]>();
+  for (const item of upserts) {
+    const key = Object.keys(item.payload).sort().join(',');
+    byColumns.set(key, [...(byColumns.get(key) ?? []), item]);
+  }
+  for (const group of byColumns.values()) {
+    for (const batch of chunk(group, SYNC_BATCH_SIZE)) {
+      const { error } = await supabase
+        .from(supabaseTable)
+        .upsert(batch.map(item => ({ ...item.payload, shop_id: shopId })), { onConflict: 'id' });
+      if (error) failAll(batch, error);
+    }
+  }
+
+  for (const batch of chunk(deletes, SYNC_BATCH_SIZE)) {
     const { error } = await supabase
       .from(supabaseTable)
       .delete()
-      .eq('id', item.payload.id as string)
-      .eq('shop_id', shopId);
-    if (error) throw error;
+      .eq('shop_id', shopId)
+      .in('id', batch.map(item => item.payload.id as string));
+    if (error) failAll(batch, error);
+  }
+
+  return failures;
+}
+
+async function syncMerged(item: SyncQueueItem, serverRow: Record<string, unknown>, shopId: string): Promise<void> {
+  const rowId = item.payload.id as string;
+  const { changes, conflicts } = mergeWithServer(item, serverRow);
+
+  if (conflicts.length > 0) {
+    await recordConflict({
+      table: item.table,
+      rowId,
+      label: rowLabel({ ...serverRow, ...item.payload }),
+      operation: item.operation,
+      policy: CONFLICT_POLICY[item.table],
+      fields: conflicts,
+      localUpdatedAt: (item.payload.updated_at as string) ?? item.createdAt,
+      serverUpdatedAt: (serverRow.updated_at as string) ?? null,
+    });
+  }
+
+  if (Object.keys(changes).length === 0) return;
+
+  const { error } = await supabase
+    .from(TABLE_MAP[item.table])
+    .update(changes)
+    .eq('id', rowId)
+    .eq('shop_id', shopId);
+  if (error) throw error;
+}
+
+// ── Shop settings ────────────────────────────────────────────────────────────
+// The shops row is keyed by id rather than shop_id and only owners edit it,
+// so it skips the row queue: the latest unsent settings are kept on their own.
+
+function toSupabaseShop(profile: ShopProfile): Record<string, unknown> {
+  const va = profile.virtualAccount;
+  return {
+    name: profile.name,
+    bio: profile.bio,
+    slug: profile.slug,
+    phone: profile.phone,
+    address: profile.address,
+    accent_color: profile.accentColor,
+    delivery_radius: profile.deliveryRadius,
+    opening_hours: profile.openingHours,
+    language: profile.language,
+    virtual_account_provider: va?.provider ?? null,
+    virtual_account_number: va?.accountNumber ?? null,
+    virtual_account_bank_name: va?.bankName ?? null,
+    virtual_account_account_name: va?.accountName ?? null,
+    virtual_account_is_active: va?.isActive ?? false,
+    promo_codes: profile.promoCodes,
+    tax_settings: profile.taxSettings,
+    loyalty_settings: profile.loyaltySettings,
+  };
+}
+
+/**
+ * Send the shop's settings to the server. If that fails they are kept, sent
+ * again on every flush until they land, and pulls leave them alone meanwhile.
+ */
+export async function pushShopProfile(shopId: string, profile: ShopProfile): Promise<void> {
+  await withQueueLock(() => saveShopUpdate(toSupabaseShop(profile)));
+  await sendShopUpdate(shopId);
+}
+
+async function sendShopUpdate(shopId: string): Promise<void> {
+  if (shopId !== getActiveShop()) return;
+  const update = await withQueueLock(loadShopUpdate);
+  if (!update) return;
+  const netState = await NetInfo.fetch();
+  if (!netState.isConnected) return;
+
+  const { error } = await supabase.from('shops').update(update).eq('id', shopId);
+  if (error) {
+    recordSyncError(error);
+    throw error;
+  }
+  await withQueueLock(async () => {
+    // Newer settings saved while this one was in flight still need sending
+    if (isSameValue(await loadShopUpdate(), update)) await saveShopUpdate(null);
+  });
+}
+
+/**
+ * Settle a recorded conflict. Choosing the side that already won just clears
+ * the record; choosing the other side queues a write that re-applies it.
+ */
+export async function resolveSyncConflict(conflictId: string, keep: 'local' | 'server'): Promise<void> {
+  const conflicts = await loadSyncConflicts();
+  const conflict = conflicts.find(c => c.id === conflictId);
+  if (!conflict) return;
+
+  const now = new Date().toISOString();
+
+  if (conflict.operation === 'delete') {
+    if (keep === 'local') {
+      await enqueueSync({ table: conflict.table, operation: 'delete', payload: { id: conflict.rowId } });
+    }
+  } else {
+    const overridden = conflict.fields.filter(f => f.winner !== keep);
+    if (overridden.length > 0) {
+      const payload: Record<string, unknown> = { id: conflict.rowId, updated_at: now };
+      const base: Record<string, unknown> = {};
+      for (const f of overridden) {
+        payload[f.field] = keep === 'local' ? f.localValue : f.serverValue;
+        base[f.field] = keep === 'local' ? f.serverValue : f.localValue;
+      }
+      await enqueueSync({ table: conflict.table, operation: 'update', payload, base });
+    }
   }
+
+  await saveSyncConflicts(conflicts.filter(c => c.id !== conflictId));
 }
 
 /**
@@ -110,59 +692,7 @@ export function startSyncListener(shopId: string): () => void {
   return unsubscribe;
 }
 
-// ── Pull (Supabase → AsyncStorage) ───────────────────────────────────────────
-
-function fromSupabaseProduct(row: Record<string, unknown>): Product {
-  return {
-    id: row.id as string,
-    name: row.name as string,
-    price: row.price as number,
-    stock: row.stock as number,
-    lowStockThreshold: (row.low_stock_threshold as number) ?? 5,
-    imageUri: (row.image_uri as string) ?? null,
-    category: (row.category as string) ?? '',
-    barcode: (row.barcode as string) ?? null,
-    createdAt: row.created_at as string,
-    updatedAt: row.updated_at as string,
-    isMarketplace: (row.is_marketplace as boolean) ?? false,
-    marketplaceListing: (row.marketplace_listing as Product['marketplaceListing']) ?? null,
-  };
-}
-
-function fromSupabaseSale(row: Record<string, unknown>): Sale {
-  return {
-    id: row.id as string,
-    items: (row.items as Sale['items']) ?? [],
-    total: row.total as number,
-    amountPaid: row.amount_paid as number,
-    change: (row.change as number) ?? 0,
-    cashAmount: (row.cash_amount as number) ?? (row.amount_paid as number),
-    transferAmount: (row.transfer_amount as number) ?? 0,
-    paymentMethod: (row.payment_method as Sale['paymentMethod']) ?? 'cash',
-    isCredit: (row.is_credit as boolean) ?? false,
-    customerName: (row.customer_name as string) ?? null,
-    staffId: (row.staff_id as string) ?? null,
-    staffName: (row.staff_name as string) ?? null,
-    paymentId: (row.payment_id as string) ?? null,
-    gatewayProvider: (row.gateway_provider as Sale['gatewayProvider']) ?? null,
-    createdAt: row.created_at as string,
-  };
-}
-
-function fromSupabaseOrder(row: Record<string, unknown>): Order {
-  return {
-    id: row.id as string,
-    items: (row.items as Order['items']) ?? [],
-    total: row.total as number,
-    customerName: (row.customer_name as string) ?? '',
-    customerPhone: (row.customer_phone as string) ?? '',
-    deliveryAddress: (row.delivery_address as string) ?? '',
-    status: (row.status as Order['status']) ?? 'new',
-    notes: (row.notes as string) ?? '',
-    createdAt: row.created_at as string,
-    updatedAt: row.updated_at as string,
-  };
-}
+// ── Pull (Supabase → local storage) ───────────────────────────────────────────
 
 async function fromSupabaseShop(row: Record<string, unknown>): Promise<ShopProfile> {
   // Merge with existing local profile to preserve fields not stored in Supabase
@@ -178,34 +708,295 @@ async function fromSupabaseShop(row: Record<string, unknown>): Promise<ShopProfi
     language: (row.language as ShopProfile['language']) ?? existing.language,
     openingHours: (row.opening_hours as ShopProfile['openingHours']) ?? existing.openingHours,
     deliveryRadius: (row.delivery_radius as number) ?? existing.deliveryRadius,
+    promoCodes: (row.promo_codes as ShopProfile['promoCodes']) ?? existing.promoCodes,
+    taxSettings: (row.tax_settings as ShopProfile['taxSettings']) ?? existing.taxSettings,
+    loyaltySettings: (row.loyalty_settings as ShopProfile['loyaltySettings']) ?? existing.loyaltySettings,
+  };
+}
+
+const PULL_PAGE_SIZE = 500;
+
+// synced_at is when the writing transaction started, not when it committed,
+// so a slow write can land behind a cursor a pull has already moved past.
+// Each pull re-reads this far behind its cursor; merging a row twice is harmless
+const PULL_OVERLAP_MS = 5 * 60 * 1000;
+
+// Tombstones written by the AFTER DELETE triggers in schema.sql
+const TOMBSTONE_TABLE = 'deleted_records';
+
+/**
+ * Fetch every row of `table` stamped after `since`, less the overlap, one
+ * page at a time. `synced_at` is set by the server on each write, so an edit
+ * made offline hours ago is still picked up once it finally lands.
+ */
+async function fetchChangedRows(
+  table: string,
+  shopId: string,
+  since: string | undefined,
+  cursorColumn: string,
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += PULL_PAGE_SIZE) {
+    let query = supabase.from(table).select<string, Record<string, unknown>>(SELECT_COLUMNS[table] ?? '*').eq('shop_id', shopId);
+    if (since) query = query.gt(cursorColumn, new Date(Date.parse(since) - PULL_OVERLAP_MS).toISOString());
+    const { data, error } = await query
+      .order(cursorColumn, { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PULL_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data as Record<string, unknown>[]));
+    if (data.length < PULL_PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Merge pulled rows into the local list. Rows with writes still waiting in
+ * the queue keep their local version; tombstoned rows are removed. On a full
+ * pull (`replace`) local rows the server doesn't know about are dropped
+ * unless they are still pending upload.
+ */
+function mergeRows<T extends { id: string }>(
+  local: T[],
+  changed: T[],
+  deletedIds: Set<string>,
+  pendingIds: Set<string>,
+  replace: boolean,
+): T[] {
+  const changedById = new Map(changed.filter(r => !pendingIds.has(r.id)).map(r => [r.id, r]));
+  const serverIds = new Set(changed.map(r => r.id));
+  const merged: T[] = [];
+  for (const row of local) {
+    if (deletedIds.has(row.id)) continue;
+    if (replace && !serverIds.has(row.id) && !pendingIds.has(row.id)) continue;
+    const incoming = changedById.get(row.id);
+    if (incoming) changedById.delete(row.id);
+    merged.push(incoming ?? row);
+  }
+  return [...changedById.values(), ...merged];
+}
+
+// Entries kept on the device per staff member; older ones are fetched on demand
+export const STAFF_ACTIVITY_CACHE = 100;
+
+// Newest first, de-duplicated by id, trimmed to the on-device cache size
+function mergeActivity(local: StaffActivity[], incoming: StaffActivity[]): StaffActivity[] {
+  const byId = new Map(local.map(a => [a.id, a]));
+  for (const a of incoming) byId.set(a.id, a);
+  return [...byId.values()]
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .slice(0, STAFF_ACTIVITY_CACHE);
+}
+
+/**
+ * Read a staff member's activity straight from Supabase, newest first.
+ * Pass the timestamp of the last entry you have as `before` to page back
+ * through the full history — the on-device log only keeps recent entries.
+ */
+export async function fetchStaffActivityPage(
+  shopId: string,
+  staffId: string,
+  before?: string,
+  limit = 50,
+): Promise<StaffActivity[]> {
+  let query = supabase
+    .from('staff_activity')
+    .select('*')
+    .eq('shop_id', shopId)
+    .eq('staff_id', staffId);
+  if (before) query = query.lt('created_at', before);
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data as Record<string, unknown>[]).map(row => {
+    const { staffId: _staffId, ...entry } = staffActivityCodec.fromRow(row);
+    return entry;
+  });
+}
+
+/**
+ * Rows with writes still waiting in the queue, by table, plus the stock moves
+ * this device hasn't uploaded yet so they can be replayed on pulled stock.
+ */
+async function loadPendingWrites(): Promise<{ ids: Record<string, Set<string>>; stockDeltas: Map<string, number> }> {
+  const ids: Record<string, Set<string>> = {
+    products: new Set(), sales: new Set(), sale_returns: new Set(), customers: new Set(), credit_payments: new Set(),
+    loyalty_entries: new Set(), orders: new Set(), expenses: new Set(), staff_members: new Set(),
   };
+  const stockDeltas = new Map<string, number>();
+  for (const item of await loadSyncQueue()) {
+    ids[item.table]?.add(item.payload.id as string);
+    if (item.table === 'inventory_movements') {
+      const productId = item.payload.product_id as string;
+      stockDeltas.set(productId, (stockDeltas.get(productId) ?? 0) + (item.payload.delta as number));
+    }
+  }
+  return { ids, stockDeltas };
 }
 
+function withPendingStock(product: Product, stockDeltas: Map<string, number>): Product {
+  const delta = stockDeltas.get(product.id);
+  return delta ? { ...product, stock: Math.max(0, product.stock + delta) } : product;
+}
+
+const byCreatedAtDesc = (a: { createdAt: string }, b: { createdAt: string }) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
 export async function pullFromSupabase(shopId: string): Promise<boolean> {
+  if (shopId !== getActiveShop()) return false;
   try {
-    const [productsRes, salesRes, ordersRes, shopRes] = await Promise.all([
-      supabase.from('products').select('*').eq('shop_id', shopId),
-      supabase.from('sales').select('*').eq('shop_id', shopId).order('created_at', { ascending: false }),
-      supabase.from('orders').select('*').eq('shop_id', shopId).order('created_at', { ascending: false }),
+    const cursors = await loadPullCursors();
+    const [
+      productRows, saleRows, returnRows, customerRows, creditPaymentRows, loyaltyRows, orderRows, expenseRows, staffRows,
+      activityRows, tombstones, shopRes,
+    ] = await Promise.all([
+      fetchChangedRows('products', shopId, cursors.products, 'synced_at'),
+      fetchChangedRows('sales', shopId, cursors.sales, 'synced_at'),
+      fetchChangedRows('sale_returns', shopId, cursors.sale_returns, 'synced_at'),
+      fetchChangedRows('customers', shopId, cursors.customers, 'synced_at'),
+      fetchChangedRows('credit_payments', shopId, cursors.credit_payments, 'synced_at'),
+      fetchChangedRows('loyalty_entries', shopId, cursors.loyalty_entries, 'synced_at'),
+      fetchChangedRows('orders', shopId, cursors.orders, 'synced_at'),
+      fetchChangedRows('expenses', shopId, cursors.expenses, 'synced_at'),
+      fetchChangedRows('staff_members', shopId, cursors.staff_members, 'synced_at'),
+      fetchChangedRows('staff_activity', shopId, cursors.staff_activity, 'synced_at'),
+      fetchChangedRows(TOMBSTONE_TABLE, shopId, cursors[TOMBSTONE_TABLE], 'deleted_at'),
       supabase.from('shops').select('*').eq('id', shopId).single(),
     ]);
+    // Switched shops while fetching; these rows belong to the other one
+    if (shopId !== getActiveShop()) return false;
 
-    if (productsRes.data) {
-      await saveProducts(productsRes.data.map(r => fromSupabaseProduct(r as Record<string, unknown>)));
-    }
-    if (salesRes.data) {
-      await saveSales(salesRes.data.map(r => fromSupabaseSale(r as Record<string, unknown>)));
+    const deleted: Record<string, Set<string>> = {
+      products: new Set(), sales: new Set(), sale_returns: new Set(), customers: new Set(), credit_payments: new Set(),
+      loyalty_entries: new Set(), orders: new Set(), expenses: new Set(), staff_members: new Set(),
+    };
+    for (const t of tombstones) {
+      deleted[t.table_name as string]?.add(t.record_id as string);
     }
-    if (ordersRes.data) {
-      await saveOrders(ordersRes.data.map(r => fromSupabaseOrder(r as Record<string, unknown>)));
+
+    const { ids: pending, stockDeltas } = await loadPendingWrites();
+
+    const [
+      localProducts, localSales, localReturns, localCustomers, localCreditPayments, localLoyalty, localOrders, localExpenses,
+      localStaff,
+    ] = await Promise.all([
+      loadProducts(),
+      loadSales(),
+      loadSaleReturns(),
+      loadCustomers(),
+      loadCreditPayments(),
+      loadLoyaltyEntries(),
+      loadOrders(),
+      loadExpenses(),
+      loadStaff(),
+    ]);
+
+    await saveProducts(mergeRows(
+      localProducts,
+      productRows.map(row => withPendingStock(productCodec.fromRow(row), stockDeltas)),
+      deleted.products,
+      pending.products,
+      !cursors.products,
+    ));
+    await saveSales(mergeRows(
+      localSales,
+      saleRows.map(saleCodec.fromRow),
+      deleted.sales,
+      pending.sales,
+      !cursors.sales,
+    ).sort(byCreatedAtDesc));
+    await saveSaleReturns(mergeRows(
+      localReturns,
+      returnRows.map(saleReturnCodec.fromRow),
+      deleted.sale_returns,
+      pending.sale_returns,
+      !cursors.sale_returns,
+    ).sort(byCreatedAtDesc));
+    await saveCustomers(mergeRows(
+      localCustomers,
+      customerRows.map(customerCodec.fromRow),
+      deleted.customers,
+      pending.customers,
+      !cursors.customers,
+    ).sort(byCreatedAtDesc));
+    await saveCreditPayments(mergeRows(
+      localCreditPayments,
+      creditPaymentRows.map(creditPaymentCodec.fromRow),
+      deleted.credit_payments,
+      pending.credit_payments,
+      !cursors.credit_payments,
+    ).sort(byCreatedAtDesc));
+    await saveLoyaltyEntries(mergeRows(
+      localLoyalty,
+      loyaltyRows.map(loyaltyEntryCodec.fromRow),
+      deleted.loyalty_entries,
+      pending.loyalty_entries,
+      !cursors.loyalty_entries,
+    ).sort(byCreatedAtDesc));
+    await saveOrders(mergeRows(
+      localOrders,
+      orderRows.map(orderCodec.fromRow),
+      deleted.orders,
+      pending.orders,
+      !cursors.orders,
+    ).sort(byCreatedAtDesc));
+    await saveExpenses(mergeRows(
+      localExpenses,
+      expenseRows.map(expenseCodec.fromRow),
+      deleted.expenses,
+      pending.expenses,
+      !cursors.expenses,
+    ).sort(byCreatedAtDesc));
+
+    // Pulled members keep their cached log; new activity is folded in below.
+    // The roster used to be device-only, so members the server hasn't seen
+    // yet are kept rather than dropped on the first full pull.
+    const cachedLogs = new Map(localStaff.map(m => [m.id, m.activityLog]));
+    const staff = mergeRows(
+      localStaff,
+      staffRows.map(row => ({ ...staffMemberCodec.fromRow(row), activityLog: cachedLogs.get(row.id as string) ?? [] })),
+      deleted.staff_members,
+      pending.staff_members,
+      false,
+    ).sort(byCreatedAtDesc);
+    const newActivity = new Map<string, StaffActivity[]>();
+    for (const row of activityRows) {
+      const { staffId, ...entry } = staffActivityCodec.fromRow(row);
+      newActivity.set(staffId, [...(newActivity.get(staffId) ?? []), entry]);
     }
-    if (shopRes.data) {
+    await saveStaff(staff.map(m => {
+      const incoming = newActivity.get(m.id);
+      return incoming ? { ...m, activityLog: mergeActivity(m.activityLog, incoming) } : m;
+    }));
+
+    // Settings still waiting to be sent are newer than the server's
+    if (shopRes.data && !(await loadShopUpdate())) {
       const shopProfile = await fromSupabaseShop(shopRes.data as Record<string, unknown>);
       await saveShopProfile(shopProfile);
     }
 
+    // Rows come back in cursor order, so the last one is the new high-water mark
+    const nextCursors = { ...cursors };
+    const advance = (key: string, rows: Record<string, unknown>[], column: string) => {
+      if (rows.length > 0) nextCursors[key] = rows[rows.length - 1][column] as string;
+    };
+    advance('products', productRows, 'synced_at');
+    advance('sales', saleRows, 'synced_at');
+    advance('sale_returns', returnRows, 'synced_at');
+    advance('customers', customerRows, 'synced_at');
+    advance('credit_payments', creditPaymentRows, 'synced_at');
+    advance('loyalty_entries', loyaltyRows, 'synced_at');
+    advance('orders', orderRows, 'synced_at');
+    advance('expenses', expenseRows, 'synced_at');
+    advance('staff_members', staffRows, 'synced_at');
+    advance('staff_activity', activityRows, 'synced_at');
+    advance(TOMBSTONE_TABLE, tombstones, 'deleted_at');
+    await savePullCursors(nextCursors);
+
+    await publishSyncStatus({ lastPullAt: new Date().toISOString() });
     return true;
-  } catch {
+  } catch (err) {
+    recordSyncError(err);
     return false;
   }
 }
@@ -229,3 +1020,75 @@ export async function syncAll(shopId: string): Promise<{ success: boolean; error
     return { success: false, error: (err as Error)?.message ?? 'Sync failed' };
   }
 }
+
+// ── Realtime (Supabase → device, live) ───────────────────────────────────────
+
+export type RealtimeTable = 'products' | 'sales' | 'orders' | 'expenses';
+
+export type RealtimeChange =
+  | { table: 'products'; row: Product }
+  | { table: 'sales'; row: Sale }
+  | { table: 'orders'; row: Order }
+  | { table: 'expenses'; row: Expense }
+  | { table: RealtimeTable; deletedId: string };
+
+const REALTIME_TABLES: RealtimeTable[] = ['products', 'sales', 'orders', 'expenses'];
+
+/**
+ * Subscribe to Postgres changes for the shop's synced tables.
+ * Deletes arrive as tombstone inserts, since Realtime can't filter DELETE
+ * events by shop_id. Rows with writes still queued on this device are
+ * skipped — the next pull reconciles them once the queue has flushed.
+ *
+ * @returns unsubscribe function — call on cleanup
+ */
+export function startRealtimeSync(
+  shopId: string,
+  onChange: (change: RealtimeChange) => void,
+): () => void {
+  const handleRow = async (table: RealtimeTable, row: Record<string, unknown>) => {
+    if (shopId !== getActiveShop()) return;
+    const { ids, stockDeltas } = await loadPendingWrites();
+    if (ids[table].has(row.id as string)) return;
+    switch (table) {
+      case 'products':
+        onChange({ table, row: withPendingStock(productCodec.fromRow(row), stockDeltas) });
+        break;
+      case 'sales':
+        onChange({ table, row: saleCodec.fromRow(row) });
+        break;
+      case 'orders':
+        onChange({ table, row: orderCodec.fromRow(row) });
+        break;
+      case 'expenses':
+        onChange({ table, row: expenseCodec.fromRow(row) });
+        break;
+    }
+  };
+
+  let channel = supabase.channel(`shop-changes:${shopId}`);
+  for (const table of REALTIME_TABLES) {
+    channel = channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, filter: `shop_id=eq.${shopId}` },
+      ({ eventType, new: row }) => {
+        if (eventType === 'DELETE') return;
+        handleRow(table, row as Record<string, unknown>).catch(() => {});
+      },
+    );
+  }
+  channel = channel.on(
+    'postgres_changes',
+    { event: 'INSERT', schema: 'public', table: TOMBSTONE_TABLE, filter: `shop_id=eq.${shopId}` },
+    ({ new: row }) => {
+      const table = row.table_name as RealtimeTable;
+      if (!REALTIME_TABLES.includes(table) || shopId !== getActiveShop()) return;
+      onChange({ table, deletedId: row.record_id as string });
+    },
+  );
+  channel.subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
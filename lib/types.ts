@@ -13,6 +13,28 @@ export interface Product {
   updatedAt: string;
   isMarketplace: boolean;
   marketplaceListing?: MarketplaceListing | null;
+  taxExempt: boolean;
+  units: ProductUnit[]; // ways to sell it besides `unit`; `price` and `stock` are per base unit
+  // Variants (a size, a colour) are products of their own under a parent that
+  // is never sold directly; they copy the parent's name and add `variantName`
+  parentId: string | null;
+  variantName: string | null;
+  components: BundleComponent[]; // set on bundles, whose stock comes from these
+}
+
+// One product inside a bundle, e.g. 2 exercise books in a back-to-school pack
+export interface BundleComponent {
+  productId: string;
+  quantity: number; // base units of the component in one bundle
+}
+
+// A pack size sold alongside the base unit, e.g. a carton of 24 packs
+export interface ProductUnit {
+  id: string;
+  name: string;
+  factor: number; // base units in one of these
+  price: number;
+  barcode: string | null;
 }
 
 export interface MarketplaceListing {
@@ -23,9 +45,77 @@ export interface MarketplaceListing {
   isActive: boolean;
 }
 
+// Stock changes sync as deltas; the server applies them to products.stock
+export type InventoryMovementReason = 'sale' | 'adjustment' | 'receive' | 'return' | 'void';
+
+export interface InventoryMovement {
+  id: string;
+  productId: string;
+  delta: number;
+  reason: InventoryMovementReason;
+  referenceId: string | null; // e.g. the sale that caused it
+  createdAt: string;
+}
+
+// Money off a single line or the whole cart
+export type DiscountType = 'percent' | 'fixed';
+
+export interface Discount {
+  type: DiscountType;
+  value: number; // percent (0–100) or naira
+  promoCode?: string | null; // set when the discount came from a promo code
+}
+
+// Reusable code the owner hands out; dates are YYYY-MM-DD, inclusive
+export interface PromoCode {
+  id: string;
+  code: string; // stored upper-case
+  type: DiscountType;
+  value: number;
+  startsOn: string | null;
+  endsOn: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+// Shop-wide VAT; rate is a percent, e.g. 7.5
+export interface TaxSettings {
+  enabled: boolean;
+  name: string;
+  rate: number;
+  pricesIncludeTax: boolean; // true: tax is inside the shelf price, false: added at the till
+  taxId: string | null; // TIN printed on receipts
+}
+
+// How customers earn loyalty points and what the points are worth at the till
+export interface LoyaltySettings {
+  enabled: boolean;
+  spendPerPoint: number;   // naira spent to earn one point
+  pointValue: number;      // naira one point takes off a sale
+  minRedeemPoints: number; // balance needed before points can be spent
+}
+
 export interface CartItem {
   product: Product;
-  quantity: number;
+  unitId?: string | null; // one of product.units, or the base unit when unset
+  quantity: number; // in that unit
+  discount?: Discount | null;
+}
+
+// A cart parked at the till so the next customer can be served
+export interface HeldCart {
+  id: string;
+  name: string;
+  items: CartItem[];
+  discount?: Discount | null;
+  heldAt: string;
+}
+
+// A line changed on resume because stock ran out in the meantime
+export interface HeldCartAdjustment {
+  productName: string;
+  requested: number;
+  available: number;
 }
 
 export type PaymentMethod = 'cash' | 'transfer' | 'split' | 'gateway';
@@ -63,20 +153,123 @@ export interface Sale {
   paymentMethod: PaymentMethod;
   isCredit: boolean;
   customerName: string | null;
+  // Credit account the sale was charged to; older credit sales only have a name
+  customerId: string | null;
   staffId: string | null;
   staffName: string | null;
   paymentId: string | null;
   gatewayProvider: PaymentGateway | null;
+  // Naira taken off the whole cart, after line discounts; total is net of it
+  discount: number;
+  promoCode: string | null;
+  // Tax in this sale and the settings it was worked out with; inclusive
+  // tax is already part of total, exclusive tax was added to it
+  tax: number;
+  taxRate: number;
+  taxInclusive: boolean;
+  // A voided sale stays on record but no longer counts; voidedBy is the
+  // owner who approved it
+  voidedAt: string | null;
+  voidReason: string;
+  voidedBy: string | null;
+  // Points earned on this sale, and points spent on it with the naira they
+  // covered; amountPaid is only what was tendered on top of the points
+  loyaltyPointsEarned: number;
+  loyaltyPointsRedeemed: number;
+  loyaltyAmount: number;
   createdAt: string;
 }
 
 export interface SaleItem {
   productId: string;
   productName: string;
+  unitId?: string | null;
+  unitName?: string | null;
+  unitFactor?: number; // base units per quantity; stock moved by quantity * unitFactor
+  parentId?: string | null; // set when a variant was sold, so reports can group them
+  components?: BundleComponent[]; // a bundle's contents when it was sold; their stock moved instead
   price: number;
   costPrice?: number;
   quantity: number;
-  subtotal: number;
+  discount?: number; // naira taken off this line
+  subtotal: number; // price * quantity - discount
+  tax?: number;
+}
+
+// How money went back to the customer; 'credit' takes it off what a credit
+// sale still owes instead of paying anything out
+export type RefundMethod = 'cash' | 'transfer' | 'credit';
+
+export interface SaleReturnItem {
+  productId: string;
+  productName: string;
+  unitId?: string | null;
+  quantity: number;
+  amount: number; // refunded for this line, net of discounts, with any added tax
+  tax: number;
+  loyaltyAmount?: number; // the part paid with points, given back as points; missing on older returns
+  restock: boolean; // false when the goods were damaged or kept by the customer
+}
+
+// What the till asks to return; amounts are worked out from the sale
+export interface ReturnRequestItem {
+  productId: string;
+  unitId?: string | null;
+  quantity: number;
+  restock: boolean;
+}
+
+// Full or partial return against one sale; a sale can have several
+export interface SaleReturn {
+  id: string;
+  saleId: string;
+  items: SaleReturnItem[];
+  amount: number;
+  tax: number;
+  refundMethod: RefundMethod;
+  reason: string;
+  staffId: string | null;
+  staffName: string | null;
+  createdAt: string;
+}
+
+// Someone the shop sells to, picked when ringing up a sale or taking an order
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  address: string;
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreditPaymentMethod = 'cash' | 'transfer';
+
+export type LoyaltyEntryKind = 'earn' | 'redeem' | 'return' | 'void';
+
+// One change to a customer's points; the balance is the sum of them. Never edited
+export interface LoyaltyEntry {
+  id: string;
+  customerId: string;
+  saleId: string | null;
+  kind: LoyaltyEntryKind;
+  points: number; // negative when points are spent or taken back
+  staffId: string | null;
+  staffName: string | null;
+  createdAt: string;
+}
+
+// Money a customer paid back against what they owe; never edited
+export interface CreditPayment {
+  id: string;
+  customerId: string;
+  amount: number;
+  method: CreditPaymentMethod;
+  note: string;
+  staffId: string | null;
+  staffName: string | null;
+  createdAt: string;
 }
 
 export interface DailySummary {
@@ -94,6 +287,7 @@ export interface Order {
   total: number;
   customerName: string;
   customerPhone: string;
+  customerId: string | null;
   deliveryAddress: string;
   status: OrderStatus;
   createdAt: string;
@@ -107,9 +301,14 @@ export interface StaffMember {
   id: string;
   name: string;
   role: StaffRole;
-  pin: string;
+  // Salted hash of the approval PIN (see pin.ts); never synced. Shops on
+  // Supabase keep their own hash there, and hasPin says whether one is set
+  pinHash: string | null;
+  hasPin: boolean;
   isActive: boolean;
   createdAt: string;
+  updatedAt: string;
+  // Most recent entries only — the full history lives in Supabase
   activityLog: StaffActivity[];
 }
 
@@ -144,6 +343,9 @@ export interface ShopProfile {
   featuredProductIds: string[];
   language: 'en' | 'ha';
   virtualAccount: VirtualAccount | null;
+  promoCodes: PromoCode[];
+  taxSettings: TaxSettings;
+  loyaltySettings: LoyaltySettings;
 }
 
 export interface DayHours {
@@ -165,6 +367,14 @@ export interface UserProfile {
   created_at: string;
   updated_at: string;
   shop?: ShopRecord | null;
+  // Every shop the user belongs to; shop_id is the active one
+  memberships?: ShopMembership[];
+}
+
+export interface ShopMembership {
+  shop_id: string;
+  role: StaffRole;
+  shop: Pick<ShopRecord, 'id' | 'name' | 'logo_url'> | null;
 }
 
 // Supabase-side shop record (snake_case, from DB)
@@ -206,15 +416,59 @@ export interface AppSettings {
 
 // Offline sync queue
 export type SyncOperation = 'insert' | 'update' | 'delete';
-export type SyncTable = 'products' | 'sales' | 'orders' | 'payments';
+export type SyncTable = 'products' | 'sales' | 'sale_returns' | 'customers' | 'credit_payments' | 'loyalty_entries' | 'orders' | 'payments' | 'expenses' | 'staff_members' | 'staff_activity' | 'inventory_movements';
 
 export interface SyncQueueItem {
   id: string;
   table: SyncTable;
   operation: SyncOperation;
   payload: Record<string, unknown>;
+  // Server-format row as it was before the local edit; lets the flush tell
+  // which fields this device actually changed. Absent for inserts and deletes.
+  base?: Record<string, unknown> | null;
   createdAt: string;
   retryCount: number;
+  lastError?: string | null;
+}
+
+// A queue item that exhausted its retries, kept until the owner acts on it
+export interface SyncDeadLetter extends SyncQueueItem {
+  lastError: string;
+  failedAt: string;
+}
+
+// What the header indicator shows: how much is still waiting to upload and
+// when pushes and pulls last went through
+export interface SyncStatus {
+  pendingCount: number;
+  pendingByTable: Partial<Record<SyncTable, number>>;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  lastPushAt: string | null;
+  lastPullAt: string | null;
+}
+
+// Conflict resolution when two devices edit the same row
+export type SyncConflictPolicy = 'last_writer_wins' | 'server_wins';
+
+export interface SyncConflictField {
+  field: string;
+  localValue: unknown;
+  serverValue: unknown;
+  winner: 'local' | 'server';
+}
+
+export interface SyncConflict {
+  id: string;
+  table: SyncTable;
+  rowId: string;
+  label: string;
+  operation: SyncOperation;
+  policy: SyncConflictPolicy;
+  fields: SyncConflictField[];
+  localUpdatedAt: string | null;
+  serverUpdatedAt: string | null;
+  detectedAt: string;
 }
 
 // Staff invitation
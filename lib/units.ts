@@ -0,0 +1,57 @@
+import type { CartItem, Product, ProductUnit } from './types';
+
+/** The selling unit `unitId` names; null is the product's base unit. */
+export function productUnit(product: Product, unitId: string | null | undefined): ProductUnit | null {
+  if (!unitId) return null;
+  return (product.units ?? []).find(u => u.id === unitId) ?? null;
+}
+
+/** Base units in one of `unitId`; stock is always counted in base units. */
+export function unitFactor(product: Product, unitId: string | null | undefined): number {
+  return productUnit(product, unitId)?.factor ?? 1;
+}
+
+export function unitPrice(product: Product, unitId: string | null | undefined): number {
+  return productUnit(product, unitId)?.price ?? product.price;
+}
+
+export function unitName(product: Product, unitId: string | null | undefined): string | null {
+  return productUnit(product, unitId)?.name ?? product.unit;
+}
+
+// Cart, sale and return lines are one product sold in one unit
+export function lineKey(productId: string, unitId: string | null | undefined): string {
+  return unitId ? `${productId}:${unitId}` : productId;
+}
+
+export function cartItemPrice(item: CartItem): number {
+  return unitPrice(item.product, item.unitId);
+}
+
+/** The product and selling unit a scanned barcode belongs to. */
+export function findByBarcode(products: Product[], code: string): { product: Product; unitId: string | null } | null {
+  for (const product of products) {
+    if (product.barcode === code) return { product, unitId: null };
+    const unit = (product.units ?? []).find(u => u.barcode === code);
+    if (unit) return { product, unitId: unit.id };
+  }
+  return null;
+}
+
+/**
+ * Stock in the largest whole units first, e.g. "2 carton + 5 pack" for 53
+ * packs at 24 a carton. Products with no extra units show the plain count.
+ */
+export function describeStock(product: Product): string {
+  const units = [...(product.units ?? [])].filter(u => u.factor > 1).sort((a, b) => b.factor - a.factor);
+  if (units.length === 0 || product.stock <= 0) return `${product.stock}${product.unit ? ` ${product.unit}` : ''}`;
+  let left = product.stock;
+  const parts: string[] = [];
+  for (const unit of units) {
+    const count = Math.floor(left / unit.factor);
+    if (count > 0) parts.push(`${count} ${unit.name}`);
+    left -= count * unit.factor;
+  }
+  if (left > 0 || parts.length === 0) parts.push(`${left}${product.unit ? ` ${product.unit}` : ''}`);
+  return parts.join(' + ');
+}
@@ -0,0 +1,35 @@
+import type { Product } from './types';
+import { availableStock, isBundle } from './bundles';
+
+/** What a product is called on carts and receipts, e.g. "Ankara shirt (Red, L)". */
+export function productLabel(product: Product): string {
+  return product.variantName ? `${product.name} (${product.variantName})` : product.name;
+}
+
+export function variantsOf(products: Product[], parentId: string): Product[] {
+  return products.filter(p => p.parentId === parentId);
+}
+
+/** Products that have variants; their own stock is never sold or counted. */
+export function parentIds(products: Product[]): Set<string> {
+  const ids = new Set<string>();
+  for (const p of products) if (p.parentId) ids.add(p.parentId);
+  return ids;
+}
+
+// Products as the shop lists them: variants sit under their parent
+export function topLevelProducts(products: Product[]): Product[] {
+  return products.filter(p => !p.parentId);
+}
+
+/** Products whose stock should raise a low-stock alert; bundles hold none of their own. */
+export function stockedProducts(products: Product[]): Product[] {
+  const parents = parentIds(products);
+  return products.filter(p => !parents.has(p.id) && !isBundle(p));
+}
+
+/** A product's stock, or the sum across its variants when it has some. */
+export function groupStock(product: Product, products: Product[]): number {
+  const variants = variantsOf(products, product.id);
+  return variants.length > 0 ? variants.reduce((sum, v) => sum + v.stock, 0) : availableStock(product, products);
+}
@@ -2,4 +2,12 @@ const { getDefaultConfig } = require("expo/metro-config");
 
 const config = getDefaultConfig(__dirname);
 
+// expo-sqlite on web runs a wasm build that needs cross-origin isolation
+config.resolver.assetExts.push("wasm");
+config.server.enhanceMiddleware = (middleware) => (req, res, next) => {
+  res.setHeader("Cross-Origin-Embedder-Policy", "credentialless");
+  res.setHeader("Cross-Origin-Opener-Policy", "same-origin");
+  middleware(req, res, next);
+};
+
 module.exports = config;
@@ -341,3 +341,839 @@ CREATE POLICY "shop_members_read_payments" ON payments
 CREATE POLICY "service_role_manage_payments" ON payments
   FOR ALL USING (auth.role() = 'service_role')
   WITH CHECK (auth.role() = 'service_role');
+
+-- =============================================
+-- INCREMENTAL SYNC
+-- Server-stamped change time for delta pulls, and tombstones so
+-- deletions reach other devices. Run after the sections above.
+-- =============================================
+
+-- updated_at is the device's edit time (used for conflict resolution);
+-- synced_at is when the row last reached the server (used as pull cursor)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION set_synced_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.synced_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER products_synced_at
+  BEFORE INSERT OR UPDATE ON products
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+CREATE TRIGGER sales_synced_at
+  BEFORE INSERT OR UPDATE ON sales
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+CREATE TRIGGER orders_synced_at
+  BEFORE INSERT OR UPDATE ON orders
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+CREATE INDEX IF NOT EXISTS products_shop_synced_idx ON products(shop_id, synced_at);
+CREATE INDEX IF NOT EXISTS sales_shop_synced_idx ON sales(shop_id, synced_at);
+CREATE INDEX IF NOT EXISTS orders_shop_synced_idx ON orders(shop_id, synced_at);
+
+-- Tombstones for deleted rows. No FK on shop_id: rows are written while a
+-- shop's cascade delete is in progress.
+CREATE TABLE IF NOT EXISTS deleted_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS deleted_records_shop_deleted_idx ON deleted_records(shop_id, deleted_at);
+
+CREATE OR REPLACE FUNCTION record_tombstone()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.deleted_records (shop_id, table_name, record_id)
+  VALUES (OLD.shop_id, TG_TABLE_NAME, OLD.id);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER products_tombstone
+  AFTER DELETE ON products
+  FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+CREATE TRIGGER sales_tombstone
+  AFTER DELETE ON sales
+  FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+CREATE TRIGGER orders_tombstone
+  AFTER DELETE ON orders
+  FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+ALTER TABLE deleted_records ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the SECURITY DEFINER trigger above
+CREATE POLICY "shop_members_read_deleted_records" ON deleted_records
+  FOR SELECT USING (
+    shop_id IN (
+      SELECT shop_id FROM profiles
+      WHERE id = auth.uid() AND shop_id IS NOT NULL
+    ) OR
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  );
+
+-- =============================================
+-- EXPENSES
+-- Run after the incremental sync section (uses set_synced_at / record_tombstone)
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS expenses (
+  id TEXT PRIMARY KEY,
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  category TEXT DEFAULT '',
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS expenses_shop_synced_idx ON expenses(shop_id, synced_at);
+
+CREATE TRIGGER expenses_synced_at
+  BEFORE INSERT OR UPDATE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+CREATE TRIGGER expenses_tombstone
+  AFTER DELETE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "shop_members_access_expenses" ON expenses
+  FOR ALL USING (
+    shop_id IN (
+      SELECT shop_id FROM profiles
+      WHERE id = auth.uid() AND shop_id IS NOT NULL
+    ) OR
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    shop_id IN (
+      SELECT shop_id FROM profiles
+      WHERE id = auth.uid() AND shop_id IS NOT NULL
+    ) OR
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  );
+
+-- =============================================
+-- STAFF ROSTER & ACTIVITY LOG
+-- Run after the incremental sync section (uses set_synced_at / record_tombstone)
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS staff_members (
+  id TEXT PRIMARY KEY,
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'cashier' CHECK (role IN ('owner', 'cashier', 'stock_manager', 'delivery')),
+  pin_hash TEXT, -- bcrypt, set only through set_staff_pin()
+  has_pin BOOLEAN GENERATED ALWAYS AS (pin_hash IS NOT NULL) STORED,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Rosters created before PINs were hashed
+ALTER TABLE staff_members
+  ADD COLUMN IF NOT EXISTS pin_hash TEXT,
+  ADD COLUMN IF NOT EXISTS has_pin BOOLEAN GENERATED ALWAYS AS (pin_hash IS NOT NULL) STORED;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'staff_members' AND column_name = 'pin'
+  ) THEN
+    UPDATE staff_members SET pin_hash = crypt(pin, gen_salt('bf')) WHERE pin <> '';
+    ALTER TABLE staff_members DROP COLUMN pin;
+  END IF;
+END $$;
+
+-- Append-only audit trail; entries go when their staff member does
+CREATE TABLE IF NOT EXISTS staff_activity (
+  id TEXT PRIMARY KEY,
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  staff_id TEXT REFERENCES staff_members(id) ON DELETE CASCADE NOT NULL,
+  action TEXT NOT NULL,
+  details TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS staff_members_shop_synced_idx ON staff_members(shop_id, synced_at);
+CREATE INDEX IF NOT EXISTS staff_activity_shop_synced_idx ON staff_activity(shop_id, synced_at);
+CREATE INDEX IF NOT EXISTS staff_activity_staff_created_idx ON staff_activity(staff_id, created_at DESC);
+
+CREATE TRIGGER staff_members_synced_at
+  BEFORE INSERT OR UPDATE ON staff_members
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+CREATE TRIGGER staff_members_tombstone
+  AFTER DELETE ON staff_members
+  FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+CREATE TRIGGER staff_activity_synced_at
+  BEFORE INSERT OR UPDATE ON staff_activity
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+ALTER TABLE staff_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_activity ENABLE ROW LEVEL SECURITY;
+
+-- Every device in the shop sees the roster; only the owner edits it
+CREATE POLICY "owners_manage_staff_members" ON staff_members
+  FOR ALL USING (
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "shop_members_read_staff_members" ON staff_members
+  FOR SELECT USING (
+    shop_id IN (
+      SELECT shop_id FROM profiles
+      WHERE id = auth.uid() AND shop_id IS NOT NULL
+    )
+  );
+
+-- The PIN hash never leaves the server: clients read has_pin instead, and
+-- can neither select nor write pin_hash
+REVOKE SELECT, INSERT, UPDATE ON staff_members FROM anon, authenticated;
+GRANT SELECT (id, shop_id, name, role, has_pin, is_active, created_at, updated_at, synced_at)
+  ON staff_members TO authenticated;
+GRANT INSERT (id, shop_id, name, role, is_active, created_at, updated_at),
+  UPDATE (id, shop_id, name, role, is_active, created_at, updated_at)
+  ON staff_members TO authenticated;
+
+-- The owner sets a staff member's PIN, or clears it with NULL
+CREATE OR REPLACE FUNCTION set_staff_pin(target_staff_id TEXT, new_pin TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF new_pin IS NOT NULL AND new_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  UPDATE public.staff_members
+  SET pin_hash = CASE WHEN new_pin IS NULL THEN NULL ELSE crypt(new_pin, gen_salt('bf')) END
+  WHERE id = target_staff_id
+    AND shop_id IN (SELECT id FROM public.shops WHERE owner_id = auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Staff member not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE POLICY "shop_members_read_staff_activity" ON staff_activity
+  FOR SELECT USING (
+    shop_id IN (
+      SELECT shop_id FROM profiles
+      WHERE id = auth.uid() AND shop_id IS NOT NULL
+    ) OR
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "shop_members_log_staff_activity" ON staff_activity
+  FOR INSERT WITH CHECK (
+    shop_id IN (
+      SELECT shop_id FROM profiles
+      WHERE id = auth.uid() AND shop_id IS NOT NULL
+    ) OR
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  );
+
+-- =============================================
+-- INVENTORY MOVEMENTS
+-- Append-only stock ledger. Devices upload deltas and the trigger below
+-- applies them, so two tills selling the same item offline both count.
+-- Run after the incremental sync section (uses set_synced_at).
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS inventory_movements (
+  id TEXT PRIMARY KEY,
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  -- No FK: a till may still upload a sale of a product deleted elsewhere
+  product_id TEXT NOT NULL,
+  delta INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('sale', 'adjustment', 'receive', 'return')),
+  reference_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS inventory_movements_product_idx ON inventory_movements(shop_id, product_id, created_at);
+
+CREATE TRIGGER inventory_movements_synced_at
+  BEFORE INSERT OR UPDATE ON inventory_movements
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+-- Stock is derived here; the products row update bumps synced_at so the
+-- new figure is pulled back down by every device
+CREATE OR REPLACE FUNCTION apply_inventory_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.products
+  SET stock = GREATEST(0, stock + NEW.delta)
+  WHERE id = NEW.product_id AND shop_id = NEW.shop_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER inventory_movements_apply
+  AFTER INSERT ON inventory_movements
+  FOR EACH ROW EXECUTE FUNCTION apply_inventory_movement();
+
+ALTER TABLE inventory_movements ENABLE ROW LEVEL SECURITY;
+
+-- Movements are never edited or deleted once recorded
+CREATE POLICY "shop_members_read_inventory_movements" ON inventory_movements
+  FOR SELECT USING (
+    shop_id IN (
+      SELECT shop_id FROM profiles
+      WHERE id = auth.uid() AND shop_id IS NOT NULL
+    ) OR
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  );
+
+CREATE POLICY "shop_members_record_inventory_movements" ON inventory_movements
+  FOR INSERT WITH CHECK (
+    shop_id IN (
+      SELECT shop_id FROM profiles
+      WHERE id = auth.uid() AND shop_id IS NOT NULL
+    ) OR
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  );
+
+-- =============================================
+-- REALTIME
+-- Broadcast row changes to the shop's other devices. Deletes are picked
+-- up from deleted_records, since DELETE events can't be filtered by shop.
+-- =============================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE products, sales, orders, expenses, deleted_records;
+
+-- =============================================
+-- ENTITY CODEC COLUMNS
+-- Columns lib/codecs writes and reads that the tables above don't declare
+-- =============================================
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS cost_price NUMERIC,
+  ADD COLUMN IF NOT EXISTS unit TEXT,
+  ADD COLUMN IF NOT EXISTS barcode TEXT;
+
+CREATE INDEX IF NOT EXISTS products_shop_barcode_idx ON products(shop_id, barcode);
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS staff_name TEXT;
+
+-- =============================================
+-- SHOP MEMBERSHIPS
+-- A user can belong to several shops. profiles.shop_id is only the shop the
+-- app opens, moved by switch_shop(); what a user may read and write goes by
+-- membership, so the shop member policies above are replaced at the end of
+-- this section.
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS shop_memberships (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL DEFAULT 'cashier'
+    CHECK (role IN ('owner', 'cashier', 'stock_manager', 'delivery')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, shop_id)
+);
+
+-- Existing links: every profile's current shop, and every shop's owner
+INSERT INTO shop_memberships (user_id, shop_id, role)
+SELECT id, shop_id, role FROM profiles WHERE shop_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO shop_memberships (user_id, shop_id, role)
+SELECT owner_id, id, 'owner' FROM shops
+ON CONFLICT (user_id, shop_id) DO UPDATE SET role = 'owner';
+
+-- Creating a shop, accepting an invite and owner role changes all go
+-- through profiles, so record the membership from there
+CREATE OR REPLACE FUNCTION record_shop_membership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.shop_id IS NOT NULL THEN
+    INSERT INTO public.shop_memberships (user_id, shop_id, role)
+    VALUES (NEW.id, NEW.shop_id, NEW.role)
+    ON CONFLICT (user_id, shop_id) DO UPDATE SET role = EXCLUDED.role;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER profiles_shop_membership
+  AFTER INSERT OR UPDATE OF shop_id, role ON profiles
+  FOR EACH ROW EXECUTE FUNCTION record_shop_membership();
+
+-- Make another of the caller's shops the active one
+CREATE OR REPLACE FUNCTION switch_shop(target_shop_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  member_role TEXT;
+BEGIN
+  SELECT role INTO member_role FROM public.shop_memberships
+  WHERE user_id = auth.uid() AND shop_id = target_shop_id;
+
+  IF member_role IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this shop';
+  END IF;
+
+  UPDATE public.profiles
+  SET shop_id = target_shop_id, role = member_role
+  WHERE id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE shop_memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "users_read_own_memberships" ON shop_memberships
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "owners_manage_memberships" ON shop_memberships
+  FOR ALL USING (
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  );
+
+-- Whether the caller belongs to the shop, as a member or its owner. It
+-- reads shop_memberships and shops past their own policies, which refer to
+-- each other and would otherwise recurse.
+CREATE OR REPLACE FUNCTION is_shop_member(target_shop_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.shop_memberships
+    WHERE user_id = auth.uid() AND shop_id = target_shop_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.shops
+    WHERE id = target_shop_id AND owner_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Members see the name of every shop they can switch to
+DROP POLICY IF EXISTS "staff_read_shop" ON shops;
+CREATE POLICY "members_read_shop" ON shops
+  FOR SELECT USING (is_shop_member(id));
+
+DROP POLICY IF EXISTS "shop_members_access_products" ON products;
+CREATE POLICY "shop_members_access_products" ON products
+  FOR ALL USING (is_shop_member(shop_id))
+  WITH CHECK (is_shop_member(shop_id));
+
+DROP POLICY IF EXISTS "shop_members_access_sales" ON sales;
+CREATE POLICY "shop_members_access_sales" ON sales
+  FOR ALL USING (is_shop_member(shop_id))
+  WITH CHECK (is_shop_member(shop_id));
+
+DROP POLICY IF EXISTS "shop_members_access_orders" ON orders;
+CREATE POLICY "shop_members_access_orders" ON orders
+  FOR ALL USING (is_shop_member(shop_id))
+  WITH CHECK (is_shop_member(shop_id));
+
+DROP POLICY IF EXISTS "shop_members_read_payments" ON payments;
+CREATE POLICY "shop_members_read_payments" ON payments
+  FOR SELECT USING (is_shop_member(shop_id));
+
+DROP POLICY IF EXISTS "shop_members_read_deleted_records" ON deleted_records;
+CREATE POLICY "shop_members_read_deleted_records" ON deleted_records
+  FOR SELECT USING (is_shop_member(shop_id));
+
+DROP POLICY IF EXISTS "shop_members_access_expenses" ON expenses;
+CREATE POLICY "shop_members_access_expenses" ON expenses
+  FOR ALL USING (is_shop_member(shop_id))
+  WITH CHECK (is_shop_member(shop_id));
+
+DROP POLICY IF EXISTS "shop_members_read_staff_members" ON staff_members;
+CREATE POLICY "shop_members_read_staff_members" ON staff_members
+  FOR SELECT USING (is_shop_member(shop_id));
+
+DROP POLICY IF EXISTS "shop_members_read_staff_activity" ON staff_activity;
+CREATE POLICY "shop_members_read_staff_activity" ON staff_activity
+  FOR SELECT USING (is_shop_member(shop_id));
+
+DROP POLICY IF EXISTS "shop_members_log_staff_activity" ON staff_activity;
+CREATE POLICY "shop_members_log_staff_activity" ON staff_activity
+  FOR INSERT WITH CHECK (is_shop_member(shop_id));
+
+DROP POLICY IF EXISTS "shop_members_read_inventory_movements" ON inventory_movements;
+CREATE POLICY "shop_members_read_inventory_movements" ON inventory_movements
+  FOR SELECT USING (is_shop_member(shop_id));
+
+DROP POLICY IF EXISTS "shop_members_record_inventory_movements" ON inventory_movements;
+CREATE POLICY "shop_members_record_inventory_movements" ON inventory_movements
+  FOR INSERT WITH CHECK (is_shop_member(shop_id));
+
+-- =============================================
+-- DISCOUNTS & PROMO CODES
+-- Sales keep the cart-level discount and the promo code used; line
+-- discounts live in items. Promo codes are shop settings, like opening_hours.
+-- =============================================
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS discount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS promo_code TEXT;
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS promo_codes JSONB DEFAULT '[]'::jsonb;
+
+-- =============================================
+-- TAX
+-- Shops choose whether prices include VAT; each sale keeps the tax it
+-- charged and the rate used, so remittance totals survive rate changes.
+-- Per-line tax lives in items.
+-- =============================================
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS tax_exempt BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS tax NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_rate NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS tax_settings JSONB;
+
+-- =============================================
+-- SALE RETURNS
+-- Full or partial returns against a completed sale. Restocked items come
+-- back through inventory_movements with reason 'return', so stock is
+-- still only changed by the movement trigger.
+-- Run after the incremental sync section (uses set_synced_at / record_tombstone)
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS sale_returns (
+  id TEXT PRIMARY KEY,
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  sale_id TEXT REFERENCES sales(id) ON DELETE CASCADE NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  tax NUMERIC NOT NULL DEFAULT 0,
+  refund_method TEXT NOT NULL DEFAULT 'cash'
+    CHECK (refund_method IN ('cash', 'transfer', 'credit')),
+  reason TEXT DEFAULT '',
+  staff_id TEXT,
+  staff_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS sale_returns_shop_synced_idx ON sale_returns(shop_id, synced_at);
+CREATE INDEX IF NOT EXISTS sale_returns_sale_idx ON sale_returns(sale_id);
+
+CREATE TRIGGER sale_returns_synced_at
+  BEFORE INSERT OR UPDATE ON sale_returns
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+CREATE TRIGGER sale_returns_tombstone
+  AFTER DELETE ON sale_returns
+  FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+ALTER TABLE sale_returns ENABLE ROW LEVEL SECURITY;
+
+-- Returns are recorded once and never edited
+CREATE POLICY "shop_members_read_sale_returns" ON sale_returns
+  FOR SELECT USING (is_shop_member(shop_id));
+
+CREATE POLICY "shop_members_record_sale_returns" ON sale_returns
+  FOR INSERT WITH CHECK (is_shop_member(shop_id));
+
+-- =============================================
+-- VOIDED SALES
+-- A void keeps the sale on record with who approved it and why. Its items
+-- go back on the shelf through inventory_movements with reason 'void'.
+-- The owner's PIN is checked here by approve_void(), never on the phone,
+-- and check_sale_void() keeps anyone from voiding a sale without it.
+-- =============================================
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS void_reason TEXT NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS voided_by TEXT;
+
+ALTER TABLE inventory_movements DROP CONSTRAINT IF EXISTS inventory_movements_reason_check;
+ALTER TABLE inventory_movements ADD CONSTRAINT inventory_movements_reason_check
+  CHECK (reason IN ('sale', 'adjustment', 'receive', 'return', 'void'));
+
+-- Every PIN check for a void, wrong PINs included so guessing can be locked out
+CREATE TABLE IF NOT EXISTS void_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  sale_id TEXT NOT NULL, -- no foreign key: the sale may not have synced yet
+  reason TEXT NOT NULL DEFAULT '',
+  requested_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  approved_by TEXT REFERENCES staff_members(id) ON DELETE SET NULL, -- NULL when the PIN was wrong
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS void_approvals_shop_created_idx ON void_approvals(shop_id, created_at);
+
+ALTER TABLE void_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Written only by approve_void()
+CREATE POLICY "owners_read_void_approvals" ON void_approvals
+  FOR SELECT USING (
+    shop_id IN (SELECT id FROM shops WHERE owner_id = auth.uid())
+  );
+
+-- Check an owner PIN keyed in on a shop member's phone and record the
+-- attempt. Returns the approving owner's roster entry, or no row when the PIN
+-- matches no active owner. Five wrong PINs in 15 minutes lock voids until
+-- the oldest of them is 15 minutes old.
+CREATE OR REPLACE FUNCTION approve_void(
+  target_shop_id UUID,
+  target_sale_id TEXT,
+  void_reason TEXT,
+  owner_pin TEXT
+)
+RETURNS TABLE (staff_id TEXT, staff_name TEXT) AS $$
+DECLARE
+  approver public.staff_members%ROWTYPE;
+BEGIN
+  IF NOT public.is_shop_member(target_shop_id) THEN
+    RAISE EXCEPTION 'Not a member of this shop';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.void_approvals
+    WHERE shop_id = target_shop_id AND approved_by IS NULL
+      AND created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many wrong PINs';
+  END IF;
+
+  SELECT * INTO approver FROM public.staff_members
+  WHERE shop_id = target_shop_id AND role = 'owner' AND is_active
+    AND pin_hash IS NOT NULL AND pin_hash = crypt(owner_pin, pin_hash)
+  LIMIT 1;
+
+  INSERT INTO public.void_approvals (shop_id, sale_id, reason, requested_by, approved_by)
+  VALUES (target_shop_id, target_sale_id, void_reason, auth.uid(), approver.id);
+
+  IF approver.id IS NOT NULL THEN
+    RETURN QUERY SELECT approver.id, approver.name;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Members write sales through the sync queue, so the void columns are
+-- guarded here: a sale is only voided once approve_void() has accepted an
+-- owner PIN for it, and a void is never changed or undone. The sale may
+-- reach the server already voided when it was voided before it synced.
+CREATE OR REPLACE FUNCTION check_sale_void()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.voided_at IS NOT NULL THEN
+    IF NEW.voided_at IS DISTINCT FROM OLD.voided_at
+      OR NEW.void_reason IS DISTINCT FROM OLD.void_reason
+      OR NEW.voided_by IS DISTINCT FROM OLD.voided_by THEN
+      RAISE EXCEPTION 'A void cannot be changed';
+    END IF;
+  ELSIF NEW.voided_at IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.void_approvals
+    WHERE shop_id = NEW.shop_id AND sale_id = NEW.id AND approved_by IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Void not approved';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sales_check_void
+  BEFORE INSERT OR UPDATE ON sales
+  FOR EACH ROW EXECUTE FUNCTION check_sale_void();
+
+-- =============================================
+-- CUSTOMER CREDIT
+-- Credit sales are charged to a customer account. What a customer owes is
+-- worked out on the device from their credit sales, credit refunds and the
+-- repayments below, so there is no stored balance to drift.
+-- Run after the incremental sync section (uses set_synced_at / record_tombstone)
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS customers (
+  id TEXT PRIMARY KEY,
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  phone TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS customer_id TEXT REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS credit_payments (
+  id TEXT PRIMARY KEY,
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  customer_id TEXT REFERENCES customers(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  method TEXT NOT NULL DEFAULT 'cash' CHECK (method IN ('cash', 'transfer')),
+  note TEXT DEFAULT '',
+  staff_id TEXT,
+  staff_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS customers_shop_synced_idx ON customers(shop_id, synced_at);
+CREATE INDEX IF NOT EXISTS sales_customer_idx ON sales(customer_id);
+CREATE INDEX IF NOT EXISTS credit_payments_shop_synced_idx ON credit_payments(shop_id, synced_at);
+CREATE INDEX IF NOT EXISTS credit_payments_customer_idx ON credit_payments(customer_id);
+
+CREATE TRIGGER customers_synced_at
+  BEFORE INSERT OR UPDATE ON customers
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+CREATE TRIGGER customers_tombstone
+  AFTER DELETE ON customers
+  FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+CREATE TRIGGER credit_payments_synced_at
+  BEFORE INSERT OR UPDATE ON credit_payments
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+CREATE TRIGGER credit_payments_tombstone
+  AFTER DELETE ON credit_payments
+  FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "shop_members_access_customers" ON customers
+  FOR ALL USING (is_shop_member(shop_id))
+  WITH CHECK (is_shop_member(shop_id));
+
+-- Repayments are recorded once and never edited
+CREATE POLICY "shop_members_read_credit_payments" ON credit_payments
+  FOR SELECT USING (is_shop_member(shop_id));
+
+CREATE POLICY "shop_members_record_credit_payments" ON credit_payments
+  FOR INSERT WITH CHECK (is_shop_member(shop_id));
+
+-- =============================================
+-- CUSTOMER DIRECTORY
+-- Every sale and order can be linked to a saved customer. The typed name and
+-- phone stay on the order as a snapshot of what was entered at the time.
+-- =============================================
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS address TEXT DEFAULT '',
+  ADD COLUMN IF NOT EXISTS notes TEXT DEFAULT '';
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS customer_id TEXT REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS orders_customer_idx ON orders(customer_id);
+
+-- =============================================
+-- LOYALTY POINTS
+-- Customers earn points on what they pay and can spend them at checkout.
+-- A customer's balance is the sum of their ledger entries below; voids and
+-- returns add reversing entries rather than editing earlier ones.
+-- =============================================
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS loyalty_settings JSONB;
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS loyalty_points_earned INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS loyalty_points_redeemed INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS loyalty_amount NUMERIC NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS loyalty_entries (
+  id TEXT PRIMARY KEY,
+  shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  customer_id TEXT REFERENCES customers(id) ON DELETE CASCADE NOT NULL,
+  sale_id TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('earn', 'redeem', 'return', 'void')),
+  points INTEGER NOT NULL DEFAULT 0,
+  staff_id TEXT,
+  staff_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS loyalty_entries_shop_synced_idx ON loyalty_entries(shop_id, synced_at);
+CREATE INDEX IF NOT EXISTS loyalty_entries_customer_idx ON loyalty_entries(customer_id);
+
+CREATE TRIGGER loyalty_entries_synced_at
+  BEFORE INSERT OR UPDATE ON loyalty_entries
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+CREATE TRIGGER loyalty_entries_tombstone
+  AFTER DELETE ON loyalty_entries
+  FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+ALTER TABLE loyalty_entries ENABLE ROW LEVEL SECURITY;
+
+-- Ledger entries are recorded once and never edited
+CREATE POLICY "shop_members_read_loyalty_entries" ON loyalty_entries
+  FOR SELECT USING (is_shop_member(shop_id));
+
+CREATE POLICY "shop_members_record_loyalty_entries" ON loyalty_entries
+  FOR INSERT WITH CHECK (is_shop_member(shop_id));
+
+-- =============================================
+-- UNITS OF MEASURE
+-- Stock is counted in a product's base unit. Extra selling units (a pack, a
+-- carton) each say how many base units they hold and carry their own price
+-- and barcode. Sale lines record the unit and factor they were sold in, and
+-- inventory movements are always in base units.
+-- =============================================
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS units JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- =============================================
+-- PRODUCT VARIANTS
+-- A variant (a size, a colour, a flavour) is a product row of its own with
+-- its own price, stock, low-stock threshold and barcode, pointing at the
+-- parent it belongs to. The parent groups them on the Products and
+-- Marketplace tabs and is never sold directly.
+-- =============================================
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS parent_id TEXT REFERENCES products(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS variant_name TEXT;
+
+CREATE INDEX IF NOT EXISTS products_parent_idx ON products(parent_id);
+
+-- =============================================
+-- BUNDLES
+-- A bundle (a back-to-school pack, a hamper) lists the products inside it
+-- and has its own price. It holds no stock of its own: what can be sold is
+-- worked out from its components, and selling, returning or voiding one
+-- moves the components' stock. Sale lines keep the components they were sold
+-- with so later edits to the bundle don't change old sales.
+-- =============================================
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS components JSONB NOT NULL DEFAULT '[]'::jsonb;